@@ -4,6 +4,12 @@ import express from 'express';
 import { fileURLToPath } from 'node:url';
 import { dirname, join, resolve } from 'node:path';
 import bootstrap from './src/main.server';
+import { ContentStore } from './server/api/content-store';
+import { contentApiRouter } from './server/api/content-api';
+import { contentFeedsRouter } from './server/api/content-feeds';
+import { contentRedirectsRouter } from './server/api/content-redirects';
+import { LOCALE_PREFERENCE } from './src/app/core/services/locale.service';
+import { readLocaleCookie } from './src/app/core/i18n/locales';
 
 // The Express app is exported so that it can be used by serverless Functions.
 export function app(): express.Express {
@@ -17,8 +23,19 @@ export function app(): express.Express {
   server.set('view engine', 'html');
   server.set('views', browserDistFolder);
 
-  // Example Express Rest API endpoints
-  // server.get('/api/**', (req, res) => { });
+  // Local content API (posts, categories, authors, comments, banners)
+  // backed by JSON files, seeded from the mock data on first run.
+  const contentDataDir =
+    process.env['CONTENT_DATA_DIR'] || join(process.cwd(), 'content-data');
+  const contentStore = new ContentStore(contentDataDir);
+  server.use('/api', contentApiRouter(contentStore));
+
+  // Sitemap and RSS feed, built from the same content store
+  server.use(contentFeedsRouter(contentStore));
+
+  // Permanent redirects for legacy URLs (flat category paths)
+  server.use(contentRedirectsRouter(contentStore));
+
   // Serve static files from /browser
   server.get('**', express.static(browserDistFolder, {
     maxAge: '1y',
@@ -35,7 +52,14 @@ export function app(): express.Express {
         documentFilePath: indexHtml,
         url: `${protocol}://${headers.host}${originalUrl}`,
         publicPath: browserDistFolder,
-        providers: [{ provide: APP_BASE_HREF, useValue: baseUrl }],
+        providers: [
+          { provide: APP_BASE_HREF, useValue: baseUrl },
+          // UI language chosen by the user (blog_locale cookie)
+          {
+            provide: LOCALE_PREFERENCE,
+            useValue: readLocaleCookie(headers.cookie),
+          },
+        ],
       })
       .then((html) => res.send(html))
       .catch((err) => next(err));
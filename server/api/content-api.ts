@@ -0,0 +1,579 @@
+import express, { Request, Response } from 'express';
+import type {
+  BlogFilters,
+  BlogPagination,
+  BlogPost,
+  BlogSeries,
+  BlogSortBy,
+} from '../../src/app/core/models/blog.interface';
+import type { BlogComment } from '../../src/app/core/models/comentario.interface';
+import type { Banner } from '../../src/app/core/models/banner.interface';
+import type { BlogCategory } from '../../src/app/core/models/categoria.interface';
+import type { BlogAuthor } from '../../src/app/core/models/author.interface';
+import type {
+  LaravelResourceCollection,
+  LaravelResource,
+} from '../../src/app/core/models/laravel-response.model';
+import { isBlogLocale } from '../../src/app/core/i18n/locales';
+import type { ApiBlogPost } from '../../src/app/core/data-sources/blog-api.mapper';
+import {
+  applyPostFilters,
+  buildPostArchive,
+  buildPostFacets,
+  buildSeriesDetail,
+  findAdjacentPosts,
+  paginateItems,
+  READING_TIME_BUCKETS,
+  sortPosts,
+} from '../../src/app/core/data-sources/blog-query';
+import {
+  getListedPosts,
+  isPostReachable,
+  withResolvedStatus,
+} from '../../src/app/core/data-sources/post-publishing';
+import {
+  buildAuthorProfile,
+  buildAuthorSummaries,
+} from '../../src/app/core/data-sources/author-profile';
+import { buildTags } from '../../src/app/core/data-sources/blog-tags';
+import { toPublicComment } from '../../src/app/core/data-sources/public-comments';
+import { BlogSearchIndex } from '../../src/app/core/search/blog-search-index';
+import { RelatedPostsIndex } from '../../src/app/core/search/related-posts-index';
+import { ContentStore } from './content-store';
+import { readPosts } from './content-posts';
+import type { StoredAuthorProfile, StoredTagMetadata } from './content-seed';
+
+const DEFAULT_PER_PAGE = 12;
+const MAX_PER_PAGE = 100;
+
+const SORT_FIELDS: BlogSortBy[] = [
+  'publishedAt',
+  'createdAt',
+  'updatedAt',
+  'title',
+  'views',
+  'likes',
+  'commentsCount',
+  'readingTime',
+  'relevance',
+];
+
+const READING_TIME_VALUES = READING_TIME_BUCKETS.map(
+  (bucket) => bucket.value as string
+);
+
+/**
+ * Router Express que expone el contenido del blog bajo /api
+ * Reproduce las rutas y los envoltorios de la API Laravel que consume
+ * HttpBlogDataSource, para poder trabajar sin backend externo.
+ */
+export function contentApiRouter(store: ContentStore): express.Router {
+  const router = express.Router();
+  const likes = new Set<string>();
+  const categoryName = (id: string) =>
+    store
+      .read<BlogCategory>('categories')
+      .find((category) => category.id === id)?.name;
+  const searchIndex = new BlogSearchIndex(categoryName);
+  const relatedIndex = new RelatedPostsIndex();
+
+  // POSTS
+
+  router.get('/posts', (req, res) => {
+    const filters = parseBlogFilters(req.query);
+    const { page, perPage } = parsePagination(req.query);
+
+    // Solo lo publicado: los programados cuentan cuando llega su fecha y
+    // los borradores nunca salen por la API pública
+    const now = new Date();
+    const candidates = getListedPosts(readPosts(store), now);
+    if (filters.search || filters.excludeTerms) {
+      // El índice solo reindexa los posts que cambiaron en disco
+      searchIndex.sync(candidates);
+    }
+    let posts = applyPostFilters(candidates, filters, now, searchIndex);
+    posts = sortPosts(
+      posts,
+      filters.sortBy,
+      filters.sortDirection,
+      filters.search
+    );
+
+    // Las facetas van junto a la colección, como un `additional()` de Laravel
+    res.json({
+      ...toResourceCollection(
+        paginateItems(posts, page, perPage),
+        buildPagination(page, perPage, posts.length),
+        req
+      ),
+      facets: buildPostFacets(
+        candidates,
+        filters,
+        now,
+        searchIndex,
+        categoryName
+      ),
+    });
+  });
+
+  router.get('/posts/suggest', (req, res) => {
+    const search = asString(req.query['search']);
+
+    searchIndex.sync(getListedPosts(readPosts(store), new Date()));
+
+    res.json({
+      data: { suggestion: search ? searchIndex.suggest(search) : null },
+    });
+  });
+
+  router.get('/posts/stats', (_req, res) => {
+    const posts = getListedPosts(readPosts(store), new Date());
+    const sum = (pick: (post: (typeof posts)[number]) => number) =>
+      posts.reduce((total, post) => total + pick(post), 0);
+
+    res.json({
+      data: {
+        totalPosts: posts.length,
+        totalViews: sum((post) => post.views),
+        totalLikes: sum((post) => post.likes),
+        totalComments: sum((post) => post.commentsCount),
+        avgReadingTime: posts.length
+          ? Math.round(sum((post) => post.readingTime) / posts.length)
+          : 0,
+      },
+    });
+  });
+
+  router.get('/posts/archive', (req, res) => {
+    const { locale } = parseBlogFilters(req.query);
+    const now = new Date();
+    const posts = getListedPosts(readPosts(store), now);
+
+    res.json({
+      data: buildPostArchive(applyPostFilters(posts, { locale }, now), locale),
+    });
+  });
+
+  router.get('/posts/id/:id', (req, res) => {
+    const post = readPosts(store).find((item) => item.id === req.params['id']);
+    sendResource(res, toReachablePost(post));
+  });
+
+  router.get('/posts/:id/related', (req, res) => {
+    const posts = readPosts(store);
+    const current = posts.find((post) => post.id === req.params['id']);
+    const limit = toPositiveInt(req.query['limit'], 3);
+
+    if (!current) {
+      notFound(res);
+      return;
+    }
+
+    // Los vecinos solo se recalculan si cambian los posts o las series
+    const now = new Date();
+    relatedIndex.sync(
+      getListedPosts(posts, now),
+      store.read<BlogSeries>('series'),
+      now
+    );
+
+    res.json({ data: relatedIndex.getRelated(current.id, limit) });
+  });
+
+  router.get('/posts/:id/adjacent', (req, res) => {
+    const posts = getListedPosts(readPosts(store), new Date());
+    const scope =
+      asString(req.query['scope']) === 'category' ? 'category' : 'all';
+
+    if (!posts.some((post) => post.id === req.params['id'])) {
+      notFound(res);
+      return;
+    }
+
+    res.json({ data: findAdjacentPosts(posts, req.params['id'], scope) });
+  });
+
+  router.get('/posts/:id/series', (req, res) => {
+    const series = store
+      .read<BlogSeries>('series')
+      .find((item) => item.postIds.includes(req.params['id']));
+
+    res.json({
+      data: series
+        ? buildSeriesDetail(
+            series,
+            getListedPosts(readPosts(store), new Date())
+          )
+        : null,
+    });
+  });
+
+  router.post('/posts/:id/views', (req, res) => {
+    const posts = store.read<ApiBlogPost>('posts');
+    const post = posts.find((item) => item.id === req.params['id']);
+
+    if (!post) {
+      notFound(res);
+      return;
+    }
+
+    post.views += 1;
+    store.write('posts', posts);
+    res.json({ data: { views: post.views } });
+  });
+
+  router.post('/posts/:id/like', (req, res) => {
+    const posts = store.read<ApiBlogPost>('posts');
+    const post = posts.find((item) => item.id === req.params['id']);
+
+    if (!post) {
+      notFound(res);
+      return;
+    }
+
+    // Un like por cliente (IP) y post, alternando en cada llamada
+    const key = `${post.id}:${req.ip}`;
+    const liked = !likes.has(key);
+    if (liked) {
+      likes.add(key);
+      post.likes += 1;
+    } else {
+      likes.delete(key);
+      post.likes = Math.max(0, post.likes - 1);
+    }
+
+    store.write('posts', posts);
+    res.json({ data: { liked, totalLikes: post.likes } });
+  });
+
+  router.get('/posts/:slug', (req, res) => {
+    const post = readPosts(store).find(
+      (item) => item.slug === req.params['slug']
+    );
+    sendResource(res, toReachablePost(post));
+  });
+
+  // CATEGORÍAS Y AUTORES
+
+  router.get('/categories', (_req, res) => {
+    res.json({ data: store.read('categories') });
+  });
+
+  router.get('/authors', (_req, res) => {
+    res.json({ data: store.read('authors') });
+  });
+
+  router.get('/authors/stats', (_req, res) => {
+    res.json({
+      data: buildAuthorSummaries(
+        store.read<BlogAuthor>('authors'),
+        readPosts(store),
+        new Date()
+      ),
+    });
+  });
+
+  router.get('/authors/:slug/profile', (req, res) => {
+    const author = store
+      .read<BlogAuthor>('authors')
+      .find((item) => item.slug === req.params['slug']);
+    const config = store
+      .read<StoredAuthorProfile>('authorProfiles')
+      .find((item) => item.authorId === author?.id);
+
+    // Los perfiles privados responden igual que un autor inexistente
+    const profile =
+      author &&
+      buildAuthorProfile(
+        author,
+        config,
+        readPosts(store),
+        new Date(),
+        categoryName
+      );
+    sendResource(res, profile ?? undefined);
+  });
+
+  // SERIES
+
+  router.get('/series', (_req, res) => {
+    const posts = getListedPosts(readPosts(store), new Date());
+
+    res.json({
+      data: store
+        .read<BlogSeries>('series')
+        .map((series) => buildSeriesDetail(series, posts))
+        .filter((series) => series.posts.length > 0),
+    });
+  });
+
+  router.get('/series/:slug', (req, res) => {
+    const series = store
+      .read<BlogSeries>('series')
+      .find((item) => item.slug === req.params['slug']);
+
+    sendResource(
+      res,
+      series &&
+        buildSeriesDetail(series, getListedPosts(readPosts(store), new Date()))
+    );
+  });
+
+  // TAGS
+
+  router.get('/tags', (_req, res) => {
+    res.json({ data: readTags(store) });
+  });
+
+  router.get('/tags/:slug', (req, res) => {
+    sendResource(
+      res,
+      readTags(store).find((tag) => tag.slug === req.params['slug'])
+    );
+  });
+
+  // COMENTARIOS
+
+  router.get('/comments', (req, res) => {
+    const postId = asString(req.query['post_id']);
+    const { page, perPage } = parsePagination(req.query);
+
+    const comments = store
+      .read<BlogComment>('comments')
+      .filter(
+        (comment) =>
+          comment.status === 'approved' &&
+          (!postId || comment.postId === postId)
+      )
+      .sort(
+        (a, b) =>
+          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      );
+
+    res.json(
+      toResourceCollection(
+        paginateItems(comments, page, perPage).map(toPublicComment),
+        buildPagination(page, perPage, comments.length),
+        req
+      )
+    );
+  });
+
+  // BANNERS
+
+  router.get('/banners', (_req, res) => {
+    const banners = store
+      .read<Banner>('banners')
+      .filter((banner) => banner.activo)
+      .sort((a, b) => a.orden - b.orden);
+
+    res.json({ data: banners });
+  });
+
+  router.get('/banners/:id', (req, res) => {
+    const banner = store
+      .read<Banner>('banners')
+      .find((item) => String(item.id) === req.params['id']);
+    sendResource(res, banner);
+  });
+
+  router.use((_req, res) => notFound(res));
+
+  return router;
+}
+
+// HELPERS
+
+type Query = Request['query'];
+
+/**
+ * Tags con posts publicados y sus metadatos guardados
+ */
+function readTags(store: ContentStore) {
+  const metadata = store.read<StoredTagMetadata>('tagMetadata');
+  return buildTags(readPosts(store), new Date(), (slug) =>
+    metadata.find((item) => item.slug === slug)
+  );
+}
+
+/**
+ * Post con su estado efectivo, o undefined si aún no se publicó o caducó oculto
+ */
+function toReachablePost(post: BlogPost | undefined): BlogPost | undefined {
+  const now = new Date();
+  return post && isPostReachable(post, now)
+    ? withResolvedStatus(post, now)
+    : undefined;
+}
+
+/**
+ * Traducir los parámetros de query (snake_case) a BlogFilters
+ */
+function parseBlogFilters(query: Query): BlogFilters {
+  const filters: BlogFilters = {};
+
+  const search = asString(query['search']);
+  if (search) filters.search = search;
+
+  const categoryIds = asList(query['category_ids']);
+  if (categoryIds.length) filters.categoryIds = categoryIds;
+
+  // Las frases pueden contener comas: no se separan
+  const phrases = asList(query['phrases'], false);
+  if (phrases.length) filters.phrases = phrases;
+
+  const excludeTerms = asList(query['exclude']);
+  if (excludeTerms.length) filters.excludeTerms = excludeTerms;
+
+  const tags = asList(query['tags']);
+  if (tags.length) filters.tags = tags;
+
+  const excludeTags = asList(query['exclude_tags']);
+  if (excludeTags.length) filters.excludeTags = excludeTags;
+
+  const excludeCategoryIds = asList(query['exclude_category_ids']);
+  if (excludeCategoryIds.length) {
+    filters.excludeCategoryIds = excludeCategoryIds;
+  }
+
+  const excludeAuthorIds = asList(query['exclude_author_ids']);
+  if (excludeAuthorIds.length) filters.excludeAuthorIds = excludeAuthorIds;
+
+  const authorId = asString(query['author_id']);
+  if (authorId) filters.authorId = authorId;
+
+  const authorIds = asList(query['author_ids']);
+  if (authorIds.length) filters.authorIds = authorIds;
+
+  const featured = asString(query['featured']);
+  if (featured === '1' || featured === 'true') filters.featured = true;
+
+  const locale = asString(query['locale']);
+  if (isBlogLocale(locale)) filters.locale = locale;
+
+  const dateFrom = asDate(query['date_from']);
+  if (dateFrom) filters.dateFrom = dateFrom;
+
+  const dateTo = asDate(query['date_to']);
+  if (dateTo) filters.dateTo = dateTo;
+
+  const sortBy = asString(query['sort_by']) as BlogSortBy | undefined;
+  if (sortBy && SORT_FIELDS.includes(sortBy)) filters.sortBy = sortBy;
+
+  const readingTime = asString(query['reading_time']);
+  if (readingTime && READING_TIME_VALUES.includes(readingTime)) {
+    filters.readingTime = readingTime as BlogFilters['readingTime'];
+  }
+
+  const direction = asString(query['sort_direction']);
+  if (direction === 'asc' || direction === 'desc') {
+    filters.sortDirection = direction;
+  }
+
+  return filters;
+}
+
+function parsePagination(query: Query): { page: number; perPage: number } {
+  return {
+    page: toPositiveInt(query['page'], 1),
+    perPage: Math.min(
+      toPositiveInt(query['per_page'], DEFAULT_PER_PAGE),
+      MAX_PER_PAGE
+    ),
+  };
+}
+
+function buildPagination(
+  page: number,
+  perPage: number,
+  total: number
+): BlogPagination {
+  const totalPages = Math.max(1, Math.ceil(total / perPage));
+
+  return {
+    currentPage: page,
+    totalPages,
+    totalItems: total,
+    itemsPerPage: perPage,
+    hasPrevious: page > 1,
+    hasNext: page < totalPages,
+  };
+}
+
+/**
+ * Envolver una página de resultados con el formato ResourceCollection de Laravel
+ */
+function toResourceCollection<T>(
+  items: T[],
+  pagination: BlogPagination,
+  req: Request
+): LaravelResourceCollection<T> {
+  const path = `${req.protocol}://${req.get('host')}${req.baseUrl}${req.path}`;
+  const pageUrl = (page: number) => {
+    const params = new URLSearchParams(req.originalUrl.split('?')[1] ?? '');
+    params.set('page', String(page));
+    return `${path}?${params.toString()}`;
+  };
+  const { currentPage, totalPages, itemsPerPage, totalItems } = pagination;
+  const from = items.length ? (currentPage - 1) * itemsPerPage + 1 : null;
+
+  return {
+    data: items,
+    links: {
+      first: pageUrl(1),
+      last: pageUrl(totalPages),
+      prev: pagination.hasPrevious ? pageUrl(currentPage - 1) : null,
+      next: pagination.hasNext ? pageUrl(currentPage + 1) : null,
+    },
+    meta: {
+      current_page: currentPage,
+      from,
+      last_page: totalPages,
+      path,
+      per_page: itemsPerPage,
+      to: from === null ? null : from + items.length - 1,
+      total: totalItems,
+    },
+  };
+}
+
+function sendResource<T>(res: Response, item: T | undefined): void {
+  if (!item) {
+    notFound(res);
+    return;
+  }
+  res.json({ data: item } satisfies LaravelResource<T>);
+}
+
+function notFound(res: Response): void {
+  res.status(404).json({ message: 'Recurso no encontrado' });
+}
+
+function asString(value: unknown): string | undefined {
+  if (Array.isArray(value)) return asString(value[0]);
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Acepta tanto `tags[]=a&tags[]=b` como `tags=a,b` (salvo con splitCommas = false)
+ */
+function asList(value: unknown, splitCommas = true): string[] {
+  const values = Array.isArray(value) ? value : [value];
+  return values
+    .filter((item): item is string => typeof item === 'string')
+    .flatMap((item) => (splitCommas ? item.split(',') : [item]))
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function asDate(value: unknown): Date | undefined {
+  const raw = asString(value);
+  if (!raw) return undefined;
+  const date = new Date(raw);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function toPositiveInt(value: unknown, fallback: number): number {
+  const parsed = parseInt(asString(value) ?? '', 10);
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
@@ -0,0 +1,179 @@
+import express, { Request } from 'express';
+import type {
+  BlogPost,
+  BlogSeries,
+} from '../../src/app/core/models/blog.interface';
+import type { BlogCategory } from '../../src/app/core/models/categoria.interface';
+import type { BlogAuthor } from '../../src/app/core/models/author.interface';
+import { getListedPosts } from '../../src/app/core/data-sources/post-publishing';
+import { tagSlug } from '../../src/app/core/data-sources/blog-tags';
+import {
+  categoryDescendantIds,
+  categoryUrl,
+} from '../../src/app/core/data-sources/category-paths';
+import {
+  BLOG_LOCALES,
+  contentLocale,
+  localizePath,
+  postPath,
+} from '../../src/app/core/i18n/locales';
+import { ContentStore } from './content-store';
+import { readPosts } from './content-posts';
+import type { StoredAuthorProfile } from './content-seed';
+
+const FEED_SIZE = 20;
+
+const FEED_TITLE = 'Blog';
+const FEED_DESCRIPTION =
+  'Artículos sobre tecnología, desarrollo, diseño y más.';
+
+/** Páginas fijas que siempre aparecen en el sitemap */
+const STATIC_PATHS = [
+  '/',
+  '/about',
+  '/blog',
+  '/blog/categorias',
+  '/blog/tags',
+  '/en/blog',
+];
+
+/**
+ * Router Express con el sitemap y el feed RSS del blog
+ * Solo incluyen los posts visibles en este momento: los programados
+ * aparecen al llegar su fecha y los caducados desaparecen.
+ */
+export function contentFeedsRouter(store: ContentStore): express.Router {
+  const router = express.Router();
+
+  router.get('/sitemap.xml', (req, res) => {
+    const origin = siteOrigin(req);
+    const posts = getListedPosts(readPosts(store), new Date());
+    const categoryIds = new Set(posts.flatMap((post) => post.categoryIds));
+    const postIds = new Set(posts.map((post) => post.id));
+    const authorIds = new Set(posts.map((post) => post.authorId));
+    const tagSlugs = new Set(posts.flatMap((post) => post.tags.map(tagSlug)));
+    const categories = store.read<BlogCategory>('categories');
+    const privateAuthorIds = new Set(
+      store
+        .read<StoredAuthorProfile>('authorProfiles')
+        .filter((profile) => !profile.isPublic)
+        .map((profile) => profile.authorId)
+    );
+
+    const urls = [
+      ...STATIC_PATHS.map((path) => sitemapUrl(origin + path)),
+      // Una categoría lista también los posts de sus subcategorías
+      ...categories
+        .filter(
+          (category) =>
+            category.slug &&
+            [
+              category.id,
+              ...categoryDescendantIds(category.id, categories),
+            ].some((id) => categoryIds.has(id))
+        )
+        .map((category) =>
+          sitemapUrl(origin + categoryUrl(category, categories))
+        ),
+      ...store
+        .read<BlogSeries>('series')
+        .filter((series) => series.postIds.some((id) => postIds.has(id)))
+        .map((series) => sitemapUrl(`${origin}/blog/serie/${series.slug}`)),
+      ...store
+        .read<BlogAuthor>('authors')
+        .filter(
+          (author) =>
+            authorIds.has(author.id) && !privateAuthorIds.has(author.id)
+        )
+        .map((author) => sitemapUrl(`${origin}/blog/autor/${author.slug}`)),
+      ...[...tagSlugs]
+        .filter(Boolean)
+        .map((slug) => sitemapUrl(`${origin}/blog/tag/${slug}`)),
+      ...posts.map((post) =>
+        sitemapUrl(origin + postPath(post), post.updatedAt || post.publishedAt)
+      ),
+    ];
+
+    res
+      .type('application/xml')
+      .send(
+        [
+          '<?xml version="1.0" encoding="UTF-8"?>',
+          '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+          ...urls,
+          '</urlset>',
+        ].join('\n')
+      );
+  });
+
+  // Un feed por idioma: /blog/rss.xml y /en/blog/rss.xml
+  BLOG_LOCALES.forEach(({ code }) => {
+    router.get(localizePath('/blog/rss.xml', code), (req, res) => {
+      const origin = siteOrigin(req);
+      const posts = getListedPosts(readPosts(store), new Date())
+        .filter((post) => contentLocale(post) === code)
+        .sort((a, b) => publishedTime(b) - publishedTime(a))
+        .slice(0, FEED_SIZE);
+
+      const items = posts.map((post) => {
+        const link = origin + postPath(post);
+        return [
+          '<item>',
+          `<title>${escapeXml(post.title)}</title>`,
+          `<link>${escapeXml(link)}</link>`,
+          `<guid isPermaLink="true">${escapeXml(link)}</guid>`,
+          `<description>${escapeXml(post.excerpt)}</description>`,
+          post.author ? `<author>${escapeXml(post.author.name)}</author>` : '',
+          ...post.tags.map((tag) => `<category>${escapeXml(tag)}</category>`),
+          `<pubDate>${new Date(publishedTime(post)).toUTCString()}</pubDate>`,
+          '</item>',
+        ]
+          .filter(Boolean)
+          .join('');
+      });
+
+      res
+        .type('application/rss+xml')
+        .send(
+          [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<rss version="2.0">',
+            '<channel>',
+            `<title>${FEED_TITLE}</title>`,
+            `<link>${escapeXml(origin + localizePath('/blog', code))}</link>`,
+            `<description>${escapeXml(FEED_DESCRIPTION)}</description>`,
+            `<language>${code}</language>`,
+            ...items,
+            '</channel>',
+            '</rss>',
+          ].join('\n')
+        );
+    });
+  });
+
+  return router;
+}
+
+// HELPERS
+
+function siteOrigin(req: Request): string {
+  return `${req.protocol}://${req.get('host')}`;
+}
+
+function publishedTime(post: BlogPost): number {
+  return new Date(post.publishedAt || post.createdAt).getTime();
+}
+
+function sitemapUrl(loc: string, lastmod?: Date): string {
+  const date = lastmod ? `<lastmod>${lastmod.toISOString()}</lastmod>` : '';
+  return `<url><loc>${escapeXml(loc)}</loc>${date}</url>`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,45 @@
+import type { BlogPost } from '../../src/app/core/models/blog.interface';
+import type { BlogCategory } from '../../src/app/core/models/categoria.interface';
+import {
+  ApiBlogPost,
+  revivePost,
+} from '../../src/app/core/data-sources/blog-api.mapper';
+import { renderPostSource } from '../../src/app/core/content/post-source';
+import { ContentStore } from './content-store';
+
+interface RenderedPosts {
+  /** Revisiones de posts y categorías con las que se generaron */
+  key: string;
+  posts: BlogPost[];
+}
+
+const rendered = new WeakMap<ContentStore, RenderedPosts>();
+
+/**
+ * Posts guardados, con las fechas restauradas y el Markdown ya en HTML
+ * Los posts se guardan tal como los escribe el autor; la conversión se
+ * hace al leer, así que editar el fichero basta para ver el cambio. El
+ * resultado se reutiliza mientras no cambien los ficheros de posts y
+ * categorías (ni los escriba la propia API, como al contar visitas).
+ */
+export function readPosts(store: ContentStore): BlogPost[] {
+  const key = `${store.revision('posts')}:${store.revision('categories')}`;
+  const cached = rendered.get(store);
+  if (cached?.key === key) return cached.posts;
+
+  const posts = renderPosts(store);
+  rendered.set(store, { key, posts });
+  return posts;
+}
+
+function renderPosts(store: ContentStore): BlogPost[] {
+  const categories = store.read<BlogCategory>('categories');
+  const findCategory = (slugOrId: string) =>
+    categories.find(
+      (category) => category.slug === slugOrId || category.id === slugOrId
+    );
+
+  return store
+    .read<ApiBlogPost>('posts')
+    .map((post) => renderPostSource(revivePost(post), findCategory));
+}
@@ -0,0 +1,73 @@
+import express, { Request } from 'express';
+import type { BlogCategory } from '../../src/app/core/models/categoria.interface';
+import type { ApiBlogPost } from '../../src/app/core/data-sources/blog-api.mapper';
+import {
+  CATEGORY_BASE_PATH,
+  categoryUrl,
+} from '../../src/app/core/data-sources/category-paths';
+import {
+  BLOG_LOCALES,
+  DEFAULT_LOCALE,
+  localeFromPath,
+  localizePath,
+  postPath,
+} from '../../src/app/core/i18n/locales';
+import { ContentStore } from './content-store';
+
+/**
+ * Router Express con las redirecciones permanentes de URLs antiguas
+ * Va antes de los estáticos para que las páginas prerenderizadas no las oculten
+ */
+export function contentRedirectsRouter(store: ContentStore): express.Router {
+  const router = express.Router();
+
+  // URLs de categoría planas (/blog/categoria/frontend) o con otra
+  // jerarquía, en cualquier idioma (/en/blog/categoria/frontend)
+  router.get(
+    BLOG_LOCALES.map((locale) =>
+      localizePath(`${CATEGORY_BASE_PATH}/*`, locale.code)
+    ),
+    (req, res, next) => {
+      const locale = localeFromPath(req.path);
+      const slugs = localizePath(req.path, DEFAULT_LOCALE)
+        .slice(CATEGORY_BASE_PATH.length)
+        .split('/')
+        .filter(Boolean);
+      const categories = store.read<BlogCategory>('categories');
+      const category = categories.find(
+        (item) => item.slug === slugs[slugs.length - 1]
+      );
+      if (!category) return next();
+
+      const canonical = categoryUrl(category, categories);
+      if (canonical === `${CATEGORY_BASE_PATH}/${slugs.join('/')}`) {
+        return next();
+      }
+
+      res.redirect(301, localizePath(canonical, locale) + queryString(req));
+    }
+  );
+
+  // Posts pedidos con el prefijo de otro idioma (/blog/post-en-ingles)
+  router.get(
+    BLOG_LOCALES.map((locale) => localizePath('/blog/:slug', locale.code)),
+    (req, res, next) => {
+      const post = store
+        .read<ApiBlogPost>('posts')
+        .find((item) => item.slug === req.params['slug']);
+      if (!post) return next();
+
+      const canonical = postPath(post);
+      if (canonical === req.path.replace(/\/$/, '')) return next();
+
+      res.redirect(301, canonical + queryString(req));
+    }
+  );
+
+  return router;
+}
+
+function queryString(req: Request): string {
+  const queryIndex = req.originalUrl.indexOf('?');
+  return queryIndex >= 0 ? req.originalUrl.slice(queryIndex) : '';
+}
@@ -0,0 +1,146 @@
+import type { BlogComment } from '../../src/app/core/models/comentario.interface';
+import type { Banner } from '../../src/app/core/models/banner.interface';
+import type { AuthorProfileConfig } from '../../src/app/core/models/author.interface';
+import type { BlogTagMetadata } from '../../src/app/core/models/blog.interface';
+import { BLOG_POSTS_SOURCE } from '../../src/app/core/data/blog-mock.data';
+import { CATEGORIES_MOCK } from '../../src/app/core/data/categorias-mock.data';
+import {
+  AUTHORS_MOCK,
+  AUTHOR_PROFILES_MOCK,
+} from '../../src/app/core/data/authors-mock.data';
+import { SERIES_MOCK } from '../../src/app/core/data/series-mock.data';
+import { TAG_METADATA_MOCK } from '../../src/app/core/data/tags-mock.data';
+
+/**
+ * Colecciones que sirve la API de contenido local
+ */
+export type ContentCollection =
+  | 'posts'
+  | 'categories'
+  | 'authors'
+  | 'authorProfiles'
+  | 'series'
+  | 'tagMetadata'
+  | 'comments'
+  | 'banners';
+
+/**
+ * Configuración del perfil público de un autor, tal como se guarda
+ */
+export type StoredAuthorProfile = AuthorProfileConfig & { authorId: string };
+
+/**
+ * Metadatos de un tag, tal como se guardan
+ */
+export type StoredTagMetadata = BlogTagMetadata & { slug: string };
+
+/**
+ * Comentarios de ejemplo que se reparten entre los posts al sembrar
+ */
+const SAMPLE_COMMENTS: Pick<BlogComment, 'content' | 'author' | 'likes'>[] = [
+  {
+    content:
+      'Excelente artículo, me ha sido muy útil para entender mejor estos conceptos.',
+    author: {
+      name: 'María González',
+      email: 'maria@example.com',
+      avatar:
+        'https://images.unsplash.com/photo-1494790108755-2616b612b786?w=64&h=64&fit=crop&crop=face',
+      isRegistered: false,
+      isPostAuthor: false,
+      isModerator: false,
+    },
+    likes: 12,
+  },
+  {
+    content:
+      'Gracias por compartir. ¿Podrías profundizar en algunos ejemplos prácticos?',
+    author: {
+      name: 'Carlos Rodríguez',
+      email: 'carlos@example.com',
+      avatar:
+        'https://images.unsplash.com/photo-1472099645785-5658abf4ff4e?w=64&h=64&fit=crop&crop=face',
+      isRegistered: true,
+      isPostAuthor: false,
+      isModerator: false,
+    },
+    likes: 5,
+  },
+];
+
+/**
+ * Banners iniciales para la portada
+ */
+const SEED_BANNERS: Banner[] = [
+  {
+    id: 1,
+    titulo: 'Aprende desarrollo web moderno',
+    descripcion: 'Guías prácticas de Angular, React y Node.js.',
+    imagen:
+      'https://images.unsplash.com/photo-1555066931-4365d14bab8c?w=1600&h=600&fit=crop&auto=format',
+    texto_boton: 'Ver artículos',
+    enlace_boton: '/blog',
+    orden: 1,
+    activo: true,
+  },
+  {
+    id: 2,
+    titulo: 'Inteligencia artificial para desarrolladores',
+    descripcion: 'Machine Learning y Deep Learning paso a paso.',
+    imagen:
+      'https://images.unsplash.com/photo-1527474305487-b87b222841cc?w=1600&h=600&fit=crop&auto=format',
+    texto_boton: 'Explorar',
+    enlace_boton: '/blog/categoria/inteligencia-artificial',
+    orden: 2,
+    activo: true,
+  },
+];
+
+/**
+ * Generar comentarios de ejemplo para cada post que los permite
+ */
+function buildSeedComments(): BlogComment[] {
+  return BLOG_POSTS_SOURCE.filter((post) => post.allowComments).flatMap(
+    (post) =>
+      SAMPLE_COMMENTS.map((sample, index) => {
+        const createdAt = new Date(
+          (post.publishedAt ?? post.createdAt).getTime() +
+            (index + 1) * 24 * 60 * 60 * 1000
+        );
+
+        return {
+          ...sample,
+          id: `${post.id}-comentario-${index + 1}`,
+          postId: post.id,
+          status: 'approved',
+          dislikes: 0,
+          isSpam: false,
+          isEdited: false,
+          level: 0,
+          createdAt,
+          updatedAt: createdAt,
+          metadata: { isMobile: false },
+        } satisfies BlogComment;
+      })
+  );
+}
+
+/**
+ * Contenido inicial de cada colección, tomado de los datos mock del front
+ */
+export function buildSeedContent(): Record<ContentCollection, unknown[]> {
+  return {
+    posts: BLOG_POSTS_SOURCE,
+    categories: CATEGORIES_MOCK,
+    authors: AUTHORS_MOCK,
+    authorProfiles: Object.entries(AUTHOR_PROFILES_MOCK).map(
+      ([authorId, config]): StoredAuthorProfile => ({ authorId, ...config })
+    ),
+    series: SERIES_MOCK,
+    tagMetadata: Object.entries(TAG_METADATA_MOCK).map(
+      ([slug, metadata]): StoredTagMetadata => ({ slug, ...metadata })
+    ),
+    comments: buildSeedComments(),
+    banners: SEED_BANNERS,
+  };
+}
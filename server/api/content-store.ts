@@ -0,0 +1,92 @@
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  statSync,
+  writeFileSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import { buildSeedContent, ContentCollection } from './content-seed';
+
+interface CachedCollection {
+  mtimeMs: number;
+  /** Cambia cada vez que se relee o se escribe la colección */
+  revision: number;
+  items: unknown[];
+}
+
+/**
+ * Almacén de contenido basado en ficheros JSON (uno por colección)
+ * Si un fichero no existe se siembra con los datos mock del front.
+ * Los ficheros se releen cuando cambian en disco, de modo que se pueden
+ * editar a mano mientras el servidor está en marcha.
+ */
+export class ContentStore {
+  private cache = new Map<ContentCollection, CachedCollection>();
+  private revisions = 0;
+
+  constructor(private readonly dataDir: string) {
+    this.seed();
+  }
+
+  /**
+   * Leer todos los elementos de una colección (JSON crudo, fechas como string)
+   */
+  read<T>(collection: ContentCollection): T[] {
+    const file = this.fileFor(collection);
+    const { mtimeMs } = statSync(file);
+    const cached = this.cache.get(collection);
+
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.items as T[];
+    }
+
+    const items = JSON.parse(readFileSync(file, 'utf-8')) as T[];
+    this.cache.set(collection, { mtimeMs, revision: ++this.revisions, items });
+    return items;
+  }
+
+  /**
+   * Revisión actual de una colección, para cachear lo que se calcula a
+   * partir de ella. Dos escrituras en el mismo milisegundo tienen el mismo
+   * mtime pero no la misma revisión.
+   */
+  revision(collection: ContentCollection): number {
+    this.read(collection);
+    return this.cache.get(collection)!.revision;
+  }
+
+  /**
+   * Persistir una colección completa
+   */
+  write<T>(collection: ContentCollection, items: T[]): void {
+    const file = this.fileFor(collection);
+    writeFileSync(file, JSON.stringify(items, null, 2));
+    this.cache.set(collection, {
+      mtimeMs: statSync(file).mtimeMs,
+      revision: ++this.revisions,
+      items,
+    });
+  }
+
+  /**
+   * Crear el directorio y los ficheros que falten a partir de la semilla
+   */
+  private seed(): void {
+    mkdirSync(this.dataDir, { recursive: true });
+
+    const seed = buildSeedContent();
+    (Object.keys(seed) as ContentCollection[]).forEach((collection) => {
+      if (!existsSync(this.fileFor(collection))) {
+        writeFileSync(
+          this.fileFor(collection),
+          JSON.stringify(seed[collection], null, 2)
+        );
+      }
+    });
+  }
+
+  private fileFor(collection: ContentCollection): string {
+    return join(this.dataDir, `${collection}.json`);
+  }
+}
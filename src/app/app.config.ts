@@ -23,6 +23,15 @@ import {
   BrowserAnimationsModule,
   provideAnimations,
 } from '@angular/platform-browser/animations';
+import { environment } from '../environments/environment';
+import { BLOG_DATA_SOURCE } from './core/data-sources/blog-data-source';
+import { CATEGORY_DATA_SOURCE } from './core/data-sources/category-data-source';
+import { MockBlogDataSource } from './core/data-sources/mock-blog.data-source';
+import { HttpBlogDataSource } from './core/data-sources/http-blog.data-source';
+import { MockCategoryDataSource } from './core/data-sources/mock-category.data-source';
+import { HttpCategoryDataSource } from './core/data-sources/http-category.data-source';
+
+const useHttpDataSource = environment.blogDataSource === 'http';
 
 export const appConfig: ApplicationConfig = {
   providers: [
@@ -41,5 +50,16 @@ export const appConfig: ApplicationConfig = {
     ),
     provideHttpClient(withFetch()),
     provideAnimations(),
+    // Fuentes de datos del blog (mock o HTTP según el entorno)
+    {
+      provide: BLOG_DATA_SOURCE,
+      useExisting: useHttpDataSource ? HttpBlogDataSource : MockBlogDataSource,
+    },
+    {
+      provide: CATEGORY_DATA_SOURCE,
+      useExisting: useHttpDataSource
+        ? HttpCategoryDataSource
+        : MockCategoryDataSource,
+    },
   ],
 };
@@ -1,10 +1,189 @@
-import { Routes } from '@angular/router';
+import { inject } from '@angular/core';
+import {
+  ResolveFn,
+  Route,
+  Routes,
+  UrlMatchResult,
+  UrlSegment,
+} from '@angular/router';
 import { InicioComponent } from './paginas/vista/inicio/inicio.component';
 import { VistaComponent } from './paginas/vista/vista.component';
 import { PageNotFoundComponent } from './paginas/page-not-found/page-not-found.component';
 import { AboutComponent } from './paginas/vista/about/about.component';
 import { CuentaComponent } from './paginas/vista/cuenta/cuenta.component';
 import { authGuard } from './core/auth/guards/auth.guard';
+import { I18nService } from './core/services/i18n.service';
+import { MessageKey, translate } from './core/i18n/translate';
+import type { BlogLocale } from './core/models/blog.interface';
+
+/**
+ * URLs de categoría a cualquier profundidad (categoria/padre/hija)
+ * `slug` es la última categoría y `path` la ruta completa de slugs
+ */
+export function categoryPathMatcher(
+  segments: UrlSegment[]
+): UrlMatchResult | null {
+  if (segments.length < 2 || segments[0].path !== 'categoria') {
+    return null;
+  }
+
+  const slugs = segments.slice(1);
+  return {
+    consumed: segments,
+    posParams: {
+      slug: slugs[slugs.length - 1],
+      path: new UrlSegment(slugs.map((segment) => segment.path).join('/'), {}),
+    },
+  };
+}
+
+/** Páginas del blog con título y metadatos propios en el catálogo */
+type BlogRoutePage =
+  | 'list'
+  | 'search'
+  | 'categories'
+  | 'category'
+  | 'archiveYear'
+  | 'archiveMonth'
+  | 'authors'
+  | 'author'
+  | 'tags'
+  | 'tag'
+  | 'series'
+  | 'post';
+
+/**
+ * Título y metadatos de una página del blog en el idioma de su ruta
+ */
+function blogRouteMeta(
+  locale: BlogLocale,
+  page: BlogRoutePage
+): Pick<Route, 'title' | 'data'> {
+  return {
+    title: translate(locale, `route.${page}.title`),
+    data: {
+      description: translate(locale, `route.${page}.description`),
+      keywords: translate(locale, `route.${page}.keywords`),
+    },
+  };
+}
+
+/**
+ * Título de una ruta sin prefijo de idioma, en el idioma activo
+ */
+function translatedTitle(key: MessageKey): ResolveFn<string> {
+  return () => inject(I18nService).t(key);
+}
+
+/**
+ * Rutas del blog, montadas en /blog y con prefijo de idioma (/en/blog)
+ */
+function blogRoutes(locale: BlogLocale): Routes {
+  return [
+    {
+      path: '',
+      loadComponent: () =>
+        import('./paginas/blog/blog-list/blog-list.component').then(
+          (m) => m.BlogListComponent
+        ),
+      ...blogRouteMeta(locale, 'list'),
+    },
+    {
+      path: 'search',
+      loadComponent: () =>
+        import('./paginas/blog/blog-search/blog-search.component').then(
+          (m) => m.BlogSearchComponent
+        ),
+      ...blogRouteMeta(locale, 'search'),
+    },
+    {
+      path: 'categorias',
+      loadComponent: () =>
+        import('./paginas/blog/blog-categories/blog-categories.component').then(
+          (m) => m.BlogCategoriesComponent
+        ),
+      ...blogRouteMeta(locale, 'categories'),
+    },
+    {
+      path: 'categoria',
+      redirectTo: 'categorias',
+      pathMatch: 'full',
+    },
+    {
+      matcher: categoryPathMatcher,
+      loadComponent: () =>
+        import('./paginas/blog/blog-category/blog-category.component').then(
+          (m) => m.BlogCategoryComponent
+        ),
+      ...blogRouteMeta(locale, 'category'),
+    },
+    {
+      path: 'archivo/:year',
+      loadComponent: () =>
+        import('./paginas/blog/blog-archive/blog-archive.component').then(
+          (m) => m.BlogArchiveComponent
+        ),
+      ...blogRouteMeta(locale, 'archiveYear'),
+    },
+    {
+      path: 'archivo/:year/:month',
+      loadComponent: () =>
+        import('./paginas/blog/blog-archive/blog-archive.component').then(
+          (m) => m.BlogArchiveComponent
+        ),
+      ...blogRouteMeta(locale, 'archiveMonth'),
+    },
+    {
+      path: 'autores',
+      loadComponent: () =>
+        import('./paginas/blog/blog-authors/blog-authors.component').then(
+          (m) => m.BlogAuthorsComponent
+        ),
+      ...blogRouteMeta(locale, 'authors'),
+    },
+    {
+      path: 'autor/:slug',
+      loadComponent: () =>
+        import('./paginas/blog/blog-author/blog-author.component').then(
+          (m) => m.BlogAuthorComponent
+        ),
+      ...blogRouteMeta(locale, 'author'),
+    },
+    {
+      path: 'tags',
+      loadComponent: () =>
+        import('./paginas/blog/blog-tag-index/blog-tag-index.component').then(
+          (m) => m.BlogTagIndexComponent
+        ),
+      ...blogRouteMeta(locale, 'tags'),
+    },
+    {
+      path: 'tag/:tag',
+      loadComponent: () =>
+        import('./paginas/blog/blog-tag/blog-tag.component').then(
+          (m) => m.BlogTagComponent
+        ),
+      ...blogRouteMeta(locale, 'tag'),
+    },
+    {
+      path: 'serie/:slug',
+      loadComponent: () =>
+        import('./paginas/blog/blog-serie/blog-serie.component').then(
+          (m) => m.BlogSerieComponent
+        ),
+      ...blogRouteMeta(locale, 'series'),
+    },
+    {
+      path: ':slug',
+      loadComponent: () =>
+        import('./paginas/blog/blog-detail/blog-detail.component').then(
+          (m) => m.BlogDetailComponent
+        ),
+      ...blogRouteMeta(locale, 'post'),
+    },
+  ];
+}
+
 export const routes: Routes = [
   {
     path: 'auth',
@@ -15,7 +194,7 @@ export const routes: Routes = [
           import('./paginas/auth/login/login.component').then(
             (m) => m.LoginComponent
           ),
-        title: 'Iniciar sesión',
+        title: translatedTitle('route.login.title'),
       },
       {
         path: 'register',
@@ -24,7 +203,7 @@ export const routes: Routes = [
           import('./paginas/auth/register/register.component').then(
             (m) => m.RegisterComponent
           ),
-        title: 'Registrarse',
+        title: translatedTitle('route.register.title'),
       },
       {
         path: 'forgot-password',
@@ -32,7 +211,7 @@ export const routes: Routes = [
           import(
             './paginas/auth/forgot-password/forgot-password.component'
           ).then((m) => m.ForgotPasswordComponent),
-        title: 'Recuperar contraseña',
+        title: translatedTitle('route.forgotPassword.title'),
       },
       {
         path: 'reset-password',
@@ -40,7 +219,7 @@ export const routes: Routes = [
           import('./paginas/auth/reset-password/reset-password.component').then(
             (m) => m.ResetPasswordComponent
           ),
-        title: 'Restablecer contraseña',
+        title: translatedTitle('route.resetPassword.title'),
       },
       {
         path: '',
@@ -74,55 +253,20 @@ export const routes: Routes = [
       // Blog Routes with Lazy Loading
       {
         path: 'blog',
+        children: blogRoutes('es'),
+      },
+      // Blog en inglés (/en/blog/...)
+      {
+        path: 'en',
         children: [
           {
             path: '',
-            loadComponent: () =>
-              import('./paginas/blog/blog-list/blog-list.component').then(
-                (m) => m.BlogListComponent
-              ),
-            title: 'Blog - Últimos Artículos',
-            data: {
-              description:
-                'Descubre nuestros últimos artículos sobre tecnología, desarrollo y diseño.',
-              keywords: 'blog, artículos, tecnología, desarrollo, programación',
-            },
-          },
-          {
-            path: 'search',
-            loadComponent: () =>
-              import('./paginas/blog/blog-search/blog-search.component').then(
-                (m) => m.BlogSearchComponent
-              ),
-            title: 'Buscar en el Blog',
-            data: {
-              description: 'Busca artículos específicos en nuestro blog.',
-              keywords: 'buscar, blog, artículos, posts',
-            },
-          },
-          {
-            path: 'categoria/:slug',
-            loadComponent: () =>
-              import(
-                './paginas/blog/blog-category/blog-category.component'
-              ).then((m) => m.BlogCategoryComponent),
-            title: 'Categoría',
-            data: {
-              description: 'Artículos organizados por categoría.',
-              keywords: 'categoría, blog, artículos',
-            },
+            redirectTo: 'blog',
+            pathMatch: 'full',
           },
           {
-            path: ':slug',
-            loadComponent: () =>
-              import('./paginas/blog/blog-detail/blog-detail.component').then(
-                (m) => m.BlogDetailComponent
-              ),
-            title: 'Artículo',
-            data: {
-              description: 'Lee nuestro artículo completo.',
-              keywords: 'artículo, blog, post',
-            },
+            path: 'blog',
+            children: blogRoutes('en'),
           },
         ],
       },
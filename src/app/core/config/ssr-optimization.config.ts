@@ -55,6 +55,7 @@ export const DEFAULT_SSR_CONFIG: SSROptimizationConfig = {
     '/blog/categoria/diseno',
     '/blog/categoria/programacion',
     '/blog/categoria/web',
+    '/blog/archivo/*',
   ],
 
   hydrationStrategy: 'lazy',
@@ -0,0 +1,159 @@
+import {
+  languageLabel,
+  parseCodeMeta,
+  parseLineRanges,
+  renderCodeBlock,
+  renderCodeGroup,
+  renderHtmlCodeBlocks,
+} from './code-blocks';
+
+describe('parseLineRanges', () => {
+  it('should read single lines and ranges in any order', () => {
+    expect(parseLineRanges('1,4-6, 9 - 8')).toEqual([
+      [1, 1],
+      [4, 6],
+      [8, 9],
+    ]);
+  });
+
+  it('should skip parts that are not line numbers', () => {
+    expect(parseLineRanges('2,a,3-')).toEqual([[2, 2]]);
+  });
+});
+
+describe('parseCodeMeta', () => {
+  it('should read the file name and highlighted lines', () => {
+    expect(parseCodeMeta(' title="app.config.ts" {1,3-4}')).toEqual({
+      filename: 'app.config.ts',
+      highlight: [
+        [1, 1],
+        [3, 4],
+      ],
+    });
+    expect(parseCodeMeta("filename='main.ts'").filename).toBe('main.ts');
+    expect(parseCodeMeta('title=server.ts').filename).toBe('server.ts');
+  });
+
+  it('should return nothing for an empty meta', () => {
+    expect(parseCodeMeta('')).toEqual({
+      filename: undefined,
+      highlight: undefined,
+    });
+  });
+});
+
+describe('renderCodeBlock', () => {
+  it('should number every line and mark the highlighted ones', () => {
+    const html = renderCodeBlock({
+      code: '\na\nb\nc\n\n',
+      highlight: [[2, 3]],
+    });
+
+    expect(html).toContain(
+      '<code><span class="code-line" data-line="1">a</span>\n' +
+        '<span class="code-line code-line-highlighted" data-line="2">b</span>\n' +
+        '<span class="code-line code-line-highlighted" data-line="3">c</span>' +
+        '</code>'
+    );
+  });
+
+  it('should reopen tokens that span several lines', () => {
+    const html = renderCodeBlock({
+      code: '/* uno\ndos */',
+      language: 'ts',
+    });
+
+    expect(html).toContain(
+      '<span class="code-line" data-line="1"><span class="tok-comment">/* uno</span></span>\n' +
+        '<span class="code-line" data-line="2"><span class="tok-comment">dos */</span></span>'
+    );
+  });
+
+  it('should render the header with the file, language and actions', () => {
+    const html = renderCodeBlock(
+      { code: 'x', language: 'ts', filename: '<app>.ts' },
+      { locale: 'en' }
+    );
+
+    expect(html).toContain(
+      '<span class="code-block-filename">&lt;app&gt;.ts</span>'
+    );
+    expect(html).toContain(
+      '<span class="code-block-language" data-content-chrome>TypeScript</span>'
+    );
+    expect(html).toContain('data-code-action="copy" aria-label="Copy code"');
+    expect(html).toContain('aria-label="Wrap long lines">Wrap</button>');
+    expect(html).toContain('<code class="language-typescript">');
+  });
+
+  it('should escape code without a known language', () => {
+    const html = renderCodeBlock({ code: '<b>hola</b>' });
+
+    expect(html).toContain('&lt;b&gt;hola&lt;/b&gt;');
+    expect(html).not.toContain('code-block-language');
+  });
+});
+
+describe('renderCodeGroup', () => {
+  it('should render one tab per block with the first one active', () => {
+    const html = renderCodeGroup([
+      { code: 'a', language: 'ts', filename: 'app.ts' },
+      { code: 'b', language: 'html' },
+      { code: 'c' },
+    ]);
+
+    expect(html).toContain(
+      '<div class="code-group-tabs" role="tablist" data-content-chrome>'
+    );
+    expect(html).toContain(
+      'aria-selected="true" data-code-tab="0">app.ts</button>'
+    );
+    expect(html).toContain('data-code-tab="1">HTML</button>');
+    expect(html).toContain('data-code-tab="2">Archivo 3</button>');
+    expect(html).toContain(
+      'class="code-block-figure code-group-panel active" data-language="typescript" role="tabpanel" data-code-panel="0"'
+    );
+    expect(html).toContain(
+      'class="code-block-figure code-group-panel" role="tabpanel" data-code-panel="2"'
+    );
+  });
+
+  it('should render a single block without tabs', () => {
+    const html = renderCodeGroup([{ code: 'a' }]);
+
+    expect(html).toBe(renderCodeBlock({ code: 'a' }));
+  });
+});
+
+describe('renderHtmlCodeBlocks', () => {
+  it('should process hand-written code blocks like Markdown ones', () => {
+    const html = renderHtmlCodeBlocks(
+      '<p>Antes</p><pre data-filename="a &amp; b.ts" data-line="2">' +
+        '<code class="language-ts">const a = 1;\nif (a &lt; 2) {}</code></pre>'
+    );
+
+    expect(html).toBe(
+      '<p>Antes</p>' +
+        renderCodeBlock({
+          code: 'const a = 1;\nif (a < 2) {}',
+          language: 'ts',
+          filename: 'a & b.ts',
+          highlight: [[2, 2]],
+        })
+    );
+  });
+
+  it('should leave blocks that are already processed alone', () => {
+    const html = renderCodeBlock({ code: 'x', language: 'ts' });
+
+    expect(renderHtmlCodeBlocks(html)).toBe(html);
+  });
+});
+
+describe('languageLabel', () => {
+  it('should name known languages and upper-case the rest', () => {
+    expect(languageLabel('js')).toBe('JavaScript');
+    expect(languageLabel('rust')).toBe('RUST');
+    expect(languageLabel('')).toBe('');
+  });
+});
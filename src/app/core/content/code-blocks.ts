@@ -0,0 +1,300 @@
+import type { BlogLocale } from '../models/blog.interface';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { CONTENT_CHROME_ATTRIBUTE } from '../search/text-analysis';
+import { escapeHtml, highlightCode, normalizeLanguage } from './code-highlight';
+
+/**
+ * Bloques de código de los posts
+ * Se generan al procesar el contenido, ya resaltados y partidos en líneas
+ * numeradas, con su cabecera (archivo, lenguaje, copiar y ajustar líneas).
+ * Los botones no llevan lógica: blog-detail atiende sus clics por
+ * delegación. Varios bloques seguidos pueden ir en pestañas (code-group).
+ * Pestañas, lenguaje y botones van marcados como chrome para que la
+ * búsqueda y el tiempo de lectura no los cuenten como texto del post.
+ */
+
+/** Rango de líneas, ambos extremos incluidos */
+export type CodeLineRange = [number, number];
+
+export interface CodeBlock {
+  code: string;
+  language?: string;
+  filename?: string;
+  /** Líneas resaltadas */
+  highlight?: CodeLineRange[];
+}
+
+export interface CodeBlockOptions {
+  /** Idioma de los textos de los botones */
+  locale?: BlogLocale;
+}
+
+const LANGUAGE_NAMES: Record<string, string> = {
+  typescript: 'TypeScript',
+  javascript: 'JavaScript',
+  json: 'JSON',
+  css: 'CSS',
+  html: 'HTML',
+  bash: 'Bash',
+  python: 'Python',
+  yaml: 'YAML',
+};
+
+const LABELS: Record<
+  BlogLocale,
+  {
+    copy: string;
+    copied: string;
+    copyCode: string;
+    wrap: string;
+    wrapLines: string;
+    file: string;
+  }
+> = {
+  es: {
+    copy: 'Copiar',
+    copied: 'Copiado',
+    copyCode: 'Copiar código',
+    wrap: 'Ajustar',
+    wrapLines: 'Ajustar líneas largas',
+    file: 'Archivo',
+  },
+  en: {
+    copy: 'Copy',
+    copied: 'Copied',
+    copyCode: 'Copy code',
+    wrap: 'Wrap',
+    wrapLines: 'Wrap long lines',
+    file: 'File',
+  },
+};
+
+const TOKEN_OR_NEWLINE = /(<span class="tok-[\w-]+">|<\/span>|\n)/;
+/** <pre><code> escrito a mano en los posts HTML (sin procesar aún) */
+const HTML_CODE_BLOCK =
+  /<pre((?:\s+data-[\w-]+="[^"]*")*)\s*>\s*<code(?:\s+class="(?:language|lang)-([\w+#.-]+)")?\s*>([\s\S]*?)<\/code>\s*<\/pre>/gi;
+
+/**
+ * Nombre de archivo y líneas resaltadas del resto de la línea de apertura
+ * de un bloque Markdown: ```ts title="app.ts" {1,4-6}
+ */
+export function parseCodeMeta(
+  meta: string
+): Pick<CodeBlock, 'filename' | 'highlight'> {
+  const filename =
+    /(?:title|filename)=(?:"([^"]*)"|'([^']*)'|(\S+))/i.exec(meta) ?? [];
+  const ranges = /\{([\d,\s-]+)\}/.exec(meta);
+
+  return {
+    filename: (filename[1] ?? filename[2] ?? filename[3])?.trim() || undefined,
+    highlight: ranges ? parseLineRanges(ranges[1]) : undefined,
+  };
+}
+
+/**
+ * "1,4-6" → [[1, 1], [4, 6]]
+ */
+export function parseLineRanges(spec: string): CodeLineRange[] {
+  return spec
+    .split(',')
+    .map((part) => /^\s*(\d+)\s*(?:-\s*(\d+))?\s*$/.exec(part))
+    .filter((match): match is RegExpExecArray => !!match)
+    .map((match): CodeLineRange => {
+      const from = Number(match[1]);
+      const to = match[2] ? Number(match[2]) : from;
+      return [Math.min(from, to), Math.max(from, to)];
+    });
+}
+
+/**
+ * Un bloque de código con su cabecera
+ */
+export function renderCodeBlock(
+  block: CodeBlock,
+  options: CodeBlockOptions = {}
+): string {
+  return renderFigure(block, LABELS[options.locale ?? DEFAULT_LOCALE]);
+}
+
+/**
+ * Varios bloques en pestañas, una por archivo; la primera queda activa
+ */
+export function renderCodeGroup(
+  blocks: CodeBlock[],
+  options: CodeBlockOptions = {}
+): string {
+  const labels = LABELS[options.locale ?? DEFAULT_LOCALE];
+  if (blocks.length < 2) {
+    return blocks.map((block) => renderFigure(block, labels)).join('');
+  }
+
+  const tabs = blocks
+    .map((block, index) => {
+      const name =
+        block.filename ||
+        languageLabel(block.language ?? '') ||
+        `${labels.file} ${index + 1}`;
+      return (
+        `<button type="button" class="code-group-tab" role="tab" ` +
+        `aria-selected="${index === 0}" data-code-tab="${index}">` +
+        `${escapeHtml(name)}</button>`
+      );
+    })
+    .join('');
+
+  const panels = blocks
+    .map((block, index) => renderFigure(block, labels, index))
+    .join('');
+
+  return (
+    `<div class="code-group">` +
+    `<div class="code-group-tabs" role="tablist" ${CONTENT_CHROME_ATTRIBUTE}>` +
+    `${tabs}</div>` +
+    `${panels}</div>`
+  );
+}
+
+/**
+ * Procesa los <pre><code class="language-*"> de los posts escritos en
+ * HTML igual que los de Markdown. Admite data-filename y data-line="1,4-6"
+ * en el <pre>. Los bloques ya procesados no se tocan.
+ */
+export function renderHtmlCodeBlocks(
+  html: string,
+  options: CodeBlockOptions = {}
+): string {
+  return html.replace(
+    HTML_CODE_BLOCK,
+    (_match, attributes: string, language = '', code: string) => {
+      const data = (name: string) =>
+        new RegExp(`data-${name}="([^"]*)"`, 'i').exec(attributes)?.[1];
+      const lines = data('line');
+
+      return renderCodeBlock(
+        {
+          code: unescapeHtml(code.replace(/<[^>]*>/g, '')),
+          language,
+          filename: data('filename') && unescapeHtml(data('filename')!),
+          highlight: lines ? parseLineRanges(lines) : undefined,
+        },
+        options
+      );
+    }
+  );
+}
+
+/**
+ * Nombre legible de un lenguaje ('ts' → 'TypeScript'); '' si no se indica
+ */
+export function languageLabel(language: string): string {
+  const name = normalizeLanguage(language);
+  return LANGUAGE_NAMES[name] ?? name.toUpperCase();
+}
+
+// ===================================
+// MARCADO
+// ===================================
+
+/**
+ * @param panel Posición en un code-group; la primera es la visible
+ */
+function renderFigure(
+  block: CodeBlock,
+  labels: (typeof LABELS)[BlogLocale],
+  panel?: number
+): string {
+  const name = normalizeLanguage(block.language ?? '');
+  const language = name ? ` data-language="${escapeHtml(name)}"` : '';
+  const classes = ['code-block-figure'];
+  let attributes = language;
+
+  if (panel !== undefined) {
+    classes.push('code-group-panel', ...(panel === 0 ? ['active'] : []));
+    attributes += ` role="tabpanel" data-code-panel="${panel}"`;
+  }
+
+  const lines = splitHighlightedLines(
+    highlightCode(block.code.replace(/^\n|\s+$/g, ''), name)
+  ).map((line, index) => {
+    const number = index + 1;
+    const highlighted = block.highlight?.some(
+      ([from, to]) => number >= from && number <= to
+    );
+    const lineClass = highlighted
+      ? 'code-line code-line-highlighted'
+      : 'code-line';
+    return `<span class="${lineClass}" data-line="${number}">${line}</span>`;
+  });
+
+  return (
+    `<figure class="${classes.join(' ')}"${attributes}>` +
+    renderHeader(block, name, labels) +
+    `<pre class="code-block"${language}>` +
+    `<code${name ? ` class="language-${escapeHtml(name)}"` : ''}>` +
+    `${lines.join('\n')}</code></pre>` +
+    `</figure>`
+  );
+}
+
+/**
+ * Archivo, lenguaje y acciones (ajustar líneas y copiar)
+ */
+function renderHeader(
+  block: CodeBlock,
+  language: string,
+  labels: (typeof LABELS)[BlogLocale]
+): string {
+  const filename = block.filename
+    ? `<span class="code-block-filename">${escapeHtml(block.filename)}</span>`
+    : '';
+  const languageName = language
+    ? `<span class="code-block-language" ${CONTENT_CHROME_ATTRIBUTE}>${escapeHtml(
+        languageLabel(language)
+      )}</span>`
+    : '';
+
+  return (
+    `<figcaption class="code-block-header">${filename}${languageName}` +
+    `<span class="code-block-actions" ${CONTENT_CHROME_ATTRIBUTE}>` +
+    `<button type="button" class="code-block-action" data-code-action="wrap" ` +
+    `aria-pressed="false" aria-label="${labels.wrapLines}">${labels.wrap}</button>` +
+    `<button type="button" class="code-block-action" data-code-action="copy" ` +
+    `aria-label="${labels.copyCode}" data-copied-label="${labels.copied}">` +
+    `${labels.copy}</button>` +
+    `</span></figcaption>`
+  );
+}
+
+/**
+ * Parte el HTML resaltado en líneas, cerrando y reabriendo los tokens que
+ * ocupan varias (comentarios de bloque, plantillas...)
+ */
+function splitHighlightedLines(html: string): string[] {
+  const lines: string[] = [];
+  let current = '';
+  let open = '';
+
+  for (const part of html.split(TOKEN_OR_NEWLINE)) {
+    if (part === '\n') {
+      lines.push(open ? `${current}</span>` : current);
+      current = open;
+      continue;
+    }
+
+    if (part.startsWith('<span')) open = part;
+    else if (part === '</span>') open = '';
+    current += part;
+  }
+
+  lines.push(current);
+  return lines;
+}
+
+function unescapeHtml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,193 @@
+/**
+ * Resaltado de sintaxis de los bloques de código
+ * Un tokenizador por expresiones regulares, suficiente para los lenguajes
+ * habituales del blog. Devuelve HTML ya escapado con <span class="tok-*">.
+ */
+
+type TokenType =
+  | 'comment'
+  | 'string'
+  | 'keyword'
+  | 'literal'
+  | 'number'
+  | 'function'
+  | 'tag'
+  | 'attr'
+  | 'property'
+  | 'variable';
+
+interface TokenRule {
+  type: TokenType;
+  pattern: RegExp;
+}
+
+const JS_KEYWORDS =
+  'abstract|as|async|await|break|case|catch|class|const|constructor|continue|declare|default|delete|do|else|enum|export|extends|finally|for|from|function|get|if|implements|import|in|instanceof|interface|let|new|of|private|protected|public|readonly|return|set|static|super|switch|this|throw|try|type|typeof|var|void|while|yield';
+
+const C_COMMENTS: TokenRule = {
+  type: 'comment',
+  pattern: /\/\/[^\n]*|\/\*[\s\S]*?\*\//y,
+};
+const QUOTED_STRINGS: TokenRule = {
+  type: 'string',
+  pattern: /"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'/y,
+};
+const NUMBERS: TokenRule = {
+  type: 'number',
+  pattern: /\b\d+(?:\.\d+)?(?:e[+-]?\d+)?\b/iy,
+};
+
+const SCRIPT_RULES: TokenRule[] = [
+  C_COMMENTS,
+  { type: 'string', pattern: /`(?:\\.|[^`\\])*`/y },
+  QUOTED_STRINGS,
+  { type: 'keyword', pattern: new RegExp(`\\b(?:${JS_KEYWORDS})\\b`, 'y') },
+  { type: 'literal', pattern: /\b(?:true|false|null|undefined|NaN)\b/y },
+  NUMBERS,
+  { type: 'function', pattern: /\b[A-Za-z_$][\w$]*(?=\s*\()/y },
+];
+
+const RULES: Record<string, TokenRule[]> = {
+  typescript: SCRIPT_RULES,
+  javascript: SCRIPT_RULES,
+  json: [
+    { type: 'property', pattern: /"(?:\\.|[^"\\\n])*"(?=\s*:)/y },
+    QUOTED_STRINGS,
+    { type: 'literal', pattern: /\b(?:true|false|null)\b/y },
+    NUMBERS,
+  ],
+  css: [
+    { type: 'comment', pattern: /\/\*[\s\S]*?\*\//y },
+    QUOTED_STRINGS,
+    { type: 'keyword', pattern: /@[\w-]+/y },
+    { type: 'property', pattern: /[\w-]+(?=\s*:[^;{]*[;}])/y },
+    {
+      type: 'number',
+      pattern: /#[\da-f]{3,8}\b|\b\d+(?:\.\d+)?(?:px|rem|em|%|vh|vw|s|ms)?\b/iy,
+    },
+  ],
+  html: [
+    { type: 'comment', pattern: /<!--[\s\S]*?-->/y },
+    { type: 'tag', pattern: /<\/?[A-Za-z][\w-]*|\/?>/y },
+    { type: 'attr', pattern: /\b[\w:@.[\]()*#-]+(?==)/y },
+    QUOTED_STRINGS,
+  ],
+  bash: [
+    { type: 'comment', pattern: /#[^\n]*/y },
+    QUOTED_STRINGS,
+    { type: 'variable', pattern: /\$\{?[\w]+\}?/y },
+    {
+      type: 'keyword',
+      pattern:
+        /\b(?:if|then|else|fi|for|in|do|done|while|case|esac|function|export|return)\b/y,
+    },
+    { type: 'function', pattern: /(?<=^|[|;&]\s*)[\w.-]+/my },
+  ],
+  python: [
+    { type: 'comment', pattern: /#[^\n]*/y },
+    { type: 'string', pattern: /"""[\s\S]*?"""|'''[\s\S]*?'''/y },
+    QUOTED_STRINGS,
+    {
+      type: 'keyword',
+      pattern:
+        /\b(?:and|as|assert|async|await|break|class|continue|def|del|elif|else|except|finally|for|from|global|if|import|in|is|lambda|not|or|pass|raise|return|try|while|with|yield)\b/y,
+    },
+    { type: 'literal', pattern: /\b(?:True|False|None)\b/y },
+    NUMBERS,
+    { type: 'function', pattern: /\b[A-Za-z_]\w*(?=\s*\()/y },
+  ],
+};
+
+/** Nombres alternativos de cada lenguaje */
+const ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  scss: 'css',
+  xml: 'html',
+  svg: 'html',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  py: 'python',
+};
+
+/**
+ * Nombre canónico de un lenguaje ('ts' → 'typescript'); '' si no se indica
+ */
+export function normalizeLanguage(language: string): string {
+  const name = language.trim().toLowerCase();
+  return ALIASES[name] || name;
+}
+
+/**
+ * Si hay reglas de resaltado para el lenguaje
+ */
+export function isHighlightable(language: string): boolean {
+  return normalizeLanguage(language) in RULES;
+}
+
+/**
+ * Código resaltado y escapado, listo para ir dentro de <code>
+ * Los lenguajes sin reglas solo se escapan.
+ */
+export function highlightCode(code: string, language: string): string {
+  const rules = RULES[normalizeLanguage(language)];
+  if (!rules) return escapeHtml(code);
+
+  let html = '';
+  let plain = '';
+  let index = 0;
+
+  while (index < code.length) {
+    const token = matchToken(rules, code, index);
+
+    if (token) {
+      html += escapeHtml(plain) + wrapToken(token.type, token.text);
+      plain = '';
+      index += token.text.length;
+    } else {
+      // Un identificador entero de golpe evita resaltar "in" dentro de "index"
+      const word = /[\w$]+|[^\w$]/y;
+      word.lastIndex = index;
+      const text = word.exec(code)![0];
+      plain += text;
+      index += text.length;
+    }
+  }
+
+  return html + escapeHtml(plain);
+}
+
+/**
+ * Escapa los caracteres especiales de HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function matchToken(
+  rules: TokenRule[],
+  code: string,
+  index: number
+): { type: TokenType; text: string } | null {
+  for (const rule of rules) {
+    rule.pattern.lastIndex = index;
+    const match = rule.pattern.exec(code);
+    if (match && match[0].length > 0) {
+      return { type: rule.type, text: match[0] };
+    }
+  }
+  return null;
+}
+
+function wrapToken(type: TokenType, text: string): string {
+  return `<span class="tok-${type}">${escapeHtml(text)}</span>`;
+}
@@ -0,0 +1,69 @@
+import {
+  frontMatterList,
+  frontMatterString,
+  parseFrontMatter,
+} from './front-matter';
+
+describe('parseFrontMatter', () => {
+  it('should split the front-matter from the body', () => {
+    const { data, body } = parseFrontMatter(
+      '---\ntitle: Hola\ndraft: false\norder: 3\n---\n# Cuerpo\n'
+    );
+
+    expect(data).toEqual({ title: 'Hola', draft: false, order: 3 });
+    expect(body).toBe('# Cuerpo\n');
+  });
+
+  it('should return the source untouched without front-matter', () => {
+    const source = 'Texto\n---\nmás texto';
+
+    expect(parseFrontMatter(source)).toEqual({ data: {}, body: source });
+  });
+
+  it('should read inline and dashed lists', () => {
+    const { data } = parseFrontMatter(
+      '---\n' +
+        "tags: [angular, \"ssr, prerender\", 'it''s']\n" +
+        'categories:\n  - web\n  - "diseño"\n' +
+        '---\n'
+    );
+
+    expect(data['tags']).toEqual(['angular', 'ssr, prerender', "it's"]);
+    expect(data['categories']).toEqual(['web', 'diseño']);
+  });
+
+  it('should read one level of nesting', () => {
+    const { data } = parseFrontMatter(
+      '---\nseo:\n  title: SEO\n  noIndex: true\nexcerpt: Resumen\n---\n'
+    );
+
+    expect(data).toEqual({
+      seo: { title: 'SEO', noIndex: true },
+      excerpt: 'Resumen',
+    });
+  });
+
+  it('should ignore comments and lines without a key', () => {
+    const { data } = parseFrontMatter(
+      '---\n# comentario\ntitle: Hola # al final\nsin clave\n---\n'
+    );
+
+    expect(data).toEqual({ title: 'Hola' });
+  });
+});
+
+describe('front-matter fields', () => {
+  const data = { title: 'Hola', year: 2024, tags: 'a, b,', list: ['c'] };
+
+  it('should read strings and numbers as text', () => {
+    expect(frontMatterString(data, 'title')).toBe('Hola');
+    expect(frontMatterString(data, 'year')).toBe('2024');
+    expect(frontMatterString(data, 'list')).toBeUndefined();
+  });
+
+  it('should read lists from arrays or comma separated text', () => {
+    expect(frontMatterList(data, 'list')).toEqual(['c']);
+    expect(frontMatterList(data, 'tags')).toEqual(['a', 'b']);
+    expect(frontMatterList(data, 'year')).toBeUndefined();
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Front-matter de los posts en Markdown
+ * Lee el bloque `---` inicial con el subconjunto de YAML que usan los
+ * autores: `clave: valor`, listas `[a, b]` o con guiones y un nivel de
+ * anidamiento (`seo:`). Las líneas que no encajan se ignoran.
+ */
+
+export type FrontMatterValue =
+  | string
+  | number
+  | boolean
+  | string[]
+  | FrontMatterData;
+
+export interface FrontMatterData {
+  [key: string]: FrontMatterValue;
+}
+
+export interface FrontMatterDocument {
+  /** Campos declarados en el front-matter */
+  data: FrontMatterData;
+  /** Markdown que sigue al front-matter */
+  body: string;
+}
+
+interface FrontMatterLine {
+  indent: number;
+  text: string;
+}
+
+const FRONT_MATTER =
+  /^\uFEFF?---[ \t]*\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+/**
+ * Separa el front-matter del cuerpo del documento
+ */
+export function parseFrontMatter(source: string): FrontMatterDocument {
+  const match = FRONT_MATTER.exec(source);
+  if (!match) return { data: {}, body: source };
+
+  const lines = match[1]
+    .split(/\r?\n/)
+    .filter((line) => line.trim() && !line.trim().startsWith('#'))
+    .map((line) => ({
+      indent: line.length - line.trimStart().length,
+      text: line.trim(),
+    }));
+
+  return {
+    data: parseMap(lines, 0, 0).data,
+    body: source.slice(match[0].length),
+  };
+}
+
+/**
+ * Texto de un campo, si es una cadena (o un número)
+ */
+export function frontMatterString(
+  data: FrontMatterData,
+  key: string
+): string | undefined {
+  const value = data[key];
+  return typeof value === 'string' || typeof value === 'number'
+    ? String(value)
+    : undefined;
+}
+
+/**
+ * Lista de un campo; acepta también "a, b" en una sola cadena
+ */
+export function frontMatterList(
+  data: FrontMatterData,
+  key: string
+): string[] | undefined {
+  const value = data[key];
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'string') {
+    return value
+      .split(',')
+      .map((item) => item.trim())
+      .filter(Boolean);
+  }
+  return undefined;
+}
+
+function parseMap(
+  lines: FrontMatterLine[],
+  start: number,
+  indent: number
+): { data: FrontMatterData; next: number } {
+  const data: FrontMatterData = {};
+  let index = start;
+
+  while (index < lines.length && lines[index].indent >= indent) {
+    const line = lines[index];
+    const separator = line.text.indexOf(':');
+
+    if (line.indent > indent || separator <= 0) {
+      index++;
+      continue;
+    }
+
+    const key = line.text.slice(0, separator).trim();
+    const raw = line.text.slice(separator + 1).trim();
+    index++;
+
+    if (raw) {
+      data[key] = parseScalarOrList(raw);
+      continue;
+    }
+
+    // Valor en bloque: lista con guiones o mapa anidado
+    const child = lines[index];
+    if (!child || child.indent <= indent) {
+      data[key] = '';
+    } else if (child.text.startsWith('- ') || child.text === '-') {
+      const items: string[] = [];
+      while (
+        index < lines.length &&
+        lines[index].indent === child.indent &&
+        lines[index].text.startsWith('-')
+      ) {
+        items.push(unquote(lines[index].text.slice(1).trim()));
+        index++;
+      }
+      data[key] = items;
+    } else {
+      const nested = parseMap(lines, index, child.indent);
+      data[key] = nested.data;
+      index = nested.next;
+    }
+  }
+
+  return { data, next: index };
+}
+
+function parseScalarOrList(raw: string): FrontMatterValue {
+  if (raw.startsWith('[') && raw.endsWith(']')) {
+    return splitInlineList(raw.slice(1, -1));
+  }
+  return parseScalar(raw);
+}
+
+function parseScalar(raw: string): string | number | boolean {
+  if (/^["']/.test(raw)) return unquote(raw);
+  if (raw === 'true' || raw === 'false') return raw === 'true';
+  if (/^-?\d+(?:\.\d+)?$/.test(raw)) return Number(raw);
+
+  // Comentario al final de la línea
+  return raw.replace(/\s+#.*$/, '');
+}
+
+/**
+ * Separa "a, 'b, c', d" respetando las comillas
+ */
+function splitInlineList(raw: string): string[] {
+  const items: string[] = [];
+  let current = '';
+  let quote = '';
+
+  for (const char of raw) {
+    if (quote) {
+      if (char === quote) quote = '';
+      current += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      current += char;
+    } else if (char === ',') {
+      items.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  items.push(current);
+
+  return items.map((item) => unquote(item.trim())).filter(Boolean);
+}
+
+function unquote(value: string): string {
+  const quote = value[0];
+  if (
+    (quote === '"' || quote === "'") &&
+    value.endsWith(quote) &&
+    value.length > 1
+  ) {
+    const inner = value.slice(1, -1);
+    return quote === '"'
+      ? inner.replace(/\\"/g, '"').replace(/\\n/g, '\n')
+      : inner.replace(/''/g, "'");
+  }
+  return value;
+}
@@ -0,0 +1,178 @@
+import { isSafeUrl, sanitizeHtml } from './html-sanitizer';
+import { renderMarkdown } from './markdown';
+
+describe('sanitizeHtml', () => {
+  describe('script injection', () => {
+    it('should remove script elements with their content', () => {
+      expect(sanitizeHtml('<p>Hola</p><script>alert(1)</script><p>!</p>')).toBe(
+        '<p>Hola</p><p>!</p>'
+      );
+      expect(sanitizeHtml('<SCRIPT src="//evil.test/x.js"></SCRIPT>ok')).toBe(
+        'ok'
+      );
+    });
+
+    it('should drop the rest of the document after an unclosed script', () => {
+      expect(sanitizeHtml('<p>a</p><script>alert(1)')).toBe('<p>a</p>');
+    });
+
+    it('should remove style, svg and template elements with their content', () => {
+      expect(
+        sanitizeHtml(
+          '<style>body{display:none}</style><svg><script>alert(1)</script></svg><template><img src=x></template>ok'
+        )
+      ).toBe('ok');
+    });
+
+    it('should remove comments', () => {
+      expect(
+        sanitizeHtml('a<!--[if IE]><script>alert(1)</script><![endif]-->b')
+      ).toBe('ab');
+    });
+
+    it('should escape broken tags instead of emitting them', () => {
+      expect(sanitizeHtml('1 < 2 <img src=x onerror=alert(1)')).toBe(
+        '1 &lt; 2 &lt;img src=x onerror=alert(1)'
+      );
+    });
+
+    it('should unwrap unknown tags keeping their text', () => {
+      expect(sanitizeHtml('<font color="red">texto</font>')).toBe('texto');
+    });
+
+    it('should close unclosed tags and ignore stray closing tags', () => {
+      expect(sanitizeHtml('<p><strong>a</p></div>b')).toBe(
+        '<p><strong>a</strong></p>b'
+      );
+    });
+  });
+
+  describe('event handler attributes', () => {
+    it('should strip on* attributes in any case', () => {
+      expect(sanitizeHtml('<img src="/a.png" onerror="alert(1)">')).toBe(
+        '<img src="/a.png">'
+      );
+      expect(sanitizeHtml('<p ONCLICK=alert(1) class="x">a</p>')).toBe(
+        '<p class="x">a</p>'
+      );
+      expect(sanitizeHtml("<div onmouseover='alert(1)'>a</div>")).toBe(
+        '<div>a</div>'
+      );
+    });
+
+    it('should strip style and unknown attributes', () => {
+      expect(
+        sanitizeHtml('<span style="position:fixed" formaction="x">a</span>')
+      ).toBe('<span>a</span>');
+    });
+
+    it('should escape attribute values', () => {
+      expect(sanitizeHtml('<p title="a&quot; onclick=&quot;x">a</p>')).toBe(
+        '<p title="a&quot; onclick=&quot;x">a</p>'
+      );
+    });
+  });
+
+  describe('javascript: URLs', () => {
+    it('should drop javascript: hrefs', () => {
+      expect(sanitizeHtml('<a href="javascript:alert(1)">x</a>')).toBe(
+        '<a>x</a>'
+      );
+    });
+
+    it('should drop obfuscated javascript: URLs', () => {
+      const urls = [
+        'JaVaScRiPt:alert(1)',
+        ' javascript:alert(1)',
+        'java\tscript:alert(1)',
+        'jav&#x61;script:alert(1)',
+        'jav&#97;script:alert(1)',
+        'javascript&colon;alert(1)',
+        '&#0000106avascript:alert(1)',
+      ];
+
+      for (const url of urls) {
+        expect(sanitizeHtml(`<a href="${url}">x</a>`)).toBe('<a>x</a>');
+      }
+    });
+
+    it('should drop data: and vbscript: URLs', () => {
+      expect(
+        sanitizeHtml('<img src="data:text/html;base64,PHNjcmlwdD4=" alt="a">')
+      ).toBe('<img alt="a">');
+      expect(sanitizeHtml('<a href="vbscript:msgbox(1)">x</a>')).toBe(
+        '<a>x</a>'
+      );
+    });
+
+    it('should keep relative, http(s) and mailto URLs', () => {
+      expect(isSafeUrl('/blog/post')).toBeTrue();
+      expect(isSafeUrl('#seccion')).toBeTrue();
+      expect(isSafeUrl('https://example.com/a?b=1&c=2')).toBeTrue();
+      expect(isSafeUrl('mailto:hola@example.com')).toBeTrue();
+      expect(
+        sanitizeHtml('<a href="https://example.com/?a=1&amp;b=2">x</a>')
+      ).toBe('<a href="https://example.com/?a=1&amp;b=2">x</a>');
+    });
+
+    it('should force rel="noopener noreferrer" on links opening a new tab', () => {
+      expect(
+        sanitizeHtml(
+          '<a href="https://example.com" target="_blank" rel="opener">x</a>'
+        )
+      ).toBe(
+        '<a href="https://example.com" target="_blank" rel="noopener noreferrer">x</a>'
+      );
+    });
+  });
+
+  describe('iframes', () => {
+    it('should keep embeds from allowed hosts over https', () => {
+      expect(
+        sanitizeHtml(
+          '<iframe src="https://www.youtube-nocookie.com/embed/abc" allowfullscreen onload="alert(1)"></iframe>'
+        )
+      ).toBe(
+        '<iframe src="https://www.youtube-nocookie.com/embed/abc" allowfullscreen></iframe>'
+      );
+    });
+
+    it('should drop iframes from other hosts, over http or without src', () => {
+      expect(sanitizeHtml('<iframe src="https://evil.test/"></iframe>ok')).toBe(
+        'ok'
+      );
+      expect(
+        sanitizeHtml('<iframe src="http://www.youtube.com/embed/abc"></iframe>')
+      ).toBe('');
+      expect(sanitizeHtml('<iframe src="javascript:alert(1)"></iframe>')).toBe(
+        ''
+      );
+      expect(
+        sanitizeHtml('<iframe srcdoc="<script>alert(1)</script>"></iframe>')
+      ).toBe('');
+    });
+  });
+
+  it('should leave the HTML generated from Markdown untouched', () => {
+    const { html } = renderMarkdown(
+      [
+        '## Título & más',
+        '',
+        'Texto con [enlace](https://example.com) y `código <b>`.',
+        '',
+        '> [!TIP]',
+        '> Consejo',
+        '',
+        '| A | B |',
+        '| :- | -: |',
+        '| 1 | 2 |',
+        '',
+        '```ts',
+        "const a = '<p>';",
+        '```',
+      ].join('\n')
+    );
+
+    expect(sanitizeHtml(html)).toBe(html);
+  });
+});
@@ -0,0 +1,362 @@
+import { escapeHtml } from './code-highlight';
+
+/**
+ * Saneado del HTML de los posts
+ * Lista blanca de etiquetas, atributos, esquemas de URL y hosts de iframes.
+ * Trabaja sobre el texto, sin DOM, para dar el mismo resultado en SSR y en
+ * el navegador. Lo que no está permitido se elimina; las etiquetas
+ * desconocidas se quitan pero conservan su texto.
+ */
+
+export interface SanitizerPolicy {
+  /** Etiquetas permitidas y sus atributos propios */
+  tags: Record<string, string[]>;
+  /** Atributos permitidos en cualquier etiqueta */
+  globalAttributes: string[];
+  /** Si se conservan los atributos data-* */
+  dataAttributes: boolean;
+  /** Atributos cuyo valor es una URL */
+  urlAttributes: string[];
+  /** Esquemas permitidos en las URLs (las relativas siempre lo están) */
+  urlSchemes: string[];
+  /** Hosts desde los que se pueden incrustar iframes (solo https) */
+  iframeHosts: string[];
+}
+
+const HEADINGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+const PLAIN_TAGS = [
+  'abbr',
+  'aside',
+  'b',
+  'caption',
+  'cite',
+  'code',
+  'del',
+  'div',
+  'em',
+  'figcaption',
+  'figure',
+  'hr',
+  'i',
+  'ins',
+  'kbd',
+  'mark',
+  'p',
+  's',
+  'section',
+  'small',
+  'span',
+  'strong',
+  'sub',
+  'summary',
+  'sup',
+  'tbody',
+  'tfoot',
+  'thead',
+  'tr',
+  'u',
+  'ul',
+  ...HEADINGS,
+];
+
+/**
+ * Política del contenido de los posts
+ */
+export const DEFAULT_CONTENT_POLICY: SanitizerPolicy = {
+  tags: {
+    ...Object.fromEntries(PLAIN_TAGS.map((tag) => [tag, []])),
+    a: ['href', 'target', 'rel'],
+    blockquote: ['cite'],
+    br: [],
+    // Sin on* ni formularios no hacen nada por sí solos: los botones de los
+    // bloques de código los atiende blog-detail por delegación
+    button: ['type', 'aria-pressed', 'aria-selected'],
+    details: ['open'],
+    iframe: [
+      'src',
+      'width',
+      'height',
+      'allow',
+      'allowfullscreen',
+      'loading',
+      'referrerpolicy',
+    ],
+    img: ['src', 'alt', 'width', 'height', 'loading'],
+    li: ['value'],
+    ol: ['start', 'reversed'],
+    pre: [],
+    table: [],
+    td: ['colspan', 'rowspan'],
+    th: ['colspan', 'rowspan', 'scope'],
+  },
+  globalAttributes: [
+    'id',
+    'class',
+    'title',
+    'lang',
+    'dir',
+    'role',
+    'aria-label',
+    'aria-hidden',
+  ],
+  dataAttributes: true,
+  urlAttributes: ['href', 'src', 'cite'],
+  urlSchemes: ['http', 'https', 'mailto', 'tel'],
+  iframeHosts: [
+    'www.youtube.com',
+    'www.youtube-nocookie.com',
+    'player.vimeo.com',
+    'codepen.io',
+    'codesandbox.io',
+    'stackblitz.com',
+    'gist.github.com',
+  ],
+};
+
+/** Elementos sin cierre */
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'wbr', 'source', 'embed']);
+
+/** Elementos cuyo contenido es texto en bruto: se salta hasta su cierre */
+const RAW_TEXT_TAGS = new Set([
+  'script',
+  'style',
+  'textarea',
+  'title',
+  'iframe',
+  'noscript',
+  'noembed',
+  'noframes',
+  'xmp',
+]);
+
+/** Elementos que se eliminan junto con todo su contenido */
+const DROPPED_TAGS = new Set([
+  'template',
+  'object',
+  'svg',
+  'math',
+  'select',
+  'form',
+  'head',
+]);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  colon: ':',
+  Tab: '\t',
+  NewLine: '\n',
+};
+
+const TOKEN =
+  /<!--[\s\S]*?(?:-->|$)|<!\[CDATA\[[\s\S]*?(?:\]\]>|$)|<[!?][^>]*>|<(\/?)([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+const ATTRIBUTE =
+  /([^\s"'<>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+
+/**
+ * HTML con solo lo que permite la política
+ */
+export function sanitizeHtml(
+  html: string,
+  policy: SanitizerPolicy = DEFAULT_CONTENT_POLICY
+): string {
+  const open: string[] = [];
+  let output = '';
+  let dropped: { tag: string; depth: number } | null = null;
+  let last = 0;
+
+  TOKEN.lastIndex = 0;
+  for (let match = TOKEN.exec(html); match; match = TOKEN.exec(html)) {
+    const [, closing, rawName = '', rawAttributes = ''] = match;
+    const name = rawName.toLowerCase();
+
+    if (!dropped) output += escapeText(html.slice(last, match.index));
+    last = TOKEN.lastIndex;
+
+    // Comentarios, CDATA, doctype...
+    if (!name) continue;
+
+    if (dropped) {
+      if (name === dropped.tag) dropped.depth += closing ? -1 : 1;
+      if (dropped.depth === 0) dropped = null;
+      continue;
+    }
+
+    if (closing) {
+      const index = open.lastIndexOf(name);
+      if (index >= 0) {
+        output += open
+          .splice(index)
+          .reverse()
+          .map((tag) => `</${tag}>`)
+          .join('');
+      }
+      continue;
+    }
+
+    const selfClosing = /\/\s*$/.test(rawAttributes);
+
+    if (RAW_TEXT_TAGS.has(name)) {
+      const end = html.toLowerCase().indexOf(`</${name}`, last);
+      last = end < 0 ? html.length : html.indexOf('>', end) + 1 || html.length;
+      TOKEN.lastIndex = last;
+
+      if (name === 'iframe' && isAllowedTag(name, policy)) {
+        const attributes = sanitizeAttributes(name, rawAttributes, policy);
+        if (attributes !== null) output += `<iframe${attributes}></iframe>`;
+      }
+      continue;
+    }
+
+    if (DROPPED_TAGS.has(name)) {
+      if (!selfClosing && !VOID_TAGS.has(name)) {
+        dropped = { tag: name, depth: 1 };
+      }
+      continue;
+    }
+
+    if (!isAllowedTag(name, policy)) continue;
+
+    const attributes = sanitizeAttributes(name, rawAttributes, policy);
+    if (attributes === null) continue;
+
+    output += `<${name}${attributes}>`;
+    if (!VOID_TAGS.has(name)) open.push(name);
+  }
+
+  if (!dropped) output += escapeText(html.slice(last));
+
+  return (
+    output +
+    open
+      .reverse()
+      .map((tag) => `</${tag}>`)
+      .join('')
+  );
+}
+
+/**
+ * Si una URL es relativa o usa un esquema permitido
+ */
+export function isSafeUrl(
+  url: string,
+  schemes: string[] = DEFAULT_CONTENT_POLICY.urlSchemes
+): boolean {
+  // El navegador ignora los caracteres de control y los espacios del esquema
+  const cleaned = url.replace(/[\u0000- \u007f-\u009f]/g, '');
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(cleaned);
+  return !scheme || schemes.includes(scheme[1].toLowerCase());
+}
+
+/**
+ * Si una URL se puede cargar en un iframe: https y host permitido
+ */
+export function isAllowedFrameUrl(
+  src: string,
+  policy: SanitizerPolicy = DEFAULT_CONTENT_POLICY
+): boolean {
+  try {
+    const url = new URL(src.trim());
+    return (
+      url.protocol === 'https:' && policy.iframeHosts.includes(url.hostname)
+    );
+  } catch {
+    return false;
+  }
+}
+
+// ===================================
+// ATRIBUTOS
+// ===================================
+
+/**
+ * Atributos permitidos ya serializados (" a="b""), o null si el elemento
+ * entero debe descartarse (un iframe de un host no permitido)
+ */
+function sanitizeAttributes(
+  tag: string,
+  raw: string,
+  policy: SanitizerPolicy
+): string | null {
+  const allowed = policy.tags[tag];
+  const attributes = new Map<string, string | null>();
+
+  ATTRIBUTE.lastIndex = 0;
+  for (let match = ATTRIBUTE.exec(raw); match; match = ATTRIBUTE.exec(raw)) {
+    const name = match[1].toLowerCase();
+    const value = match[2] ?? match[3] ?? match[4];
+    const permitted =
+      allowed.includes(name) ||
+      policy.globalAttributes.includes(name) ||
+      (policy.dataAttributes && /^data-[\w-]+$/.test(name));
+
+    if (!permitted || attributes.has(name)) continue;
+
+    const decoded = value === undefined ? null : decodeEntities(value);
+    if (
+      decoded !== null &&
+      policy.urlAttributes.includes(name) &&
+      !isSafeUrl(decoded, policy.urlSchemes)
+    ) {
+      continue;
+    }
+    attributes.set(name, decoded);
+  }
+
+  if (
+    tag === 'iframe' &&
+    !isAllowedFrameUrl(attributes.get('src') ?? '', policy)
+  ) {
+    return null;
+  }
+
+  if (tag === 'a') {
+    const target = attributes.get('target');
+    if (target !== undefined && target !== '_blank' && target !== '_self') {
+      attributes.delete('target');
+    }
+    // Los enlaces a otra pestaña no deben poder controlar esta
+    if (attributes.get('target') === '_blank') {
+      attributes.set('rel', 'noopener noreferrer');
+    }
+  }
+
+  return Array.from(attributes)
+    .map(([name, value]) =>
+      value === null ? ` ${name}` : ` ${name}="${escapeHtml(value)}"`
+    )
+    .join('');
+}
+
+function isAllowedTag(tag: string, policy: SanitizerPolicy): boolean {
+  return Object.hasOwn(policy.tags, tag);
+}
+
+function decodeEntities(value: string): string {
+  return value.replace(
+    /&(?:#x([\da-f]+);?|#(\d+);?|([a-z]+);)/gi,
+    (entity, hex?: string, decimal?: string, named?: string) => {
+      if (named) {
+        return Object.hasOwn(NAMED_ENTITIES, named)
+          ? NAMED_ENTITIES[named]
+          : entity;
+      }
+
+      const code = hex ? parseInt(hex, 16) : parseInt(decimal!, 10);
+      return code > 0 && code <= 0x10ffff
+        ? String.fromCodePoint(code)
+        : '\uFFFD';
+    }
+  );
+}
+
+/**
+ * El texto entre etiquetas se deja tal cual, salvo los < y > sueltos
+ */
+function escapeText(text: string): string {
+  return text.replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
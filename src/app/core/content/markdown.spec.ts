@@ -0,0 +1,109 @@
+import { renderMarkdown } from './markdown';
+
+describe('renderMarkdown', () => {
+  it('should render inline formatting and open links in a new tab', () => {
+    const { html } = renderMarkdown(
+      'Texto con **negrita**, *cursiva*, `code` y [un enlace](https://angular.dev).'
+    );
+
+    expect(html).toBe(
+      '<p>Texto con <strong>negrita</strong>, <em>cursiva</em>, ' +
+        '<code>code</code> y <a href="https://angular.dev" target="_blank" ' +
+        'rel="noopener noreferrer">un enlace</a>.</p>'
+    );
+  });
+
+  it('should escape raw HTML and drop unsafe link targets', () => {
+    const { html } = renderMarkdown(
+      '<script>alert(1)</script>\n\n[x](javascript:void)'
+    );
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;');
+    expect(html).toContain('<a href="#">x</a>');
+  });
+
+  it('should keep balanced parentheses in link destinations', () => {
+    const { html } = renderMarkdown(
+      '[Angular](https://a.com/(foo)) y ![logo](/img/(v2)/logo.png "Logo")'
+    );
+
+    expect(html).toContain(
+      '<a href="https://a.com/(foo)" target="_blank" ' +
+        'rel="noopener noreferrer">Angular</a> y'
+    );
+    expect(html).toContain(
+      '<img src="/img/(v2)/logo.png" alt="logo" title="Logo" loading="lazy">'
+    );
+  });
+
+  it('should drop unsafe link targets with parentheses whole', () => {
+    const { html } = renderMarkdown('[x](javascript:alert(1)) fin');
+
+    expect(html).toBe('<p><a href="#">x</a> fin</p>');
+  });
+
+  it('should accept link destinations between angle brackets', () => {
+    const { html } = renderMarkdown('[doc](</docs/guia.md>)');
+
+    expect(html).toBe('<p><a href="/docs/guia.md">doc</a></p>');
+  });
+
+  it('should give headings unique ids and collect them', () => {
+    const { html, headings } = renderMarkdown(
+      '# Hola *mundo*\n\n## Hola mundo'
+    );
+
+    expect(headings).toEqual([
+      { id: 'hola-mundo', text: 'Hola mundo', level: 1 },
+      { id: 'hola-mundo-2', text: 'Hola mundo', level: 2 },
+    ]);
+    expect(html).toContain('<h2 id="hola-mundo-2">');
+    expect(html).toContain('href="#hola-mundo-2"');
+  });
+
+  it('should render lists, rules and hard line breaks', () => {
+    const { html } = renderMarkdown(
+      '- a\n- b\n\n1. uno\n2. dos\n\n---\n\nlinea  \nsiguiente'
+    );
+
+    expect(html).toBe(
+      '<ul>\n<li>a</li>\n<li>b</li>\n</ul>\n' +
+        '<ol>\n<li>uno</li>\n<li>dos</li>\n</ol>\n' +
+        '<hr>\n<p>linea<br>\nsiguiente</p>'
+    );
+  });
+
+  it('should align table columns', () => {
+    const { html } = renderMarkdown('| a | b |\n|:--|--:|\n| 1 | 2 |');
+
+    expect(html).toContain('<div class="table-wrapper"><table>');
+    expect(html).toContain('<th class="align-left">a</th>');
+    expect(html).toContain('<td class="align-right">2</td>');
+  });
+
+  it('should render callouts with their title in the post language', () => {
+    expect(renderMarkdown('> [!TIP]\n> Usa signals').html).toBe(
+      '<aside class="callout callout-tip" role="note">\n' +
+        '<p class="callout-title">Consejo</p>\n' +
+        '<p>Usa signals</p>\n</aside>'
+    );
+    expect(
+      renderMarkdown('> [!TIP]\n> Use signals', { locale: 'en' }).html
+    ).toContain('<p class="callout-title">Tip</p>');
+    expect(renderMarkdown(':::warning Ojo\nCuidado\n:::').html).toContain(
+      '<p class="callout-title">Ojo</p>'
+    );
+  });
+
+  it('should render fenced code as a code block', () => {
+    const { html } = renderMarkdown(
+      '```ts title="app.ts" {2}\nconst a = 1;\nconst b = 2;\n```'
+    );
+
+    expect(html).toContain('<span class="code-block-filename">app.ts</span>');
+    expect(html).toContain(
+      '<span class="code-line code-line-highlighted" data-line="2">'
+    );
+  });
+});
@@ -0,0 +1,562 @@
+import type { BlogLocale } from '../models/blog.interface';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { stripHtml } from '../search/text-analysis';
+import {
+  CodeBlock,
+  parseCodeMeta,
+  renderCodeBlock,
+  renderCodeGroup,
+} from './code-blocks';
+import { escapeHtml } from './code-highlight';
+import { headingId, uniqueHeadingId } from './table-of-contents';
+
+/**
+ * Markdown → HTML de los posts
+ * El mismo código se ejecuta en el servidor (API local) y en el cliente
+ * (datos mock), así que ambos producen exactamente el mismo HTML.
+ * El HTML en bruto del Markdown se escapa: el autor no puede inyectar etiquetas.
+ */
+
+export interface MarkdownHeading {
+  /** ID del encabezado, usado como ancla */
+  id: string;
+  /** Texto plano del encabezado */
+  text: string;
+  /** Nivel (1-6) */
+  level: number;
+}
+
+export interface MarkdownResult {
+  html: string;
+  /** Encabezados en orden de aparición */
+  headings: MarkdownHeading[];
+}
+
+export interface MarkdownOptions {
+  /** Idioma de los textos generados (títulos de avisos, etiquetas de anclas) */
+  locale?: BlogLocale;
+}
+
+/** Tipos de aviso: `> [!TIP]` o `:::tip` */
+export type CalloutType = 'note' | 'tip' | 'important' | 'warning' | 'caution';
+
+const LABELS: Record<
+  BlogLocale,
+  Record<CalloutType, string> & { anchor: string }
+> = {
+  es: {
+    note: 'Nota',
+    tip: 'Consejo',
+    important: 'Importante',
+    warning: 'Atención',
+    caution: 'Precaución',
+    anchor: 'Enlace a esta sección',
+  },
+  en: {
+    note: 'Note',
+    tip: 'Tip',
+    important: 'Important',
+    warning: 'Warning',
+    caution: 'Caution',
+    anchor: 'Link to this section',
+  },
+};
+
+const CALLOUT_TYPES = Object.keys(LABELS.es).filter(
+  (key) => key !== 'anchor'
+) as CalloutType[];
+
+interface RenderContext {
+  locale: BlogLocale;
+  labels: (typeof LABELS)[BlogLocale];
+  headings: MarkdownHeading[];
+  ids: Set<string>;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})[ \t]*([\w+#.-]*)([^`]*)$/;
+const CODE_GROUP = /^ {0,3}:::[ \t]*code-group[ \t]*$/i;
+const CONTAINER = /^ {0,3}:::[ \t]*(\w+)[ \t]*(.*)$/;
+const HEADING = /^ {0,3}(#{1,6})[ \t]+(.*?)(?:[ \t]+#+)?[ \t]*$/;
+const RULE = /^ {0,3}([-*_])(?:[ \t]*\1){2,}[ \t]*$/;
+const QUOTE = /^ {0,3}> ?/;
+const LIST_ITEM = /^( {0,3})([-*+]|\d{1,9}[.)])(?:[ \t]+|$)/;
+const TABLE_DELIMITER =
+  /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+const CALLOUT_MARKER = /^\[!(\w+)\][ \t]*(.*)$/;
+
+/**
+ * Destino de un enlace o imagen: entre <...> o con los paréntesis
+ * equilibrados (hasta dos niveles), como https://a.com/(foo)
+ */
+const URL_CHAR = String.raw`[^\s()<>]`;
+const URL_PARENS = String.raw`\((?:${URL_CHAR}|\(${URL_CHAR}*\))*\)`;
+const DESTINATION = String.raw`(?:<([^\s>]+)>|((?:${URL_CHAR}|${URL_PARENS})+))`;
+const TITLE = String.raw`(?:\s+"([^"]*)")?`;
+const IMAGE = new RegExp(
+  String.raw`!\[([^\]]*)\]\(\s*${DESTINATION}${TITLE}\s*\)`,
+  'g'
+);
+const LINK = new RegExp(
+  String.raw`\[([^\]]+)\]\(\s*${DESTINATION}${TITLE}\s*\)`,
+  'g'
+);
+
+/**
+ * Convierte un documento Markdown en HTML
+ */
+export function renderMarkdown(
+  markdown: string,
+  options: MarkdownOptions = {}
+): MarkdownResult {
+  const locale = options.locale || DEFAULT_LOCALE;
+  const context: RenderContext = {
+    locale,
+    labels: LABELS[locale],
+    headings: [],
+    ids: new Set(),
+  };
+  const lines = markdown
+    .replace(/\r\n?/g, '\n')
+    .replace(/\t/g, '    ')
+    .split('\n');
+
+  return {
+    html: renderBlocks(lines, context, false),
+    headings: context.headings,
+  };
+}
+
+// ===================================
+// BLOQUES
+// ===================================
+
+/**
+ * @param tight Párrafos sin <p>, para los elementos de listas compactas
+ */
+function renderBlocks(
+  lines: string[],
+  context: RenderContext,
+  tight: boolean
+): string {
+  const blocks: string[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const end = fenceEnd(lines, index, fence[1]);
+      blocks.push(
+        renderCodeBlock(fencedBlock(lines, index, end, fence), context)
+      );
+      index = end + 1;
+      continue;
+    }
+
+    if (CODE_GROUP.test(line)) {
+      let end = index + 1;
+      const group: CodeBlock[] = [];
+      while (end < lines.length && lines[end].trim() !== ':::') {
+        const inner = FENCE.exec(lines[end]);
+        if (inner) {
+          const close = fenceEnd(lines, end, inner[1]);
+          group.push(fencedBlock(lines, end, close, inner));
+          end = close;
+        }
+        end++;
+      }
+      blocks.push(renderCodeGroup(group, context));
+      index = end + 1;
+      continue;
+    }
+
+    const container = CONTAINER.exec(line);
+    if (container && isCalloutType(container[1])) {
+      let end = index + 1;
+      while (end < lines.length && lines[end].trim() !== ':::') end++;
+      blocks.push(
+        renderCallout(
+          container[1].toLowerCase() as CalloutType,
+          container[2],
+          lines.slice(index + 1, end),
+          context
+        )
+      );
+      index = end + 1;
+      continue;
+    }
+
+    const heading = HEADING.exec(line);
+    if (heading) {
+      blocks.push(renderHeading(heading[1].length, heading[2], context));
+      index++;
+      continue;
+    }
+
+    if (RULE.test(line)) {
+      blocks.push('<hr>');
+      index++;
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length && QUOTE.test(lines[index])) {
+        quoted.push(lines[index].replace(QUOTE, ''));
+        index++;
+      }
+      blocks.push(renderQuote(quoted, context));
+      continue;
+    }
+
+    if (
+      line.includes('|') &&
+      index + 1 < lines.length &&
+      TABLE_DELIMITER.test(lines[index + 1])
+    ) {
+      const rows = [line];
+      const delimiter = lines[index + 1];
+      index += 2;
+      while (
+        index < lines.length &&
+        lines[index].trim() &&
+        lines[index].includes('|')
+      ) {
+        rows.push(lines[index]);
+        index++;
+      }
+      blocks.push(renderTable(rows, delimiter));
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = renderList(lines, index, context);
+      blocks.push(list.html);
+      index = list.next;
+      continue;
+    }
+
+    const paragraph = [line.trimStart()];
+    index++;
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      !startsBlock(lines[index])
+    ) {
+      paragraph.push(lines[index].trimStart());
+      index++;
+    }
+    blocks.push(renderParagraph(paragraph, tight));
+  }
+
+  return blocks.join('\n');
+}
+
+function startsBlock(line: string): boolean {
+  return (
+    FENCE.test(line) ||
+    CODE_GROUP.test(line) ||
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    QUOTE.test(line) ||
+    /^ {0,3}(?:[-*+]|1[.)])[ \t]+\S/.test(line) ||
+    (CONTAINER.test(line) && isCalloutType(CONTAINER.exec(line)![1]))
+  );
+}
+
+/**
+ * Índice de la línea que cierra el bloque (o el final del documento)
+ */
+function fenceEnd(lines: string[], start: number, fence: string): number {
+  let end = start + 1;
+  while (end < lines.length && !closesFence(lines[end], fence)) end++;
+  return end;
+}
+
+function fencedBlock(
+  lines: string[],
+  start: number,
+  end: number,
+  fence: RegExpExecArray
+): CodeBlock {
+  return {
+    code: lines.slice(start + 1, end).join('\n'),
+    language: fence[2],
+    ...parseCodeMeta(fence[3]),
+  };
+}
+
+function closesFence(line: string, fence: string): boolean {
+  const trimmed = line.trim();
+  return (
+    trimmed.length >= fence.length &&
+    trimmed === fence[0].repeat(trimmed.length)
+  );
+}
+
+function isCalloutType(type: string): boolean {
+  return CALLOUT_TYPES.includes(type.toLowerCase() as CalloutType);
+}
+
+function renderParagraph(lines: string[], tight: boolean): string {
+  const html = lines
+    .map((line, index) => {
+      const hardBreak =
+        index < lines.length - 1 && (/ {2,}$/.test(line) || /\\$/.test(line));
+      const text = renderInline(line.replace(/(?: {2,}|\\)$/, ''));
+      return hardBreak ? `${text}<br>` : text.trimEnd();
+    })
+    .join('\n');
+
+  return tight ? html : `<p>${html}</p>`;
+}
+
+function renderHeading(
+  level: number,
+  raw: string,
+  context: RenderContext
+): string {
+  const custom = /[ \t]*\{#([\w-]+)\}$/.exec(raw);
+  const content = renderInline(custom ? raw.slice(0, custom.index) : raw);
+  const text = stripHtml(content);
+  const id = uniqueHeadingId(custom ? custom[1] : headingId(text), context.ids);
+
+  context.headings.push({ id, text, level });
+
+  return (
+    `<h${level} id="${id}">${content}` +
+    `<a class="heading-anchor" href="#${id}" aria-label="${context.labels.anchor}"></a>` +
+    `</h${level}>`
+  );
+}
+
+function renderQuote(lines: string[], context: RenderContext): string {
+  const marker = CALLOUT_MARKER.exec(lines[0].trim());
+  if (marker && isCalloutType(marker[1])) {
+    return renderCallout(
+      marker[1].toLowerCase() as CalloutType,
+      marker[2],
+      lines.slice(1),
+      context
+    );
+  }
+
+  return `<blockquote>\n${renderBlocks(lines, context, false)}\n</blockquote>`;
+}
+
+function renderCallout(
+  type: CalloutType,
+  title: string,
+  lines: string[],
+  context: RenderContext
+): string {
+  const heading = title.trim()
+    ? renderInline(title.trim())
+    : context.labels[type];
+
+  return (
+    `<aside class="callout callout-${type}" role="note">\n` +
+    `<p class="callout-title">${heading}</p>\n` +
+    `${renderBlocks(lines, context, false)}\n</aside>`
+  );
+}
+
+function renderTable(rows: string[], delimiter: string): string {
+  const header = splitRow(rows[0]);
+  const aligns = splitRow(delimiter).map((cell) => {
+    const left = cell.startsWith(':');
+    const right = cell.endsWith(':');
+    if (left && right) return 'center';
+    if (right) return 'right';
+    return left ? 'left' : '';
+  });
+
+  const cells = (row: string[], tag: 'th' | 'td') =>
+    header
+      .map((_, column) => {
+        const align = aligns[column] ? ` class="align-${aligns[column]}"` : '';
+        return `<${tag}${align}>${renderInline(row[column] || '')}</${tag}>`;
+      })
+      .join('');
+
+  const body = rows
+    .slice(1)
+    .map((row) => `<tr>${cells(splitRow(row), 'td')}</tr>`)
+    .join('\n');
+
+  return (
+    `<div class="table-wrapper"><table>\n` +
+    `<thead><tr>${cells(header, 'th')}</tr></thead>\n` +
+    `<tbody>\n${body}\n</tbody>\n</table></div>`
+  );
+}
+
+function splitRow(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+    .map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+function renderList(
+  lines: string[],
+  start: number,
+  context: RenderContext
+): { html: string; next: number } {
+  const ordered = isOrdered(LIST_ITEM.exec(lines[start])!);
+  const items: string[][] = [];
+  let loose = false;
+  let index = start;
+
+  while (index < lines.length) {
+    const marker = LIST_ITEM.exec(lines[index]);
+    if (!marker || isOrdered(marker) !== ordered) break;
+
+    const baseIndent = marker[1].length;
+    const contentIndent = marker[0].length;
+    const item = [lines[index].slice(contentIndent)];
+    index++;
+
+    while (index < lines.length) {
+      const line = lines[index];
+      const indent = line.length - line.trimStart().length;
+
+      if (!line.trim()) {
+        const next = nextContentLine(lines, index);
+        if (next < 0 || indentOf(lines[next]) < contentIndent) break;
+        item.push('');
+      } else if (
+        indent >= contentIndent ||
+        (indent > baseIndent && LIST_ITEM.test(line.trimStart()))
+      ) {
+        item.push(line.slice(Math.min(indent, contentIndent)));
+      } else if (
+        item[item.length - 1].trim() &&
+        !startsBlock(line) &&
+        !LIST_ITEM.test(line)
+      ) {
+        // Continuación perezosa del párrafo
+        item.push(line.trim());
+      } else {
+        break;
+      }
+      index++;
+    }
+
+    if (item.includes('')) loose = true;
+    items.push(item);
+
+    // Una línea en blanco entre elementos hace la lista "holgada"
+    const next = nextContentLine(lines, index);
+    const nextMarker = next >= 0 ? LIST_ITEM.exec(lines[next]) : null;
+    if (next > index && nextMarker && isOrdered(nextMarker) === ordered) {
+      loose = true;
+      index = next;
+    }
+  }
+
+  const tag = ordered ? 'ol' : 'ul';
+  const first = ordered ? parseInt(LIST_ITEM.exec(lines[start])![2], 10) : 1;
+  const startAttr = first !== 1 ? ` start="${first}"` : '';
+  const html = items
+    .map((item) => `<li>${renderBlocks(item, context, !loose)}</li>`)
+    .join('\n');
+
+  return { html: `<${tag}${startAttr}>\n${html}\n</${tag}>`, next: index };
+}
+
+function isOrdered(marker: RegExpExecArray): boolean {
+  return /\d/.test(marker[2]);
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function nextContentLine(lines: string[], from: number): number {
+  for (let index = from; index < lines.length; index++) {
+    if (lines[index].trim()) return index;
+  }
+  return -1;
+}
+
+// ===================================
+// EN LÍNEA
+// ===================================
+
+/**
+ * Código, enlaces e imágenes se guardan aparte para que el énfasis no
+ * toque sus URLs; después se restauran.
+ */
+function renderInline(text: string): string {
+  const stash: string[] = [];
+  const keep = (html: string) => `\u0000${stash.push(html) - 1}\u0000`;
+
+  let html = text
+    .replace(/(`+)([\s\S]*?[^`])\1(?!`)/g, (_, __, code: string) =>
+      keep(`<code>${escapeHtml(code.trim())}</code>`)
+    )
+    // Escapes con barra invertida
+    .replace(/\\([\\`*_{}[\]()#+\-.!|~<>])/g, (_, char: string) =>
+      keep(escapeHtml(char))
+    )
+    .replace(
+      IMAGE,
+      (_, alt: string, bracketed?: string, bare?: string, title?: string) => {
+        const src = bracketed ?? bare ?? '';
+        return keep(
+          `<img src="${safeUrl(src)}" alt="${escapeHtml(alt)}"` +
+            `${title ? ` title="${escapeHtml(title)}"` : ''} loading="lazy">`
+        );
+      }
+    )
+    .replace(
+      LINK,
+      (_, label: string, bracketed?: string, bare?: string, title?: string) => {
+        const href = bracketed ?? bare ?? '';
+        return keep(
+          `<a href="${safeUrl(href)}"${
+            title ? ` title="${escapeHtml(title)}"` : ''
+          }${externalAttrs(href)}>${renderInline(label)}</a>`
+        );
+      }
+    )
+    .replace(/<((?:https?:\/\/|mailto:)[^\s>]+)>/g, (_, url: string) =>
+      keep(
+        `<a href="${safeUrl(url)}"${externalAttrs(url)}>${escapeHtml(
+          url.replace(/^mailto:/, '')
+        )}</a>`
+      )
+    );
+
+  html = escapeHtml(html)
+    .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, '<strong>$2</strong>')
+    .replace(/(?<![\w*])\*(?=\S)([\s\S]*?\S)\*(?!\*)/g, '<em>$1</em>')
+    .replace(/(?<![\w_])_(?=\S)([\s\S]*?\S)_(?![\w_])/g, '<em>$1</em>')
+    .replace(/~~(?=\S)([\s\S]*?\S)~~/g, '<del>$1</del>');
+
+  return html.replace(/\u0000(\d+)\u0000/g, (_, n: string) => stash[+n]);
+}
+
+/**
+ * Solo se permiten URLs http(s), mailto, tel y rutas relativas
+ */
+function safeUrl(url: string): string {
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(url.trim());
+  if (scheme && !/^(?:https?|mailto|tel)$/i.test(scheme[1])) return '#';
+  return escapeHtml(url.trim());
+}
+
+function externalAttrs(url: string): string {
+  return /^https?:\/\//i.test(url)
+    ? ' target="_blank" rel="noopener noreferrer"'
+    : '';
+}
@@ -0,0 +1,93 @@
+import type { BlogCategory, BlogPost } from '../models/blog.interface';
+import { readingTime, renderPostSource } from './post-source';
+
+const web = { id: 'c1', slug: 'desarrollo-web', name: 'Web' } as BlogCategory;
+
+function findCategory(slugOrId: string): BlogCategory | undefined {
+  return [web].find(
+    (category) => category.id === slugOrId || category.slug === slugOrId
+  );
+}
+
+function post(fields: Partial<BlogPost>): BlogPost {
+  return {
+    id: '1',
+    title: 'Título original',
+    excerpt: 'Extracto original',
+    content: '',
+    tags: ['original'],
+    categoryIds: ['c9'],
+    readingTime: 9,
+    ...fields,
+  } as BlogPost;
+}
+
+describe('renderPostSource', () => {
+  it('should apply the front-matter of Markdown posts', () => {
+    const rendered = renderPostSource(
+      post({
+        contentFormat: 'markdown',
+        content:
+          '---\n' +
+          'title: Desde el front-matter\n' +
+          'tags: [angular, ssr]\n' +
+          'categories: [desarrollo-web, inexistente]\n' +
+          'seo:\n  description: Descripción SEO\n  noIndex: true\n' +
+          '---\n' +
+          '## Introducción\n\nHola.',
+      }),
+      findCategory
+    );
+
+    expect(rendered.title).toBe('Desde el front-matter');
+    expect(rendered.excerpt).toBe('Extracto original');
+    expect(rendered.tags).toEqual(['angular', 'ssr']);
+    expect(rendered.categoryIds).toEqual(['c1']);
+    expect(rendered.seo?.metaDescription).toBe('Descripción SEO');
+    expect(rendered.seo?.noIndex).toBeTrue();
+    expect(rendered.contentFormat).toBe('html');
+    expect(rendered.readingTime).toBe(1);
+    expect(rendered.content).toContain('<h2 id="introduccion">');
+    expect(rendered.tableOfContents?.map((entry) => entry.id)).toEqual([
+      'introduccion',
+    ]);
+  });
+
+  it('should keep the post fields the front-matter leaves out', () => {
+    const rendered = renderPostSource(
+      post({ contentFormat: 'markdown', content: 'Solo cuerpo' }),
+      findCategory
+    );
+
+    expect(rendered.title).toBe('Título original');
+    expect(rendered.tags).toEqual(['original']);
+    expect(rendered.categoryIds).toEqual(['c9']);
+    expect(rendered.seo?.metaDescription).toBe('Extracto original');
+    expect(rendered.content).toBe('<p>Solo cuerpo</p>');
+  });
+
+  it('should process code blocks and shortcodes of HTML posts', () => {
+    const rendered = renderPostSource(
+      post({
+        content:
+          '<h2>Demo</h2>\n' +
+          '<pre><code class="language-ts">const a = 1;</code></pre>\n' +
+          '[youtube id=abc123]',
+      }),
+      findCategory
+    );
+
+    expect(rendered.title).toBe('Título original');
+    expect(rendered.readingTime).toBe(9);
+    expect(rendered.content).toContain('class="code-block-figure"');
+    expect(rendered.content).toContain('data-embed="youtube"');
+    expect(rendered.tableOfContents?.[0].id).toBe('demo');
+  });
+});
+
+describe('readingTime', () => {
+  it('should count words at 200 per minute, with at least one minute', () => {
+    expect(readingTime('')).toBe(1);
+    expect(readingTime(`<p>${'palabra '.repeat(201)}</p>`)).toBe(2);
+  });
+});
@@ -0,0 +1,118 @@
+import type { BlogCategory, BlogPost } from '../models/blog.interface';
+import { contentLocale } from '../i18n/locales';
+import { stripHtml } from '../search/text-analysis';
+import { renderHtmlCodeBlocks } from './code-blocks';
+import {
+  FrontMatterData,
+  frontMatterList,
+  frontMatterString,
+  parseFrontMatter,
+} from './front-matter';
+import { renderMarkdown } from './markdown';
+import { expandShortcodes } from './shortcodes';
+import { extractTableOfContents } from './table-of-contents';
+
+/**
+ * Procesado del contenido de los posts
+ * Compartida por la fuente de datos mock y la API local de server.ts: el
+ * post se guarda tal como lo escribe el autor y se convierte a HTML al
+ * leerlo, con el código resaltado, los shortcodes de contenido incrustado
+ * expandidos y los IDs de los encabezados y el índice calculados.
+ *
+ * Campos del front-matter: title, excerpt, tags, categories (slug o ID),
+ * featuredImage, featuredImageAlt y seo (title, description, keywords,
+ * canonicalUrl, noIndex). Lo que no se declara se toma del propio post.
+ */
+
+const WORDS_PER_MINUTE = 200;
+
+/**
+ * Post listo para mostrar: los de Markdown pasan a HTML y todos llevan
+ * sus shortcodes expandidos y su índice de contenidos
+ * @param findCategory Categoría por slug o ID
+ */
+export function renderPostSource(
+  post: BlogPost,
+  findCategory: (slugOrId: string) => BlogCategory | undefined
+): BlogPost {
+  const locale = contentLocale(post);
+  const rendered =
+    post.contentFormat === 'markdown'
+      ? renderMarkdownPost(post, findCategory)
+      : {
+          ...post,
+          content: renderHtmlCodeBlocks(post.content || '', { locale }),
+        };
+  const { html, entries } = extractTableOfContents(
+    expandShortcodes(rendered.content, { locale })
+  );
+
+  return { ...rendered, content: html, tableOfContents: entries };
+}
+
+/**
+ * Minutos de lectura de un contenido HTML
+ */
+export function readingTime(html: string): number {
+  const words = stripHtml(html).split(' ').filter(Boolean).length;
+  return Math.max(1, Math.ceil(words / WORDS_PER_MINUTE));
+}
+
+/**
+ * Aplica el front-matter al post y convierte el cuerpo a HTML
+ */
+function renderMarkdownPost(
+  post: BlogPost,
+  findCategory: (slugOrId: string) => BlogCategory | undefined
+): BlogPost {
+  const { data, body } = parseFrontMatter(post.content);
+  const { html } = renderMarkdown(body, { locale: contentLocale(post) });
+  const seo = frontMatterSection(data, 'seo');
+
+  const categories = frontMatterList(data, 'categories')
+    ?.map(findCategory)
+    .filter((category): category is BlogCategory => !!category);
+  const excerpt = frontMatterString(data, 'excerpt') ?? post.excerpt;
+
+  return {
+    ...post,
+    title: frontMatterString(data, 'title') ?? post.title,
+    excerpt,
+    featuredImage:
+      frontMatterString(data, 'featuredImage') ?? post.featuredImage,
+    featuredImageAlt:
+      frontMatterString(data, 'featuredImageAlt') ?? post.featuredImageAlt,
+    tags: frontMatterList(data, 'tags') ?? post.tags,
+    ...(categories?.length
+      ? { categoryIds: categories.map((category) => category.id), categories }
+      : {}),
+    seo: {
+      ...post.seo,
+      metaTitle: frontMatterString(seo, 'title') ?? post.seo?.metaTitle,
+      metaDescription:
+        frontMatterString(seo, 'description') ??
+        post.seo?.metaDescription ??
+        excerpt,
+      keywords: frontMatterList(seo, 'keywords') ?? post.seo?.keywords ?? [],
+      canonicalUrl:
+        frontMatterString(seo, 'canonicalUrl') ?? post.seo?.canonicalUrl,
+      noIndex:
+        typeof seo['noIndex'] === 'boolean'
+          ? seo['noIndex']
+          : post.seo?.noIndex ?? false,
+    },
+    content: html,
+    contentFormat: 'html',
+    readingTime: readingTime(html),
+  };
+}
+
+function frontMatterSection(
+  data: FrontMatterData,
+  key: string
+): FrontMatterData {
+  const value = data[key];
+  return value && typeof value === 'object' && !Array.isArray(value)
+    ? value
+    : {};
+}
@@ -0,0 +1,100 @@
+import { embedFrameSrc, expandShortcodes } from './shortcodes';
+
+describe('expandShortcodes', () => {
+  it('should turn a YouTube shortcode into a click-to-load facade', () => {
+    const html = expandShortcodes(
+      '<p>[youtube id=dQw4w9WgXcQ start=42 title="Mi vídeo"]</p>'
+    );
+
+    expect(html).toContain('data-embed="youtube"');
+    expect(html).toContain(
+      'data-embed-src="https://www.youtube-nocookie.com/embed/dQw4w9WgXcQ?autoplay=1&amp;start=42"'
+    );
+    expect(html).toContain(
+      'href="https://www.youtube.com/watch?v=dQw4w9WgXcQ"'
+    );
+    expect(html).toContain('https://i.ytimg.com/vi/dQw4w9WgXcQ/hqdefault.jpg');
+    expect(html).toContain('aria-label="Reproducir vídeo: Mi vídeo"');
+    expect(html).not.toContain('<iframe');
+  });
+
+  it('should build the frame of every provider', () => {
+    const html = expandShortcodes(
+      '[codepen user=ana pen=abcDEF tab=css]\n' +
+        '[gist user=ana id=0a1b2c file=app.ts]\n' +
+        '[stackblitz id=demo-app file=src/main.ts view=preview height=500]'
+    );
+
+    expect(html).toContain(
+      'data-embed-src="https://codepen.io/ana/embed/abcDEF?default-tab=css"'
+    );
+    expect(html).toContain(
+      'data-embed-src="https://gist.github.com/ana/0a1b2c.pibb?file=app.ts"'
+    );
+    expect(html).toContain(
+      'data-embed-src="https://stackblitz.com/edit/demo-app?embed=1&amp;file=src%2Fmain.ts&amp;view=preview"'
+    );
+    expect(html).toContain('data-embed-height="500"');
+  });
+
+  it('should read quotes escaped by the Markdown renderer', () => {
+    const html = expandShortcodes(
+      '<p>[youtube id=abc title=&quot;Signals &amp; RxJS&quot;]</p>'
+    );
+
+    expect(html).toContain('data-embed-title="Signals &amp; RxJS"');
+  });
+
+  it('should use the labels of the post language', () => {
+    const html = expandShortcodes('[codepen user=ana pen=abc]', {
+      locale: 'en',
+    });
+
+    expect(html).toContain('aria-label="Load interactive example: CodePen"');
+    expect(html).toContain('Clicking loads content from CodePen');
+  });
+
+  it('should leave invalid or inline shortcodes as text', () => {
+    const sources = [
+      '<p>[youtube]</p>',
+      '<p>[gist user=ana id=no-hex]</p>',
+      '<p>Mira [youtube id=abc] aquí</p>',
+      '<p>[vimeo id=123]</p>',
+    ];
+
+    sources.forEach((source) => expect(expandShortcodes(source)).toBe(source));
+  });
+
+  it('should not touch shortcodes inside code', () => {
+    const source =
+      '<pre><code>[youtube id=abc]</code></pre>\n<p><code>[youtube id=abc]</code></p>';
+
+    expect(expandShortcodes(source)).toBe(source);
+  });
+});
+
+describe('embedFrameSrc', () => {
+  it('should add the site theme for providers that support it', () => {
+    expect(
+      embedFrameSrc('codepen', 'https://codepen.io/ana/embed/abc', true)
+    ).toBe('https://codepen.io/ana/embed/abc?theme-id=dark');
+    expect(
+      embedFrameSrc('stackblitz', 'https://stackblitz.com/edit/x', false)
+    ).toBe('https://stackblitz.com/edit/x?theme=light');
+    expect(
+      embedFrameSrc(
+        'youtube',
+        'https://www.youtube-nocookie.com/embed/abc',
+        true
+      )
+    ).toBe('https://www.youtube-nocookie.com/embed/abc');
+  });
+
+  it('should reject unknown providers and hosts', () => {
+    expect(embedFrameSrc('vimeo', 'https://codepen.io/a', true)).toBeNull();
+    expect(
+      embedFrameSrc('youtube', 'https://evil.example/embed', true)
+    ).toBeNull();
+    expect(embedFrameSrc('toString', 'https://codepen.io/a', true)).toBeNull();
+  });
+});
@@ -0,0 +1,249 @@
+import type { BlogLocale } from '../models/blog.interface';
+import { DEFAULT_LOCALE } from '../i18n/locales';
+import { CONTENT_CHROME_ATTRIBUTE } from '../search/text-analysis';
+import { escapeHtml } from './code-highlight';
+import { isAllowedFrameUrl } from './html-sanitizer';
+
+/**
+ * Shortcodes de contenido incrustado
+ * `[youtube id=...]`, `[codepen user=... pen=...]`, `[gist user=... id=...]`
+ * y `[stackblitz id=...]` se convierten al procesar el post en una fachada
+ * (miniatura y enlace al original) que no carga nada de terceros hasta que
+ * el lector la pulsa; entonces blog-detail la cambia por el iframe.
+ *
+ * Solo se expanden los que ocupan su propio párrafo o línea. Si faltan
+ * parámetros o no son válidos, el shortcode se queda como texto.
+ * Del texto de la fachada solo cuenta para la búsqueda el título del autor.
+ */
+
+export type EmbedProvider = 'youtube' | 'codepen' | 'gist' | 'stackblitz';
+
+export interface ShortcodeOptions {
+  /** Idioma de los textos de la fachada */
+  locale?: BlogLocale;
+}
+
+type ShortcodeParams = Record<string, string>;
+
+interface EmbedDefinition {
+  name: string;
+  kind: 'video' | 'code';
+  /** Parámetro de la URL del iframe que recibe "dark" o "light" */
+  themeParam?: string;
+  /** URL del iframe, o null si faltan parámetros obligatorios */
+  frame(params: ShortcodeParams): string | null;
+  /** Página original, para quien no tiene JS o prefiere abrirla allí */
+  link(params: ShortcodeParams): string;
+  thumbnail?(params: ShortcodeParams): string;
+}
+
+const SLUG = /^[\w-]+$/;
+const FILE_PATH = /^[\w.-]+(?:\/[\w.-]+)*$/;
+
+const PROVIDERS: Record<EmbedProvider, EmbedDefinition> = {
+  youtube: {
+    name: 'YouTube',
+    kind: 'video',
+    frame: ({ id, start }) => {
+      if (!SLUG.test(id ?? '')) return null;
+      const url = new URL(`https://www.youtube-nocookie.com/embed/${id}`);
+      url.searchParams.set('autoplay', '1');
+      if (/^\d+$/.test(start ?? '')) url.searchParams.set('start', start);
+      return url.toString();
+    },
+    link: ({ id }) => `https://www.youtube.com/watch?v=${id}`,
+    thumbnail: ({ id }) => `https://i.ytimg.com/vi/${id}/hqdefault.jpg`,
+  },
+  codepen: {
+    name: 'CodePen',
+    kind: 'code',
+    themeParam: 'theme-id',
+    frame: ({ user, pen, tab }) => {
+      if (!SLUG.test(user ?? '') || !SLUG.test(pen ?? '')) return null;
+      const url = new URL(`https://codepen.io/${user}/embed/${pen}`);
+      url.searchParams.set(
+        'default-tab',
+        /^[\w,]+$/.test(tab ?? '') ? tab : 'result'
+      );
+      return url.toString();
+    },
+    link: ({ user, pen }) => `https://codepen.io/${user}/pen/${pen}`,
+  },
+  gist: {
+    name: 'GitHub Gist',
+    kind: 'code',
+    frame: ({ user, id, file }) => {
+      if (!SLUG.test(user ?? '') || !/^[\da-f]+$/i.test(id ?? '')) {
+        return null;
+      }
+      const url = new URL(`https://gist.github.com/${user}/${id}.pibb`);
+      if (FILE_PATH.test(file ?? '')) url.searchParams.set('file', file);
+      return url.toString();
+    },
+    link: ({ user, id }) => `https://gist.github.com/${user}/${id}`,
+  },
+  stackblitz: {
+    name: 'StackBlitz',
+    kind: 'code',
+    themeParam: 'theme',
+    frame: ({ id, file, view }) => {
+      if (!SLUG.test(id ?? '')) return null;
+      const url = new URL(`https://stackblitz.com/edit/${id}`);
+      url.searchParams.set('embed', '1');
+      if (FILE_PATH.test(file ?? '')) url.searchParams.set('file', file);
+      if (['editor', 'preview', 'both'].includes(view)) {
+        url.searchParams.set('view', view);
+      }
+      return url.toString();
+    },
+    link: ({ id }) => `https://stackblitz.com/edit/${id}`,
+  },
+};
+
+const LABELS: Record<
+  BlogLocale,
+  { video: string; code: string; notice: (provider: string) => string }
+> = {
+  es: {
+    video: 'Reproducir vídeo',
+    code: 'Cargar ejemplo interactivo',
+    notice: (provider) =>
+      `Al pulsar se cargará contenido de ${provider}, que puede usar cookies.`,
+  },
+  en: {
+    video: 'Play video',
+    code: 'Load interactive example',
+    notice: (provider) =>
+      `Clicking loads content from ${provider}, which may use cookies.`,
+  },
+};
+
+const PROVIDER_NAMES = Object.keys(PROVIDERS).join('|');
+const SHORTCODE = `\\[(${PROVIDER_NAMES})((?:[ \\t][^\\]<>\\n]*)?)\\]`;
+/** Shortcode solo en un párrafo (Markdown) o en su propia línea (HTML) */
+const BLOCK_SHORTCODE = new RegExp(
+  `<p>\\s*${SHORTCODE}\\s*</p>|^[ \\t]*${SHORTCODE}[ \\t]*$`,
+  'gim'
+);
+const PARAM = /([\w-]+)=(?:"([^"]*)"|'([^']*)'|(\S+))/g;
+/** Bloques cuyo contenido nunca se toca */
+const VERBATIM = /(<(pre|code)\b[\s\S]*?<\/\2\s*>)/i;
+
+/**
+ * Sustituye los shortcodes del HTML por sus fachadas
+ */
+export function expandShortcodes(
+  html: string,
+  options: ShortcodeOptions = {}
+): string {
+  const labels = LABELS[options.locale ?? DEFAULT_LOCALE];
+
+  // Con un grupo de captura, split deja los bloques verbatim en los impares
+  return html
+    .split(VERBATIM)
+    .map((part, index) => {
+      if (index % 3 === 1) return part;
+      if (index % 3 === 2) return '';
+      return part.replace(
+        BLOCK_SHORTCODE,
+        (match, ...groups: (string | undefined)[]) => {
+          const provider = (groups[0] ?? groups[2])!.toLowerCase();
+          const params = parseParams(groups[1] ?? groups[3] ?? '');
+          return (
+            renderFacade(provider as EmbedProvider, params, labels) ?? match
+          );
+        }
+      );
+    })
+    .join('');
+}
+
+/**
+ * URL definitiva del iframe de una fachada, con el tema del sitio.
+ * null si el proveedor no existe o la URL no es de un host permitido.
+ */
+export function embedFrameSrc(
+  provider: string,
+  src: string,
+  dark: boolean
+): string | null {
+  if (!Object.hasOwn(PROVIDERS, provider) || !isAllowedFrameUrl(src)) {
+    return null;
+  }
+
+  const { themeParam } = PROVIDERS[provider as EmbedProvider];
+  if (!themeParam) return src;
+
+  const url = new URL(src);
+  url.searchParams.set(themeParam, dark ? 'dark' : 'light');
+  return url.toString();
+}
+
+// ===================================
+// FACHADAS
+// ===================================
+
+function renderFacade(
+  provider: EmbedProvider,
+  params: ShortcodeParams,
+  labels: (typeof LABELS)[BlogLocale]
+): string | null {
+  const definition = PROVIDERS[provider];
+  const src = definition.frame(params);
+  if (!src) return null;
+
+  const action = labels[definition.kind];
+  const authorTitle = params['title']?.trim();
+  const title = authorTitle || definition.name;
+  const label = authorTitle || action;
+  const chrome = ` ${CONTENT_CHROME_ATTRIBUTE}`;
+  const height = /^\d{2,4}$/.test(params['height'] ?? '')
+    ? ` data-embed-height="${params['height']}"`
+    : '';
+  const thumbnail = definition.thumbnail
+    ? `<img class="embed-thumbnail" src="${escapeHtml(
+        definition.thumbnail(params)
+      )}" alt="" loading="lazy">`
+    : '';
+
+  return (
+    `<figure class="embed embed-${provider} embed-${definition.kind}" ` +
+    `data-embed="${provider}" data-embed-src="${escapeHtml(src)}" ` +
+    `data-embed-title="${escapeHtml(title)}"${height}>` +
+    `<a class="embed-facade" href="${escapeHtml(definition.link(params))}" ` +
+    `target="_blank" rel="noopener noreferrer" ` +
+    `aria-label="${escapeHtml(`${action}: ${title}`)}">` +
+    thumbnail +
+    `<span class="embed-play" aria-hidden="true"></span>` +
+    `<span class="embed-label"${authorTitle ? '' : chrome}>` +
+    `<span class="embed-provider"${chrome}>${definition.name}</span> ` +
+    `${escapeHtml(label)}</span>` +
+    `</a>` +
+    `<figcaption class="embed-notice"${chrome}>${escapeHtml(
+      labels.notice(definition.name)
+    )}</figcaption>` +
+    `</figure>`
+  );
+}
+
+/**
+ * Parámetros `clave=valor` de un shortcode; el Markdown ya ha escapado
+ * las comillas, así que se devuelven a su forma original antes de leerlos
+ */
+function parseParams(raw: string): ShortcodeParams {
+  const text = raw
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;/g, "'")
+    .replace(/&amp;/g, '&');
+  const params: ShortcodeParams = {};
+
+  PARAM.lastIndex = 0;
+  for (let match = PARAM.exec(text); match; match = PARAM.exec(text)) {
+    const key = match[1].toLowerCase();
+    if (!Object.hasOwn(params, key)) {
+      params[key] = match[2] ?? match[3] ?? match[4];
+    }
+  }
+
+  return params;
+}
@@ -0,0 +1,96 @@
+import {
+  extractTableOfContents,
+  flattenTableOfContents,
+  headingId,
+  uniqueHeadingId,
+} from './table-of-contents';
+
+describe('headingId', () => {
+  it('should build a slug without accents or punctuation', () => {
+    expect(headingId('¿Qué es RxJS?')).toBe('que-es-rxjs');
+    expect(headingId('  Paso 1: instalación  ')).toBe('paso-1-instalacion');
+    expect(headingId('¡!')).toBe('');
+  });
+});
+
+describe('uniqueHeadingId', () => {
+  it('should number repeated ids and fall back to a default', () => {
+    const used = new Set<string>();
+
+    expect(uniqueHeadingId('intro', used)).toBe('intro');
+    expect(uniqueHeadingId('intro', used)).toBe('intro-2');
+    expect(uniqueHeadingId('', used)).toBe('seccion');
+    expect(used.has('intro-2')).toBeTrue();
+  });
+});
+
+describe('extractTableOfContents', () => {
+  it('should nest h3 and h4 under the previous heading', () => {
+    const { entries } = extractTableOfContents(
+      '<h2>Uno</h2><h3>Uno A</h3><h4>Detalle</h4><h3>Uno B</h3><h2>Dos</h2>'
+    );
+
+    expect(entries.map((entry) => entry.id)).toEqual(['uno', 'dos']);
+    expect(entries[0].children.map((entry) => entry.id)).toEqual([
+      'uno-a',
+      'uno-b',
+    ]);
+    expect(entries[0].children[0].children[0]).toEqual({
+      id: 'detalle',
+      text: 'Detalle',
+      level: 4,
+      children: [],
+    });
+  });
+
+  it('should add ids to the headings of the HTML', () => {
+    const { html } = extractTableOfContents(
+      '<h2 class="titulo">Instalación <em>rápida</em></h2><h2>Instalación rápida</h2>'
+    );
+
+    expect(html).toBe(
+      '<h2 id="instalacion-rapida" class="titulo">Instalación <em>rápida</em></h2>' +
+        '<h2 id="instalacion-rapida-2">Instalación rápida</h2>'
+    );
+  });
+
+  it('should keep existing ids and replace repeated ones', () => {
+    const { html, entries } = extractTableOfContents(
+      '<h2 id="propio">Uno</h2><h2 id="propio">Dos</h2>'
+    );
+
+    expect(entries.map((entry) => entry.id)).toEqual(['propio', 'dos']);
+    expect(html).toBe('<h2 id="propio">Uno</h2><h2 id="dos">Dos</h2>');
+  });
+
+  it('should leave other heading levels alone', () => {
+    const source = '<h1>Título</h1><h5>Nota</h5>';
+    const { html, entries } = extractTableOfContents(source);
+
+    expect(html).toBe(source);
+    expect(entries).toEqual([]);
+  });
+
+  it('should give the same ids for the same content', () => {
+    const source = '<h2>Uno</h2><h3>Uno</h3>';
+
+    expect(extractTableOfContents(source)).toEqual(
+      extractTableOfContents(source)
+    );
+  });
+});
+
+describe('flattenTableOfContents', () => {
+  it('should list the entries in reading order', () => {
+    const { entries } = extractTableOfContents(
+      '<h2>A</h2><h3>B</h3><h4>C</h4><h2>D</h2>'
+    );
+
+    expect(flattenTableOfContents(entries).map((entry) => entry.id)).toEqual([
+      'a',
+      'b',
+      'c',
+      'd',
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import type { BlogTocEntry } from '../models/blog.interface';
+import { normalizeText, stripHtml } from '../search/text-analysis';
+
+/**
+ * Índice de contenidos de los posts
+ * Se calcula al procesar el contenido (servidor y datos mock), no en el
+ * DOM del navegador: el índice sale en el HTML del SSR y los IDs de los
+ * encabezados son siempre los mismos para un mismo texto.
+ */
+
+/** Niveles que entran en el índice */
+const TOC_LEVELS = /^h([2-4])$/i;
+
+const HEADING = /<(h[1-6])((?:[^>"']|"[^"]*"|'[^']*')*)>([\s\S]*?)<\/\1\s*>/gi;
+const ID_ATTRIBUTE = /\sid\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i;
+
+/**
+ * ID de ancla para el texto de un encabezado ("¿Qué es RxJS?" → "que-es-rxjs")
+ */
+export function headingId(text: string): string {
+  return normalizeText(text)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * ID que aún no está en uso: "instalacion", "instalacion-2"...
+ * Lo añade a `used`.
+ */
+export function uniqueHeadingId(base: string, used: Set<string>): string {
+  const root = base || 'seccion';
+  let id = root;
+  for (let n = 2; used.has(id); n++) {
+    id = `${root}-${n}`;
+  }
+  used.add(id);
+  return id;
+}
+
+/**
+ * Da ID a los encabezados h2–h4 que no lo tienen (o lo repiten) y
+ * devuelve el índice anidado: los h3 cuelgan del h2 anterior, los h4 del h3
+ */
+export function extractTableOfContents(html: string): {
+  html: string;
+  entries: BlogTocEntry[];
+} {
+  const used = new Set<string>();
+  const entries: BlogTocEntry[] = [];
+  const parents: BlogTocEntry[] = [];
+
+  const processed = html.replace(
+    HEADING,
+    (heading, tag: string, attributes: string, content: string) => {
+      const level = TOC_LEVELS.exec(tag);
+      if (!level) return heading;
+
+      const text = stripHtml(content);
+      const current = ID_ATTRIBUTE.exec(attributes);
+      const existing = current && (current[1] ?? current[2] ?? current[3]);
+      const id =
+        existing && !used.has(existing)
+          ? uniqueHeadingId(existing, used)
+          : uniqueHeadingId(headingId(text), used);
+
+      const entry: BlogTocEntry = {
+        id,
+        text,
+        level: Number(level[1]),
+        children: [],
+      };
+      while (
+        parents.length &&
+        parents[parents.length - 1].level >= entry.level
+      ) {
+        parents.pop();
+      }
+      (parents.length ? parents[parents.length - 1].children : entries).push(
+        entry
+      );
+      parents.push(entry);
+
+      if (id === existing) return heading;
+      const rest = current ? attributes.replace(ID_ATTRIBUTE, '') : attributes;
+      return `<${tag} id="${id}"${rest}>${content}</${tag}>`;
+    }
+  );
+
+  return { html: processed, entries };
+}
+
+/**
+ * Entradas del índice en orden de lectura, sin anidar
+ */
+export function flattenTableOfContents(
+  entries: BlogTocEntry[]
+): BlogTocEntry[] {
+  return entries.flatMap((entry) => [
+    entry,
+    ...flattenTableOfContents(entry.children),
+  ]);
+}
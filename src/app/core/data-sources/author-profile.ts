@@ -0,0 +1,182 @@
+import type {
+  AuthorProfile,
+  AuthorProfileConfig,
+  AuthorStats,
+  AuthorSummary,
+  BlogAuthor,
+} from '../models/author.interface';
+import type { BlogPost } from '../models/blog.interface';
+import { isPostListed } from './post-publishing';
+
+/**
+ * Perfil público y resumen de actividad de los autores a partir de sus posts
+ * Compartida por la fuente de datos mock y la API local de server.ts
+ */
+
+/** Configuración para autores sin perfil configurado */
+export const DEFAULT_AUTHOR_PROFILE_CONFIG: AuthorProfileConfig = {
+  isPublic: true,
+  showStats: true,
+  showRecentPosts: true,
+  showSocialLinks: true,
+  allowContact: false,
+  expertise: [],
+};
+
+const TOP_POSTS = 5;
+const TOP_CATEGORIES = 5;
+const TOP_TAGS = 10;
+const RECENT_POSTS = 5;
+
+/**
+ * Perfil del autor, o null si su perfil no es público
+ * @param posts Todos los posts (se filtran los del autor y los visibles)
+ */
+export function buildAuthorProfile(
+  author: BlogAuthor,
+  config: AuthorProfileConfig | undefined,
+  posts: BlogPost[],
+  now: Date,
+  resolveCategoryName: (id: string) => string | undefined = () => undefined
+): AuthorProfile | null {
+  const profileConfig = { ...DEFAULT_AUTHOR_PROFILE_CONFIG, ...config };
+  if (!profileConfig.isPublic) return null;
+
+  const authorPosts = posts.filter((post) => post.authorId === author.id);
+  const published = byNewest(
+    authorPosts.filter((post) => isPostListed(post, now))
+  );
+
+  return {
+    ...author,
+    stats: buildAuthorStats(author.id, authorPosts, now, resolveCategoryName),
+    recentPosts: published.slice(0, RECENT_POSTS).map((post) => ({
+      id: post.id,
+      title: post.title,
+      slug: post.slug,
+      excerpt: post.excerpt,
+      featuredImage: post.featuredImage,
+      publishedAt: post.publishedAt!,
+      views: post.views,
+      likes: post.likes,
+    })),
+    profileConfig,
+  };
+}
+
+/**
+ * Estadísticas de un autor
+ * Vistas, likes, categorías y tags solo cuentan los posts visibles
+ */
+export function buildAuthorStats(
+  authorId: string,
+  authorPosts: BlogPost[],
+  now: Date,
+  resolveCategoryName: (id: string) => string | undefined = () => undefined
+): AuthorStats {
+  const published = byNewest(
+    authorPosts.filter((post) => isPostListed(post, now))
+  );
+  const sum = (pick: (post: BlogPost) => number) =>
+    published.reduce((total, post) => total + pick(post), 0);
+
+  const totalViews = sum((post) => post.views);
+  const totalLikes = sum((post) => post.likes);
+  const totalComments = sum((post) => post.commentsCount);
+
+  return {
+    authorId,
+    totalPosts: authorPosts.length,
+    publishedPosts: published.length,
+    draftPosts: authorPosts.filter((post) => post.status === 'draft').length,
+    totalViews,
+    totalLikes,
+    totalComments,
+    avgViewsPerPost: published.length
+      ? Math.round(totalViews / published.length)
+      : 0,
+    engagementRate: totalViews
+      ? Math.round(((totalLikes + totalComments) / totalViews) * 10000) / 100
+      : 0,
+    topPosts: [...published]
+      .sort((a, b) => b.views - a.views)
+      .slice(0, TOP_POSTS)
+      .map((post) => ({
+        id: post.id,
+        title: post.title,
+        slug: post.slug,
+        views: post.views,
+        likes: post.likes,
+        publishedAt: post.publishedAt!,
+      })),
+    recentActivity: {
+      lastPostDate: published[0]?.publishedAt,
+      postsThisMonth: published.filter(
+        (post) =>
+          post.publishedAt!.getFullYear() === now.getFullYear() &&
+          post.publishedAt!.getMonth() === now.getMonth()
+      ).length,
+      postsThisYear: published.filter(
+        (post) => post.publishedAt!.getFullYear() === now.getFullYear()
+      ).length,
+    },
+    topCategories: countValues(published, (post) => post.categoryIds)
+      .slice(0, TOP_CATEGORIES)
+      .map(([categoryId, postCount]) => ({
+        categoryId,
+        categoryName: resolveCategoryName(categoryId) || categoryId,
+        postCount,
+      })),
+    topTags: countValues(published, (post) => post.tags)
+      .slice(0, TOP_TAGS)
+      .map(([tag, count]) => ({ tag, count })),
+  };
+}
+
+/**
+ * Resumen de actividad de cada autor (posts visibles, vistas, likes)
+ */
+export function buildAuthorSummaries(
+  authors: BlogAuthor[],
+  posts: BlogPost[],
+  now: Date
+): AuthorSummary[] {
+  const published = byNewest(posts.filter((post) => isPostListed(post, now)));
+
+  return authors.map((author) => {
+    const authorPosts = published.filter((post) => post.authorId === author.id);
+    return {
+      ...author,
+      postsCount: authorPosts.length,
+      totalViews: authorPosts.reduce((total, post) => total + post.views, 0),
+      totalLikes: authorPosts.reduce((total, post) => total + post.likes, 0),
+      lastPostDate: authorPosts[0]?.publishedAt,
+    };
+  });
+}
+
+/**
+ * Posts del más reciente al más antiguo
+ */
+function byNewest(posts: BlogPost[]): BlogPost[] {
+  return [...posts].sort(
+    (a, b) =>
+      new Date(b.publishedAt!).getTime() - new Date(a.publishedAt!).getTime()
+  );
+}
+
+/**
+ * Contar cuántos posts tienen cada valor, de más a menos frecuente
+ */
+function countValues(
+  posts: BlogPost[],
+  getValues: (post: BlogPost) => string[]
+): [string, number][] {
+  const counts = new Map<string, number>();
+  posts.forEach((post) =>
+    new Set(getValues(post)).forEach((value) =>
+      counts.set(value, (counts.get(value) || 0) + 1)
+    )
+  );
+  return Array.from(counts).sort((a, b) => b[1] - a[1]);
+}
@@ -0,0 +1,184 @@
+import type {
+  BlogAuthor,
+  BlogFilters,
+  BlogPagination,
+  BlogPost,
+  BlogPostsResponse,
+  BlogSearchFacets,
+  BlogSeriesDetail,
+} from '../models/blog.interface';
+import type { AuthorProfile, AuthorSummary } from '../models/author.interface';
+import type { LaravelPaginatedResponse } from '../models/laravel-response.model';
+
+/**
+ * Un modelo tal como llega en JSON: las fechas son strings ISO
+ */
+type WithJsonDates<T, K extends keyof T> = Omit<T, K> & {
+  [P in K]: T[P] | string;
+};
+
+/** Autor serializado por la API */
+export type ApiBlogAuthor = WithJsonDates<BlogAuthor, 'joinedAt'>;
+
+/** Post serializado por la API */
+export type ApiBlogPost = WithJsonDates<
+  Omit<BlogPost, 'author'>,
+  'createdAt' | 'updatedAt' | 'publishedAt' | 'expiresAt'
+> & {
+  author?: ApiBlogAuthor;
+};
+
+/** Serie serializada por la API, con sus posts */
+export type ApiBlogSeriesDetail = WithJsonDates<
+  Omit<BlogSeriesDetail, 'posts'>,
+  'createdAt' | 'updatedAt'
+> & {
+  posts: ApiBlogPost[];
+};
+
+/** Resumen de autor serializado por la API */
+export type ApiAuthorSummary = WithJsonDates<
+  AuthorSummary,
+  'joinedAt' | 'lastPostDate'
+>;
+
+/** Perfil de autor serializado por la API */
+export type ApiAuthorProfile = ApiBlogAuthor & {
+  stats: Omit<AuthorProfile['stats'], 'topPosts' | 'recentActivity'> & {
+    topPosts: WithJsonDates<
+      AuthorProfile['stats']['topPosts'][number],
+      'publishedAt'
+    >[];
+    recentActivity: WithJsonDates<
+      AuthorProfile['stats']['recentActivity'],
+      'lastPostDate'
+    >;
+  };
+  recentPosts: WithJsonDates<
+    AuthorProfile['recentPosts'][number],
+    'publishedAt'
+  >[];
+} & Pick<AuthorProfile, 'profileConfig' | 'followers' | 'following'>;
+
+/**
+ * Convertir un string ISO (o Date) en Date
+ */
+export function reviveDate(value: Date | string): Date {
+  return value instanceof Date ? value : new Date(value);
+}
+
+/**
+ * Restaurar las fechas de un autor
+ */
+export function reviveAuthor(author: ApiBlogAuthor): BlogAuthor {
+  return {
+    ...author,
+    joinedAt: reviveDate(author.joinedAt),
+  };
+}
+
+/**
+ * Restaurar las fechas del resumen de un autor
+ */
+export function reviveAuthorSummary(summary: ApiAuthorSummary): AuthorSummary {
+  return {
+    ...summary,
+    joinedAt: reviveDate(summary.joinedAt),
+    lastPostDate: summary.lastPostDate
+      ? reviveDate(summary.lastPostDate)
+      : undefined,
+  };
+}
+
+/**
+ * Restaurar las fechas de un post (y de su autor embebido)
+ */
+export function revivePost(post: ApiBlogPost): BlogPost {
+  return {
+    ...post,
+    author: post.author ? reviveAuthor(post.author) : undefined,
+    createdAt: reviveDate(post.createdAt),
+    updatedAt: reviveDate(post.updatedAt),
+    publishedAt: post.publishedAt ? reviveDate(post.publishedAt) : undefined,
+    expiresAt: post.expiresAt ? reviveDate(post.expiresAt) : undefined,
+  };
+}
+
+/**
+ * Restaurar las fechas de una serie y de sus posts
+ */
+export function reviveSeries(series: ApiBlogSeriesDetail): BlogSeriesDetail {
+  return {
+    ...series,
+    createdAt: reviveDate(series.createdAt),
+    updatedAt: reviveDate(series.updatedAt),
+    posts: series.posts.map(revivePost),
+  };
+}
+
+/**
+ * Restaurar las fechas de un perfil de autor y de sus estadísticas
+ */
+export function reviveAuthorProfile(profile: ApiAuthorProfile): AuthorProfile {
+  const { lastPostDate } = profile.stats.recentActivity;
+
+  return {
+    ...profile,
+    ...reviveAuthor(profile),
+    stats: {
+      ...profile.stats,
+      topPosts: profile.stats.topPosts.map((post) => ({
+        ...post,
+        publishedAt: reviveDate(post.publishedAt),
+      })),
+      recentActivity: {
+        ...profile.stats.recentActivity,
+        lastPostDate: lastPostDate ? reviveDate(lastPostDate) : undefined,
+      },
+    },
+    recentPosts: profile.recentPosts.map((post) => ({
+      ...post,
+      publishedAt: reviveDate(post.publishedAt),
+    })),
+  };
+}
+
+/**
+ * Convertir la paginación de Laravel (meta o paginator plano) en BlogPagination
+ */
+export function toBlogPagination<T>(
+  response: LaravelPaginatedResponse<T>
+): BlogPagination {
+  const meta = 'meta' in response ? response.meta : response;
+
+  return {
+    currentPage: meta.current_page,
+    totalPages: meta.last_page,
+    totalItems: meta.total,
+    itemsPerPage: meta.per_page,
+    hasPrevious: meta.current_page > 1,
+    hasNext: meta.current_page < meta.last_page,
+  };
+}
+
+/**
+ * Respuesta paginada de posts, con las facetas que añade el backend
+ */
+export type ApiBlogPostsResponse = LaravelPaginatedResponse<ApiBlogPost> & {
+  facets?: BlogSearchFacets;
+};
+
+/**
+ * Convertir una respuesta paginada de posts en BlogPostsResponse
+ */
+export function toBlogPostsResponse(
+  response: ApiBlogPostsResponse,
+  filters: BlogFilters
+): BlogPostsResponse {
+  return {
+    data: response.data.map(revivePost),
+    pagination: toBlogPagination(response),
+    filters,
+    facets: response.facets,
+  };
+}
@@ -0,0 +1,138 @@
+import { InjectionToken, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import type {
+  BlogAdjacentPosts,
+  BlogAdjacentScope,
+  BlogArchiveMonth,
+  BlogAuthor,
+  BlogFilters,
+  BlogLocale,
+  BlogPost,
+  BlogPostsResponse,
+  BlogSeriesDetail,
+  BlogTag,
+} from '../models/blog.interface';
+import type { AuthorProfile, AuthorSummary } from '../models/author.interface';
+import { MockBlogDataSource } from './mock-blog.data-source';
+
+/**
+ * Estadísticas generales del blog
+ */
+export interface BlogStats {
+  totalPosts: number;
+  totalViews: number;
+  totalLikes: number;
+  totalComments: number;
+  avgReadingTime: number;
+}
+
+/**
+ * Resultado de alternar un like
+ */
+export interface BlogLikeResult {
+  liked: boolean;
+  totalLikes: number;
+}
+
+/**
+ * Contrato de acceso a datos del blog (posts, autores, likes y vistas)
+ * Permite cambiar entre datos mock y un backend real sin tocar BlogService
+ */
+export interface BlogDataSource {
+  /** Posts publicados con filtros, ordenamiento y paginación */
+  getPosts(
+    page: number,
+    pageSize: number,
+    filters: BlogFilters
+  ): Observable<BlogPostsResponse>;
+
+  /** Post por ID (null si no existe) */
+  getPostById(id: string): Observable<BlogPost | null>;
+
+  /** Post por slug (null si no existe) */
+  getPostBySlug(slug: string): Observable<BlogPost | null>;
+
+  /** Posts destacados en un idioma */
+  getFeaturedPosts(limit: number, locale: BlogLocale): Observable<BlogPost[]>;
+
+  /** Posts más vistos en un idioma */
+  getPopularPosts(limit: number, locale: BlogLocale): Observable<BlogPost[]>;
+
+  /** Posts más recientes en un idioma */
+  getRecentPosts(limit: number, locale: BlogLocale): Observable<BlogPost[]>;
+
+  /** Posts publicados de una categoría */
+  getPostsByCategory(categoryId: string): Observable<BlogPost[]>;
+
+  /** Posts publicados de un autor */
+  getPostsByAuthor(authorId: string): Observable<BlogPost[]>;
+
+  /** Búsqueda de posts por término con filtros adicionales */
+  searchPosts(term: string, filters: BlogFilters): Observable<BlogPost[]>;
+
+  /** Consulta corregida para un término con errores tipográficos (o null) */
+  suggestSearchQuery(term: string): Observable<string | null>;
+
+  /** Posts relacionados con uno dado */
+  getRelatedPosts(postId: string, limit: number): Observable<BlogPost[]>;
+
+  /** Post anterior y siguiente en orden cronológico */
+  getAdjacentPosts(
+    postId: string,
+    scope: BlogAdjacentScope
+  ): Observable<BlogAdjacentPosts>;
+
+  /** Meses con posts publicados en un idioma y su número de posts */
+  getArchive(locale: BlogLocale): Observable<BlogArchiveMonth[]>;
+
+  /** Todas las series con sus posts visibles */
+  getSeries(): Observable<BlogSeriesDetail[]>;
+
+  /** Serie por slug (null si no existe) */
+  getSeriesBySlug(slug: string): Observable<BlogSeriesDetail | null>;
+
+  /** Serie a la que pertenece un post (null si no pertenece a ninguna) */
+  getSeriesByPost(postId: string): Observable<BlogSeriesDetail | null>;
+
+  /** Tags con posts publicados, de más a menos posts */
+  getTags(): Observable<BlogTag[]>;
+
+  /** Tag por slug (null si no tiene posts publicados) */
+  getTagBySlug(slug: string): Observable<BlogTag | null>;
+
+  /** Registrar una vista */
+  incrementViews(postId: string): Observable<boolean>;
+
+  /** Alternar like */
+  toggleLike(postId: string): Observable<BlogLikeResult>;
+
+  /** Estadísticas agregadas */
+  getBlogStats(): Observable<BlogStats>;
+
+  /** Todos los autores */
+  getAuthors(): Observable<BlogAuthor[]>;
+
+  /** Autor por ID (null si no existe) */
+  getAuthorById(id: string): Observable<BlogAuthor | null>;
+
+  /** Autor por slug (null si no existe) */
+  getAuthorBySlug(slug: string): Observable<BlogAuthor | null>;
+
+  /** Todos los autores con el resumen de su actividad publicada */
+  getAuthorSummaries(): Observable<AuthorSummary[]>;
+
+  /** Perfil público de un autor con sus estadísticas (null si no existe) */
+  getAuthorProfile(slug: string): Observable<AuthorProfile | null>;
+}
+
+/**
+ * Token de inyección para la fuente de datos del blog
+ * Por defecto usa los datos mock; app.config.ts selecciona la implementación
+ */
+export const BLOG_DATA_SOURCE = new InjectionToken<BlogDataSource>(
+  'Blog Data Source',
+  {
+    providedIn: 'root',
+    factory: () => inject(MockBlogDataSource),
+  }
+);
@@ -0,0 +1,304 @@
+import type { BlogPost } from '../models/blog.interface';
+import {
+  applyPostFilters,
+  buildPostArchive,
+  buildPostFacets,
+  buildPostsResponse,
+  findAdjacentPosts,
+  formatMonthLabel,
+  paginateItems,
+  sortPosts,
+} from './blog-query';
+
+const NOW = new Date(2024, 5, 1);
+
+function post(id: string, fields: Partial<BlogPost> = {}): BlogPost {
+  return {
+    id,
+    title: `Post ${id}`,
+    excerpt: '',
+    content: '',
+    tags: [],
+    categoryIds: [],
+    authorId: 'a1',
+    readingTime: 4,
+    publishedAt: new Date(2024, 2, 15),
+    ...fields,
+  } as BlogPost;
+}
+
+const posts = [
+  post('1', {
+    categoryIds: ['web'],
+    tags: ['angular', 'rxjs'],
+    authorId: 'a1',
+    readingTime: 3,
+    publishedAt: new Date(2024, 2, 10),
+  }),
+  post('2', {
+    categoryIds: ['web'],
+    tags: ['angular'],
+    authorId: 'a2',
+    readingTime: 8,
+    publishedAt: new Date(2024, 4, 10),
+  }),
+  post('3', {
+    categoryIds: ['design'],
+    tags: ['css'],
+    authorId: 'a2',
+    readingTime: 15,
+    publishedAt: new Date(2023, 10, 10),
+  }),
+];
+
+function ids(items: BlogPost[]): string[] {
+  return items.map((item) => item.id);
+}
+
+describe('applyPostFilters', () => {
+  it('should combine every filter', () => {
+    expect(ids(applyPostFilters(posts, { categoryIds: ['web'] }, NOW))).toEqual(
+      ['1', '2']
+    );
+    expect(
+      ids(
+        applyPostFilters(posts, { categoryIds: ['web'], authorId: 'a2' }, NOW)
+      )
+    ).toEqual(['2']);
+    expect(ids(applyPostFilters(posts, { readingTime: 'long' }, NOW))).toEqual([
+      '3',
+    ]);
+  });
+
+  it('should match tags without case or accents', () => {
+    const tagged = [post('1', { tags: ['Diseño'] }), post('2')];
+
+    expect(ids(applyPostFilters(tagged, { tags: ['diseno'] }, NOW))).toEqual([
+      '1',
+    ]);
+  });
+
+  it('should keep the posts inside the date range', () => {
+    const filtered = applyPostFilters(
+      posts,
+      {
+        dateFrom: new Date(2024, 0, 1),
+        dateTo: new Date(2024, 3, 30),
+      },
+      NOW
+    );
+
+    expect(ids(filtered)).toEqual(['1']);
+  });
+
+  it('should search phrases and exclude terms', () => {
+    const texts = [
+      post('1', { title: 'Guía de señales', content: '<p>Uso básico</p>' }),
+      post('2', { title: 'Guía de formularios' }),
+    ];
+
+    expect(
+      ids(applyPostFilters(texts, { phrases: ['guia de senales'] }, NOW))
+    ).toEqual(['1']);
+    expect(
+      ids(applyPostFilters(texts, { excludeTerms: ['formularios'] }, NOW))
+    ).toEqual(['1']);
+  });
+
+  it('should exclude exact terms only', () => {
+    const texts = [
+      post('1', { title: 'Java moderno' }),
+      post('2', { title: 'Novedades de JavaScript' }),
+      post('3', { title: 'Query params en Angular' }),
+      post('4', { title: 'Plugins de jQuery' }),
+    ];
+
+    expect(
+      ids(applyPostFilters(texts, { excludeTerms: ['java'] }, NOW))
+    ).toEqual(['2', '3', '4']);
+    expect(
+      ids(applyPostFilters(texts, { excludeTerms: ['jquery'] }, NOW))
+    ).toEqual(['1', '2', '3']);
+  });
+
+  it('should drop posts matching a negated tag, category or author', () => {
+    expect(
+      ids(applyPostFilters(posts, { excludeTags: ['RxJS'] }, NOW))
+    ).toEqual(['2', '3']);
+    expect(
+      ids(applyPostFilters(posts, { excludeCategoryIds: ['design'] }, NOW))
+    ).toEqual(['1', '2']);
+    expect(
+      ids(applyPostFilters(posts, { excludeAuthorIds: ['a2'] }, NOW))
+    ).toEqual(['1']);
+  });
+});
+
+describe('sortPosts', () => {
+  const stats = [
+    post('1', { title: 'beta', views: 5 }),
+    post('2', { title: 'Alfa', views: 20 }),
+    post('3', { title: 'gamma', views: 10 }),
+  ];
+
+  it('should sort by any field in both directions', () => {
+    expect(ids(sortPosts(stats, 'views'))).toEqual(['2', '3', '1']);
+    expect(ids(sortPosts(stats, 'title', 'asc'))).toEqual(['2', '1', '3']);
+  });
+
+  it('should fall back to the newest posts for relevance without a search', () => {
+    expect(ids(sortPosts(posts, 'relevance'))).toEqual(['2', '1', '3']);
+    expect(ids(sortPosts(posts, 'relevance', 'desc', 'angular'))).toEqual([
+      '1',
+      '2',
+      '3',
+    ]);
+  });
+});
+
+describe('findAdjacentPosts', () => {
+  it('should return the chronological neighbours of a post', () => {
+    const adjacent = findAdjacentPosts(posts, '1');
+
+    expect(adjacent.previous?.id).toBe('3');
+    expect(adjacent.next?.id).toBe('2');
+  });
+
+  it('should keep to the primary category when asked', () => {
+    const adjacent = findAdjacentPosts(posts, '1', 'category');
+
+    expect(adjacent.previous).toBeNull();
+    expect(adjacent.next?.id).toBe('2');
+  });
+
+  it('should skip posts in other languages and unknown ids', () => {
+    const mixed = [
+      ...posts.slice(0, 2),
+      { ...posts[2], locale: 'en' as const },
+    ];
+
+    expect(findAdjacentPosts(mixed, '1').previous).toBeNull();
+    expect(findAdjacentPosts(mixed, 'missing')).toEqual({
+      previous: null,
+      next: null,
+    });
+  });
+});
+
+describe('buildPostArchive', () => {
+  it('should count the posts of each month from newest to oldest', () => {
+    const archive = buildPostArchive([
+      ...posts,
+      post('4', { publishedAt: new Date(2024, 4, 20) }),
+    ]);
+
+    expect(archive).toEqual([
+      { year: 2024, month: 5, label: 'mayo 2024', count: 2 },
+      { year: 2024, month: 3, label: 'marzo 2024', count: 1 },
+      { year: 2023, month: 11, label: 'noviembre 2023', count: 1 },
+    ]);
+  });
+});
+
+describe('pagination', () => {
+  it('should slice a page and describe its position', () => {
+    const items = ['a', 'b', 'c', 'd', 'e'];
+
+    expect(paginateItems(items, 2, 2)).toEqual(['c', 'd']);
+    expect(paginateItems(items, 4, 2)).toEqual([]);
+
+    const { pagination } = buildPostsResponse([], 2, 2, {}, items.length);
+    expect(pagination).toEqual({
+      currentPage: 2,
+      totalPages: 3,
+      totalItems: 5,
+      itemsPerPage: 2,
+      hasPrevious: true,
+      hasNext: true,
+    });
+  });
+});
+
+describe('buildPostFacets', () => {
+  it('should count every value of the matching posts', () => {
+    const facets = buildPostFacets(posts, {}, NOW, undefined, (id) =>
+      id === 'web' ? 'Desarrollo Web' : undefined
+    );
+
+    expect(facets.categories).toEqual([
+      { value: 'web', label: 'Desarrollo Web', count: 2 },
+      { value: 'design', label: 'design', count: 1 },
+    ]);
+    expect(facets.tags).toEqual([
+      { value: 'angular', label: 'angular', count: 2 },
+      { value: 'rxjs', label: 'rxjs', count: 1 },
+      { value: 'css', label: 'css', count: 1 },
+    ]);
+    expect(facets.readingTime.map((facet) => facet.count)).toEqual([1, 1, 1]);
+  });
+
+  it('should sort years and months from newest to oldest', () => {
+    const facets = buildPostFacets(posts, {}, NOW);
+
+    expect(facets.years.map((facet) => facet.value)).toEqual(['2024', '2023']);
+    expect(facets.months.map((facet) => facet.value)).toEqual([
+      '2024-05',
+      '2024-03',
+      '2023-11',
+    ]);
+  });
+
+  it('should ignore its own filter so other options stay selectable', () => {
+    const facets = buildPostFacets(
+      posts,
+      {
+        categoryIds: ['web'],
+        authorIds: ['a2'],
+      },
+      NOW
+    );
+
+    // Categorías: solo filtra el autor (posts 2 y 3)
+    expect(facets.categories.map((facet) => facet.value)).toEqual([
+      'web',
+      'design',
+    ]);
+    // Autores: solo filtra la categoría (posts 1 y 2)
+    expect(facets.authors.map((facet) => facet.value)).toEqual(['a1', 'a2']);
+    // Tags: filtran los dos (post 2)
+    expect(facets.tags).toEqual([
+      { value: 'angular', label: 'angular', count: 1 },
+    ]);
+  });
+
+  it('should apply the other filters to the reading time buckets', () => {
+    const facets = buildPostFacets(
+      posts,
+      {
+        tags: ['angular'],
+        readingTime: 'short',
+      },
+      NOW
+    );
+
+    expect(facets.readingTime.map((facet) => facet.count)).toEqual([1, 1, 0]);
+  });
+
+  it('should label months and reading times in the requested locale', () => {
+    const english = posts.map((item) => ({ ...item, locale: 'en' as const }));
+    const es = buildPostFacets(posts, { locale: 'es' }, NOW);
+    const en = buildPostFacets(english, { locale: 'en' }, NOW);
+
+    expect(es.months[0].label).toBe('mayo 2024');
+    expect(en.months[0].label).toBe('May 2024');
+    expect(es.readingTime[0].label).toBe('Hasta 5 min');
+    expect(en.readingTime[0].label).toBe('Up to 5 min');
+  });
+});
+
+describe('formatMonthLabel', () => {
+  it('should default to the site locale', () => {
+    expect(formatMonthLabel('2024-03')).toBe('marzo 2024');
+    expect(formatMonthLabel('2024-12', 'en')).toBe('December 2024');
+  });
+});
@@ -0,0 +1,508 @@
+import type {
+  BlogAdjacentPosts,
+  BlogAdjacentScope,
+  BlogArchiveMonth,
+  BlogFacetCount,
+  BlogFilters,
+  BlogLocale,
+  BlogPagination,
+  BlogPost,
+  BlogPostsResponse,
+  BlogReadingTimeBucket,
+  BlogSearchFacets,
+  BlogSeries,
+  BlogSeriesDetail,
+  BlogSortBy,
+} from '../models/blog.interface';
+import { DEFAULT_LOCALE, contentLocale, localeConfig } from '../i18n/locales';
+import { translate } from '../i18n/translate';
+import { BlogSearchIndex } from '../search/blog-search-index';
+import { normalizeText, stripHtml } from '../search/text-analysis';
+
+/**
+ * Utilidades de consulta de posts en memoria
+ * Compartidas por la fuente de datos mock y la API local de server.ts
+ */
+
+/**
+ * Rangos de tiempo de lectura (minutos, ambos extremos incluidos)
+ * El texto de cada uno está en los catálogos (readingTime.<value>)
+ */
+export const READING_TIME_BUCKETS: {
+  value: BlogReadingTimeBucket;
+  min: number;
+  max: number;
+}[] = [
+  { value: 'short', min: 0, max: 5 },
+  { value: 'medium', min: 6, max: 10 },
+  { value: 'long', min: 11, max: Infinity },
+];
+
+/**
+ * Aplicar filtros a los posts
+ * La búsqueda de texto usa el índice invertido; los posts quedan ordenados por
+ * puntuación, con la recencia medida desde `now` (el reloj de quien llama)
+ */
+export function applyPostFilters(
+  posts: BlogPost[],
+  filters: BlogFilters,
+  now: Date,
+  searchIndex?: BlogSearchIndex
+): BlogPost[] {
+  let filteredPosts = [...posts];
+
+  // Filtro por búsqueda
+  if (filters.search) {
+    filteredPosts = searchPostsInIndex(
+      filteredPosts,
+      filters.search,
+      now,
+      searchIndex
+    );
+  }
+
+  // Filtro por frases exactas (sin acentos ni mayúsculas)
+  if (filters.phrases && filters.phrases.length > 0) {
+    const phrases = filters.phrases.map(normalizePhrase);
+    filteredPosts = filteredPosts.filter((post) => {
+      const text = normalizePhrase(
+        [
+          post.title,
+          post.excerpt,
+          post.tags.join(' '),
+          stripHtml(post.content),
+        ].join(' ')
+      );
+      return phrases.every((phrase) => text.includes(phrase));
+    });
+  }
+
+  // Exclusión de términos: solo coincidencias exactas, sin prefijos ni
+  // errores tipográficos ("-java" no debe quitar los posts de JavaScript)
+  if (filters.excludeTerms && filters.excludeTerms.length > 0) {
+    const index = searchIndex ?? buildSearchIndex(filteredPosts);
+    const excludedIds = new Set(
+      filters.excludeTerms.flatMap((term) => index.matchExact(term))
+    );
+    filteredPosts = filteredPosts.filter((post) => !excludedIds.has(post.id));
+  }
+
+  // Filtro por categorías
+  if (filters.categoryIds && filters.categoryIds.length > 0) {
+    filteredPosts = filteredPosts.filter((post) =>
+      filters.categoryIds!.some((catId) => post.categoryIds.includes(catId))
+    );
+  }
+
+  // Filtro por tags (sin distinguir mayúsculas ni acentos)
+  if (filters.tags && filters.tags.length > 0) {
+    const tags = filters.tags.map(normalizeText);
+    filteredPosts = filteredPosts.filter((post) =>
+      post.tags.some((tag) => tags.includes(normalizeText(tag)))
+    );
+  }
+
+  // Operadores negados (-tag:, -categoria:, -autor:)
+  if (filters.excludeTags && filters.excludeTags.length > 0) {
+    const tags = filters.excludeTags.map(normalizeText);
+    filteredPosts = filteredPosts.filter(
+      (post) => !post.tags.some((tag) => tags.includes(normalizeText(tag)))
+    );
+  }
+
+  if (filters.excludeCategoryIds && filters.excludeCategoryIds.length > 0) {
+    filteredPosts = filteredPosts.filter(
+      (post) =>
+        !post.categoryIds.some((id) => filters.excludeCategoryIds!.includes(id))
+    );
+  }
+
+  if (filters.excludeAuthorIds && filters.excludeAuthorIds.length > 0) {
+    filteredPosts = filteredPosts.filter(
+      (post) => !filters.excludeAuthorIds!.includes(post.authorId)
+    );
+  }
+
+  // Filtro por autor
+  if (filters.authorId) {
+    filteredPosts = filteredPosts.filter(
+      (post) => post.authorId === filters.authorId
+    );
+  }
+
+  if (filters.authorIds && filters.authorIds.length > 0) {
+    filteredPosts = filteredPosts.filter((post) =>
+      filters.authorIds!.includes(post.authorId)
+    );
+  }
+
+  // Filtro por estado
+  if (filters.status) {
+    filteredPosts = filteredPosts.filter(
+      (post) => post.status === filters.status
+    );
+  }
+
+  // Filtro solo destacados
+  if (filters.featured) {
+    filteredPosts = filteredPosts.filter((post) => post.featured);
+  }
+
+  // Filtro por idioma
+  if (filters.locale) {
+    filteredPosts = filteredPosts.filter(
+      (post) => contentLocale(post) === filters.locale
+    );
+  }
+
+  // Filtro por tiempo de lectura
+  if (filters.readingTime) {
+    const bucket = READING_TIME_BUCKETS.find(
+      (item) => item.value === filters.readingTime
+    );
+    if (bucket) {
+      filteredPosts = filteredPosts.filter(
+        (post) =>
+          post.readingTime >= bucket.min && post.readingTime <= bucket.max
+      );
+    }
+  }
+
+  // Filtro por fechas
+  if (filters.dateFrom) {
+    filteredPosts = filteredPosts.filter(
+      (post) => new Date(post.publishedAt!) >= filters.dateFrom!
+    );
+  }
+
+  if (filters.dateTo) {
+    filteredPosts = filteredPosts.filter(
+      (post) => new Date(post.publishedAt!) <= filters.dateTo!
+    );
+  }
+
+  return filteredPosts;
+}
+
+/**
+ * Buscar texto sobre un listado de posts, de mayor a menor puntuación
+ * Sin índice se construye uno temporal con los posts recibidos
+ */
+export function searchPostsInIndex(
+  posts: BlogPost[],
+  query: string,
+  now: Date,
+  searchIndex?: BlogSearchIndex
+): BlogPost[] {
+  const index = searchIndex ?? buildSearchIndex(posts);
+  const postsById = new Map(posts.map((post) => [post.id, post]));
+
+  return index
+    .search(query, now)
+    .map((hit) => postsById.get(hit.postId))
+    .filter((post): post is BlogPost => !!post);
+}
+
+/**
+ * Índice temporal para quien no tiene uno
+ */
+function buildSearchIndex(posts: BlogPost[]): BlogSearchIndex {
+  const index = new BlogSearchIndex();
+  index.sync(posts);
+  return index;
+}
+
+/**
+ * Calcular las facetas de una búsqueda sobre el conjunto completo de posts
+ * Cada grupo se cuenta aplicando todos los filtros excepto el del propio grupo;
+ * los textos van en el idioma de filters.locale
+ */
+export function buildPostFacets(
+  posts: BlogPost[],
+  filters: BlogFilters,
+  now: Date,
+  searchIndex?: BlogSearchIndex,
+  resolveCategoryName: (id: string) => string | undefined = () => undefined
+): BlogSearchFacets {
+  const without = (...keys: (keyof BlogFilters)[]) => {
+    const rest = { ...filters };
+    keys.forEach((key) => delete rest[key]);
+    return applyPostFilters(posts, rest, now, searchIndex);
+  };
+
+  const locale = filters.locale ?? DEFAULT_LOCALE;
+  const byDate = without('dateFrom', 'dateTo');
+  const byReadingTime = without('readingTime');
+
+  return {
+    categories: countFacet(
+      without('categoryIds'),
+      (post) => post.categoryIds,
+      (id) => resolveCategoryName(id) || id
+    ),
+    tags: countFacet(
+      without('tags'),
+      (post) => post.tags,
+      (tag) => tag
+    ),
+    authors: countFacet(
+      without('authorId', 'authorIds'),
+      (post) => [post.authorId],
+      (id, post) => post.author?.name || id
+    ),
+    years: countFacet(
+      byDate,
+      (post) =>
+        post.publishedAt ? [String(post.publishedAt.getFullYear())] : [],
+      (year) => year
+    ).sort((a, b) => b.value.localeCompare(a.value)),
+    months: countFacet(
+      byDate,
+      (post) => (post.publishedAt ? [toMonthKey(post.publishedAt)] : []),
+      (month) => formatMonthLabel(month, locale)
+    ).sort((a, b) => b.value.localeCompare(a.value)),
+    readingTime: READING_TIME_BUCKETS.map((bucket) => ({
+      value: bucket.value,
+      label: translate(locale, `readingTime.${bucket.value}`),
+      count: byReadingTime.filter(
+        (post) =>
+          post.readingTime >= bucket.min && post.readingTime <= bucket.max
+      ).length,
+    })),
+  };
+}
+
+/**
+ * Contar los valores de un grupo (un post cuenta una vez por valor)
+ */
+function countFacet(
+  posts: BlogPost[],
+  getValues: (post: BlogPost) => string[],
+  getLabel: (value: string, post: BlogPost) => string
+): BlogFacetCount[] {
+  const counts = new Map<string, BlogFacetCount>();
+
+  posts.forEach((post) => {
+    new Set(getValues(post)).forEach((value) => {
+      const facet = counts.get(value) || {
+        value,
+        label: getLabel(value, post),
+        count: 0,
+      };
+      facet.count++;
+      counts.set(value, facet);
+    });
+  });
+
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Clave de mes "YYYY-MM"
+ */
+function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+    2,
+    '0'
+  )}`;
+}
+
+/**
+ * "2024-03" → "marzo 2024" ("March 2024" en inglés)
+ */
+export function formatMonthLabel(
+  month: string,
+  locale: BlogLocale = DEFAULT_LOCALE
+): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const name = new Intl.DateTimeFormat(localeConfig(locale).intl, {
+    month: 'long',
+    timeZone: 'UTC',
+  }).format(new Date(Date.UTC(year, monthNumber - 1, 1)));
+
+  return `${name} ${year}`;
+}
+
+/**
+ * Normalizar una frase para compararla: sin acentos y con espacios simples
+ */
+function normalizePhrase(text: string): string {
+  return normalizeText(text).replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Aplicar ordenamiento
+ * 'relevance' conserva el orden por puntuación que deja applyPostFilters
+ * al buscar; sin búsqueda equivale a los más recientes
+ */
+export function sortPosts(
+  posts: BlogPost[],
+  sortBy: BlogSortBy = 'publishedAt',
+  direction: 'asc' | 'desc' = 'desc',
+  searchQuery?: string
+): BlogPost[] {
+  if (sortBy === 'relevance') {
+    return searchQuery ? [...posts] : sortPosts(posts, 'publishedAt', 'desc');
+  }
+
+  return [...posts].sort((a, b) => {
+    let aValue: any, bValue: any;
+
+    switch (sortBy) {
+      case 'publishedAt':
+        aValue = new Date(a.publishedAt!).getTime();
+        bValue = new Date(b.publishedAt!).getTime();
+        break;
+      case 'createdAt':
+        aValue = new Date(a.createdAt).getTime();
+        bValue = new Date(b.createdAt).getTime();
+        break;
+      case 'updatedAt':
+        aValue = new Date(a.updatedAt).getTime();
+        bValue = new Date(b.updatedAt).getTime();
+        break;
+      case 'title':
+        aValue = a.title.toLowerCase();
+        bValue = b.title.toLowerCase();
+        break;
+      case 'views':
+        aValue = a.views;
+        bValue = b.views;
+        break;
+      case 'likes':
+        aValue = a.likes;
+        bValue = b.likes;
+        break;
+      case 'commentsCount':
+        aValue = a.commentsCount;
+        bValue = b.commentsCount;
+        break;
+      case 'readingTime':
+        aValue = a.readingTime;
+        bValue = b.readingTime;
+        break;
+      default:
+        aValue = new Date(a.publishedAt!).getTime();
+        bValue = new Date(b.publishedAt!).getTime();
+    }
+
+    if (direction === 'asc') {
+      return aValue > bValue ? 1 : aValue < bValue ? -1 : 0;
+    } else {
+      return aValue < bValue ? 1 : aValue > bValue ? -1 : 0;
+    }
+  });
+}
+
+/**
+ * Vecinos cronológicos de un post dentro de un listado
+ * Con scope 'category' solo cuentan los posts de su categoría principal
+ */
+export function findAdjacentPosts(
+  posts: BlogPost[],
+  postId: string,
+  scope: BlogAdjacentScope = 'all'
+): BlogAdjacentPosts {
+  const current = posts.find((post) => post.id === postId);
+  if (!current) return { previous: null, next: null };
+
+  const primaryCategoryId = current.categoryIds[0];
+  const sameLocale = posts.filter(
+    (post) => contentLocale(post) === contentLocale(current)
+  );
+  const timeline = sortPosts(
+    scope === 'category' && primaryCategoryId
+      ? sameLocale.filter((post) =>
+          post.categoryIds.includes(primaryCategoryId)
+        )
+      : sameLocale,
+    'publishedAt',
+    'asc'
+  );
+  const index = timeline.findIndex((post) => post.id === postId);
+
+  return {
+    previous: timeline[index - 1] || null,
+    next: timeline[index + 1] || null,
+  };
+}
+
+/**
+ * Meses con posts publicados, del más reciente al más antiguo
+ */
+export function buildPostArchive(
+  posts: BlogPost[],
+  locale: BlogLocale = DEFAULT_LOCALE
+): BlogArchiveMonth[] {
+  return countFacet(
+    posts,
+    (post) => (post.publishedAt ? [toMonthKey(post.publishedAt)] : []),
+    (month) => formatMonthLabel(month, locale)
+  )
+    .sort((a, b) => b.value.localeCompare(a.value))
+    .map(({ value, label, count }) => {
+      const [year, month] = value.split('-').map(Number);
+      return { year, month, label, count };
+    });
+}
+
+/**
+ * Serie con sus posts visibles en orden de lectura
+ * Las partes que aún no están publicadas no se incluyen
+ */
+export function buildSeriesDetail(
+  series: BlogSeries,
+  posts: BlogPost[]
+): BlogSeriesDetail {
+  const byId = new Map(posts.map((post) => [post.id, post]));
+  const seriesPosts = series.postIds
+    .map((id) => byId.get(id))
+    .filter((post): post is BlogPost => !!post);
+
+  return {
+    ...series,
+    coverImage: series.coverImage || seriesPosts[0]?.featuredImage,
+    posts: seriesPosts,
+  };
+}
+
+/**
+ * Aplicar paginación a cualquier listado
+ */
+export function paginateItems<T>(
+  items: T[],
+  page: number,
+  pageSize: number
+): T[] {
+  const startIndex = (page - 1) * pageSize;
+  const endIndex = startIndex + pageSize;
+  return items.slice(startIndex, endIndex);
+}
+
+/**
+ * Construir respuesta con paginación
+ */
+export function buildPostsResponse(
+  posts: BlogPost[],
+  page: number,
+  pageSize: number,
+  filters: BlogFilters,
+  totalItems: number
+): BlogPostsResponse {
+  const totalPages = Math.ceil(totalItems / pageSize);
+
+  const pagination: BlogPagination = {
+    currentPage: page,
+    totalPages,
+    totalItems,
+    itemsPerPage: pageSize,
+    hasPrevious: page > 1,
+    hasNext: page < totalPages,
+  };
+
+  return {
+    data: posts,
+    pagination,
+    filters,
+  };
+}
@@ -0,0 +1,92 @@
+import type {
+  BlogPost,
+  BlogRelatedTag,
+  BlogTag,
+  BlogTagMetadata,
+} from '../models/blog.interface';
+import { normalizeText } from '../search/text-analysis';
+import { isPostListed } from './post-publishing';
+
+/**
+ * Tags del blog a partir de los posts publicados
+ * Compartida por la fuente de datos mock y la API local de server.ts
+ */
+
+/** Color de los tags sin metadatos */
+export const DEFAULT_TAG_COLOR = '#6b7280';
+
+const RELATED_TAGS = 5;
+
+/**
+ * Slug de un tag ("Desarrollo Web" → "desarrollo-web", "comparación" → "comparacion")
+ */
+export function tagSlug(tag: string): string {
+  return normalizeText(tag)
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+/**
+ * Todos los tags con posts publicados, de más a menos posts
+ * Los nombres que comparten slug se cuentan como un solo tag
+ * @param resolveMetadata Metadatos editoriales del tag por slug
+ */
+export function buildTags(
+  posts: BlogPost[],
+  now: Date,
+  resolveMetadata: (slug: string) => BlogTagMetadata | undefined = () =>
+    undefined
+): BlogTag[] {
+  const names = new Map<string, string>();
+  const counts = new Map<string, number>();
+  const shared = new Map<string, Map<string, number>>();
+
+  posts
+    .filter((post) => isPostListed(post, now))
+    .forEach((post) => {
+      const slugs = new Set<string>();
+      post.tags.forEach((tag) => {
+        const slug = tagSlug(tag);
+        if (!slug) return;
+        if (!names.has(slug)) names.set(slug, tag);
+        slugs.add(slug);
+      });
+
+      slugs.forEach((slug) => {
+        counts.set(slug, (counts.get(slug) || 0) + 1);
+        const related = shared.get(slug) || new Map<string, number>();
+        slugs.forEach((other) => {
+          if (other !== slug) related.set(other, (related.get(other) || 0) + 1);
+        });
+        shared.set(slug, related);
+      });
+    });
+
+  return Array.from(counts, ([slug, count]): BlogTag => {
+    const name = names.get(slug)!;
+    const metadata = resolveMetadata(slug);
+
+    return {
+      name,
+      slug,
+      description: metadata?.description || `Artículos del blog sobre ${name}.`,
+      color: metadata?.color || DEFAULT_TAG_COLOR,
+      count,
+      relatedTags: Array.from(
+        shared.get(slug) || [],
+        ([other, sharedPosts]): BlogRelatedTag => ({
+          name: names.get(other)!,
+          slug: other,
+          sharedPosts,
+        })
+      )
+        .sort(
+          (a, b) =>
+            b.sharedPosts - a.sharedPosts ||
+            counts.get(b.slug)! - counts.get(a.slug)! ||
+            a.name.localeCompare(b.name, 'es')
+        )
+        .slice(0, RELATED_TAGS),
+    };
+  }).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name, 'es'));
+}
@@ -0,0 +1,31 @@
+import { InjectionToken, inject } from '@angular/core';
+import { Observable } from 'rxjs';
+import type { BlogCategory } from '../models/categoria.interface';
+import { MockCategoryDataSource } from './mock-category.data-source';
+
+/**
+ * Contrato de acceso a datos de categorías
+ * CategoriaService construye jerarquías, filtros y estadísticas sobre este listado
+ */
+export interface CategoryDataSource {
+  /** Todas las categorías (principales y subcategorías) */
+  getCategories(): Observable<BlogCategory[]>;
+
+  /** Categoría por ID (null si no existe) */
+  getCategoryById(id: string): Observable<BlogCategory | null>;
+
+  /** Categoría por slug (null si no existe) */
+  getCategoryBySlug(slug: string): Observable<BlogCategory | null>;
+}
+
+/**
+ * Token de inyección para la fuente de datos de categorías
+ * Por defecto usa los datos mock; app.config.ts selecciona la implementación
+ */
+export const CATEGORY_DATA_SOURCE = new InjectionToken<CategoryDataSource>(
+  'Category Data Source',
+  {
+    providedIn: 'root',
+    factory: () => inject(MockCategoryDataSource),
+  }
+);
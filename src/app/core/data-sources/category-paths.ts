@@ -0,0 +1,85 @@
+import type { BlogCategory } from '../models/categoria.interface';
+
+/**
+ * URLs jerárquicas de categorías (/blog/categoria/padre/hija)
+ * Compartida por la aplicación y el servidor (sitemap y redirecciones)
+ */
+
+/** Prefijo común de las URLs de categoría */
+export const CATEGORY_BASE_PATH = '/blog/categoria';
+
+/**
+ * Cadena de categorías desde la raíz hasta `category` (incluida)
+ * Un padre inexistente o un ciclo cortan la cadena
+ */
+export function categoryAncestry(
+  category: BlogCategory,
+  categories: BlogCategory[]
+): BlogCategory[] {
+  const chain = [category];
+  let parentId = category.parentId;
+
+  while (parentId && !chain.some((item) => item.id === parentId)) {
+    const parent = categories.find((item) => item.id === parentId);
+    if (!parent) break;
+    chain.unshift(parent);
+    parentId = parent.parentId;
+  }
+
+  return chain;
+}
+
+/**
+ * Segmentos de la URL de una categoría (["desarrollo-web", "frontend"])
+ */
+export function categorySlugPath(
+  category: BlogCategory,
+  categories: BlogCategory[]
+): string[] {
+  return categoryAncestry(category, categories).map((item) => item.slug);
+}
+
+/**
+ * URL a partir de los slugs desde la raíz
+ */
+export function categoryPathUrl(slugPath: string[]): string {
+  return `${CATEGORY_BASE_PATH}/${slugPath.join('/')}`;
+}
+
+/**
+ * URL canónica de una categoría
+ */
+export function categoryUrl(
+  category: BlogCategory,
+  categories: BlogCategory[]
+): string {
+  return categoryPathUrl(categorySlugPath(category, categories));
+}
+
+/**
+ * IDs de todas las subcategorías de una categoría, a cualquier profundidad
+ */
+export function categoryDescendantIds(
+  categoryId: string,
+  categories: BlogCategory[]
+): string[] {
+  const ids: string[] = [];
+  const pending = [categoryId];
+
+  while (pending.length > 0) {
+    const parentId = pending.shift()!;
+    categories
+      .filter(
+        (category) =>
+          category.parentId === parentId &&
+          category.id !== categoryId &&
+          !ids.includes(category.id)
+      )
+      .forEach((category) => {
+        ids.push(category.id);
+        pending.push(category.id);
+      });
+  }
+
+  return ids;
+}
@@ -0,0 +1,507 @@
+import { Injectable, inject } from '@angular/core';
+import { HttpParams } from '@angular/common/http';
+import {
+  Observable,
+  catchError,
+  forkJoin,
+  map,
+  of,
+  switchMap,
+  throwError,
+} from 'rxjs';
+import type {
+  BlogAdjacentPosts,
+  BlogAdjacentScope,
+  BlogArchiveMonth,
+  BlogAuthor,
+  BlogFilters,
+  BlogLocale,
+  BlogPost,
+  BlogPostsResponse,
+  BlogSeriesDetail,
+  BlogTag,
+} from '../models/blog.interface';
+import type { AuthorProfile, AuthorSummary } from '../models/author.interface';
+import type {
+  LaravelPaginatedResponse,
+  LaravelResource,
+} from '../models/laravel-response.model';
+import type {
+  BlogDataSource,
+  BlogLikeResult,
+  BlogStats,
+} from './blog-data-source';
+import { ApiService } from '../http/api.service';
+import { I18nService } from '../services/i18n.service';
+import type { MessageKey } from '../i18n/translate';
+import {
+  ApiAuthorProfile,
+  ApiAuthorSummary,
+  ApiBlogAuthor,
+  ApiBlogPost,
+  ApiBlogPostsResponse,
+  ApiBlogSeriesDetail,
+  reviveAuthor,
+  reviveAuthorProfile,
+  reviveAuthorSummary,
+  revivePost,
+  reviveSeries,
+  toBlogPagination,
+  toBlogPostsResponse,
+} from './blog-api.mapper';
+
+/** Tamaño de página al pedir listados completos (el máximo de la API) */
+const LIST_PAGE_SIZE = 100;
+
+/** Nombre del recurso en los mensajes de error ("Error al cargar los posts") */
+type ApiResourceKey = Extract<MessageKey, `resource.${string}`>;
+
+/**
+ * Fuente de datos HTTP del blog
+ * Consume la API Laravel (environment.urlRaiz) a través de ApiService
+ * y adapta sus envoltorios paginados a los modelos del blog
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class HttpBlogDataSource implements BlogDataSource {
+  private apiService = inject(ApiService);
+  private i18n = inject(I18nService);
+
+  /**
+   * Obtener posts publicados con filtros, ordenamiento y paginación
+   */
+  getPosts(
+    page: number,
+    pageSize: number,
+    filters: BlogFilters
+  ): Observable<BlogPostsResponse> {
+    const params = this._buildParams(filters)
+      .set('page', page)
+      .set('per_page', pageSize);
+
+    return this.apiService.get<ApiBlogPostsResponse>('posts', params).pipe(
+      map((response) => toBlogPostsResponse(response, filters)),
+      catchError((error) => this._handleError('resource.posts', error))
+    );
+  }
+
+  /**
+   * Obtener un post por ID
+   */
+  getPostById(id: string): Observable<BlogPost | null> {
+    return this._getPost(`posts/id/${encodeURIComponent(id)}`);
+  }
+
+  /**
+   * Obtener un post por slug
+   */
+  getPostBySlug(slug: string): Observable<BlogPost | null> {
+    return this._getPost(`posts/${encodeURIComponent(slug)}`);
+  }
+
+  /**
+   * Obtener posts destacados
+   */
+  getFeaturedPosts(limit: number, locale: BlogLocale): Observable<BlogPost[]> {
+    return this._getPostList({ featured: true, locale }, limit);
+  }
+
+  /**
+   * Obtener posts populares
+   */
+  getPopularPosts(limit: number, locale: BlogLocale): Observable<BlogPost[]> {
+    return this._getPostList(
+      { sortBy: 'views', sortDirection: 'desc', locale },
+      limit
+    );
+  }
+
+  /**
+   * Obtener posts recientes
+   */
+  getRecentPosts(limit: number, locale: BlogLocale): Observable<BlogPost[]> {
+    return this._getPostList(
+      { sortBy: 'publishedAt', sortDirection: 'desc', locale },
+      limit
+    );
+  }
+
+  /**
+   * Obtener posts por categoría
+   */
+  getPostsByCategory(categoryId: string): Observable<BlogPost[]> {
+    return this._getPostList({ categoryIds: [categoryId] });
+  }
+
+  /**
+   * Obtener posts por autor
+   */
+  getPostsByAuthor(authorId: string): Observable<BlogPost[]> {
+    return this._getPostList({ authorId });
+  }
+
+  /**
+   * Buscar posts
+   */
+  searchPosts(term: string, filters: BlogFilters): Observable<BlogPost[]> {
+    return this._getPostList({ ...filters, search: term });
+  }
+
+  /**
+   * Obtener la corrección sugerida para una búsqueda
+   */
+  suggestSearchQuery(term: string): Observable<string | null> {
+    const params = new HttpParams().set('search', term);
+
+    return this.apiService
+      .get<LaravelResource<{ suggestion: string | null }>>(
+        'posts/suggest',
+        params
+      )
+      .pipe(
+        map((response) => response.data.suggestion),
+        catchError(() => of(null))
+      );
+  }
+
+  /**
+   * Obtener posts relacionados
+   */
+  getRelatedPosts(postId: string, limit: number): Observable<BlogPost[]> {
+    const params = new HttpParams().set('limit', limit);
+
+    return this.apiService
+      .get<LaravelResource<ApiBlogPost[]>>(
+        `posts/${encodeURIComponent(postId)}/related`,
+        params
+      )
+      .pipe(
+        map((response) => response.data.map(revivePost)),
+        catchError((error) => this._handleError('resource.relatedPosts', error))
+      );
+  }
+
+  /**
+   * Obtener el post anterior y el siguiente
+   */
+  getAdjacentPosts(
+    postId: string,
+    scope: BlogAdjacentScope
+  ): Observable<BlogAdjacentPosts> {
+    const params = new HttpParams().set('scope', scope);
+
+    return this.apiService
+      .get<
+        LaravelResource<{
+          previous: ApiBlogPost | null;
+          next: ApiBlogPost | null;
+        }>
+      >(`posts/${encodeURIComponent(postId)}/adjacent`, params)
+      .pipe(
+        map(({ data }) => ({
+          previous: data.previous ? revivePost(data.previous) : null,
+          next: data.next ? revivePost(data.next) : null,
+        })),
+        catchError((error) =>
+          this._handleError('resource.adjacentPosts', error)
+        )
+      );
+  }
+
+  /**
+   * Obtener los meses con posts publicados
+   */
+  getArchive(locale: BlogLocale): Observable<BlogArchiveMonth[]> {
+    const params = new HttpParams().set('locale', locale);
+
+    return this.apiService
+      .get<LaravelResource<BlogArchiveMonth[]>>('posts/archive', params)
+      .pipe(
+        map((response) => response.data),
+        catchError((error) => this._handleError('resource.archive', error))
+      );
+  }
+
+  /**
+   * Obtener todas las series
+   */
+  getSeries(): Observable<BlogSeriesDetail[]> {
+    return this.apiService
+      .get<LaravelResource<ApiBlogSeriesDetail[]>>('series')
+      .pipe(
+        map((response) => response.data.map(reviveSeries)),
+        catchError((error) => this._handleError('resource.seriesList', error))
+      );
+  }
+
+  /**
+   * Obtener una serie por slug (null si no existe)
+   */
+  getSeriesBySlug(slug: string): Observable<BlogSeriesDetail | null> {
+    return this.apiService
+      .get<LaravelResource<ApiBlogSeriesDetail>>(
+        `series/${encodeURIComponent(slug)}`
+      )
+      .pipe(
+        map((response) => reviveSeries(response.data)),
+        catchError((error) =>
+          error?.status === 404
+            ? of(null)
+            : this._handleError('resource.series', error)
+        )
+      );
+  }
+
+  /**
+   * Obtener la serie de un post (null si no pertenece a ninguna)
+   */
+  getSeriesByPost(postId: string): Observable<BlogSeriesDetail | null> {
+    return this.apiService
+      .get<LaravelResource<ApiBlogSeriesDetail | null>>(
+        `posts/${encodeURIComponent(postId)}/series`
+      )
+      .pipe(
+        map((response) => (response.data ? reviveSeries(response.data) : null)),
+        catchError((error) => this._handleError('resource.postSeries', error))
+      );
+  }
+
+  /**
+   * Obtener todos los tags con posts publicados
+   */
+  getTags(): Observable<BlogTag[]> {
+    return this.apiService.get<LaravelResource<BlogTag[]>>('tags').pipe(
+      map((response) => response.data),
+      catchError((error) => this._handleError('resource.tags', error))
+    );
+  }
+
+  /**
+   * Obtener un tag por slug (null si no existe)
+   */
+  getTagBySlug(slug: string): Observable<BlogTag | null> {
+    return this.apiService
+      .get<LaravelResource<BlogTag>>(`tags/${encodeURIComponent(slug)}`)
+      .pipe(
+        map((response) => response.data),
+        catchError((error) =>
+          error?.status === 404
+            ? of(null)
+            : this._handleError('resource.tag', error)
+        )
+      );
+  }
+
+  /**
+   * Registrar una vista en el backend
+   */
+  incrementViews(postId: string): Observable<boolean> {
+    return this.apiService
+      .post(`posts/${encodeURIComponent(postId)}/views`, {})
+      .pipe(
+        map(() => true),
+        catchError(() => of(false))
+      );
+  }
+
+  /**
+   * Alternar like en el backend
+   */
+  toggleLike(postId: string): Observable<BlogLikeResult> {
+    return this.apiService
+      .post<LaravelResource<BlogLikeResult>>(
+        `posts/${encodeURIComponent(postId)}/like`,
+        {}
+      )
+      .pipe(
+        map((response) => response.data),
+        catchError((error) => this._handleError('resource.like', error))
+      );
+  }
+
+  /**
+   * Obtener estadísticas del blog
+   */
+  getBlogStats(): Observable<BlogStats> {
+    return this.apiService.get<LaravelResource<BlogStats>>('posts/stats').pipe(
+      map((response) => response.data),
+      catchError((error) => this._handleError('resource.stats', error))
+    );
+  }
+
+  /**
+   * Obtener todos los autores
+   */
+  getAuthors(): Observable<BlogAuthor[]> {
+    return this.apiService
+      .get<LaravelResource<ApiBlogAuthor[]>>('authors')
+      .pipe(
+        map((response) => response.data.map(reviveAuthor)),
+        catchError((error) => this._handleError('resource.authors', error))
+      );
+  }
+
+  /**
+   * Obtener un autor por ID
+   */
+  getAuthorById(id: string): Observable<BlogAuthor | null> {
+    return this.getAuthors().pipe(
+      map((authors) => authors.find((author) => author.id === id) || null)
+    );
+  }
+
+  /**
+   * Obtener un autor por slug
+   */
+  getAuthorBySlug(slug: string): Observable<BlogAuthor | null> {
+    return this.getAuthors().pipe(
+      map((authors) => authors.find((author) => author.slug === slug) || null)
+    );
+  }
+
+  /**
+   * Obtener todos los autores con su actividad publicada
+   */
+  getAuthorSummaries(): Observable<AuthorSummary[]> {
+    return this.apiService
+      .get<LaravelResource<ApiAuthorSummary[]>>('authors/stats')
+      .pipe(
+        map((response) => response.data.map(reviveAuthorSummary)),
+        catchError((error) => this._handleError('resource.authorStats', error))
+      );
+  }
+
+  /**
+   * Obtener el perfil público de un autor (null si no existe o es privado)
+   */
+  getAuthorProfile(slug: string): Observable<AuthorProfile | null> {
+    return this.apiService
+      .get<LaravelResource<ApiAuthorProfile>>(
+        `authors/${encodeURIComponent(slug)}/profile`
+      )
+      .pipe(
+        map((response) => reviveAuthorProfile(response.data)),
+        catchError((error) =>
+          error?.status === 404
+            ? of(null)
+            : this._handleError('resource.authorProfile', error)
+        )
+      );
+  }
+
+  // MÉTODOS PRIVADOS
+
+  /**
+   * Obtener un listado de posts: los `limit` primeros o, sin límite, todos
+   * (recorriendo las páginas, como devuelve la fuente mock)
+   */
+  private _getPostList(
+    filters: BlogFilters,
+    limit?: number
+  ): Observable<BlogPost[]> {
+    const params = this._buildParams(filters).set(
+      'per_page',
+      limit ?? LIST_PAGE_SIZE
+    );
+    const getPage = (page: number) =>
+      this.apiService.get<LaravelPaginatedResponse<ApiBlogPost>>(
+        'posts',
+        params.set('page', page)
+      );
+
+    return getPage(1).pipe(
+      switchMap((first) => {
+        const { totalPages } = toBlogPagination(first);
+        if (limit || totalPages <= 1) return of([first]);
+
+        const rest = Array.from({ length: totalPages - 1 }, (_, index) =>
+          getPage(index + 2)
+        );
+        return forkJoin([of(first), ...rest]);
+      }),
+      map((pages) => pages.flatMap((page) => page.data.map(revivePost))),
+      catchError((error) => this._handleError('resource.posts', error))
+    );
+  }
+
+  /**
+   * Obtener un post individual; un 404 se traduce en null
+   */
+  private _getPost(path: string): Observable<BlogPost | null> {
+    return this.apiService.get<LaravelResource<ApiBlogPost>>(path).pipe(
+      map((response) => revivePost(response.data)),
+      catchError((error) =>
+        error?.status === 404
+          ? of(null)
+          : this._handleError('resource.post', error)
+      )
+    );
+  }
+
+  /**
+   * Convertir BlogFilters en parámetros de query (convención snake_case)
+   */
+  private _buildParams(filters: BlogFilters): HttpParams {
+    let params = new HttpParams();
+
+    if (filters.search) params = params.set('search', filters.search);
+    filters.phrases?.forEach((phrase) => {
+      params = params.append('phrases[]', phrase);
+    });
+    filters.excludeTerms?.forEach((term) => {
+      params = params.append('exclude[]', term);
+    });
+    filters.categoryIds?.forEach((id) => {
+      params = params.append('category_ids[]', id);
+    });
+    filters.tags?.forEach((tag) => {
+      params = params.append('tags[]', tag);
+    });
+    filters.excludeTags?.forEach((tag) => {
+      params = params.append('exclude_tags[]', tag);
+    });
+    filters.excludeCategoryIds?.forEach((id) => {
+      params = params.append('exclude_category_ids[]', id);
+    });
+    filters.excludeAuthorIds?.forEach((id) => {
+      params = params.append('exclude_author_ids[]', id);
+    });
+    if (filters.authorId) params = params.set('author_id', filters.authorId);
+    filters.authorIds?.forEach((id) => {
+      params = params.append('author_ids[]', id);
+    });
+    if (filters.status) params = params.set('status', filters.status);
+    if (filters.featured) params = params.set('featured', 1);
+    if (filters.locale) params = params.set('locale', filters.locale);
+    if (filters.dateFrom) {
+      params = params.set('date_from', filters.dateFrom.toISOString());
+    }
+    if (filters.dateTo) {
+      params = params.set('date_to', filters.dateTo.toISOString());
+    }
+    if (filters.readingTime) {
+      params = params.set('reading_time', filters.readingTime);
+    }
+    if (filters.sortBy) params = params.set('sort_by', filters.sortBy);
+    if (filters.sortDirection) {
+      params = params.set('sort_direction', filters.sortDirection);
+    }
+
+    return params;
+  }
+
+  /**
+   * Registrar y normalizar errores HTTP
+   */
+  private _handleError(
+    resource: ApiResourceKey,
+    error: unknown
+  ): Observable<never> {
+    const message = this.i18n.t('error.api', {
+      resource: this.i18n.t(resource),
+    });
+    console.error(message, error);
+    return throwError(() => new Error(message));
+  }
+}
@@ -0,0 +1,61 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, catchError, map, throwError } from 'rxjs';
+import type { BlogCategory } from '../models/categoria.interface';
+import type { LaravelResource } from '../models/laravel-response.model';
+import type { CategoryDataSource } from './category-data-source';
+import { ApiService } from '../http/api.service';
+
+/**
+ * Fuente de datos HTTP de categorías
+ * Consume la API Laravel (environment.urlRaiz) a través de ApiService
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class HttpCategoryDataSource implements CategoryDataSource {
+  private apiService = inject(ApiService);
+
+  /**
+   * Obtener todas las categorías
+   */
+  getCategories(): Observable<BlogCategory[]> {
+    return this.apiService
+      .get<LaravelResource<BlogCategory[]>>('categories')
+      .pipe(
+        map((response) => response.data),
+        catchError((error) => {
+          console.error('Error al obtener categorías:', error);
+          return throwError(
+            () =>
+              new Error(
+                'Error al cargar las categorías. Por favor, intente de nuevo más tarde.'
+              )
+          );
+        })
+      );
+  }
+
+  /**
+   * Obtener una categoría por ID
+   */
+  getCategoryById(id: string): Observable<BlogCategory | null> {
+    return this.getCategories().pipe(
+      map(
+        (categories) =>
+          categories.find((category) => category.id === id) || null
+      )
+    );
+  }
+
+  /**
+   * Obtener una categoría por slug
+   */
+  getCategoryBySlug(slug: string): Observable<BlogCategory | null> {
+    return this.getCategories().pipe(
+      map(
+        (categories) =>
+          categories.find((category) => category.slug === slug) || null
+      )
+    );
+  }
+}
@@ -0,0 +1,492 @@
+import { Injectable, inject } from '@angular/core';
+import { Observable, of, delay, map } from 'rxjs';
+import type {
+  BlogAdjacentPosts,
+  BlogAdjacentScope,
+  BlogArchiveMonth,
+  BlogAuthor,
+  BlogFilters,
+  BlogLocale,
+  BlogPost,
+  BlogPostsResponse,
+  BlogSeries,
+  BlogSeriesDetail,
+  BlogTag,
+} from '../models/blog.interface';
+import type { AuthorProfile, AuthorSummary } from '../models/author.interface';
+import type {
+  BlogDataSource,
+  BlogLikeResult,
+  BlogStats,
+} from './blog-data-source';
+import {
+  applyPostFilters,
+  buildPostArchive,
+  buildPostFacets,
+  buildPostsResponse,
+  buildSeriesDetail,
+  findAdjacentPosts,
+  paginateItems,
+  sortPosts,
+} from './blog-query';
+import { isPostReachable, withResolvedStatus } from './post-publishing';
+import { buildAuthorProfile, buildAuthorSummaries } from './author-profile';
+import { buildTags } from './blog-tags';
+import { BlogSearchIndex } from '../search/blog-search-index';
+import { RelatedPostsIndex } from '../search/related-posts-index';
+import { ClockService } from '../services/clock.service';
+import {
+  BLOG_POSTS_MOCK,
+  getPostById,
+  getPostBySlug,
+  getPublishedPosts,
+  getFeaturedPosts,
+  getPostsByCategory,
+  getPostsByAuthor,
+  getPopularPosts,
+  getRecentPosts,
+} from '../data/blog-mock.data';
+import {
+  AUTHORS_MOCK,
+  getAuthorById,
+  getAuthorBySlug,
+  getAuthorProfileConfig,
+} from '../data/authors-mock.data';
+import { getCategoryById } from '../data/categorias-mock.data';
+import {
+  SERIES_MOCK,
+  getSeriesByPostId,
+  getSeriesBySlug,
+} from '../data/series-mock.data';
+import { getTagMetadata } from '../data/tags-mock.data';
+
+/**
+ * Fuente de datos mock del blog
+ * Simula la latencia de una API sobre los datos en memoria
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MockBlogDataSource implements BlogDataSource {
+  private clock = inject(ClockService);
+  private searchIndex = new BlogSearchIndex((id) => getCategoryById(id)?.name);
+  private relatedIndex = new RelatedPostsIndex();
+
+  /**
+   * Obtener posts publicados con filtros, ordenamiento y paginación
+   */
+  getPosts(
+    page: number,
+    pageSize: number,
+    filters: BlogFilters
+  ): Observable<BlogPostsResponse> {
+    return of(null).pipe(
+      delay(800), // Simular llamada API
+      map(() => {
+        const now = this.clock.now();
+        const candidates = this._getIndexedPosts(now);
+        let posts = applyPostFilters(
+          candidates,
+          filters,
+          now,
+          this.searchIndex
+        );
+        posts = sortPosts(
+          posts,
+          filters.sortBy,
+          filters.sortDirection,
+          filters.search
+        );
+
+        return {
+          ...buildPostsResponse(
+            paginateItems(posts, page, pageSize),
+            page,
+            pageSize,
+            filters,
+            posts.length
+          ),
+          facets: buildPostFacets(
+            candidates,
+            filters,
+            now,
+            this.searchIndex,
+            (id) => getCategoryById(id)?.name
+          ),
+        };
+      })
+    );
+  }
+
+  /**
+   * Obtener un post por ID
+   */
+  getPostById(id: string): Observable<BlogPost | null> {
+    return of(null).pipe(
+      delay(400),
+      map(() => this._toReachablePost(getPostById(id)))
+    );
+  }
+
+  /**
+   * Obtener un post por slug
+   */
+  getPostBySlug(slug: string): Observable<BlogPost | null> {
+    return of(null).pipe(
+      delay(400),
+      map(() => this._toReachablePost(getPostBySlug(slug)))
+    );
+  }
+
+  /**
+   * Obtener posts destacados
+   */
+  getFeaturedPosts(limit: number, locale: BlogLocale): Observable<BlogPost[]> {
+    return of(null).pipe(
+      delay(200),
+      map(() => getFeaturedPosts(this.clock.now(), locale).slice(0, limit))
+    );
+  }
+
+  /**
+   * Obtener posts populares
+   */
+  getPopularPosts(limit: number, locale: BlogLocale): Observable<BlogPost[]> {
+    return of(null).pipe(
+      delay(200),
+      map(() => getPopularPosts(limit, this.clock.now(), locale))
+    );
+  }
+
+  /**
+   * Obtener posts recientes
+   */
+  getRecentPosts(limit: number, locale: BlogLocale): Observable<BlogPost[]> {
+    return of(null).pipe(
+      delay(200),
+      map(() => getRecentPosts(limit, this.clock.now(), locale))
+    );
+  }
+
+  /**
+   * Obtener posts por categoría
+   */
+  getPostsByCategory(categoryId: string): Observable<BlogPost[]> {
+    return of(null).pipe(
+      delay(300),
+      map(() => getPostsByCategory(categoryId, this.clock.now()))
+    );
+  }
+
+  /**
+   * Obtener posts por autor
+   */
+  getPostsByAuthor(authorId: string): Observable<BlogPost[]> {
+    return of(null).pipe(
+      delay(300),
+      map(() => getPostsByAuthor(authorId, this.clock.now()))
+    );
+  }
+
+  /**
+   * Buscar posts
+   */
+  searchPosts(term: string, filters: BlogFilters): Observable<BlogPost[]> {
+    return of(null).pipe(
+      delay(300),
+      map(() => {
+        const now = this.clock.now();
+        const posts = applyPostFilters(
+          this._getIndexedPosts(now),
+          { ...filters, search: term },
+          now,
+          this.searchIndex
+        );
+        return sortPosts(posts, filters.sortBy, filters.sortDirection, term);
+      })
+    );
+  }
+
+  /**
+   * Sugerir una consulta corregida
+   */
+  suggestSearchQuery(term: string): Observable<string | null> {
+    return of(null).pipe(
+      delay(150),
+      map(() => {
+        this._getIndexedPosts(this.clock.now());
+        return this.searchIndex.suggest(term);
+      })
+    );
+  }
+
+  /**
+   * Obtener posts relacionados
+   */
+  getRelatedPosts(postId: string, limit: number): Observable<BlogPost[]> {
+    return of(null).pipe(
+      delay(200),
+      map(() => {
+        const now = this.clock.now();
+        this.relatedIndex.sync(getPublishedPosts(now), SERIES_MOCK, now);
+        return this.relatedIndex.getRelated(postId, limit);
+      })
+    );
+  }
+
+  /**
+   * Obtener el post anterior y el siguiente
+   */
+  getAdjacentPosts(
+    postId: string,
+    scope: BlogAdjacentScope
+  ): Observable<BlogAdjacentPosts> {
+    return of(null).pipe(
+      delay(200),
+      map(() =>
+        findAdjacentPosts(getPublishedPosts(this.clock.now()), postId, scope)
+      )
+    );
+  }
+
+  /**
+   * Obtener los meses con posts publicados
+   */
+  getArchive(locale: BlogLocale): Observable<BlogArchiveMonth[]> {
+    return of(null).pipe(
+      delay(200),
+      map(() => {
+        const now = this.clock.now();
+        return buildPostArchive(
+          applyPostFilters(getPublishedPosts(now), { locale }, now),
+          locale
+        );
+      })
+    );
+  }
+
+  /**
+   * Obtener todas las series
+   */
+  getSeries(): Observable<BlogSeriesDetail[]> {
+    return of(null).pipe(
+      delay(200),
+      map(() =>
+        SERIES_MOCK.map((series) => this._toSeriesDetail(series)!).filter(
+          (series) => series.posts.length > 0
+        )
+      )
+    );
+  }
+
+  /**
+   * Obtener una serie por slug
+   */
+  getSeriesBySlug(slug: string): Observable<BlogSeriesDetail | null> {
+    return of(null).pipe(
+      delay(300),
+      map(() => this._toSeriesDetail(getSeriesBySlug(slug)))
+    );
+  }
+
+  /**
+   * Obtener la serie de un post
+   */
+  getSeriesByPost(postId: string): Observable<BlogSeriesDetail | null> {
+    return of(null).pipe(
+      delay(200),
+      map(() => this._toSeriesDetail(getSeriesByPostId(postId)))
+    );
+  }
+
+  /**
+   * Obtener todos los tags con posts publicados
+   */
+  getTags(): Observable<BlogTag[]> {
+    return of(null).pipe(
+      delay(200),
+      map(() => buildTags(BLOG_POSTS_MOCK, this.clock.now(), getTagMetadata))
+    );
+  }
+
+  /**
+   * Obtener un tag por slug
+   */
+  getTagBySlug(slug: string): Observable<BlogTag | null> {
+    return of(null).pipe(
+      delay(200),
+      map(
+        () =>
+          buildTags(BLOG_POSTS_MOCK, this.clock.now(), getTagMetadata).find(
+            (tag) => tag.slug === slug
+          ) || null
+      )
+    );
+  }
+
+  /**
+   * Incrementar vistas de un post
+   */
+  incrementViews(postId: string): Observable<boolean> {
+    return of(null).pipe(
+      delay(100),
+      map(() => {
+        const post = getPostById(postId);
+        if (post) {
+          post.views += 1;
+          return true;
+        }
+        return false;
+      })
+    );
+  }
+
+  /**
+   * Toggle like en un post
+   */
+  toggleLike(postId: string): Observable<BlogLikeResult> {
+    return of(null).pipe(
+      delay(200),
+      map(() => {
+        const post = getPostById(postId);
+        if (post) {
+          // Simular toggle like
+          const liked = Math.random() > 0.5;
+          post.likes += liked ? 1 : -1;
+
+          return {
+            liked,
+            totalLikes: post.likes,
+          };
+        }
+
+        throw new Error('Post no encontrado');
+      })
+    );
+  }
+
+  /**
+   * Obtener estadísticas del blog
+   */
+  getBlogStats(): Observable<BlogStats> {
+    return of(null).pipe(
+      delay(300),
+      map(() => {
+        const posts = getPublishedPosts(this.clock.now());
+
+        return {
+          totalPosts: posts.length,
+          totalViews: posts.reduce((sum, post) => sum + post.views, 0),
+          totalLikes: posts.reduce((sum, post) => sum + post.likes, 0),
+          totalComments: posts.reduce(
+            (sum, post) => sum + post.commentsCount,
+            0
+          ),
+          avgReadingTime: posts.length
+            ? Math.round(
+                posts.reduce((sum, post) => sum + post.readingTime, 0) /
+                  posts.length
+              )
+            : 0,
+        };
+      })
+    );
+  }
+
+  /**
+   * Obtener todos los autores
+   */
+  getAuthors(): Observable<BlogAuthor[]> {
+    return of(null).pipe(
+      delay(200),
+      map(() => [...AUTHORS_MOCK])
+    );
+  }
+
+  /**
+   * Obtener un autor por ID
+   */
+  getAuthorById(id: string): Observable<BlogAuthor | null> {
+    return of(null).pipe(
+      delay(200),
+      map(() => getAuthorById(id) || null)
+    );
+  }
+
+  /**
+   * Obtener un autor por slug
+   */
+  getAuthorBySlug(slug: string): Observable<BlogAuthor | null> {
+    return of(null).pipe(
+      delay(200),
+      map(() => getAuthorBySlug(slug) || null)
+    );
+  }
+
+  /**
+   * Obtener todos los autores con su actividad publicada
+   */
+  getAuthorSummaries(): Observable<AuthorSummary[]> {
+    return of(null).pipe(
+      delay(200),
+      map(() =>
+        buildAuthorSummaries(AUTHORS_MOCK, BLOG_POSTS_MOCK, this.clock.now())
+      )
+    );
+  }
+
+  /**
+   * Obtener el perfil público de un autor
+   */
+  getAuthorProfile(slug: string): Observable<AuthorProfile | null> {
+    return of(null).pipe(
+      delay(300),
+      map(() => {
+        const author = getAuthorBySlug(slug);
+        return author
+          ? buildAuthorProfile(
+              author,
+              getAuthorProfileConfig(author.id),
+              BLOG_POSTS_MOCK,
+              this.clock.now(),
+              (id) => getCategoryById(id)?.name
+            )
+          : null;
+      })
+    );
+  }
+
+  // ===================================
+  // MÉTODOS PRIVADOS
+  // ===================================
+
+  /**
+   * Posts publicados con el índice de búsqueda al día
+   */
+  private _getIndexedPosts(now: Date): BlogPost[] {
+    const posts = getPublishedPosts(now);
+    this.searchIndex.sync(posts);
+    return posts;
+  }
+
+  /**
+   * Serie con sus posts visibles (null si no existe)
+   */
+  private _toSeriesDetail(
+    series: BlogSeries | undefined
+  ): BlogSeriesDetail | null {
+    return series
+      ? buildSeriesDetail(series, getPublishedPosts(this.clock.now()))
+      : null;
+  }
+
+  /**
+   * Post con su estado efectivo, o null si aún no se publicó o caducó oculto
+   */
+  private _toReachablePost(post: BlogPost | undefined): BlogPost | null {
+    const now = this.clock.now();
+    return post && isPostReachable(post, now)
+      ? withResolvedStatus(post, now)
+      : null;
+  }
+}
@@ -0,0 +1,48 @@
+import { Injectable } from '@angular/core';
+import { Observable, of, delay, map } from 'rxjs';
+import type { BlogCategory } from '../models/categoria.interface';
+import type { CategoryDataSource } from './category-data-source';
+import {
+  CATEGORIES_MOCK,
+  getCategoryById,
+  getCategoryBySlug,
+} from '../data/categorias-mock.data';
+
+/**
+ * Fuente de datos mock de categorías
+ * Simula la latencia de una API sobre los datos en memoria
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class MockCategoryDataSource implements CategoryDataSource {
+  /**
+   * Obtener todas las categorías
+   */
+  getCategories(): Observable<BlogCategory[]> {
+    return of(null).pipe(
+      delay(200),
+      map(() => [...CATEGORIES_MOCK])
+    );
+  }
+
+  /**
+   * Obtener una categoría por ID
+   */
+  getCategoryById(id: string): Observable<BlogCategory | null> {
+    return of(null).pipe(
+      delay(200),
+      map(() => getCategoryById(id) || null)
+    );
+  }
+
+  /**
+   * Obtener una categoría por slug
+   */
+  getCategoryBySlug(slug: string): Observable<BlogCategory | null> {
+    return of(null).pipe(
+      delay(200),
+      map(() => getCategoryBySlug(slug) || null)
+    );
+  }
+}
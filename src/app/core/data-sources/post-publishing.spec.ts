@@ -0,0 +1,96 @@
+import type { BlogPost } from '../models/blog.interface';
+import {
+  getListedPosts,
+  isPostListed,
+  isPostReachable,
+  resolvePostStatus,
+  withResolvedStatus,
+} from './post-publishing';
+
+const NOW = new Date('2024-06-01T12:00:00Z');
+const BEFORE = new Date('2024-05-01T00:00:00Z');
+const AFTER = new Date('2024-07-01T00:00:00Z');
+
+function post(fields: Partial<BlogPost>): BlogPost {
+  return {
+    id: '1',
+    title: 'Post',
+    status: 'published',
+    publishedAt: BEFORE,
+    ...fields,
+  } as BlogPost;
+}
+
+describe('resolvePostStatus', () => {
+  it('should publish a scheduled post once its date arrives', () => {
+    expect(
+      resolvePostStatus(post({ status: 'scheduled', publishedAt: AFTER }), NOW)
+    ).toBe('scheduled');
+    expect(
+      resolvePostStatus(post({ status: 'scheduled', publishedAt: NOW }), NOW)
+    ).toBe('published');
+  });
+
+  it('should hide an expired post unless it asks to be archived', () => {
+    expect(resolvePostStatus(post({ expiresAt: BEFORE }), NOW)).toBe('draft');
+    expect(
+      resolvePostStatus(
+        post({ expiresAt: BEFORE, expiryAction: 'archive' }),
+        NOW
+      )
+    ).toBe('archived');
+    expect(resolvePostStatus(post({ expiresAt: AFTER }), NOW)).toBe(
+      'published'
+    );
+  });
+
+  it('should expire a scheduled post whose window has already passed', () => {
+    const expired = post({
+      status: 'scheduled',
+      publishedAt: BEFORE,
+      expiresAt: NOW,
+      expiryAction: 'archive',
+    });
+
+    expect(resolvePostStatus(expired, NOW)).toBe('archived');
+  });
+
+  it('should leave drafts alone', () => {
+    expect(
+      resolvePostStatus(post({ status: 'draft', expiresAt: BEFORE }), NOW)
+    ).toBe('draft');
+  });
+});
+
+describe('post visibility', () => {
+  it('should list only published posts but reach archived ones', () => {
+    const archived = post({ expiresAt: BEFORE, expiryAction: 'archive' });
+    const hidden = post({ expiresAt: BEFORE });
+
+    expect(isPostListed(post({}), NOW)).toBeTrue();
+    expect(isPostListed(archived, NOW)).toBeFalse();
+    expect(isPostReachable(archived, NOW)).toBeTrue();
+    expect(isPostReachable(hidden, NOW)).toBeFalse();
+  });
+
+  it('should return the listed posts with their effective status', () => {
+    const published = post({ id: 'a' });
+    const due = post({ id: 'b', status: 'scheduled', publishedAt: BEFORE });
+    const pending = post({ id: 'c', status: 'scheduled', publishedAt: AFTER });
+
+    const listed = getListedPosts([published, due, pending], NOW);
+
+    expect(listed.map((item) => item.id)).toEqual(['a', 'b']);
+    expect(listed[0]).toBe(published);
+    expect(listed[1].status).toBe('published');
+    expect(due.status).toBe('scheduled');
+  });
+
+  it('should copy the post only when its status changes', () => {
+    const published = post({ expiresAt: AFTER });
+
+    expect(withResolvedStatus(published, NOW)).toBe(published);
+    expect(withResolvedStatus(published, AFTER)).not.toBe(published);
+    expect(withResolvedStatus(published, AFTER).status).toBe('draft');
+  });
+});
@@ -0,0 +1,63 @@
+import type { BlogPost, BlogPostStatus } from '../models/blog.interface';
+
+/**
+ * Reglas de publicación programada y caducidad de posts
+ * Compartidas por la fuente de datos mock y la API local de server.ts,
+ * siempre con el instante `now` que indique el reloj de quien llama
+ */
+
+/**
+ * Estado efectivo de un post en un instante dado
+ * - 'scheduled' pasa a 'published' cuando llega su `publishedAt`
+ * - un post publicado con `expiresAt` vencido pasa a 'archived' (expiryAction
+ *   'archive') o deja de estar visible como si fuera un borrador ('hide')
+ */
+export function resolvePostStatus(post: BlogPost, now: Date): BlogPostStatus {
+  let status = post.status;
+
+  if (status === 'scheduled' && isDue(post.publishedAt, now)) {
+    status = 'published';
+  }
+
+  if (status === 'published' && isDue(post.expiresAt, now)) {
+    status = post.expiryAction === 'archive' ? 'archived' : 'draft';
+  }
+
+  return status;
+}
+
+/**
+ * Post con su estado efectivo (el mismo objeto si no cambia)
+ */
+export function withResolvedStatus(post: BlogPost, now: Date): BlogPost {
+  const status = resolvePostStatus(post, now);
+  return status === post.status ? post : { ...post, status };
+}
+
+/**
+ * Si un post aparece en listados, categorías, sitemap y feed
+ */
+export function isPostListed(post: BlogPost, now: Date): boolean {
+  return resolvePostStatus(post, now) === 'published';
+}
+
+/**
+ * Si un post se puede abrir por URL (publicado o archivado)
+ */
+export function isPostReachable(post: BlogPost, now: Date): boolean {
+  const status = resolvePostStatus(post, now);
+  return status === 'published' || status === 'archived';
+}
+
+/**
+ * Posts visibles en listados, con su estado efectivo
+ */
+export function getListedPosts(posts: BlogPost[], now: Date): BlogPost[] {
+  return posts
+    .filter((post) => isPostListed(post, now))
+    .map((post) => withResolvedStatus(post, now));
+}
+
+function isDue(date: Date | undefined, now: Date): boolean {
+  return !!date && new Date(date).getTime() <= now.getTime();
+}
@@ -0,0 +1,66 @@
+import type { BlogComment } from '../models/comentario.interface';
+import { toPublicComment } from './public-comments';
+
+function comment(fields: Partial<BlogComment> = {}): BlogComment {
+  return {
+    id: 'c1',
+    postId: '1',
+    content: 'Muy útil, gracias',
+    author: {
+      name: 'Ana',
+      email: 'ana@example.com',
+      avatar: 'https://example.com/ana.png',
+      isRegistered: true,
+      userId: 'u1',
+      isPostAuthor: false,
+      isModerator: false,
+    },
+    status: 'approved',
+    likes: 2,
+    dislikes: 0,
+    isSpam: false,
+    isEdited: false,
+    level: 0,
+    createdAt: new Date('2024-06-01T12:00:00Z'),
+    updatedAt: new Date('2024-06-01T12:00:00Z'),
+    moderation: {
+      moderatorNotes: 'Revisado',
+      spamScore: 0.1,
+      userReports: [],
+    },
+    metadata: { userIP: '10.0.0.1', userAgent: 'Firefox', isMobile: false },
+    ...fields,
+  };
+}
+
+describe('toPublicComment', () => {
+  it('should not expose the email of the author', () => {
+    const result = toPublicComment(comment());
+
+    expect(result.author.name).toBe('Ana');
+    expect('email' in result.author).toBeFalse();
+    expect(JSON.stringify(result)).not.toContain('ana@example.com');
+  });
+
+  it('should drop moderation and client metadata', () => {
+    const json = JSON.stringify(toPublicComment(comment()));
+
+    expect(json).not.toContain('10.0.0.1');
+    expect(json).not.toContain('Revisado');
+    expect(json).not.toContain('u1');
+  });
+
+  it('should map nested replies', () => {
+    const reply = comment({
+      id: 'c2',
+      parentId: 'c1',
+      level: 1,
+      author: { ...comment().author, email: 'luis@example.com' },
+    });
+
+    const result = toPublicComment(comment({ replies: [reply] }));
+
+    expect(result.replies?.[0].id).toBe('c2');
+    expect(JSON.stringify(result)).not.toContain('luis@example.com');
+  });
+});
@@ -0,0 +1,36 @@
+import type {
+  BlogComment,
+  PublicComment,
+} from '../models/comentario.interface';
+
+/**
+ * Comentario sin los datos privados de su autor ni de moderación
+ * Se construye campo a campo para que un campo nuevo del modelo no se
+ * publique sin decidirlo aquí
+ */
+export function toPublicComment(comment: BlogComment): PublicComment {
+  const { author } = comment;
+
+  return {
+    id: comment.id,
+    postId: comment.postId,
+    parentId: comment.parentId,
+    content: comment.content,
+    author: {
+      name: author.name,
+      website: author.website,
+      avatar: author.avatar,
+      isRegistered: author.isRegistered,
+      isPostAuthor: author.isPostAuthor,
+      isModerator: author.isModerator,
+    },
+    status: comment.status,
+    likes: comment.likes,
+    dislikes: comment.dislikes,
+    isEdited: comment.isEdited,
+    level: comment.level,
+    createdAt: comment.createdAt,
+    updatedAt: comment.updatedAt,
+    replies: comment.replies?.map(toPublicComment),
+  };
+}
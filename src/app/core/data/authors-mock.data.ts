@@ -1,4 +1,7 @@
-import type { BlogAuthor } from '../models/author.interface';
+import type {
+  AuthorProfileConfig,
+  BlogAuthor,
+} from '../models/author.interface';
 
 /**
  * Datos mock de autores para el blog
@@ -141,6 +144,103 @@ export const AUTHORS_MOCK: BlogAuthor[] = [
   },
 ];
 
+/**
+ * Configuración del perfil público de cada autor (por ID de autor)
+ */
+export const AUTHOR_PROFILES_MOCK: Record<string, AuthorProfileConfig> = {
+  'autor-1': {
+    isPublic: true,
+    showStats: true,
+    showRecentPosts: true,
+    showSocialLinks: true,
+    allowContact: true,
+    publicEmail: 'maria.garcia@techblog.com',
+    extendedBio:
+      'Empezó programando interfaces con jQuery y hoy lidera equipos que construyen aplicaciones Angular a gran escala. Escribe sobre arquitectura frontend, rendimiento y buenas prácticas de código limpio.',
+    expertise: ['Angular', 'TypeScript', 'React', 'Node.js', 'Testing'],
+    location: 'Madrid, España',
+    timezone: 'Europe/Madrid',
+  },
+  'autor-2': {
+    isPublic: true,
+    showStats: true,
+    showRecentPosts: true,
+    showSocialLinks: true,
+    allowContact: false,
+    extendedBio:
+      'Ha diseñado plataformas de microservicios para banca y retail. Comparte su experiencia en arquitectura distribuida, diseño de APIs y migraciones a la nube.',
+    expertise: [
+      'Microservicios',
+      'Arquitectura de software',
+      'Cloud',
+      'DevOps',
+    ],
+    location: 'Barcelona, España',
+    timezone: 'Europe/Madrid',
+  },
+  'autor-3': {
+    isPublic: true,
+    showStats: true,
+    showRecentPosts: true,
+    showSocialLinks: true,
+    allowContact: true,
+    publicEmail: 'ana.fernandez@techblog.com',
+    expertise: ['UX/UI', 'Design Systems', 'Accesibilidad', 'CSS'],
+    location: 'Valencia, España',
+    timezone: 'Europe/Madrid',
+  },
+  'autor-4': {
+    isPublic: true,
+    showStats: true,
+    showRecentPosts: true,
+    showSocialLinks: true,
+    allowContact: false,
+    expertise: ['Machine Learning', 'Python', 'Data Science', 'Deep Learning'],
+    location: 'Sevilla, España',
+    timezone: 'Europe/Madrid',
+  },
+  'autor-5': {
+    isPublic: true,
+    showStats: true,
+    showRecentPosts: true,
+    showSocialLinks: true,
+    allowContact: false,
+    expertise: ['Ciberseguridad', 'Pentesting', 'OWASP', 'Security awareness'],
+    location: 'Bilbao, España',
+    timezone: 'Europe/Madrid',
+  },
+  'autor-6': {
+    isPublic: true,
+    showStats: true,
+    showRecentPosts: true,
+    showSocialLinks: true,
+    allowContact: false,
+    expertise: ['Kubernetes', 'AWS', 'CI/CD', 'Infrastructure as Code'],
+    location: 'Málaga, España',
+    timezone: 'Europe/Madrid',
+  },
+  'autor-7': {
+    isPublic: true,
+    showStats: true,
+    showRecentPosts: true,
+    showSocialLinks: true,
+    allowContact: false,
+    expertise: ['Scrum', 'Kanban', 'Product Management', 'Agile Coaching'],
+    location: 'Zaragoza, España',
+    timezone: 'Europe/Madrid',
+  },
+  'autor-8': {
+    isPublic: true,
+    showStats: false,
+    showRecentPosts: true,
+    showSocialLinks: true,
+    allowContact: false,
+    expertise: ['Blockchain', 'Solidity', 'Web3', 'DeFi'],
+    location: 'Ciudad de México, México',
+    timezone: 'America/Mexico_City',
+  },
+};
+
 /**
  * Función para obtener un autor por ID
  */
@@ -155,6 +255,15 @@ export function getAuthorBySlug(slug: string): BlogAuthor | undefined {
   return AUTHORS_MOCK.find((author) => author.slug === slug);
 }
 
+/**
+ * Función para obtener la configuración del perfil de un autor
+ */
+export function getAuthorProfileConfig(
+  authorId: string
+): AuthorProfileConfig | undefined {
+  return AUTHOR_PROFILES_MOCK[authorId];
+}
+
 /**
  * Función para obtener autores activos
  */
@@ -1,6 +1,16 @@
-import type { BlogPost } from '../models/blog.interface';
+import type { BlogLocale, BlogPost } from '../models/blog.interface';
 import { AUTHORS_MOCK, getRandomAuthor } from './authors-mock.data';
-import { CATEGORIES_MOCK, getRandomCategories } from './categorias-mock.data';
+import {
+  CATEGORIES_MOCK,
+  getCategoryById,
+  getCategoryBySlug,
+  getRandomCategories,
+} from './categorias-mock.data';
+import { BlogSearchIndex } from '../search/blog-search-index';
+import { searchPostsInIndex } from '../data-sources/blog-query';
+import { getListedPosts } from '../data-sources/post-publishing';
+import { contentLocale } from '../i18n/locales';
+import { renderPostSource } from '../content/post-source';
 
 /**
  * Función helper para generar contenido HTML realista
@@ -43,6 +53,26 @@ function ejemplo() {
   return `${randomIntro}${randomMiddle}${codeExample}${conclusion}`;
 }
 
+/**
+ * Versión en inglés del contenido generado, para los posts traducidos
+ */
+function generateEnglishHtmlContent(topic: string): string {
+  return `
+    <p>In this complete guide we will explore everything you need to know about ${topic}.</p>
+    <h2>Why does it matter?</h2><p>Mastering this technology pays off thanks to its wide adoption in the industry and its ability to solve complex problems efficiently.</p>
+    <h3>A practical example</h3>
+    <pre><code class="language-javascript">
+// Example implementation
+function example() {
+  console.log('Hello world from ${topic}!');
+  return true;
+}
+    </code></pre>
+    <p>This example shows a basic implementation you can use as a starting point.</p>
+    <h2>Conclusion</h2><p>As we have seen, this technology brings great benefits and opportunities. With practice you will master these concepts and apply them to your own projects.</p>
+  `;
+}
+
 /**
  * Función helper para calcular tiempo de lectura
  */
@@ -53,10 +83,11 @@ function calculateReadingTime(content: string): number {
 }
 
 /**
- * Datos mock de posts del blog
- * Incluye contenido variado, imágenes de Unsplash y metadata SEO completa
+ * Datos mock de posts del blog, tal como los escriben los autores
+ * Incluye contenido variado, imágenes de Unsplash y metadata SEO completa.
+ * Es la semilla de la API local; los posts en Markdown están sin convertir.
  */
-export const BLOG_POSTS_MOCK: BlogPost[] = [
+export const BLOG_POSTS_SOURCE: BlogPost[] = [
   // Posts de Desarrollo Web
   {
     id: 'post-1',
@@ -119,6 +150,13 @@ export const BLOG_POSTS_MOCK: BlogPost[] = [
       shareText: 'Descubre las novedades de Angular 18',
       suggestedHashtags: ['Angular18', 'Frontend', 'WebDev', 'TypeScript'],
     },
+    locale: 'es',
+    translations: [
+      {
+        locale: 'en',
+        slug: 'complete-guide-angular-18-new-features-best-practices',
+      },
+    ],
   },
 
   {
@@ -534,6 +572,10 @@ export const BLOG_POSTS_MOCK: BlogPost[] = [
       shareText: 'React vs Angular: ¿Cuál elegir en 2024?',
       suggestedHashtags: ['React', 'Angular', 'Frontend', 'WebDev'],
     },
+    locale: 'es',
+    translations: [
+      { locale: 'en', slug: 'react-vs-angular-complete-comparison-2024' },
+    ],
   },
 
   {
@@ -1104,8 +1146,352 @@ export const BLOG_POSTS_MOCK: BlogPost[] = [
       suggestedHashtags: ['AI', 'GPT', 'Copilot', 'Programming'],
     },
   },
+
+  // Traducciones al inglés
+  {
+    id: 'post-21',
+    title: 'The Complete Guide to Angular 18: New Features and Best Practices',
+    slug: 'complete-guide-angular-18-new-features-best-practices',
+    content: generateEnglishHtmlContent('Angular 18'),
+    excerpt:
+      'Discover everything new in Angular 18, from the latest features to the best practices for modern development.',
+    featuredImage:
+      'https://images.unsplash.com/photo-1555066931-4365d14bab8c?w=800&h=400&fit=crop&auto=format',
+    featuredImageAlt: 'Angular code on a computer screen',
+    status: 'published',
+    authorId: 'autor-1',
+    author: AUTHORS_MOCK[0],
+    categoryIds: ['categoria-1', 'categoria-7'],
+    categories: [CATEGORIES_MOCK[0], CATEGORIES_MOCK[6]],
+    tags: ['angular', 'frontend', 'typescript', 'web development', 'framework'],
+    readingTime: 8,
+    views: 412,
+    likes: 31,
+    commentsCount: 4,
+    allowComments: true,
+    featured: false,
+    createdAt: new Date('2024-01-22T10:00:00Z'),
+    updatedAt: new Date('2024-01-22T10:00:00Z'),
+    publishedAt: new Date('2024-01-22T10:00:00Z'),
+    seo: {
+      metaDescription:
+        'A complete guide to Angular 18 with all the new features and the best practices for building modern web applications.',
+      keywords: [
+        'angular 18',
+        'angular tutorial',
+        'frontend development',
+        'typescript',
+        'web development',
+      ],
+      noIndex: false,
+      noFollow: false,
+      twitterCard: 'summary_large_image',
+    },
+    social: {
+      allowSharing: true,
+      enabledPlatforms: ['facebook', 'twitter', 'linkedin', 'copy-link'],
+      shareText: "Discover what's new in Angular 18",
+      suggestedHashtags: ['Angular18', 'Frontend', 'WebDev', 'TypeScript'],
+    },
+    locale: 'en',
+    translations: [
+      {
+        locale: 'es',
+        slug: 'guia-completa-angular-18-novedades-mejores-practicas',
+      },
+    ],
+  },
+
+  {
+    id: 'post-22',
+    title: 'React vs Angular: The Complete 2024 Comparison',
+    slug: 'react-vs-angular-complete-comparison-2024',
+    content: generateEnglishHtmlContent('React vs Angular'),
+    excerpt:
+      'An in-depth look at React vs Angular in 2024: performance, ecosystem, learning curve and use cases.',
+    featuredImage:
+      'https://images.unsplash.com/photo-1633356122544-f134324a6cee?w=800&h=400&fit=crop&auto=format',
+    featuredImageAlt: 'React and Angular side by side',
+    status: 'published',
+    authorId: 'autor-1',
+    author: AUTHORS_MOCK[0],
+    categoryIds: ['categoria-1', 'categoria-7'],
+    categories: [CATEGORIES_MOCK[0], CATEGORIES_MOCK[6]],
+    tags: ['react', 'angular', 'frontend', 'frameworks', 'comparison'],
+    readingTime: 9,
+    views: 538,
+    likes: 42,
+    commentsCount: 9,
+    allowComments: true,
+    featured: false,
+    createdAt: new Date('2023-12-20T12:00:00Z'),
+    updatedAt: new Date('2023-12-20T12:00:00Z'),
+    publishedAt: new Date('2023-12-20T12:00:00Z'),
+    seo: {
+      metaDescription:
+        'A complete comparison between React and Angular in 2024: performance, ecosystem and use cases.',
+      keywords: [
+        'react vs angular',
+        'frontend frameworks',
+        'javascript frameworks',
+        'web development',
+      ],
+      noIndex: false,
+      noFollow: false,
+      twitterCard: 'summary_large_image',
+    },
+    social: {
+      allowSharing: true,
+      enabledPlatforms: ['facebook', 'twitter', 'linkedin', 'copy-link'],
+      shareText: 'React vs Angular: which one should you pick in 2024?',
+      suggestedHashtags: ['React', 'Angular', 'Frontend', 'WebDev'],
+    },
+    locale: 'en',
+    translations: [{ locale: 'es', slug: 'react-vs-angular-comparativa-2024' }],
+  },
+  {
+    id: 'post-23',
+    title: 'Escribir en el blog con Markdown',
+    slug: 'guia-markdown-para-autores',
+    content: `---
+title: 'Escribir en el blog con Markdown: guía para autores'
+excerpt: Cómo redactar artículos en Markdown con front-matter, bloques de código resaltados, avisos y tablas, sin escribir una sola etiqueta HTML.
+tags: [markdown, escritura técnica, blog, frontend]
+categories: [desarrollo-web, frontend]
+seo:
+  title: 'Guía de Markdown para autores del blog'
+  description: Todo lo que necesitas para publicar artículos en Markdown en el blog - front-matter, código, avisos y tablas.
+  keywords:
+    - markdown
+    - front-matter
+    - escritura técnica
+---
+
+Los artículos del blog se pueden escribir en **Markdown**. El servidor y el
+navegador los convierten al mismo HTML, con anclas en los encabezados,
+código resaltado, avisos y tablas.
+
+## El front-matter
+
+Cada artículo empieza con un bloque entre \`---\` con sus datos. Los campos
+que no declares se toman de la ficha del post.
+
+\`\`\`yaml
+title: 'Mi artículo'
+tags: [angular, signals]
+categories: [frontend]
+seo:
+  description: Resumen para los buscadores
+\`\`\`
+
+> [!TIP]
+> Las categorías se pueden indicar por *slug* o por ID.
+
+## Bloques de código
+
+Indica el lenguaje después de las tres comillas invertidas para resaltar la
+sintaxis. Opcionalmente, añade el nombre del archivo con \`title="..."\` y
+las líneas que quieras destacar entre llaves:
+
+\`\`\`ts title="counter.ts" {4-5}
+import { signal, computed } from '@angular/core';
+
+// Estado local con signals
+const count = signal(0);
+const double = computed(() => count() * 2);
+\`\`\`
+
+Lenguajes admitidos:
+
+- TypeScript y JavaScript (\`ts\`, \`js\`)
+- HTML, CSS y JSON
+- Bash y Python
+
+Los ejemplos de varios archivos se agrupan en pestañas con \`:::code-group\`:
+
+:::code-group
+\`\`\`html title="counter.component.html"
+<button (click)="increment()">{{ count() }}</button>
+\`\`\`
+
+\`\`\`css title="counter.component.css"
+button {
+  padding: 0.5rem 1rem;
+}
+\`\`\`
+:::
+
+## Avisos
+
+Hay cinco tipos de aviso: nota, consejo, importante, atención y precaución.
+
+:::warning Cuidado con el HTML
+Las etiquetas HTML escritas a mano se muestran como texto: el Markdown es la
+única forma de dar formato.
+:::
+
+## Tablas
+
+| Sintaxis | Resultado | Uso |
+| :------- | :-------: | --: |
+| \`**texto**\` | **negrita** | 1 |
+| \`*texto*\` | *cursiva* | 2 |
+| \`~~texto~~\` | ~~tachado~~ | 3 |
+
+## Contenido incrustado
+
+Los vídeos y ejemplos interactivos se insertan con un *shortcode* en su
+propio párrafo. No se carga nada de terceros hasta que el lector lo pulsa.
+
+\`\`\`
+[youtube id=VIDEO title="Título del vídeo" start=30]
+[codepen user=USUARIO pen=PEN tab=css,result height=450]
+[gist user=USUARIO id=ID file=ejemplo.ts]
+[stackblitz id=PROYECTO file=src/main.ts view=preview]
+\`\`\`
+
+[stackblitz id=angular title="Proyecto Angular de ejemplo" view=preview]
+
+## Antes de publicar
+
+1. Revisa la vista previa del artículo.
+2. Comprueba que el índice de contenidos recoge todos los apartados.
+3. Pide una revisión en el [repositorio del blog](https://github.com).
+`,
+    contentFormat: 'markdown',
+    excerpt: '',
+    featuredImage:
+      'https://images.unsplash.com/photo-1455390582262-044cdead277a?w=800&h=400&fit=crop&auto=format',
+    featuredImageAlt: 'Cuaderno y teclado sobre un escritorio',
+    status: 'published',
+    authorId: 'autor-1',
+    author: AUTHORS_MOCK[0],
+    categoryIds: [],
+    tags: [],
+    readingTime: 1,
+    views: 96,
+    likes: 12,
+    commentsCount: 0,
+    allowComments: true,
+    featured: false,
+    createdAt: new Date('2024-01-25T09:00:00Z'),
+    updatedAt: new Date('2024-01-25T09:00:00Z'),
+    publishedAt: new Date('2024-01-25T09:00:00Z'),
+    seo: {
+      metaDescription: '',
+      keywords: [],
+      noIndex: false,
+      noFollow: false,
+      twitterCard: 'summary_large_image',
+    },
+    social: {
+      allowSharing: true,
+      enabledPlatforms: ['facebook', 'twitter', 'linkedin', 'copy-link'],
+      shareText: 'Cómo escribir artículos del blog en Markdown',
+      suggestedHashtags: ['Markdown', 'WebDev'],
+    },
+  },
+
+  // Programado: aparece en listados cuando llega su fecha de publicación
+  {
+    id: 'post-24',
+    title: 'Angular 20: Qué Esperar de la Próxima Versión',
+    slug: 'angular-20-que-esperar-proxima-version',
+    content: generateHtmlContent('Angular 20', 'la próxima versión de Angular'),
+    excerpt:
+      'Repasamos la hoja de ruta de Angular 20: zoneless estable, signals en formularios y mejoras en el renderizado del servidor.',
+    featuredImage:
+      'https://images.unsplash.com/photo-1555066931-4365d14bab8c?w=800&h=400&fit=crop&auto=format',
+    featuredImageAlt: 'Código de Angular en un editor',
+    status: 'scheduled',
+    authorId: 'autor-1',
+    author: AUTHORS_MOCK[0],
+    categoryIds: ['categoria-1', 'categoria-7'],
+    categories: [CATEGORIES_MOCK[0], CATEGORIES_MOCK[6]],
+    tags: ['angular', 'frontend', 'signals', 'ssr'],
+    readingTime: 6,
+    views: 0,
+    likes: 0,
+    commentsCount: 0,
+    allowComments: true,
+    featured: false,
+    createdAt: new Date('2026-10-01T09:00:00Z'),
+    updatedAt: new Date('2026-10-01T09:00:00Z'),
+    publishedAt: new Date('2027-06-01T09:00:00Z'),
+    seo: {
+      metaDescription:
+        'Novedades previstas para Angular 20: zoneless, signals en formularios y SSR.',
+      keywords: ['angular 20', 'angular roadmap', 'signals', 'zoneless'],
+      noIndex: false,
+      noFollow: false,
+      twitterCard: 'summary_large_image',
+    },
+    social: {
+      allowSharing: true,
+      enabledPlatforms: ['facebook', 'twitter', 'linkedin', 'copy-link'],
+      shareText: 'Lo que llega con Angular 20',
+      suggestedHashtags: ['Angular', 'Frontend', 'WebDev'],
+    },
+  },
+
+  // Con caducidad: al vencer deja los listados y queda archivado por URL
+  {
+    id: 'post-25',
+    title: 'Convocatoria: Meetup de Desarrollo Web en Madrid 2024',
+    slug: 'convocatoria-meetup-desarrollo-web-madrid-2024',
+    content: generateHtmlContent(
+      'Meetup de Desarrollo Web',
+      'el meetup de desarrollo web'
+    ),
+    excerpt:
+      'Abrimos la convocatoria de charlas para el meetup de desarrollo web de Madrid. Envía tu propuesta antes del cierre.',
+    featuredImage:
+      'https://images.unsplash.com/photo-1540575467063-178a50c2df87?w=800&h=400&fit=crop&auto=format',
+    featuredImageAlt: 'Público en una charla técnica',
+    status: 'published',
+    authorId: 'autor-2',
+    author: AUTHORS_MOCK[1],
+    categoryIds: ['categoria-1'],
+    categories: [CATEGORIES_MOCK[0]],
+    tags: ['eventos', 'comunidad', 'desarrollo web'],
+    readingTime: 3,
+    views: 264,
+    likes: 18,
+    commentsCount: 2,
+    allowComments: false,
+    featured: false,
+    createdAt: new Date('2024-09-02T10:00:00Z'),
+    updatedAt: new Date('2024-09-02T10:00:00Z'),
+    publishedAt: new Date('2024-09-02T10:00:00Z'),
+    expiresAt: new Date('2024-11-15T23:59:59Z'),
+    expiryAction: 'archive',
+    seo: {
+      metaDescription:
+        'Convocatoria de charlas para el meetup de desarrollo web de Madrid 2024.',
+      keywords: ['meetup', 'desarrollo web', 'madrid', 'charlas'],
+      noIndex: false,
+      noFollow: false,
+      twitterCard: 'summary_large_image',
+    },
+    social: {
+      allowSharing: true,
+      enabledPlatforms: ['facebook', 'twitter', 'linkedin', 'copy-link'],
+      shareText: 'Envía tu charla al meetup de desarrollo web de Madrid',
+      suggestedHashtags: ['Meetup', 'WebDev', 'Madrid'],
+    },
+  },
 ];
 
+/**
+ * Posts listos para mostrar (el Markdown ya convertido a HTML)
+ */
+export const BLOG_POSTS_MOCK: BlogPost[] = BLOG_POSTS_SOURCE.map((post) =>
+  renderPostSource(
+    post,
+    (slugOrId) => getCategoryById(slugOrId) || getCategoryBySlug(slugOrId)
+  )
+);
+
 /**
  * Función para obtener un post por ID
  */
@@ -1122,77 +1508,76 @@ export function getPostBySlug(slug: string): BlogPost | undefined {
 
 /**
  * Función para obtener posts publicados
+ * Incluye los programados cuya fecha ya pasó y excluye los caducados
  */
-export function getPublishedPosts(): BlogPost[] {
-  return BLOG_POSTS_MOCK.filter((post) => post.status === 'published');
+export function getPublishedPosts(now: Date = new Date()): BlogPost[] {
+  return getListedPosts(BLOG_POSTS_MOCK, now);
 }
 
 /**
- * Función para obtener posts destacados
+ * Posts publicados en un idioma (todos si no se indica)
  */
-export function getFeaturedPosts(): BlogPost[] {
-  return BLOG_POSTS_MOCK.filter(
-    (post) => post.featured && post.status === 'published'
+function getPublishedPostsIn(now: Date, locale?: BlogLocale): BlogPost[] {
+  return getPublishedPosts(now).filter(
+    (post) => !locale || contentLocale(post) === locale
   );
 }
 
 /**
- * Función para obtener posts por categoría
+ * Función para obtener posts destacados
  */
-export function getPostsByCategory(categoryId: string): BlogPost[] {
-  return BLOG_POSTS_MOCK.filter(
-    (post) =>
-      post.categoryIds.includes(categoryId) && post.status === 'published'
-  );
+export function getFeaturedPosts(
+  now: Date = new Date(),
+  locale?: BlogLocale
+): BlogPost[] {
+  return getPublishedPostsIn(now, locale).filter((post) => post.featured);
 }
 
 /**
- * Función para obtener posts por autor
+ * Función para obtener posts por categoría
  */
-export function getPostsByAuthor(authorId: string): BlogPost[] {
-  return BLOG_POSTS_MOCK.filter(
-    (post) => post.authorId === authorId && post.status === 'published'
+export function getPostsByCategory(
+  categoryId: string,
+  now: Date = new Date()
+): BlogPost[] {
+  return getPublishedPosts(now).filter((post) =>
+    post.categoryIds.includes(categoryId)
   );
 }
 
 /**
- * Función para buscar posts
+ * Función para obtener posts por autor
  */
-export function searchPosts(term: string): BlogPost[] {
-  const lowercaseTerm = term.toLowerCase();
-  return BLOG_POSTS_MOCK.filter(
-    (post) =>
-      post.status === 'published' &&
-      (post.title.toLowerCase().includes(lowercaseTerm) ||
-        post.excerpt.toLowerCase().includes(lowercaseTerm) ||
-        post.tags.some((tag) => tag.toLowerCase().includes(lowercaseTerm)))
-  );
+export function getPostsByAuthor(
+  authorId: string,
+  now: Date = new Date()
+): BlogPost[] {
+  return getPublishedPosts(now).filter((post) => post.authorId === authorId);
 }
 
 /**
- * Función para obtener posts relacionados
+ * Índice de búsqueda sobre los posts mock
  */
-export function getRelatedPosts(postId: string, limit: number = 3): BlogPost[] {
-  const currentPost = getPostById(postId);
-  if (!currentPost) return [];
-
-  const related = BLOG_POSTS_MOCK.filter(
-    (post) =>
-      post.id !== postId &&
-      post.status === 'published' &&
-      (post.categoryIds.some((cat) => currentPost.categoryIds.includes(cat)) ||
-        post.tags.some((tag) => currentPost.tags.includes(tag)))
-  );
+const mockSearchIndex = new BlogSearchIndex((id) => getCategoryById(id)?.name);
 
-  return related.slice(0, limit);
+/**
+ * Función para buscar posts (índice invertido, sin acentos y con stemming)
+ */
+export function searchPosts(term: string, now: Date = new Date()): BlogPost[] {
+  const posts = getPublishedPosts(now);
+  mockSearchIndex.sync(posts);
+  return searchPostsInIndex(posts, term, now, mockSearchIndex);
 }
 
 /**
  * Función para obtener posts más populares
  */
-export function getPopularPosts(limit: number = 5): BlogPost[] {
-  return [...BLOG_POSTS_MOCK]
-    .filter((post) => post.status === 'published')
+export function getPopularPosts(
+  limit: number = 5,
+  now: Date = new Date(),
+  locale?: BlogLocale
+): BlogPost[] {
+  return getPublishedPostsIn(now, locale)
     .sort((a, b) => b.views - a.views)
     .slice(0, limit);
 }
@@ -1200,9 +1585,12 @@ export function getPopularPosts(limit: number = 5): BlogPost[] {
 /**
  * Función para obtener posts recientes
  */
-export function getRecentPosts(limit: number = 5): BlogPost[] {
-  return [...BLOG_POSTS_MOCK]
-    .filter((post) => post.status === 'published')
+export function getRecentPosts(
+  limit: number = 5,
+  now: Date = new Date(),
+  locale?: BlogLocale
+): BlogPost[] {
+  return getPublishedPostsIn(now, locale)
     .sort(
       (a, b) =>
         new Date(b.publishedAt!).getTime() - new Date(a.publishedAt!).getTime()
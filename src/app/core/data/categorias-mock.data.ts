@@ -218,7 +218,7 @@ export const CATEGORIES_MOCK: BlogCategory[] = [
         'html',
         'css',
       ],
-      canonicalUrl: '/blog/categoria/frontend',
+      canonicalUrl: '/blog/categoria/desarrollo-web/frontend',
       noIndex: false,
     },
   },
@@ -249,7 +249,7 @@ export const CATEGORIES_MOCK: BlogCategory[] = [
         'base de datos',
         'arquitectura',
       ],
-      canonicalUrl: '/blog/categoria/backend',
+      canonicalUrl: '/blog/categoria/desarrollo-web/backend',
       noIndex: false,
     },
   },
@@ -280,7 +280,7 @@ export const CATEGORIES_MOCK: BlogCategory[] = [
         'scikit-learn',
         'pandas',
       ],
-      canonicalUrl: '/blog/categoria/machine-learning',
+      canonicalUrl: '/blog/categoria/inteligencia-artificial/machine-learning',
       noIndex: false,
     },
   },
@@ -310,7 +310,7 @@ export const CATEGORIES_MOCK: BlogCategory[] = [
         'tensorflow',
         'pytorch',
       ],
-      canonicalUrl: '/blog/categoria/deep-learning',
+      canonicalUrl: '/blog/categoria/inteligencia-artificial/deep-learning',
       noIndex: false,
     },
   },
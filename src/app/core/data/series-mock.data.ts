@@ -0,0 +1,42 @@
+import type { BlogSeries } from '../models/blog.interface';
+
+/**
+ * Datos mock de series del blog
+ * Cada serie agrupa posts existentes en orden de lectura
+ */
+export const SERIES_MOCK: BlogSeries[] = [
+  {
+    id: 'serie-1',
+    title: 'Backend moderno de principio a fin',
+    slug: 'backend-moderno-de-principio-a-fin',
+    description:
+      'De una API REST con Node.js hasta el despliegue serverless: diseño de APIs, contenedores, microservicios y la nube, paso a paso.',
+    postIds: ['post-7', 'post-16', 'post-3', 'post-18', 'post-10'],
+    createdAt: new Date('2024-01-01T10:00:00'),
+    updatedAt: new Date('2024-02-01T10:00:00'),
+  },
+  {
+    id: 'serie-2',
+    title: 'Data Science con Python',
+    slug: 'data-science-con-python',
+    description:
+      'Un recorrido desde la manipulación de datos con Pandas y NumPy hasta el deep learning con TensorFlow.',
+    postIds: ['post-15', 'post-2', 'post-8'],
+    createdAt: new Date('2024-01-01T10:00:00'),
+    updatedAt: new Date('2024-02-01T10:00:00'),
+  },
+];
+
+/**
+ * Función para obtener una serie por slug
+ */
+export function getSeriesBySlug(slug: string): BlogSeries | undefined {
+  return SERIES_MOCK.find((series) => series.slug === slug);
+}
+
+/**
+ * Función para obtener la serie a la que pertenece un post
+ */
+export function getSeriesByPostId(postId: string): BlogSeries | undefined {
+  return SERIES_MOCK.find((series) => series.postIds.includes(postId));
+}
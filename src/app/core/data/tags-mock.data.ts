@@ -0,0 +1,125 @@
+import type { BlogTagMetadata } from '../models/blog.interface';
+
+/**
+ * Metadatos mock de los tags, por slug
+ * Los tags sin metadatos usan una descripción genérica y el color por defecto
+ */
+export const TAG_METADATA_MOCK: Record<string, BlogTagMetadata> = {
+  angular: {
+    description:
+      'Framework de desarrollo web creado por Google. Ideal para aplicaciones web escalables y mantenibles.',
+    color: '#dd0031',
+  },
+  typescript: {
+    description:
+      'Superset tipado de JavaScript que añade tipos estáticos opcionales y características avanzadas al lenguaje.',
+    color: '#3178c6',
+  },
+  javascript: {
+    description:
+      'El lenguaje de la web: del navegador al servidor, con todo su ecosistema de frameworks y herramientas.',
+    color: '#f7df1e',
+  },
+  frontend: {
+    description:
+      'Todo lo que ocurre en el navegador: frameworks, rendimiento, accesibilidad y experiencia de usuario.',
+    color: '#8b5cf6',
+  },
+  backend: {
+    description:
+      'APIs, bases de datos y servicios: la parte de las aplicaciones que el usuario no ve.',
+    color: '#0f766e',
+  },
+  python: {
+    description:
+      'Lenguaje versátil y legible, referencia en ciencia de datos, automatización e inteligencia artificial.',
+    color: '#3776ab',
+  },
+  'inteligencia-artificial': {
+    description:
+      'Modelos que aprenden de los datos y herramientas que están cambiando la forma de programar.',
+    color: '#7c3aed',
+  },
+  'data-science': {
+    description:
+      'Análisis, visualización y modelado de datos para tomar mejores decisiones.',
+    color: '#2563eb',
+  },
+  'ethical-hacking': {
+    description:
+      'Atacar sistemas con permiso para encontrar sus vulnerabilidades antes que nadie.',
+    color: '#b91c1c',
+  },
+  pentesting: {
+    description:
+      'Pruebas de penetración: metodologías y herramientas para auditar la seguridad de aplicaciones y redes.',
+    color: '#dc2626',
+  },
+  'ux-design': {
+    description:
+      'Diseño de experiencia de usuario: investigación, flujos y usabilidad de productos digitales.',
+    color: '#ed64a6',
+  },
+  prototyping: {
+    description:
+      'Prototipos para validar ideas con usuarios reales antes de escribir código.',
+    color: '#db2777',
+  },
+  blockchain: {
+    description:
+      'Registros distribuidos, contratos inteligentes y aplicaciones descentralizadas.',
+    color: '#f59e0b',
+  },
+  microservices: {
+    description:
+      'Arquitecturas basadas en servicios pequeños e independientes que se despliegan por separado.',
+    color: '#0891b2',
+  },
+  architecture: {
+    description:
+      'Decisiones de diseño que dan forma a un sistema: patrones, capas y compromisos.',
+    color: '#475569',
+  },
+  docker: {
+    description:
+      'Contenedores para empaquetar aplicaciones con sus dependencias y ejecutarlas en cualquier entorno.',
+    color: '#2496ed',
+  },
+  devops: {
+    description:
+      'Cultura y prácticas que unen desarrollo y operaciones: integración continua, despliegue y observabilidad.',
+    color: '#4299e1',
+  },
+  react: {
+    description:
+      'Biblioteca de JavaScript para construir interfaces de usuario a partir de componentes.',
+    color: '#61dafb',
+  },
+  vuejs: {
+    description:
+      'Framework progresivo de JavaScript para construir interfaces de usuario y aplicaciones de una sola página.',
+    color: '#4fc08d',
+  },
+  nodejs: {
+    description:
+      'Entorno de ejecución de JavaScript en el servidor, basado en el motor V8.',
+    color: '#339933',
+  },
+  css: {
+    description:
+      'Lenguaje de hojas de estilo para describir la presentación de documentos HTML.',
+    color: '#1572b6',
+  },
+  'responsive-design': {
+    description:
+      'Diseños que se adaptan a cualquier tamaño de pantalla, del móvil al escritorio.',
+    color: '#f56565',
+  },
+};
+
+/**
+ * Función para obtener los metadatos de un tag por slug
+ */
+export function getTagMetadata(slug: string): BlogTagMetadata | undefined {
+  return TAG_METADATA_MOCK[slug];
+}
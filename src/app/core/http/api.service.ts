@@ -1,4 +1,4 @@
-import { HttpClient, HttpHeaders } from '@angular/common/http';
+import { HttpClient, HttpHeaders, HttpParams } from '@angular/common/http';
 import { Injectable, inject } from '@angular/core';
 import { environment } from '../../../environments/environment';
 import { Observable } from 'rxjs';
@@ -17,9 +17,10 @@ export class ApiService {
     });
   }
 
-  get<T>(path: string): Observable<T> {
+  get<T>(path: string, params?: HttpParams): Observable<T> {
     return this.http.get<T>(`${this.baseUrl}/${path}`, {
       headers: this.getHeaders(),
+      params,
     });
   }
 
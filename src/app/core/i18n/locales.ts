@@ -0,0 +1,155 @@
+import type {
+  BlogCategory,
+  BlogLocale,
+  BlogPost,
+} from '../models/blog.interface';
+
+/**
+ * Idiomas del blog y rutas con prefijo de idioma (/en/blog/...)
+ * Compartido por la aplicación y el servidor (sitemap, feeds y redirecciones)
+ */
+
+export interface BlogLocaleConfig {
+  /** Código del idioma */
+  code: BlogLocale;
+
+  /** Nombre del idioma en su propio idioma */
+  label: string;
+
+  /** Locale para Intl (fechas y números) */
+  intl: string;
+
+  /** Locale para Open Graph */
+  ogLocale: string;
+
+  /** Prefijo de las rutas ('' para el idioma por defecto) */
+  prefix: string;
+
+  /** Enlace a un contenido en este idioma, escrito en el propio idioma */
+  readLabel: string;
+}
+
+/** Idioma por defecto: sus rutas no llevan prefijo */
+export const DEFAULT_LOCALE: BlogLocale = 'es';
+
+/** Cookie con el idioma elegido por el usuario (se lee también en SSR) */
+export const LOCALE_COOKIE = 'blog_locale';
+
+/** Sección con rutas por idioma */
+const LOCALIZED_SECTION = '/blog';
+
+export const BLOG_LOCALES: readonly BlogLocaleConfig[] = [
+  {
+    code: 'es',
+    label: 'Español',
+    intl: 'es-ES',
+    ogLocale: 'es_ES',
+    prefix: '',
+    readLabel: 'Leer en español',
+  },
+  {
+    code: 'en',
+    label: 'English',
+    intl: 'en-US',
+    ogLocale: 'en_US',
+    prefix: '/en',
+    readLabel: 'Read in English',
+  },
+];
+
+/**
+ * Si el valor es un idioma soportado
+ */
+export function isBlogLocale(value: unknown): value is BlogLocale {
+  return BLOG_LOCALES.some((locale) => locale.code === value);
+}
+
+/**
+ * Configuración de un idioma
+ */
+export function localeConfig(locale: BlogLocale): BlogLocaleConfig {
+  return (
+    BLOG_LOCALES.find((config) => config.code === locale) ||
+    BLOG_LOCALES.find((config) => config.code === DEFAULT_LOCALE)!
+  );
+}
+
+/**
+ * Idioma de una ruta según su prefijo
+ */
+export function localeFromPath(path: string): BlogLocale {
+  const pathname = path.split(/[?#]/)[0];
+  const match = BLOG_LOCALES.find(
+    (config) =>
+      config.prefix &&
+      (pathname === config.prefix || pathname.startsWith(`${config.prefix}/`))
+  );
+  return match ? match.code : DEFAULT_LOCALE;
+}
+
+/**
+ * La misma ruta en otro idioma (/blog/post → /en/blog/post)
+ */
+export function localizePath(path: string, locale: BlogLocale): string {
+  const current = localeConfig(localeFromPath(path));
+  const bare = path.slice(current.prefix.length) || '/';
+  const prefix = localeConfig(locale).prefix;
+
+  return prefix ? `${prefix}${bare === '/' ? '' : bare}` : bare;
+}
+
+/**
+ * Si la ruta tiene versión en cada idioma (el blog: /blog ↔ /en/blog)
+ * El resto de páginas se sirven en el idioma preferido del usuario
+ */
+export function isLocalizedPath(path: string): boolean {
+  const pathname = path.split(/[?#]/)[0];
+  const bare = localizePath(pathname, DEFAULT_LOCALE);
+  return (
+    localeFromPath(pathname) !== DEFAULT_LOCALE ||
+    bare === LOCALIZED_SECTION ||
+    bare.startsWith(`${LOCALIZED_SECTION}/`)
+  );
+}
+
+/**
+ * Idioma de la interfaz en una ruta: el de su prefijo en el blog y el
+ * preferido (o el por defecto) en las demás páginas
+ */
+export function resolveLocale(
+  path: string,
+  preferred: BlogLocale | null
+): BlogLocale {
+  if (isLocalizedPath(path)) return localeFromPath(path);
+  return preferred || DEFAULT_LOCALE;
+}
+
+/**
+ * Idioma guardado en la cabecera Cookie (o document.cookie)
+ */
+export function readLocaleCookie(
+  cookies: string | null | undefined
+): BlogLocale | null {
+  const prefix = `${LOCALE_COOKIE}=`;
+  const value = (cookies || '')
+    .split(';')
+    .map((cookie) => cookie.trim())
+    .find((cookie) => cookie.startsWith(prefix))
+    ?.slice(prefix.length);
+
+  return isBlogLocale(value) ? value : null;
+}
+
+/**
+ * Idioma de un post o una categoría
+ */
+export function contentLocale(content: BlogPost | BlogCategory): BlogLocale {
+  return content.locale || DEFAULT_LOCALE;
+}
+
+/**
+ * URL de un post en su idioma
+ */
+export function postPath(post: Pick<BlogPost, 'slug' | 'locale'>): string {
+  return localizePath(`/blog/${post.slug}`, post.locale || DEFAULT_LOCALE);
+}
@@ -0,0 +1,322 @@
+import type { Message } from '../translate';
+import type { MessageKey } from './es';
+
+/**
+ * Textos de la interfaz en inglés
+ */
+export const EN_MESSAGES: Record<MessageKey, Message> = {
+  // Navegación
+  'nav.home': 'Home',
+  'nav.about': 'About',
+  'nav.blog': 'Blog',
+  'nav.allPosts': 'All Articles',
+  'nav.searchPosts': 'Search Articles',
+  'nav.search': 'Search',
+  'nav.popularCategories': 'Popular Categories',
+  'nav.categories': 'Categories',
+  'nav.services': 'Services',
+  'nav.projects': 'Projects',
+  'nav.contact': 'Contact',
+  'nav.login': 'Sign in',
+  'nav.account': 'My account',
+  'nav.favorites': 'My favorites',
+  'nav.logout': 'Sign out',
+  'nav.language': 'Language',
+
+  // Listado del blog
+  'blog.seo.title': 'Blog - Latest Articles and Tutorials',
+  'blog.seo.description':
+    'Discover the latest articles on web development, programming and technology. Tutorials, guides and practical tips for developers.',
+  'blog.seo.shortDescription':
+    'Discover the latest articles on web development and programming',
+  'blog.hero.title': 'Latest Articles',
+  'blog.hero.subtitle':
+    'Quality content on web development, programming and the latest technology trends',
+  'blog.featured': 'Featured',
+  'blog.readPost': 'Read Article',
+  'blog.unknownAuthor': 'Unknown author',
+  'blog.searchPlaceholder': 'Search articles, categories, tags...',
+  'blog.categoriesLabel': 'Categories:',
+  'blog.sortBy': 'Sort by',
+  'blog.sort.publishedAt': 'Newest',
+  'blog.sort.createdAt': 'Oldest',
+  'blog.sort.views': 'Most viewed',
+  'blog.sort.likes': 'Most liked',
+  'blog.sort.title': 'By title',
+  'blog.dateRange.all': 'All time',
+  'blog.dateRange.week': 'This week',
+  'blog.dateRange.month': 'This month',
+  'blog.dateRange.year': 'This year',
+  'blog.layout': '{layout} view',
+  'blog.activeFilters': 'Active filters ({count}):',
+  'blog.searchFilter': 'Search: "{query}"',
+  'blog.clearAll': 'Clear all',
+  'blog.allPosts': 'All Articles',
+  'blog.resultsFor': 'Results for "{query}"',
+  'blog.filteredPosts': 'Filtered Articles',
+  'blog.postCount': {
+    zero: 'No articles',
+    one: '{count} article',
+    other: '{count} articles',
+  },
+  'blog.pageOf': 'Page {page} of {total}',
+  'blog.empty.title': 'No articles found',
+  'blog.empty.filtered': 'No articles match the selected filters.',
+  'blog.empty.none': 'No articles have been published yet.',
+  'blog.viewAll': 'View all articles',
+  'blog.error.title': 'Error loading articles',
+  'blog.error.unexpected': 'An unexpected error occurred.',
+  'blog.retry': 'Try again',
+
+  // Detalle del post
+  'post.notFound': 'Article not found',
+  'post.notFoundDescription':
+    'The article you are looking for does not exist or has been removed.',
+  'post.readingTime': {
+    one: '{count} min read',
+    other: '{count} min read',
+  },
+  'post.previous': 'Previous article',
+  'post.next': 'Next article',
+  'post.related': 'Related articles',
+  'post.otherLanguages': 'Other languages',
+  'post.series.position': 'Part {part} of {total}',
+  'post.series.viewAll': 'View the full series',
+  'post.series.previous': '← Part {part}',
+  'post.series.next': 'Part {part}: {title} →',
+  'post.anonymousAuthor': 'Anonymous',
+  'post.share.linkCopied': 'Link copied to clipboard',
+  'post.share.emailSubject': 'Interesting article: {title}',
+  'post.share.emailBody':
+    'Hi,\n\nI wanted to share this interesting article I found:\n\n{title}\n{excerpt}\n\nYou can read the full article here: {url}\n\nCheers!',
+
+  // Tarjeta de post
+  'card.article': 'Article: {title}',
+  'card.read': 'Read article: {title}',
+  'card.category': 'Category: {name}',
+  'card.author': 'Author: {name}',
+  'card.like': 'Like',
+  'card.unlike': 'Unlike',
+  'card.share': 'Share article',
+  'card.readingTime': 'Reading time',
+  'card.minutes': { one: '{count} minute', other: '{count} minutes' },
+  'card.views': 'Views',
+  'card.likes': 'Likes',
+  'card.comments': 'Comments',
+
+  // Búsqueda
+  'search.title': 'Search the Blog',
+  'search.found': {
+    one: '{count} result found in {time} ms',
+    other: '{count} results found in {time} ms',
+  },
+  'search.noResults': 'No results found',
+  'search.noResultsFor': 'We found no articles matching your search "{query}".',
+  'search.didYouMean': 'Did you mean',
+  'search.suggestions': 'Search suggestions',
+  'search.suggestion.correction': 'Did you mean "{query}"?',
+  'search.suggestion.category': 'Search in {name}',
+  'search.suggestion.tag': 'Posts about "{tag}"',
+  'search.activeFilters': 'Active filters:',
+  'search.clearFilters': 'Clear filters',
+  'search.clearAndRetry': 'Clear filters and try again',
+  'search.filter.category': 'Category: {name}',
+  'search.filter.tag': 'Tag: {name}',
+  'search.filter.author': 'Author: {name}',
+  'search.filter.date': 'Date: {start} – {end}',
+  'search.filter.readingTime': 'Reading time: {name}',
+  'search.showing': 'Showing {start}-{end} of {total} results',
+  'search.sortBy': 'Sort:',
+  'search.pageSize': 'Per page:',
+  'search.sort.relevance': 'Relevance',
+  'search.sort.newest': 'Newest',
+  'search.sort.oldest': 'Oldest',
+  'search.sort.views': 'Most viewed',
+  'search.sort.popular': 'Most popular',
+  'search.sort.title': 'Title A-Z',
+  'search.tips.title': 'Tips:',
+  'search.tips.spelling': 'Check the spelling of your words',
+  'search.tips.general': 'Use more general terms',
+  'search.tips.keywords': 'Try different keywords',
+  'search.tips.filters': 'Use fewer filters',
+  'search.empty.title': 'Search our blog',
+  'search.empty.description':
+    'Enter search terms to find articles on the topics you care about.',
+  'search.stats.title': 'Search statistics',
+  'search.stats.total': 'Total results:',
+  'search.stats.time': 'Search time:',
+  'search.stats.popular': 'Popular posts:',
+  'search.facets.title': 'Filter results',
+  'search.facets.categories': 'Categories',
+  'search.facets.tags': 'Tags',
+  'search.facets.authors': 'Authors',
+  'search.facets.years': 'Year',
+  'search.facets.months': 'Month',
+  'search.facets.readingTime': 'Reading time',
+  'search.seo.title': {
+    one: 'Results for "{query}" - {count} post found',
+    other: 'Results for "{query}" - {count} posts found',
+  },
+  'search.seo.description': {
+    one: 'Found {count} article about "{query}". Explore our content on a range of topics.',
+    other:
+      'Found {count} articles about "{query}". Explore our content on a range of topics.',
+  },
+  'search.seo.defaultDescription':
+    'Search our blog for articles on technology, development, design and more.',
+  'search.seo.resultCount': {
+    one: '{count} article found',
+    other: '{count} articles found',
+  },
+
+  // Buscador
+  'searchBox.placeholder': 'Search posts, categories, tags...',
+  'searchBox.clear': 'Clear search',
+  'searchBox.filters': 'Search filters',
+  'searchBox.history': 'Search history',
+  'searchBox.recent': 'Recent searches',
+  'searchBox.clearHistory': 'Clear history',
+  'searchBox.noHistory': 'No recent searches',
+  'searchBox.popularTags': 'Popular tags',
+  'searchBox.sortBy': 'Sort by',
+  'searchBox.sort.mostLiked': 'Top rated',
+  'searchBox.from': 'From',
+  'searchBox.to': 'To',
+  'searchBox.type.post': 'post',
+  'searchBox.type.category': 'category',
+  'searchBox.type.tag': 'tag',
+  'searchBox.type.author': 'author',
+  'searchBox.type.query': 'correction',
+  'searchBox.error.filters': 'Could not load the filters',
+  'searchBox.error.search': 'Could not run the search',
+  'searchBox.error.suggestions': 'Could not load suggestions',
+
+  // Tiempo de lectura (facetas de búsqueda)
+  'readingTime.short': 'Up to 5 min',
+  'readingTime.medium': '6 to 10 min',
+  'readingTime.long': 'Over 10 min',
+
+  // Categoría
+  'category.notFound': 'Category not found',
+  'category.notFoundDescription':
+    "The category you're looking for doesn't exist.",
+  'category.viewAll': 'View all categories',
+  'category.subcategories': 'Subcategories',
+  'category.postsIn': 'Articles in {name}',
+  'category.averageReadingTime': '{minutes} min average',
+  'category.growth': '+{rate} this month',
+  'category.filterByDate': 'Filter by date',
+  'category.featuredOnly': 'Featured only',
+  'category.includeSubcategories': 'Include subcategories',
+  'category.clearFilters': 'Clear filters ({count})',
+  'category.empty.title': 'No articles in this category',
+  'category.empty.filtered': 'No articles match the applied filters.',
+  'category.empty.none': 'There are no articles in {name} yet.',
+  'category.viewAllPosts': 'View all articles in the category',
+  'category.exploreOthers': 'Explore other categories',
+  'category.related': 'Related categories',
+  'category.seo.description': {
+    one: 'Articles about {name}. {count} article available.',
+    other: 'Articles about {name}. {count} articles available.',
+  },
+  'category.seo.keywords': '{name}, blog, articles',
+  'category.seo.itemList': 'Articles in {name}',
+
+  // Archivo
+  'archive.title': 'Archive',
+  'archive.year': 'Archive {year}',
+  'archive.published': {
+    one: '{count} article published',
+    other: '{count} articles published',
+  },
+  'archive.months': 'Archive months',
+  'archive.years': 'Archive years',
+  'archive.otherYears': 'Other years',
+  'archive.empty.title': 'No articles in this period',
+  'archive.empty.description': 'No articles were published in {period}.',
+  'archive.exploreAll': 'Explore all articles',
+  'archive.error.description':
+    "The date you're looking for isn't valid or the content failed to load.",
+  'archive.backToBlog': 'Back to the Blog',
+
+  // Widgets
+  'widget.posts': 'Articles',
+  'widget.views': 'Views',
+  'widget.viewCount': { one: '{count} view', other: '{count} views' },
+
+  // Errores
+  'error.posts': 'Error loading posts. Please try again.',
+  'error.post': 'Error loading the article',
+  'error.postNotFound': 'Post not found',
+  'error.loadPosts': 'Error loading posts',
+  'error.loadPostById': 'Error loading post with ID: {id}',
+  'error.loadPost': 'Error loading post: {slug}',
+  'error.search': 'Search error: {term}',
+  'error.loadSeries': 'Error loading series: {slug}',
+  'error.loadTag': 'Error loading tag: {slug}',
+  'error.loadAuthor': 'Error loading author: {slug}',
+  'error.loadCategory': 'Error loading the category',
+  'error.archiveNotFound': 'Archive not found',
+  'error.loadArchive': 'Error loading the archive',
+  'error.api': 'Error loading {resource}. Please try again later.',
+
+  // Recursos de la API (en los mensajes de error)
+  'resource.posts': 'the posts',
+  'resource.post': 'the post',
+  'resource.relatedPosts': 'the related posts',
+  'resource.adjacentPosts': 'the previous and next posts',
+  'resource.archive': 'the archive',
+  'resource.seriesList': 'the series',
+  'resource.series': 'the series',
+  'resource.postSeries': 'the series of the post',
+  'resource.tags': 'the tags',
+  'resource.tag': 'the tag',
+  'resource.like': 'the like',
+  'resource.stats': 'the statistics',
+  'resource.authors': 'the authors',
+  'resource.authorStats': 'the author statistics',
+  'resource.authorProfile': 'the author profile',
+
+  // Rutas: título y metadatos
+  'route.list.title': 'Blog - Latest Articles',
+  'route.list.description':
+    'Discover our latest articles on technology, development and design.',
+  'route.list.keywords': 'blog, articles, technology, development, programming',
+  'route.search.title': 'Search the Blog',
+  'route.search.description': 'Search for specific articles on our blog.',
+  'route.search.keywords': 'search, blog, articles, posts',
+  'route.categories.title': 'Categories',
+  'route.categories.description': 'All the blog categories.',
+  'route.categories.keywords': 'categories, topics, blog',
+  'route.category.title': 'Category',
+  'route.category.description': 'Articles organized by category.',
+  'route.category.keywords': 'category, blog, articles',
+  'route.archiveYear.title': 'Archive',
+  'route.archiveYear.description': 'Articles published in a year.',
+  'route.archiveYear.keywords': 'archive, blog, articles',
+  'route.archiveMonth.title': 'Archive',
+  'route.archiveMonth.description': 'Articles published in a month.',
+  'route.archiveMonth.keywords': 'archive, blog, articles',
+  'route.authors.title': 'Authors',
+  'route.authors.description': 'Directory of the blog authors.',
+  'route.authors.keywords': 'authors, team, blog',
+  'route.author.title': 'Author',
+  'route.author.description': 'Author profile and published articles.',
+  'route.author.keywords': 'author, blog, articles, profile',
+  'route.tags.title': 'Tags',
+  'route.tags.description': 'All the blog topics.',
+  'route.tags.keywords': 'tags, topics, blog',
+  'route.tag.title': 'Tag',
+  'route.tag.description': 'Articles about a topic.',
+  'route.tag.keywords': 'tag, blog, articles',
+  'route.series.title': 'Series',
+  'route.series.description': 'Articles of a series in reading order.',
+  'route.series.keywords': 'series, blog, articles, tutorial',
+  'route.post.title': 'Article',
+  'route.post.description': 'Read our full article.',
+  'route.post.keywords': 'article, blog, post',
+  'route.login.title': 'Log in',
+  'route.register.title': 'Sign up',
+  'route.forgotPassword.title': 'Recover password',
+  'route.resetPassword.title': 'Reset password',
+};
@@ -0,0 +1,329 @@
+import type { Message } from '../translate';
+
+/**
+ * Textos de la interfaz en español (catálogo de referencia)
+ * Las claves se agrupan por zona: nav, blog, post, card, widgets, errores
+ * y rutas.
+ */
+export const ES_MESSAGES = {
+  // Navegación
+  'nav.home': 'Inicio',
+  'nav.about': 'About',
+  'nav.blog': 'Blog',
+  'nav.allPosts': 'Todos los Artículos',
+  'nav.searchPosts': 'Buscar Artículos',
+  'nav.search': 'Buscar',
+  'nav.popularCategories': 'Categorías Populares',
+  'nav.categories': 'Categorías',
+  'nav.services': 'Servicios',
+  'nav.projects': 'Proyectos',
+  'nav.contact': 'Contacto',
+  'nav.login': 'Acceder',
+  'nav.account': 'Mi cuenta',
+  'nav.favorites': 'Mis favoritos',
+  'nav.logout': 'Cerrar sesión',
+  'nav.language': 'Idioma',
+
+  // Listado del blog
+  'blog.seo.title': 'Blog - Últimos Artículos y Tutoriales',
+  'blog.seo.description':
+    'Descubre los últimos artículos sobre desarrollo web, programación y tecnología. Tutoriales, guías y consejos prácticos para desarrolladores.',
+  'blog.seo.shortDescription':
+    'Descubre los últimos artículos sobre desarrollo web y programación',
+  'blog.hero.title': 'Últimos Artículos',
+  'blog.hero.subtitle':
+    'Descubre contenido de calidad sobre desarrollo web, programación y las últimas tendencias tecnológicas',
+  'blog.featured': 'Destacado',
+  'blog.readPost': 'Leer Artículo',
+  'blog.unknownAuthor': 'Autor desconocido',
+  'blog.searchPlaceholder': 'Buscar artículos, categorías, tags...',
+  'blog.categoriesLabel': 'Categorías:',
+  'blog.sortBy': 'Ordenar por',
+  'blog.sort.publishedAt': 'Más recientes',
+  'blog.sort.createdAt': 'Más antiguos',
+  'blog.sort.views': 'Más vistos',
+  'blog.sort.likes': 'Más valorados',
+  'blog.sort.title': 'Por título',
+  'blog.dateRange.all': 'Todo el tiempo',
+  'blog.dateRange.week': 'Esta semana',
+  'blog.dateRange.month': 'Este mes',
+  'blog.dateRange.year': 'Este año',
+  'blog.layout': 'Vista en {layout}',
+  'blog.activeFilters': 'Filtros activos ({count}):',
+  'blog.searchFilter': 'Búsqueda: "{query}"',
+  'blog.clearAll': 'Limpiar todo',
+  'blog.allPosts': 'Todos los Artículos',
+  'blog.resultsFor': 'Resultados para "{query}"',
+  'blog.filteredPosts': 'Artículos Filtrados',
+  'blog.postCount': {
+    zero: 'Ningún artículo',
+    one: '{count} artículo',
+    other: '{count} artículos',
+  },
+  'blog.pageOf': 'Página {page} de {total}',
+  'blog.empty.title': 'No se encontraron artículos',
+  'blog.empty.filtered':
+    'No hay artículos que coincidan con los filtros seleccionados.',
+  'blog.empty.none': 'Aún no hay artículos publicados.',
+  'blog.viewAll': 'Ver todos los artículos',
+  'blog.error.title': 'Error al cargar los artículos',
+  'blog.error.unexpected': 'Ha ocurrido un error inesperado.',
+  'blog.retry': 'Intentar de nuevo',
+
+  // Detalle del post
+  'post.notFound': 'Artículo no encontrado',
+  'post.notFoundDescription':
+    'El artículo que buscas no existe o ha sido eliminado.',
+  'post.readingTime': {
+    one: '{count} min de lectura',
+    other: '{count} min de lectura',
+  },
+  'post.previous': 'Artículo anterior',
+  'post.next': 'Siguiente artículo',
+  'post.related': 'Artículos relacionados',
+  'post.otherLanguages': 'Otros idiomas',
+  'post.series.position': 'Parte {part} de {total}',
+  'post.series.viewAll': 'Ver la serie completa',
+  'post.series.previous': '← Parte {part}',
+  'post.series.next': 'Parte {part}: {title} →',
+  'post.anonymousAuthor': 'Anónimo',
+  'post.share.linkCopied': 'Enlace copiado al portapapeles',
+  'post.share.emailSubject': 'Interesante artículo: {title}',
+  'post.share.emailBody':
+    'Hola,\n\nTe comparto este interesante artículo que encontré:\n\n{title}\n{excerpt}\n\nPuedes leerlo completo aquí: {url}\n\n¡Saludos!',
+
+  // Tarjeta de post
+  'card.article': 'Artículo: {title}',
+  'card.read': 'Leer artículo: {title}',
+  'card.category': 'Categoría: {name}',
+  'card.author': 'Autor: {name}',
+  'card.like': 'Me gusta',
+  'card.unlike': 'Quitar me gusta',
+  'card.share': 'Compartir artículo',
+  'card.readingTime': 'Tiempo de lectura',
+  'card.minutes': { one: '{count} minuto', other: '{count} minutos' },
+  'card.views': 'Visualizaciones',
+  'card.likes': 'Me gusta',
+  'card.comments': 'Comentarios',
+
+  // Búsqueda
+  'search.title': 'Buscar en el Blog',
+  'search.found': {
+    one: '{count} resultado encontrado en {time} ms',
+    other: '{count} resultados encontrados en {time} ms',
+  },
+  'search.noResults': 'No se encontraron resultados',
+  'search.noResultsFor':
+    'No encontramos artículos que coincidan con tu búsqueda "{query}".',
+  'search.didYouMean': '¿Quisiste decir',
+  'search.suggestions': 'Sugerencias de búsqueda',
+  'search.suggestion.correction': '¿Quisiste decir "{query}"?',
+  'search.suggestion.category': 'Buscar en {name}',
+  'search.suggestion.tag': 'Posts sobre "{tag}"',
+  'search.activeFilters': 'Filtros activos:',
+  'search.clearFilters': 'Limpiar filtros',
+  'search.clearAndRetry': 'Limpiar filtros y reintentar',
+  'search.filter.category': 'Categoría: {name}',
+  'search.filter.tag': 'Tag: {name}',
+  'search.filter.author': 'Autor: {name}',
+  'search.filter.date': 'Fecha: {start} – {end}',
+  'search.filter.readingTime': 'Lectura: {name}',
+  'search.showing': 'Mostrando {start}-{end} de {total} resultados',
+  'search.sortBy': 'Ordenar:',
+  'search.pageSize': 'Por página:',
+  'search.sort.relevance': 'Relevancia',
+  'search.sort.newest': 'Más recientes',
+  'search.sort.oldest': 'Más antiguos',
+  'search.sort.views': 'Más vistos',
+  'search.sort.popular': 'Más populares',
+  'search.sort.title': 'Título A-Z',
+  'search.tips.title': 'Sugerencias:',
+  'search.tips.spelling': 'Verifica la ortografía de las palabras',
+  'search.tips.general': 'Usa términos más generales',
+  'search.tips.keywords': 'Prueba con palabras clave diferentes',
+  'search.tips.filters': 'Reduce el número de filtros aplicados',
+  'search.empty.title': 'Buscar en nuestro blog',
+  'search.empty.description':
+    'Introduce términos de búsqueda para encontrar artículos sobre tus temas de interés.',
+  'search.stats.title': 'Estadísticas de búsqueda',
+  'search.stats.total': 'Total de resultados:',
+  'search.stats.time': 'Tiempo de búsqueda:',
+  'search.stats.popular': 'Posts populares:',
+  'search.facets.title': 'Filtrar resultados',
+  'search.facets.categories': 'Categorías',
+  'search.facets.tags': 'Tags',
+  'search.facets.authors': 'Autores',
+  'search.facets.years': 'Año',
+  'search.facets.months': 'Mes',
+  'search.facets.readingTime': 'Tiempo de lectura',
+  'search.seo.title': {
+    one: 'Resultados para "{query}" - {count} post encontrado',
+    other: 'Resultados para "{query}" - {count} posts encontrados',
+  },
+  'search.seo.description': {
+    one: 'Encontrado {count} artículo relacionado con "{query}". Explora nuestro contenido sobre diversos temas.',
+    other:
+      'Encontrados {count} artículos relacionados con "{query}". Explora nuestro contenido sobre diversos temas.',
+  },
+  'search.seo.defaultDescription':
+    'Busca artículos en nuestro blog sobre tecnología, desarrollo, diseño y más.',
+  'search.seo.resultCount': {
+    one: '{count} artículo encontrado',
+    other: '{count} artículos encontrados',
+  },
+
+  // Buscador
+  'searchBox.placeholder': 'Buscar posts, categorías, tags...',
+  'searchBox.clear': 'Limpiar búsqueda',
+  'searchBox.filters': 'Filtros de búsqueda',
+  'searchBox.history': 'Historial de búsqueda',
+  'searchBox.recent': 'Búsquedas recientes',
+  'searchBox.clearHistory': 'Limpiar historial',
+  'searchBox.noHistory': 'No hay búsquedas recientes',
+  'searchBox.popularTags': 'Tags populares',
+  'searchBox.sortBy': 'Ordenar por',
+  'searchBox.sort.mostLiked': 'Más valorados',
+  'searchBox.from': 'Desde',
+  'searchBox.to': 'Hasta',
+  'searchBox.type.post': 'post',
+  'searchBox.type.category': 'categoría',
+  'searchBox.type.tag': 'tag',
+  'searchBox.type.author': 'autor',
+  'searchBox.type.query': 'corrección',
+  'searchBox.error.filters': 'Error al cargar los filtros',
+  'searchBox.error.search': 'Error al realizar la búsqueda',
+  'searchBox.error.suggestions': 'Error al cargar sugerencias',
+
+  // Tiempo de lectura (facetas de búsqueda)
+  'readingTime.short': 'Hasta 5 min',
+  'readingTime.medium': 'De 6 a 10 min',
+  'readingTime.long': 'Más de 10 min',
+
+  // Categoría
+  'category.notFound': 'Categoría no encontrada',
+  'category.notFoundDescription': 'La categoría que buscas no existe.',
+  'category.viewAll': 'Ver todas las categorías',
+  'category.subcategories': 'Subcategorías',
+  'category.postsIn': 'Artículos en {name}',
+  'category.averageReadingTime': '{minutes} min promedio',
+  'category.growth': '+{rate} este mes',
+  'category.filterByDate': 'Filtrar por fecha',
+  'category.featuredOnly': 'Solo destacados',
+  'category.includeSubcategories': 'Incluir subcategorías',
+  'category.clearFilters': 'Limpiar filtros ({count})',
+  'category.empty.title': 'No hay artículos en esta categoría',
+  'category.empty.filtered':
+    'No se encontraron artículos con los filtros aplicados.',
+  'category.empty.none': 'Aún no hay artículos publicados en {name}.',
+  'category.viewAllPosts': 'Ver todos los artículos de la categoría',
+  'category.exploreOthers': 'Explorar otras categorías',
+  'category.related': 'Categorías relacionadas',
+  'category.seo.description': {
+    one: 'Artículos sobre {name}. {count} artículo disponible.',
+    other: 'Artículos sobre {name}. {count} artículos disponibles.',
+  },
+  'category.seo.keywords': '{name}, blog, artículos',
+  'category.seo.itemList': 'Artículos de {name}',
+
+  // Archivo
+  'archive.title': 'Archivo',
+  'archive.year': 'Archivo {year}',
+  'archive.published': {
+    one: '{count} artículo publicado',
+    other: '{count} artículos publicados',
+  },
+  'archive.months': 'Meses del archivo',
+  'archive.years': 'Años del archivo',
+  'archive.otherYears': 'Otros años',
+  'archive.empty.title': 'No hay artículos en este periodo',
+  'archive.empty.description': 'No se publicó ningún artículo en {period}.',
+  'archive.exploreAll': 'Explorar todos los artículos',
+  'archive.error.description':
+    'La fecha que buscas no es válida o ha ocurrido un error al cargar el contenido.',
+  'archive.backToBlog': 'Volver al Blog',
+
+  // Widgets
+  'widget.posts': 'Artículos',
+  'widget.views': 'Vistas',
+  'widget.viewCount': { one: '{count} vista', other: '{count} vistas' },
+
+  // Errores
+  'error.posts': 'Error al cargar los posts. Inténtalo de nuevo.',
+  'error.post': 'Error al cargar el artículo',
+  'error.postNotFound': 'Post no encontrado',
+  'error.loadPosts': 'Error al cargar posts',
+  'error.loadPostById': 'Error al cargar post con ID: {id}',
+  'error.loadPost': 'Error al cargar post: {slug}',
+  'error.search': 'Error en búsqueda: {term}',
+  'error.loadSeries': 'Error al cargar serie: {slug}',
+  'error.loadTag': 'Error al cargar tag: {slug}',
+  'error.loadAuthor': 'Error al cargar autor: {slug}',
+  'error.loadCategory': 'Error al cargar la categoría',
+  'error.archiveNotFound': 'Archivo no encontrado',
+  'error.loadArchive': 'Error al cargar el archivo',
+  'error.api':
+    'Error al cargar {resource}. Por favor, intente de nuevo más tarde.',
+
+  // Recursos de la API (en los mensajes de error)
+  'resource.posts': 'los posts',
+  'resource.post': 'el post',
+  'resource.relatedPosts': 'los posts relacionados',
+  'resource.adjacentPosts': 'los posts anterior y siguiente',
+  'resource.archive': 'el archivo',
+  'resource.seriesList': 'las series',
+  'resource.series': 'la serie',
+  'resource.postSeries': 'la serie del post',
+  'resource.tags': 'los tags',
+  'resource.tag': 'el tag',
+  'resource.like': 'el like',
+  'resource.stats': 'las estadísticas',
+  'resource.authors': 'los autores',
+  'resource.authorStats': 'las estadísticas de autores',
+  'resource.authorProfile': 'el perfil del autor',
+
+  // Rutas: título y metadatos
+  'route.list.title': 'Blog - Últimos Artículos',
+  'route.list.description':
+    'Descubre nuestros últimos artículos sobre tecnología, desarrollo y diseño.',
+  'route.list.keywords':
+    'blog, artículos, tecnología, desarrollo, programación',
+  'route.search.title': 'Buscar en el Blog',
+  'route.search.description': 'Busca artículos específicos en nuestro blog.',
+  'route.search.keywords': 'buscar, blog, artículos, posts',
+  'route.categories.title': 'Categorías',
+  'route.categories.description': 'Todas las categorías del blog.',
+  'route.categories.keywords': 'categorías, temas, blog',
+  'route.category.title': 'Categoría',
+  'route.category.description': 'Artículos organizados por categoría.',
+  'route.category.keywords': 'categoría, blog, artículos',
+  'route.archiveYear.title': 'Archivo',
+  'route.archiveYear.description': 'Artículos publicados en un año.',
+  'route.archiveYear.keywords': 'archivo, blog, artículos',
+  'route.archiveMonth.title': 'Archivo',
+  'route.archiveMonth.description': 'Artículos publicados en un mes.',
+  'route.archiveMonth.keywords': 'archivo, blog, artículos',
+  'route.authors.title': 'Autores',
+  'route.authors.description': 'Directorio de autores del blog.',
+  'route.authors.keywords': 'autores, equipo, blog',
+  'route.author.title': 'Autor',
+  'route.author.description': 'Perfil del autor y sus artículos publicados.',
+  'route.author.keywords': 'autor, blog, artículos, perfil',
+  'route.tags.title': 'Tags',
+  'route.tags.description': 'Todos los temas del blog.',
+  'route.tags.keywords': 'tags, temas, blog',
+  'route.tag.title': 'Tag',
+  'route.tag.description': 'Artículos sobre un tema.',
+  'route.tag.keywords': 'tag, blog, artículos',
+  'route.series.title': 'Serie',
+  'route.series.description': 'Artículos de una serie en orden de lectura.',
+  'route.series.keywords': 'serie, blog, artículos, tutorial',
+  'route.post.title': 'Artículo',
+  'route.post.description': 'Lee nuestro artículo completo.',
+  'route.post.keywords': 'artículo, blog, post',
+  'route.login.title': 'Iniciar sesión',
+  'route.register.title': 'Registrarse',
+  'route.forgotPassword.title': 'Recuperar contraseña',
+  'route.resetPassword.title': 'Restablecer contraseña',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof ES_MESSAGES;
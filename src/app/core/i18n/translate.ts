@@ -0,0 +1,70 @@
+import type { BlogLocale } from '../models/blog.interface';
+import { DEFAULT_LOCALE, localeConfig } from './locales';
+import { ES_MESSAGES, MessageKey } from './messages/es';
+import { EN_MESSAGES } from './messages/en';
+
+/**
+ * Traducción de los textos de la interfaz
+ * Los catálogos son objetos planos: clave → texto, con `{param}` para
+ * interpolar y variantes de plural elegidas con Intl.PluralRules.
+ */
+
+/** Variantes de un texto según `count` (zero es opcional) */
+export interface PluralMessage {
+  zero?: string;
+  one: string;
+  other: string;
+}
+
+export type Message = string | PluralMessage;
+
+export type MessageParams = Record<string, string | number>;
+
+export type { MessageKey };
+
+/** Catálogos por idioma: el español es la referencia y el resto lo completa */
+export const MESSAGES: Record<BlogLocale, Record<MessageKey, Message>> = {
+  es: ES_MESSAGES,
+  en: EN_MESSAGES,
+};
+
+/**
+ * Texto de una clave en un idioma, con los parámetros interpolados
+ * Los números se formatean según el idioma ("1.234" / "1,234")
+ */
+export function translate(
+  locale: BlogLocale,
+  key: MessageKey,
+  params: MessageParams = {}
+): string {
+  const intl = localeConfig(locale).intl;
+  const message = MESSAGES[locale][key] ?? MESSAGES[DEFAULT_LOCALE][key];
+  if (message === undefined) return key;
+
+  const text =
+    typeof message === 'string'
+      ? message
+      : selectPlural(message, Number(params['count'] ?? 0), intl);
+
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number'
+      ? new Intl.NumberFormat(intl).format(value)
+      : value;
+  });
+}
+
+/**
+ * Variante de plural para una cantidad
+ */
+function selectPlural(
+  message: PluralMessage,
+  count: number,
+  intl: string
+): string {
+  if (count === 0 && message.zero !== undefined) return message.zero;
+
+  const category = new Intl.PluralRules(intl).select(count);
+  return category === 'one' ? message.one : message.other;
+}
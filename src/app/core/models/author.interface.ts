@@ -164,12 +164,29 @@ export interface AuthorProfileConfig {
   timezone?: string;
 }
 
+/**
+ * Autor con el resumen de su actividad publicada
+ */
+export interface AuthorSummary extends BlogAuthor {
+  /** Posts publicados */
+  postsCount: number;
+
+  /** Vistas de sus posts publicados */
+  totalViews: number;
+
+  /** Likes de sus posts publicados */
+  totalLikes: number;
+
+  /** Fecha de su último post publicado */
+  lastPostDate?: Date;
+}
+
 /**
  * Respuesta paginada de autores
  */
 export interface AuthorsResponse {
   /** Autores de la página actual */
-  data: BlogAuthor[];
+  data: AuthorSummary[];
 
   /** Información de paginación */
   pagination: {
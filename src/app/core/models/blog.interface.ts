@@ -12,9 +12,15 @@ export interface BlogPost {
   /** Slug para URL amigable (ej: mi-primer-post) */
   slug: string;
 
-  /** Contenido principal del post en formato HTML */
+  /** Contenido principal del post (HTML, o Markdown según contentFormat) */
   content: string;
 
+  /** Formato de `content` (por defecto 'html') */
+  contentFormat?: BlogContentFormat;
+
+  /** Índice del contenido (h2–h4), calculado al procesar el post */
+  tableOfContents?: BlogTocEntry[];
+
   /** Excerpt/resumen del post para listados */
   excerpt: string;
 
@@ -66,14 +72,65 @@ export interface BlogPost {
   /** Fecha de última actualización */
   updatedAt: Date;
 
-  /** Fecha de publicación */
+  /** Fecha de publicación (en posts programados, cuándo se harán visibles) */
   publishedAt?: Date;
 
+  /** Fecha de caducidad: a partir de ella el post se oculta o se archiva */
+  expiresAt?: Date;
+
+  /** Qué hacer al caducar (por defecto 'hide') */
+  expiryAction?: BlogPostExpiryAction;
+
   /** Metadata para SEO */
   seo: BlogSeoMetadata;
 
   /** Configuración de social sharing */
   social: BlogSocialConfig;
+
+  /** Idioma del post (por defecto 'es') */
+  locale?: BlogLocale;
+
+  /** Versiones del post en otros idiomas */
+  translations?: BlogTranslation[];
+}
+
+/**
+ * Formatos en los que se puede escribir el contenido de un post
+ * El Markdown se convierte a HTML al cargar los posts (ver core/content)
+ */
+export type BlogContentFormat = 'html' | 'markdown';
+
+/**
+ * Entrada del índice de contenidos de un post
+ */
+export interface BlogTocEntry {
+  /** ID del encabezado, usado como ancla (#id) */
+  id: string;
+
+  /** Texto del encabezado */
+  text: string;
+
+  /** Nivel del encabezado (2-4) */
+  level: number;
+
+  /** Apartados de nivel inferior */
+  children: BlogTocEntry[];
+}
+
+/**
+ * Idiomas en los que se publica el blog
+ */
+export type BlogLocale = 'es' | 'en';
+
+/**
+ * Enlace a la versión de un contenido en otro idioma
+ */
+export interface BlogTranslation {
+  /** Idioma de la traducción */
+  locale: BlogLocale;
+
+  /** Slug de la traducción en su idioma */
+  slug: string;
 }
 
 /**
@@ -81,6 +138,12 @@ export interface BlogPost {
  */
 export type BlogPostStatus = 'draft' | 'published' | 'archived' | 'scheduled';
 
+/**
+ * Acción al caducar un post: ocultarlo por completo o archivarlo
+ * (los archivados salen de los listados pero siguen accesibles por URL)
+ */
+export type BlogPostExpiryAction = 'hide' | 'archive';
+
 /**
  * Metadata SEO para cada post
  */
@@ -246,6 +309,12 @@ export interface BlogCategory {
 
   /** Metadata SEO de la categoría */
   seo: CategorySeoMetadata;
+
+  /** Idioma de la categoría (por defecto 'es') */
+  locale?: BlogLocale;
+
+  /** Versiones de la categoría en otros idiomas */
+  translations?: BlogTranslation[];
 }
 
 /**
@@ -259,6 +328,80 @@ export interface CategorySeoMetadata {
   noIndex: boolean;
 }
 
+/**
+ * Serie de posts (tutoriales en varias partes)
+ */
+export interface BlogSeries {
+  /** ID único de la serie */
+  id: string;
+
+  /** Título de la serie */
+  title: string;
+
+  /** Slug para URL (/blog/serie/:slug) */
+  slug: string;
+
+  /** Descripción de la serie */
+  description: string;
+
+  /** Imagen de portada (por defecto la del primer post) */
+  coverImage?: string;
+
+  /** IDs de los posts en orden de lectura */
+  postIds: string[];
+
+  /** Fecha de creación */
+  createdAt: Date;
+
+  /** Fecha de última actualización */
+  updatedAt: Date;
+}
+
+/**
+ * Serie con sus posts visibles, en orden de lectura
+ */
+export interface BlogSeriesDetail extends BlogSeries {
+  posts: BlogPost[];
+}
+
+/**
+ * Metadatos editoriales de un tag (descripción y color)
+ */
+export interface BlogTagMetadata {
+  description: string;
+
+  /** Color en hexadecimal */
+  color: string;
+}
+
+/**
+ * Tag del blog con sus posts publicados y los tags que lo acompañan
+ */
+export interface BlogTag extends BlogTagMetadata {
+  /** Nombre tal como aparece en los posts */
+  name: string;
+
+  /** Slug para URL (/blog/tag/:tag) */
+  slug: string;
+
+  /** Posts publicados con el tag */
+  count: number;
+
+  /** Tags que comparten posts con este, de más a menos posts en común */
+  relatedTags: BlogRelatedTag[];
+}
+
+/**
+ * Tag relacionado por aparecer en los mismos posts
+ */
+export interface BlogRelatedTag {
+  name: string;
+  slug: string;
+
+  /** Posts publicados que tienen ambos tags */
+  sharedPosts: number;
+}
+
 /**
  * Respuesta paginada de posts
  */
@@ -271,6 +414,69 @@ export interface BlogPostsResponse {
 
   /** Filtros aplicados */
   filters?: BlogFilters;
+
+  /** Conteos por faceta sobre el conjunto completo de resultados */
+  facets?: BlogSearchFacets;
+}
+
+/**
+ * Ámbito de la navegación anterior/siguiente:
+ * todo el blog o solo la categoría principal del post
+ */
+export type BlogAdjacentScope = 'all' | 'category';
+
+/**
+ * Vecinos cronológicos de un post
+ */
+export interface BlogAdjacentPosts {
+  /** Post publicado justo antes (null si es el más antiguo) */
+  previous: BlogPost | null;
+
+  /** Post publicado justo después (null si es el más reciente) */
+  next: BlogPost | null;
+}
+
+/**
+ * Mes del archivo del blog con su número de posts publicados
+ */
+export interface BlogArchiveMonth {
+  year: number;
+
+  /** Mes de 1 (enero) a 12 (diciembre) */
+  month: number;
+
+  /** Etiqueta legible, p. ej. "marzo 2024" */
+  label: string;
+
+  count: number;
+}
+
+/**
+ * Valor de una faceta con su número de resultados
+ */
+export interface BlogFacetCount {
+  /** Valor para filtrar (ID, tag, año "2024", mes "2024-03" o rango) */
+  value: string;
+
+  /** Texto a mostrar */
+  label: string;
+
+  /** Posts que coinciden al añadir este valor a los filtros actuales */
+  count: number;
+}
+
+/**
+ * Facetas de una búsqueda
+ * Cada faceta se cuenta con todos los filtros salvo el suyo propio,
+ * así las opciones alternativas de un mismo grupo conservan su conteo
+ */
+export interface BlogSearchFacets {
+  categories: BlogFacetCount[];
+  tags: BlogFacetCount[];
+  authors: BlogFacetCount[];
+  years: BlogFacetCount[];
+  months: BlogFacetCount[];
+  readingTime: BlogFacetCount[];
 }
 
 /**
@@ -303,27 +509,51 @@ export interface BlogFilters {
   /** Término de búsqueda */
   search?: string;
 
+  /** Frases exactas que deben aparecer */
+  phrases?: string[];
+
+  /** Términos que no deben aparecer */
+  excludeTerms?: string[];
+
   /** IDs de categorías */
   categoryIds?: string[];
 
   /** Tags */
   tags?: string[];
 
+  /** Tags que no deben tener los posts */
+  excludeTags?: string[];
+
+  /** IDs de categorías cuyos posts se excluyen */
+  excludeCategoryIds?: string[];
+
+  /** IDs de autores cuyos posts se excluyen */
+  excludeAuthorIds?: string[];
+
   /** ID del autor */
   authorId?: string;
 
+  /** IDs de autores (posts de cualquiera de ellos) */
+  authorIds?: string[];
+
   /** Estado del post */
   status?: BlogPostStatus;
 
   /** Solo posts destacados */
   featured?: boolean;
 
+  /** Idioma de los posts */
+  locale?: BlogLocale;
+
   /** Fecha desde */
   dateFrom?: Date;
 
   /** Fecha hasta */
   dateTo?: Date;
 
+  /** Rango de tiempo de lectura */
+  readingTime?: BlogReadingTimeBucket;
+
   /** Ordenamiento */
   sortBy?: BlogSortBy;
 
@@ -331,6 +561,11 @@ export interface BlogFilters {
   sortDirection?: 'asc' | 'desc';
 }
 
+/**
+ * Rangos de tiempo de lectura: hasta 5 min, de 6 a 10 min y más de 10 min
+ */
+export type BlogReadingTimeBucket = 'short' | 'medium' | 'long';
+
 /**
  * Opciones de ordenamiento
  */
@@ -342,7 +577,8 @@ export type BlogSortBy =
   | 'views'
   | 'likes'
   | 'commentsCount'
-  | 'readingTime';
+  | 'readingTime'
+  | 'relevance';
 
 /**
  * Configuración para el componente de lista de posts
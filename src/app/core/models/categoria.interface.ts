@@ -168,6 +168,9 @@ export interface CategoryTree {
   /** Ruta completa de la categoría */
   path: string[];
 
+  /** Slugs desde la raíz (segmentos de la URL) */
+  slugPath: string[];
+
   /** Si tiene hijos */
   hasChildren: boolean;
 
@@ -175,6 +178,23 @@ export interface CategoryTree {
   totalPostsWithChildren: number;
 }
 
+/**
+ * Categoría resuelta a partir de una URL jerárquica
+ */
+export interface CategoryPathMatch {
+  /** Categoría del último segmento */
+  category: BlogCategory;
+
+  /** Categorías superiores, desde la raíz */
+  ancestors: BlogCategory[];
+
+  /** Segmentos canónicos de la URL */
+  slugPath: string[];
+
+  /** Subcategorías a cualquier profundidad */
+  descendantIds: string[];
+}
+
 /**
  * Configuración para el widget de categorías
  */
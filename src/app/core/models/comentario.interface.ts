@@ -94,6 +94,24 @@ export interface CommentAuthor {
   isModerator: boolean;
 }
 
+/**
+ * Autor de un comentario tal como se publica (sin email ni usuario)
+ */
+export type PublicCommentAuthor = Omit<CommentAuthor, 'email' | 'userId'>;
+
+/**
+ * Comentario tal como lo sirve la API pública
+ * Sin datos de contacto, moderación ni metadata del cliente (IP, user agent)
+ */
+export interface PublicComment
+  extends Omit<
+    BlogComment,
+    'author' | 'parent' | 'replies' | 'moderation' | 'metadata' | 'isSpam'
+  > {
+  author: PublicCommentAuthor;
+  replies?: PublicComment[];
+}
+
 /**
  * Información de moderación del comentario
  */
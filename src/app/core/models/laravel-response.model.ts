@@ -0,0 +1,56 @@
+/**
+ * Recurso individual de Laravel (JsonResource)
+ */
+export interface LaravelResource<T> {
+  data: T;
+}
+
+/**
+ * Metadata de paginación de una ResourceCollection de Laravel
+ */
+export interface LaravelPaginationMeta {
+  current_page: number;
+  from: number | null;
+  last_page: number;
+  path: string;
+  per_page: number;
+  to: number | null;
+  total: number;
+}
+
+/**
+ * Enlaces de paginación de una ResourceCollection de Laravel
+ */
+export interface LaravelPaginationLinks {
+  first: string | null;
+  last: string | null;
+  prev: string | null;
+  next: string | null;
+}
+
+/**
+ * Respuesta paginada de una ResourceCollection (data + links + meta)
+ */
+export interface LaravelResourceCollection<T> {
+  data: T[];
+  links: LaravelPaginationLinks;
+  meta: LaravelPaginationMeta;
+}
+
+/**
+ * Respuesta de un LengthAwarePaginator serializado directamente
+ */
+export interface LaravelPaginator<T> extends LaravelPaginationMeta {
+  data: T[];
+  first_page_url: string | null;
+  last_page_url: string | null;
+  next_page_url: string | null;
+  prev_page_url: string | null;
+}
+
+/**
+ * Cualquiera de los dos formatos paginados que puede devolver el backend
+ */
+export type LaravelPaginatedResponse<T> =
+  | LaravelResourceCollection<T>
+  | LaravelPaginator<T>;
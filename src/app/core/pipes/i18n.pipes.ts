@@ -0,0 +1,80 @@
+import { Pipe, PipeTransform, inject } from '@angular/core';
+
+import { MessageKey, MessageParams } from '../i18n/translate';
+import { DateStyle, I18nService, NumberStyle } from '../services/i18n.service';
+
+/**
+ * Pipes de traducción y formato
+ * Son impuros para que el texto cambie al cambiar de idioma sin recargar
+ * (el coste es bajo: los formateadores se reutilizan en I18nService).
+ */
+
+/**
+ * Texto del catálogo: {{ 'blog.clearAll' | t }}
+ */
+@Pipe({
+  name: 't',
+  standalone: true,
+  pure: false,
+})
+export class TranslatePipe implements PipeTransform {
+  private i18n = inject(I18nService);
+
+  transform(key: MessageKey, params?: MessageParams): string {
+    return this.i18n.t(key, params);
+  }
+}
+
+/**
+ * Fecha en el idioma activo: {{ post.publishedAt | localeDate : 'short' }}
+ */
+@Pipe({
+  name: 'localeDate',
+  standalone: true,
+  pure: false,
+})
+export class LocaleDatePipe implements PipeTransform {
+  private i18n = inject(I18nService);
+
+  transform(
+    value: Date | string | null | undefined,
+    style: DateStyle = 'long'
+  ): string {
+    return value ? this.i18n.formatDate(value, style) : '';
+  }
+}
+
+/**
+ * Número en el idioma activo: {{ post.views | localeNumber : 'compact' }}
+ */
+@Pipe({
+  name: 'localeNumber',
+  standalone: true,
+  pure: false,
+})
+export class LocaleNumberPipe implements PipeTransform {
+  private i18n = inject(I18nService);
+
+  transform(
+    value: number | null | undefined,
+    style: NumberStyle = 'decimal'
+  ): string {
+    return this.i18n.formatNumber(value ?? 0, style);
+  }
+}
+
+/**
+ * Fecha relativa en el idioma activo: {{ post.publishedAt | relativeDate }}
+ */
+@Pipe({
+  name: 'relativeDate',
+  standalone: true,
+  pure: false,
+})
+export class RelativeDatePipe implements PipeTransform {
+  private i18n = inject(I18nService);
+
+  transform(value: Date | string | null | undefined): string {
+    return value ? this.i18n.formatRelative(value) : '';
+  }
+}
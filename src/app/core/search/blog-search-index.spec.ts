@@ -0,0 +1,263 @@
+import type { BlogPost } from '../models/blog.interface';
+import { renderCodeBlock, renderCodeGroup } from '../content/code-blocks';
+import { expandShortcodes } from '../content/shortcodes';
+import { BlogSearchIndex } from './blog-search-index';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+function post(id: string, fields: Partial<BlogPost> = {}): BlogPost {
+  return {
+    id,
+    title: '',
+    excerpt: '',
+    content: '',
+    tags: [],
+    categoryIds: [],
+    publishedAt: new Date('2024-01-01T00:00:00Z'),
+    ...fields,
+  } as BlogPost;
+}
+
+function ids(index: BlogSearchIndex, query: string): string[] {
+  return index.search(query, NOW).map((hit) => hit.postId);
+}
+
+describe('BlogSearchIndex', () => {
+  describe('indexing', () => {
+    it('should find posts ignoring accents, case and plurals', () => {
+      const index = new BlogSearchIndex();
+      index.sync([post('1', { title: 'Diseño de Componentes' })]);
+
+      expect(ids(index, 'diseno')).toEqual(['1']);
+      expect(ids(index, 'COMPONENTE')).toEqual(['1']);
+    });
+
+    it('should match prefixes of 3+ characters', () => {
+      const index = new BlogSearchIndex();
+      index.sync([post('1', { title: 'Angular Signals' })]);
+
+      expect(ids(index, 'angu')).toEqual(['1']);
+      expect(ids(index, 'an')).toEqual([]);
+    });
+
+    it('should require every query term (AND)', () => {
+      const index = new BlogSearchIndex();
+      index.sync([
+        post('1', { title: 'Angular y RxJS' }),
+        post('2', { title: 'Angular Signals' }),
+      ]);
+
+      expect(ids(index, 'angular rxjs')).toEqual(['1']);
+    });
+
+    it('should ignore queries made only of stopwords', () => {
+      const index = new BlogSearchIndex();
+      index.sync([post('1', { title: 'De la web' })]);
+
+      expect(ids(index, 'de la')).toEqual([]);
+    });
+
+    it('should index tags, categories, author and content without HTML', () => {
+      const index = new BlogSearchIndex((id) =>
+        id === 'c1' ? 'Frontend' : undefined
+      );
+      index.sync([
+        post('1', {
+          tags: ['typescript'],
+          categoryIds: ['c1'],
+          author: { name: 'María García' } as BlogPost['author'],
+          content: '<p>Hola <code>mundo</code></p>',
+        }),
+      ]);
+
+      expect(ids(index, 'typescript')).toEqual(['1']);
+      expect(ids(index, 'frontend')).toEqual(['1']);
+      expect(ids(index, 'maria')).toEqual(['1']);
+      expect(ids(index, 'mundo')).toEqual(['1']);
+      expect(ids(index, 'code')).toEqual([]);
+    });
+
+    it('should not index the buttons and labels of code blocks', () => {
+      const index = new BlogSearchIndex();
+      index.sync([
+        post('1', {
+          content:
+            renderCodeBlock({ code: 'const signal = 1;', language: 'ts' }) +
+            renderCodeGroup([
+              { code: 'a', language: 'html' },
+              { code: 'b', language: 'css' },
+            ]),
+        }),
+      ]);
+
+      expect(ids(index, 'signal')).toEqual(['1']);
+      expect(ids(index, 'copiar')).toEqual([]);
+      expect(ids(index, 'ajustar')).toEqual([]);
+      expect(ids(index, 'typescript')).toEqual([]);
+      expect(ids(index, 'archivo')).toEqual([]);
+    });
+
+    it('should only index the author title of embeds', () => {
+      const index = new BlogSearchIndex();
+      index.sync([
+        post('1', {
+          content: expandShortcodes(
+            '<p>[youtube id=abc title="Charla de signals"]</p>\n' +
+              '<p>[codepen user=ana pen=xyz]</p>'
+          ),
+        }),
+      ]);
+
+      expect(ids(index, 'charla')).toEqual(['1']);
+      expect(ids(index, 'cookies')).toEqual([]);
+      expect(ids(index, 'youtube')).toEqual([]);
+      expect(ids(index, 'interactivo')).toEqual([]);
+    });
+
+    it('should reindex changed posts and drop missing ones on sync', () => {
+      const index = new BlogSearchIndex();
+      index.sync([
+        post('1', { title: 'Angular' }),
+        post('2', { title: 'React' }),
+      ]);
+      index.sync([post('1', { title: 'Vue' })]);
+
+      expect(index.size).toBe(1);
+      expect(ids(index, 'angular')).toEqual([]);
+      expect(ids(index, 'react')).toEqual([]);
+      expect(ids(index, 'vue')).toEqual(['1']);
+    });
+
+    it('should match exact terms without prefixes or typos', () => {
+      const index = new BlogSearchIndex();
+      index.sync([
+        post('1', { title: 'Java moderno' }),
+        post('2', { title: 'JavaScript y query params' }),
+        post('3', { title: 'Tablas en Java' }),
+      ]);
+
+      expect(index.matchExact('java')).toEqual(['1', '3']);
+      expect(index.matchExact('jquery')).toEqual([]);
+      expect(index.matchExact('java tabla')).toEqual(['3']);
+      expect(index.matchExact('de')).toEqual([]);
+    });
+
+    it('should remove a post', () => {
+      const index = new BlogSearchIndex();
+      index.sync([post('1', { title: 'Angular' })]);
+      index.remove('1');
+
+      expect(index.size).toBe(0);
+      expect(ids(index, 'angular')).toEqual([]);
+    });
+  });
+
+  describe('ranking', () => {
+    it('should rank title above tags, excerpt and content', () => {
+      const index = new BlogSearchIndex();
+      index.sync([
+        post('content', { content: 'angular' }),
+        post('excerpt', { excerpt: 'angular' }),
+        post('tags', { tags: ['angular'] }),
+        post('title', { title: 'angular' }),
+      ]);
+
+      expect(ids(index, 'angular')).toEqual([
+        'title',
+        'tags',
+        'excerpt',
+        'content',
+      ]);
+    });
+
+    it('should not let a long body outweigh the title', () => {
+      const index = new BlogSearchIndex();
+      index.sync([
+        post('body', { content: 'angular '.repeat(50) }),
+        post('title', { title: 'angular' }),
+      ]);
+
+      expect(ids(index, 'angular')).toEqual(['title', 'body']);
+    });
+
+    it('should favour rarer terms', () => {
+      const index = new BlogSearchIndex();
+      index.sync([
+        post('common', { title: 'web web' }),
+        post('rare', { title: 'web accesibilidad' }),
+        post('other', { title: 'web' }),
+      ]);
+
+      const [first] = index.search('web accesibilidad', NOW);
+      expect(first.postId).toBe('rare');
+      expect(first.matchedTerms).toEqual(['web', 'accesibilidad']);
+    });
+
+    it('should boost recent posts when relevance is equal', () => {
+      const index = new BlogSearchIndex();
+      index.sync([
+        post('old', {
+          title: 'Angular',
+          publishedAt: new Date('2020-01-01T00:00:00Z'),
+        }),
+        post('new', {
+          title: 'Angular',
+          publishedAt: new Date('2024-05-01T00:00:00Z'),
+        }),
+      ]);
+
+      const [recent, old] = index.search('angular', NOW);
+      expect(recent.postId).toBe('new');
+      expect(recent.score).toBeGreaterThan(old.score);
+      expect(recent.score / old.score).toBeLessThan(1.5);
+    });
+  });
+
+  describe('typos', () => {
+    const index = new BlogSearchIndex();
+    index.sync([
+      post('1', { title: 'Guía de Angular', tags: ['typescript'] }),
+      post('2', { title: 'Novedades de Angular' }),
+      post('3', { title: 'Primeros pasos con React' }),
+    ]);
+
+    it('should find terms with a few typos at a lower score', () => {
+      const [exact] = index.search('react', NOW);
+      const [fuzzy] = index.search('reakt', NOW);
+
+      expect(fuzzy.postId).toBe('3');
+      expect(fuzzy.score).toBeLessThan(exact.score);
+      expect(ids(index, 'anguler')).toEqual(['1', '2']);
+    });
+
+    it('should not correct short words', () => {
+      expect(ids(index, 'gia')).toEqual([]);
+    });
+
+    it('should suggest the closest indexed word with its accents', () => {
+      expect(index.suggest('guia anguler')).toBe('guia angular');
+      expect(index.suggest('gula')).toBe('guía');
+      expect(index.suggest('tipescript')).toBe('typescript');
+    });
+
+    it('should not suggest anything when every word matches', () => {
+      expect(index.suggest('angular')).toBeNull();
+      expect(index.suggest('la guia')).toBeNull();
+    });
+
+    it('should keep words that have no close match', () => {
+      expect(index.suggest('reakt xyzzyq')).toBe('react xyzzyq');
+    });
+
+    it('should prefer the more frequent word on a tie', () => {
+      const tied = new BlogSearchIndex();
+      tied.sync([
+        post('1', { title: 'Casas' }),
+        post('2', { title: 'Cosas' }),
+        post('3', { title: 'Cosas' }),
+      ]);
+
+      expect(tied.suggest('cusas')).toBe('cosas');
+    });
+  });
+});
@@ -0,0 +1,438 @@
+import type { BlogPost } from '../models/blog.interface';
+import {
+  MIN_PREFIX_LENGTH,
+  SPANISH_STOPWORDS,
+  analyzeText,
+  editDistance,
+  matchesQueryTerm,
+  maxTypos,
+  normalizeText,
+  stemSpanish,
+  stripHtml,
+} from './text-analysis';
+
+/**
+ * Campos de un post que se indexan
+ */
+export type SearchField =
+  | 'title'
+  | 'excerpt'
+  | 'tags'
+  | 'categories'
+  | 'author'
+  | 'content';
+
+/**
+ * Resultado de una búsqueda en el índice
+ */
+export interface SearchHit {
+  postId: string;
+  score: number;
+  /** Términos del índice (ya normalizados) que coincidieron */
+  matchedTerms: string[];
+}
+
+/** Frecuencia de un término en cada campo de un documento */
+type FieldFrequencies = Partial<Record<SearchField, number>>;
+
+interface IndexedDocument {
+  /** Texto fuente concatenado, para detectar cambios */
+  signature: string;
+  terms: Set<string>;
+  /** Fecha de publicación (ms) para el impulso por recencia */
+  publishedAt: number;
+  /** Palabras normalizadas aportadas al vocabulario de corrección */
+  words: Set<string>;
+}
+
+/**
+ * Palabra del vocabulario de corrección ("¿Quisiste decir…?")
+ */
+interface VocabularyEntry {
+  /** Forma original en minúsculas, con acentos */
+  word: string;
+  stem: string;
+  /** Número de posts que la contienen */
+  count: number;
+}
+
+/** Campos cuyas palabras alimentan la corrección de errores tipográficos */
+const VOCABULARY_FIELDS: SearchField[] = [
+  'title',
+  'tags',
+  'categories',
+  'author',
+];
+
+/** Penalización de los términos encontrados por aproximación */
+const FUZZY_PENALTY = 0.5;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Peso de cada campo en la puntuación: título > tags > extracto > cuerpo
+ */
+export const SEARCH_FIELD_WEIGHTS: Record<SearchField, number> = {
+  title: 5,
+  tags: 3,
+  categories: 2.5,
+  excerpt: 2,
+  author: 1.5,
+  content: 1,
+};
+
+/** Impulso máximo para un post recién publicado (+50%) */
+const RECENCY_BOOST = 0.5;
+
+/** Días en los que el impulso por recencia se reduce a la mitad */
+const RECENCY_HALF_LIFE_DAYS = 180;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Índice invertido de posts del blog
+ * Se actualiza de forma incremental: solo se reindexan los posts cuyo texto cambia
+ */
+export class BlogSearchIndex {
+  private postings = new Map<string, Map<string, FieldFrequencies>>();
+  private documents = new Map<string, IndexedDocument>();
+  private vocabulary = new Map<string, VocabularyEntry>();
+
+  /**
+   * @param resolveCategoryName Resolver el nombre de una categoría por ID,
+   * para posts que solo traen `categoryIds`
+   */
+  constructor(
+    private resolveCategoryName: (id: string) => string | undefined = () =>
+      undefined
+  ) {}
+
+  /**
+   * Número de documentos indexados
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Sincronizar el índice con un listado completo de posts
+   */
+  sync(posts: BlogPost[]): void {
+    const currentIds = new Set(posts.map((post) => post.id));
+
+    for (const postId of Array.from(this.documents.keys())) {
+      if (!currentIds.has(postId)) {
+        this.remove(postId);
+      }
+    }
+
+    posts.forEach((post) => this.upsert(post));
+  }
+
+  /**
+   * Indexar o reindexar un post (no hace nada si su texto no cambió)
+   */
+  upsert(post: BlogPost): void {
+    const fields = this._extractFields(post);
+    const signature = Object.values(fields).join('\u0000');
+    const publishedAt = new Date(post.publishedAt || post.createdAt).getTime();
+
+    const existing = this.documents.get(post.id);
+    if (existing?.signature === signature) {
+      existing.publishedAt = publishedAt;
+      return;
+    }
+
+    this.remove(post.id);
+
+    const terms = new Set<string>();
+
+    (Object.keys(fields) as SearchField[]).forEach((field) => {
+      analyzeText(fields[field]).forEach((term) => {
+        let documentsForTerm = this.postings.get(term);
+        if (!documentsForTerm) {
+          documentsForTerm = new Map();
+          this.postings.set(term, documentsForTerm);
+        }
+
+        let frequencies = documentsForTerm.get(post.id);
+        if (!frequencies) {
+          frequencies = {};
+          documentsForTerm.set(post.id, frequencies);
+        }
+
+        frequencies[field] = (frequencies[field] || 0) + 1;
+        terms.add(term);
+      });
+    });
+
+    const words = this._addVocabulary(fields);
+
+    this.documents.set(post.id, { signature, terms, publishedAt, words });
+  }
+
+  /**
+   * Quitar un post del índice
+   */
+  remove(postId: string): void {
+    const document = this.documents.get(postId);
+    if (!document) return;
+
+    document.terms.forEach((term) => {
+      const documentsForTerm = this.postings.get(term);
+      documentsForTerm?.delete(postId);
+      if (documentsForTerm && documentsForTerm.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+
+    document.words.forEach((key) => {
+      const entry = this.vocabulary.get(key);
+      if (entry && --entry.count === 0) {
+        this.vocabulary.delete(key);
+      }
+    });
+
+    this.documents.delete(postId);
+  }
+
+  /**
+   * Buscar posts que contengan todos los términos de la consulta
+   * Devuelve los resultados ordenados por relevancia: tf-idf ponderado por
+   * campo y con un impulso para los posts más recientes.
+   * Un término sin coincidencias se busca por aproximación (errores tipográficos)
+   */
+  search(query: string, now: Date): SearchHit[] {
+    const queryTerms = Array.from(new Set(analyzeText(query)));
+    if (queryTerms.length === 0) return [];
+
+    const totalDocuments = this.documents.size;
+    let hits: Map<string, SearchHit> | null = null;
+
+    for (const queryTerm of queryTerms) {
+      const termHits = new Map<string, SearchHit>();
+
+      let terms = this._expandTerm(queryTerm);
+      let penalty = 1;
+      if (terms.length === 0) {
+        terms = this._fuzzyTerms(queryTerm);
+        penalty = FUZZY_PENALTY;
+      }
+
+      terms.forEach((term) => {
+        const documentsForTerm = this.postings.get(term)!;
+        const idf = Math.log(1 + totalDocuments / documentsForTerm.size);
+
+        documentsForTerm.forEach((frequencies, postId) => {
+          const weight = this._weightFrequencies(frequencies) * penalty;
+          const hit = termHits.get(postId) || {
+            postId,
+            score: 0,
+            matchedTerms: [],
+          };
+          hit.score += weight * idf;
+          hit.matchedTerms.push(term);
+          termHits.set(postId, hit);
+        });
+      });
+
+      // Intersección (AND) con los términos anteriores
+      if (hits === null) {
+        hits = termHits;
+      } else {
+        const previous: Map<string, SearchHit> = hits;
+        hits = new Map();
+        termHits.forEach((hit, postId) => {
+          const previousHit = previous.get(postId);
+          if (previousHit) {
+            hits!.set(postId, {
+              postId,
+              score: previousHit.score + hit.score,
+              matchedTerms: [...previousHit.matchedTerms, ...hit.matchedTerms],
+            });
+          }
+        });
+      }
+
+      if (hits.size === 0) return [];
+    }
+
+    return Array.from(hits!.values())
+      .map((hit) => ({
+        ...hit,
+        score: hit.score * this._recencyBoost(hit.postId, now),
+      }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * IDs de los posts que contienen todos los términos de la consulta tal
+   * cual, sin prefijos ni aproximación (para los términos excluidos)
+   */
+  matchExact(query: string): string[] {
+    const queryTerms = Array.from(new Set(analyzeText(query)));
+    const postings = queryTerms.map((term) => this.postings.get(term));
+    if (postings.length === 0 || postings.some((documents) => !documents)) {
+      return [];
+    }
+
+    const [first, ...rest] = postings as Map<string, FieldFrequencies>[];
+    return Array.from(first.keys()).filter((postId) =>
+      rest.every((documents) => documents.has(postId))
+    );
+  }
+
+  /**
+   * Proponer una consulta corregida ("¿Quisiste decir…?")
+   * Devuelve null si todas las palabras tienen coincidencias
+   */
+  suggest(query: string): string | null {
+    let corrected = false;
+
+    const words = query
+      .trim()
+      .split(/\s+/)
+      .filter((word) => word.length > 0)
+      .map((word) => {
+        const key = normalizeText(word).replace(/[^a-z0-9]/g, '');
+        if (!key || SPANISH_STOPWORDS.has(key)) return word;
+        if (this._expandTerm(stemSpanish(key)).length > 0) return word;
+
+        const closest = this._closestWord(key);
+        if (!closest) return word;
+
+        corrected = true;
+        return closest.word;
+      });
+
+    return corrected ? words.join(' ') : null;
+  }
+
+  // ===================================
+  // MÉTODOS PRIVADOS
+  // ===================================
+
+  /**
+   * Texto de cada campo indexable de un post
+   */
+  private _extractFields(post: BlogPost): Record<SearchField, string> {
+    const categoryNames = post.categories
+      ? post.categories.map((category) => category.name)
+      : post.categoryIds.map((id) => this.resolveCategoryName(id) || '');
+
+    return {
+      title: post.title,
+      excerpt: post.excerpt,
+      tags: post.tags.join(' '),
+      categories: categoryNames.join(' '),
+      author: post.author?.name || '',
+      content: stripHtml(post.content || ''),
+    };
+  }
+
+  /**
+   * Términos del vocabulario que satisfacen un término de consulta
+   */
+  private _expandTerm(queryTerm: string): string[] {
+    if (queryTerm.length < MIN_PREFIX_LENGTH) {
+      return this.postings.has(queryTerm) ? [queryTerm] : [];
+    }
+
+    return Array.from(this.postings.keys()).filter((term) =>
+      matchesQueryTerm(term, queryTerm)
+    );
+  }
+
+  /**
+   * Términos del índice a pocas ediciones de un término de consulta
+   */
+  private _fuzzyTerms(queryTerm: string): string[] {
+    const max = maxTypos(queryTerm);
+    if (max === 0) return [];
+
+    const terms = new Set<string>();
+    this.vocabulary.forEach((entry) => {
+      if (
+        this.postings.has(entry.stem) &&
+        editDistance(entry.stem, queryTerm, max) <= max
+      ) {
+        terms.add(entry.stem);
+      }
+    });
+
+    return Array.from(terms);
+  }
+
+  /**
+   * Palabra del vocabulario más cercana: menor distancia y, a igualdad, más frecuente
+   */
+  private _closestWord(key: string): VocabularyEntry | null {
+    const max = maxTypos(key);
+    if (max === 0) return null;
+
+    let best: VocabularyEntry | null = null;
+    let bestDistance = max + 1;
+
+    this.vocabulary.forEach((entry, candidate) => {
+      const distance = editDistance(candidate, key, max);
+      if (
+        distance < bestDistance ||
+        (distance === bestDistance && best && entry.count > best.count)
+      ) {
+        best = entry;
+        bestDistance = distance;
+      }
+    });
+
+    return bestDistance <= max ? best : null;
+  }
+
+  /**
+   * Registrar en el vocabulario las palabras de los campos de corrección
+   */
+  private _addVocabulary(fields: Record<SearchField, string>): Set<string> {
+    const words = new Set<string>();
+
+    VOCABULARY_FIELDS.forEach((field) => {
+      for (const match of fields[field].matchAll(WORD_PATTERN)) {
+        const word = match[0].toLowerCase();
+        const key = normalizeText(word);
+        if (key.length < MIN_PREFIX_LENGTH || SPANISH_STOPWORDS.has(key)) {
+          continue;
+        }
+        words.add(key);
+        if (!this.vocabulary.has(key)) {
+          this.vocabulary.set(key, { word, stem: stemSpanish(key), count: 0 });
+        }
+      }
+    });
+
+    words.forEach((key) => this.vocabulary.get(key)!.count++);
+
+    return words;
+  }
+
+  /**
+   * Sumar las frecuencias por campo aplicando su peso
+   * (tf logarítmico para que un cuerpo largo no domine)
+   */
+  private _weightFrequencies(frequencies: FieldFrequencies): number {
+    return (Object.keys(frequencies) as SearchField[]).reduce(
+      (sum, field) =>
+        sum +
+        SEARCH_FIELD_WEIGHTS[field] * (1 + Math.log(frequencies[field] || 1)),
+      0
+    );
+  }
+
+  /**
+   * Multiplicador por recencia: 1 + 0.5 al publicar, decae con vida media de 180 días
+   */
+  private _recencyBoost(postId: string, now: Date): number {
+    const publishedAt = this.documents.get(postId)?.publishedAt;
+    if (!publishedAt || isNaN(publishedAt)) return 1;
+
+    const ageDays = Math.max(0, (now.getTime() - publishedAt) / DAY_MS);
+    return 1 + RECENCY_BOOST * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+  }
+}
@@ -0,0 +1,241 @@
+import type { BlogAuthor } from '../models/author.interface';
+import type { BlogCategory } from '../models/categoria.interface';
+import {
+  formatSearchQuery,
+  parseQueryDate,
+  parseSearchParams,
+  parseSearchQuery,
+  toBlogFilters,
+  toSearchParams,
+} from './query-parser';
+
+const categories = [
+  { id: 'c1', slug: 'desarrollo-web', name: 'Desarrollo Web' },
+  { id: 'c2', slug: 'frontend', name: 'Frontend', parentId: 'c1' },
+  { id: 'c3', slug: 'diseno', name: 'Diseño' },
+] as BlogCategory[];
+
+const authors = [
+  { id: 'a1', slug: 'maria-garcia', name: 'María García' },
+  { id: 'a2', slug: 'juan-perez', name: 'Juan Pérez' },
+] as BlogAuthor[];
+
+describe('parseSearchQuery', () => {
+  it('should split terms, phrases and exclusions', () => {
+    const query = parseSearchQuery('angular "core web vitals" -jquery');
+
+    expect(query.terms).toEqual(['angular']);
+    expect(query.phrases).toEqual(['core web vitals']);
+    expect(query.exclude).toEqual(['jquery']);
+  });
+
+  it('should read operators in Spanish and English', () => {
+    const query = parseSearchQuery(
+      'tag:angular etiqueta:rxjs autor:maria author:juan cat:web'
+    );
+
+    expect(query.tags).toEqual(['angular', 'rxjs']);
+    expect(query.authors).toEqual(['maria', 'juan']);
+    expect(query.categories).toEqual(['web']);
+  });
+
+  it('should keep every value of a repeated operator', () => {
+    expect(parseSearchQuery('autor:maria autor:juan').authors).toEqual([
+      'maria',
+      'juan',
+    ]);
+  });
+
+  it('should accept quoted operator values', () => {
+    expect(parseSearchQuery('categoria:"Desarrollo Web"').categories).toEqual([
+      'Desarrollo Web',
+    ]);
+  });
+
+  it('should treat unknown operators as free text', () => {
+    const query = parseSearchQuery('foo:bar -baz:qux');
+
+    expect(query.terms).toEqual(['foo:bar']);
+    expect(query.exclude).toEqual(['baz:qux']);
+  });
+
+  it('should exclude the values of negated operators', () => {
+    const query = parseSearchQuery(
+      '-tag:jquery angular -autor:juan -categoria:"Diseño" -desde:2024'
+    );
+
+    expect(query.tags).toEqual([]);
+    expect(query.excludeTags).toEqual(['jquery']);
+    expect(query.excludeAuthors).toEqual(['juan']);
+    expect(query.excludeCategories).toEqual(['Diseño']);
+    expect(query.terms).toEqual(['angular']);
+    expect(query.from).toBeUndefined();
+  });
+
+  it('should only accept real calendar dates', () => {
+    expect(parseSearchQuery('desde:2024-01').from).toBe('2024-01');
+    expect(parseSearchQuery('hasta:2024-02-29').to).toBe('2024-02-29');
+    expect(parseSearchQuery('desde:2024-13').from).toBeUndefined();
+    expect(parseSearchQuery('hasta:2023-02-29').to).toBeUndefined();
+    expect(parseSearchQuery('desde:ayer').from).toBeUndefined();
+  });
+});
+
+describe('formatSearchQuery', () => {
+  it('should write back a query that parses to the same result', () => {
+    const query = parseSearchQuery(
+      'angular "core web vitals" -jquery tag:rxjs autor:"María García" desde:2024'
+    );
+    const text = formatSearchQuery(query);
+
+    expect(text).toBe(
+      'angular "core web vitals" -jquery tag:rxjs autor:"María García" desde:2024'
+    );
+    expect(parseSearchQuery(text)).toEqual(query);
+  });
+});
+
+describe('parseSearchParams', () => {
+  it('should merge URL lists with the operators of q', () => {
+    const query = parseSearchParams({
+      q: 'angular tag:rxjs',
+      tags: 'signals,ssr',
+      categories: 'frontend',
+      autor: 'maria-garcia',
+      desde: '2024-01',
+    });
+
+    expect(query.terms).toEqual(['angular']);
+    expect(query.tags).toEqual(['rxjs', 'signals', 'ssr']);
+    expect(query.categories).toEqual(['frontend']);
+    expect(query.authors).toEqual(['maria-garcia']);
+    expect(query.from).toBe('2024-01');
+  });
+
+  it('should ignore invalid dates and non-string params', () => {
+    const query = parseSearchParams({ q: ['a'], desde: '2024-00' });
+
+    expect(query.terms).toEqual([]);
+    expect(query.from).toBeUndefined();
+  });
+
+  it('should round-trip through toSearchParams', () => {
+    const query = parseSearchQuery('angular -jquery tag:rxjs hasta:2024-06');
+    const params = toSearchParams(query);
+
+    expect(params).toEqual({
+      q: 'angular -jquery',
+      categories: null,
+      tags: 'rxjs',
+      autor: null,
+      desde: null,
+      hasta: '2024-06',
+    });
+    expect(formatSearchQuery(parseSearchParams(params))).toBe(
+      formatSearchQuery(query)
+    );
+  });
+  it('should keep negated operators in q', () => {
+    const query = parseSearchQuery('angular -tag:jquery');
+
+    expect(toSearchParams(query)['q']).toBe('angular -tag:jquery');
+    expect(parseSearchParams(toSearchParams(query)).excludeTags).toEqual([
+      'jquery',
+    ]);
+  });
+});
+
+describe('toBlogFilters', () => {
+  const context = { categories, authors };
+
+  it('should resolve a category to its ID and its subcategories', () => {
+    const filters = toBlogFilters(
+      parseSearchQuery('categoria:desarrollo-web'),
+      context
+    );
+
+    expect(filters.categoryIds).toEqual(['c1', 'c2']);
+  });
+
+  it('should match names without accents', () => {
+    expect(
+      toBlogFilters(parseSearchQuery('categoria:diseno'), context).categoryIds
+    ).toEqual(['c3']);
+    expect(
+      toBlogFilters(parseSearchQuery('autor:"maria garcia"'), context).authorIds
+    ).toEqual(['a1']);
+  });
+
+  it('should resolve every author', () => {
+    const filters = toBlogFilters(
+      parseSearchQuery('autor:maria-garcia autor:juan'),
+      context
+    );
+
+    expect(filters.authorIds).toEqual(['a1', 'a2']);
+  });
+
+  it('should keep unresolved values so the filter finds nothing', () => {
+    const filters = toBlogFilters(
+      parseSearchQuery('categoria:cocina autor:nadie'),
+      context
+    );
+
+    expect(filters.categoryIds).toEqual(['cocina']);
+    expect(filters.authorIds).toEqual(['nadie']);
+  });
+
+  it('should resolve negated operators to exclusion filters', () => {
+    const filters = toBlogFilters(
+      parseSearchQuery(
+        '-tag:jquery -categoria:desarrollo-web -autor:juan angular'
+      ),
+      context
+    );
+
+    expect(filters.tags).toBeUndefined();
+    expect(filters.excludeTags).toEqual(['jquery']);
+    expect(filters.excludeCategoryIds).toEqual(['c1', 'c2']);
+    expect(filters.excludeAuthorIds).toEqual(['a2']);
+  });
+
+  it('should map text and dates', () => {
+    const filters = toBlogFilters(
+      parseSearchQuery('angular signals "zone less" -jquery desde:2024-03'),
+      context
+    );
+
+    expect(filters.search).toBe('angular signals');
+    expect(filters.phrases).toEqual(['zone less']);
+    expect(filters.excludeTerms).toEqual(['jquery']);
+    expect(filters.dateFrom).toEqual(new Date(2024, 2, 1));
+    expect(filters.dateTo).toBeUndefined();
+  });
+});
+
+describe('parseQueryDate', () => {
+  it('should return the first moment of the period as start', () => {
+    expect(parseQueryDate('2024', 'start')).toEqual(new Date(2024, 0, 1));
+    expect(parseQueryDate('2024-03', 'start')).toEqual(new Date(2024, 2, 1));
+    expect(parseQueryDate('2024-03-15', 'start')).toEqual(
+      new Date(2024, 2, 15)
+    );
+  });
+
+  it('should return the last moment of the period as end', () => {
+    expect(parseQueryDate('2024', 'end')).toEqual(
+      new Date(2024, 11, 31, 23, 59, 59, 999)
+    );
+    expect(parseQueryDate('2024-02', 'end')).toEqual(
+      new Date(2024, 1, 29, 23, 59, 59, 999)
+    );
+    expect(parseQueryDate('2024-03-15', 'end')).toEqual(
+      new Date(2024, 2, 15, 23, 59, 59, 999)
+    );
+  });
+
+  it('should reject dates that do not exist', () => {
+    expect(parseQueryDate('2024-13', 'start')).toBeUndefined();
+    expect(parseQueryDate('2024-04-31', 'end')).toBeUndefined();
+  });
+});
@@ -0,0 +1,391 @@
+import type { BlogAuthor } from '../models/author.interface';
+import type { BlogFilters } from '../models/blog.interface';
+import type { BlogCategory } from '../models/categoria.interface';
+import { normalizeText } from './text-analysis';
+
+/**
+ * Consulta avanzada ya interpretada
+ * `tag:angular autor:maria categoria:web "core web vitals" -jquery desde:2024-01`
+ * Un operador con - delante excluye en vez de filtrar: `-tag:jquery`
+ */
+export interface ParsedSearchQuery {
+  /** Palabras libres */
+  terms: string[];
+  /** Frases exactas ("entre comillas") */
+  phrases: string[];
+  /** Palabras excluidas (-palabra) */
+  exclude: string[];
+  tags: string[];
+  /** Autores por nombre o slug, tal como se escribieron */
+  authors: string[];
+  /** Categorías por nombre o slug, tal como se escribieron */
+  categories: string[];
+  /** Valores de los operadores negados (-tag:, -autor:, -categoria:) */
+  excludeTags: string[];
+  excludeAuthors: string[];
+  excludeCategories: string[];
+  /** Valor original de desde:/hasta: (YYYY, YYYY-MM o YYYY-MM-DD) */
+  from?: string;
+  to?: string;
+}
+
+/**
+ * Datos para resolver nombres y slugs a IDs
+ */
+export interface SearchQueryContext {
+  categories: BlogCategory[];
+  authors: BlogAuthor[];
+}
+
+/** Operadores admitidos (en español y en inglés) */
+const OPERATOR_ALIASES: Record<string, keyof ParsedSearchQuery> = {
+  tag: 'tags',
+  etiqueta: 'tags',
+  autor: 'authors',
+  author: 'authors',
+  categoria: 'categories',
+  category: 'categories',
+  cat: 'categories',
+  desde: 'from',
+  from: 'from',
+  hasta: 'to',
+  to: 'to',
+};
+
+/** Campo de cada operador cuando va negado */
+const NEGATED_FIELDS: Partial<
+  Record<keyof ParsedSearchQuery, keyof ParsedSearchQuery>
+> = {
+  tags: 'excludeTags',
+  authors: 'excludeAuthors',
+  categories: 'excludeCategories',
+};
+
+/** Nombre canónico de cada operador al volver a escribir la consulta */
+const OPERATOR_NAMES = {
+  tags: 'tag',
+  authors: 'autor',
+  categories: 'categoria',
+  from: 'desde',
+  to: 'hasta',
+};
+
+const TOKEN_PATTERN = /(-?)(?:([\p{L}]+):)?(?:"([^"]*)"?|(\S+))/gu;
+
+const DATE_PATTERN = /^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?$/;
+
+/**
+ * Crear una consulta vacía
+ */
+export function emptySearchQuery(): ParsedSearchQuery {
+  return {
+    terms: [],
+    phrases: [],
+    exclude: [],
+    tags: [],
+    authors: [],
+    categories: [],
+    excludeTags: [],
+    excludeAuthors: [],
+    excludeCategories: [],
+  };
+}
+
+/**
+ * Interpretar el texto de la caja de búsqueda
+ * Los operadores desconocidos se tratan como texto libre
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery {
+  const parsed = emptySearchQuery();
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [raw, negation, operator, quoted, bare] = match;
+    const value = (quoted ?? bare ?? '').trim();
+    const field = operator
+      ? OPERATOR_ALIASES[normalizeText(operator)]
+      : undefined;
+
+    if (!value) continue;
+
+    if (operator && !field) {
+      // "foo:bar" sin operador conocido: texto libre (o excluido con -)
+      const text = raw.slice(negation.length);
+      (negation ? parsed.exclude : parsed.terms).push(text);
+    } else if (field === 'from' || field === 'to') {
+      // Una fecha negada no tiene sentido: se ignora
+      if (!negation && isQueryDate(value)) parsed[field] = value;
+    } else if (field && negation) {
+      (parsed[NEGATED_FIELDS[field]!] as string[]).push(value);
+    } else if (field) {
+      (parsed[field] as string[]).push(value);
+    } else if (negation) {
+      parsed.exclude.push(value);
+    } else if (quoted !== undefined) {
+      parsed.phrases.push(value);
+    } else {
+      parsed.terms.push(value);
+    }
+  }
+
+  return parsed;
+}
+
+/**
+ * Volver a escribir una consulta en la sintaxis de la caja de búsqueda
+ */
+export function formatSearchQuery(query: ParsedSearchQuery): string {
+  const parts: string[] = [...query.terms];
+
+  query.phrases.forEach((phrase) => parts.push(`"${phrase}"`));
+  query.exclude.forEach((word) => parts.push(`-${word}`));
+  query.tags.forEach((tag) =>
+    parts.push(`${OPERATOR_NAMES.tags}:${quoteValue(tag)}`)
+  );
+  query.authors.forEach((author) =>
+    parts.push(`${OPERATOR_NAMES.authors}:${quoteValue(author)}`)
+  );
+  query.categories.forEach((category) =>
+    parts.push(`${OPERATOR_NAMES.categories}:${quoteValue(category)}`)
+  );
+  query.excludeTags.forEach((tag) =>
+    parts.push(`-${OPERATOR_NAMES.tags}:${quoteValue(tag)}`)
+  );
+  query.excludeAuthors.forEach((author) =>
+    parts.push(`-${OPERATOR_NAMES.authors}:${quoteValue(author)}`)
+  );
+  query.excludeCategories.forEach((category) =>
+    parts.push(`-${OPERATOR_NAMES.categories}:${quoteValue(category)}`)
+  );
+  if (query.from) parts.push(`${OPERATOR_NAMES.from}:${query.from}`);
+  if (query.to) parts.push(`${OPERATOR_NAMES.to}:${query.to}`);
+
+  return parts.join(' ');
+}
+
+/**
+ * Texto libre de la consulta: palabras, frases y exclusiones, incluidos los
+ * operadores negados (no tienen parámetro de URL propio)
+ */
+export function getFreeText(query: ParsedSearchQuery): string {
+  return formatSearchQuery({
+    ...emptySearchQuery(),
+    terms: query.terms,
+    phrases: query.phrases,
+    exclude: query.exclude,
+    excludeTags: query.excludeTags,
+    excludeAuthors: query.excludeAuthors,
+    excludeCategories: query.excludeCategories,
+  });
+}
+
+/**
+ * Leer una consulta de los parámetros de URL
+ * `q` lleva el texto libre; categories, tags y autor van separados por comas
+ */
+export function parseSearchParams(
+  params: Record<string, unknown>
+): ParsedSearchQuery {
+  const text = (key: string) =>
+    typeof params[key] === 'string' ? (params[key] as string) : '';
+  const list = (key: string) => text(key).split(',').filter(Boolean);
+  const parsed = parseSearchQuery(text('q'));
+
+  return {
+    ...parsed,
+    categories: [...parsed.categories, ...list('categories')],
+    tags: [...parsed.tags, ...list('tags')],
+    authors: [...parsed.authors, ...list('autor')],
+    from: isQueryDate(text('desde')) ? text('desde') : parsed.from,
+    to: isQueryDate(text('hasta')) ? text('hasta') : parsed.to,
+  };
+}
+
+/**
+ * Escribir una consulta como parámetros de URL (inverso de parseSearchParams)
+ * Los parámetros vacíos valen null para poder quitarlos al combinar
+ */
+export function toSearchParams(
+  query: ParsedSearchQuery
+): Record<string, string | null> {
+  const join = (values: string[]) => (values.length ? values.join(',') : null);
+
+  return {
+    q: getFreeText(query) || null,
+    categories: join(query.categories),
+    tags: join(query.tags),
+    autor: join(query.authors),
+    desde: query.from || null,
+    hasta: query.to || null,
+  };
+}
+
+/**
+ * Convertir la consulta en BlogFilters resolviendo categorías y autores
+ * Una categoría incluye sus subcategorías; un valor sin coincidencias
+ * se conserva tal cual para que el filtro no devuelva resultados
+ */
+export function toBlogFilters(
+  query: ParsedSearchQuery,
+  context: SearchQueryContext
+): BlogFilters {
+  const filters: BlogFilters = {};
+
+  const search = query.terms.join(' ');
+  if (search) filters.search = search;
+  if (query.phrases.length) filters.phrases = [...query.phrases];
+  if (query.exclude.length) filters.excludeTerms = [...query.exclude];
+  if (query.tags.length) filters.tags = [...query.tags];
+
+  if (query.excludeTags.length) filters.excludeTags = [...query.excludeTags];
+
+  const categoryIds = (values: string[]) =>
+    values.flatMap((value) => {
+      const ids = resolveCategoryIds(value, context.categories);
+      return ids.length ? ids : [value];
+    });
+  const authorIds = (values: string[]) =>
+    values.map((value) => resolveAuthor(value, context.authors)?.id || value);
+
+  if (query.categories.length) {
+    filters.categoryIds = categoryIds(query.categories);
+  }
+  if (query.excludeCategories.length) {
+    filters.excludeCategoryIds = categoryIds(query.excludeCategories);
+  }
+
+  if (query.authors.length) filters.authorIds = authorIds(query.authors);
+  if (query.excludeAuthors.length) {
+    filters.excludeAuthorIds = authorIds(query.excludeAuthors);
+  }
+
+  if (query.from) filters.dateFrom = parseQueryDate(query.from, 'start');
+  if (query.to) filters.dateTo = parseQueryDate(query.to, 'end');
+
+  return filters;
+}
+
+/**
+ * Categoría cuyo slug o nombre coincide con el valor
+ */
+export function resolveCategory(
+  value: string,
+  categories: BlogCategory[]
+): BlogCategory | undefined {
+  return findByName(value, categories, (category) => [
+    category.slug,
+    category.name,
+  ])[0];
+}
+
+/**
+ * IDs de las categorías cuyo slug o nombre coincide con el valor (y sus hijas)
+ */
+export function resolveCategoryIds(
+  value: string,
+  categories: BlogCategory[]
+): string[] {
+  const matches = findByName(value, categories, (category) => [
+    category.slug,
+    category.name,
+  ]);
+  const ids = new Set(matches.map((category) => category.id));
+
+  categories
+    .filter((category) => category.parentId && ids.has(category.parentId))
+    .forEach((category) => ids.add(category.id));
+
+  return Array.from(ids);
+}
+
+/**
+ * Autor cuyo slug o nombre coincide con el valor
+ */
+export function resolveAuthor(
+  value: string,
+  authors: BlogAuthor[]
+): BlogAuthor | undefined {
+  return findByName(value, authors, (author) => [author.slug, author.name])[0];
+}
+
+/**
+ * Fecha de un operador desde:/hasta:
+ * "2024-01" → 1 de enero (inicio) o 31 de enero a las 23:59:59 (fin)
+ */
+export function parseQueryDate(
+  value: string,
+  edge: 'start' | 'end'
+): Date | undefined {
+  const match = DATE_PATTERN.exec(value);
+  if (!match || !isQueryDate(value)) return undefined;
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : undefined;
+  const day = match[3] ? Number(match[3]) : undefined;
+
+  if (edge === 'start') {
+    return new Date(year, month ?? 0, day ?? 1);
+  }
+
+  if (day !== undefined) {
+    return new Date(year, month!, day, 23, 59, 59, 999);
+  }
+  // Último milisegundo del mes o del año
+  return new Date(year, month !== undefined ? month + 1 : 12, 1, 0, 0, 0, -1);
+}
+
+/**
+ * Escribir una fecha como valor de desde:/hasta: (YYYY-MM-DD)
+ */
+export function formatQueryDate(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}
+
+/**
+ * Comprobar que un valor de desde:/hasta: es una fecha real
+ * (mes de 1 a 12 y día dentro del mes)
+ */
+function isQueryDate(value: string): boolean {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return false;
+
+  const year = Number(match[1]);
+  const month = Number(match[2] ?? 1) - 1;
+  const day = Number(match[3] ?? 1);
+  const date = new Date(year, month, day);
+
+  return (
+    date.getFullYear() === year &&
+    date.getMonth() === month &&
+    date.getDate() === day
+  );
+}
+
+/**
+ * Buscar elementos por coincidencia exacta y, si no hay, parcial (sin acentos)
+ */
+function findByName<T>(
+  value: string,
+  items: T[],
+  getNames: (item: T) => string[]
+): T[] {
+  const needle = normalizeText(value).replace(/\s+/g, '-');
+  const names = (item: T) =>
+    getNames(item).map((name) => normalizeText(name).replace(/\s+/g, '-'));
+
+  const exact = items.filter((item) => names(item).includes(needle));
+  if (exact.length) return exact;
+
+  return items.filter((item) =>
+    names(item).some((name) => name.includes(needle))
+  );
+}
+
+/**
+ * Entrecomillar valores con espacios
+ */
+function quoteValue(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
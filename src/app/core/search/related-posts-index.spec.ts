@@ -0,0 +1,109 @@
+import type { BlogPost, BlogSeries } from '../models/blog.interface';
+import { RelatedPostsIndex } from './related-posts-index';
+
+const NOW = new Date('2024-06-01T00:00:00Z');
+
+function post(id: string, fields: Partial<BlogPost> = {}): BlogPost {
+  return {
+    id,
+    title: '',
+    excerpt: '',
+    content: '',
+    tags: [],
+    categoryIds: [],
+    views: 0,
+    publishedAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    ...fields,
+  } as BlogPost;
+}
+
+function related(index: RelatedPostsIndex, id: string, limit = 10): string[] {
+  return index.getRelated(id, limit).map((item) => item.id);
+}
+
+const angular = post('angular', {
+  title: 'Signals en Angular',
+  tags: ['angular', 'signals'],
+  categoryIds: ['web'],
+});
+const angularForms = post('angular-forms', {
+  title: 'Formularios reactivos en Angular',
+  tags: ['angular', 'forms'],
+  categoryIds: ['web'],
+});
+const css = post('css', {
+  title: 'Grid de CSS',
+  tags: ['css'],
+  categoryIds: ['design'],
+});
+const python = post('python', {
+  title: 'Scripts con Python',
+  tags: ['python'],
+  categoryIds: ['backend'],
+});
+
+describe('RelatedPostsIndex', () => {
+  it('should rank posts with shared content first', () => {
+    const index = new RelatedPostsIndex();
+    index.sync([angular, angularForms, css, python], [], NOW);
+
+    expect(index.size).toBe(4);
+    expect(related(index, 'angular')[0]).toBe('angular-forms');
+    expect(related(index, 'angular', 2)).toHaveSize(2);
+  });
+
+  it('should fill the gaps with recent and popular posts', () => {
+    const index = new RelatedPostsIndex();
+    index.sync(
+      [
+        angular,
+        { ...css, views: 500 },
+        { ...python, publishedAt: new Date('2020-01-01T00:00:00Z') },
+      ],
+      [],
+      NOW
+    );
+
+    expect(related(index, 'angular')).toEqual(['css', 'python']);
+  });
+
+  it('should skip other parts of the same series', () => {
+    const series = [{ id: 's1', postIds: ['angular', 'angular-forms'] }];
+    const index = new RelatedPostsIndex();
+    index.sync([angular, angularForms, css], series as BlogSeries[], NOW);
+
+    expect(related(index, 'angular')).toEqual(['css']);
+  });
+
+  it('should only relate posts written in the same language', () => {
+    const index = new RelatedPostsIndex();
+    index.sync([angular, { ...angularForms, locale: 'en' }, css], [], NOW);
+
+    expect(related(index, 'angular')).toEqual(['css']);
+    expect(related(index, 'angular-forms')).toEqual([]);
+  });
+
+  it('should reindex when a post is updated', () => {
+    const index = new RelatedPostsIndex();
+    index.sync([angular, css, python], [], NOW);
+    expect(related(index, 'css')[0]).not.toBe('python');
+
+    const updated = {
+      ...python,
+      title: 'Grid de CSS desde Python',
+      tags: ['css', 'python'],
+      updatedAt: NOW,
+    };
+    index.sync([angular, css, updated], [], NOW);
+
+    expect(related(index, 'css')[0]).toBe('python');
+  });
+
+  it('should return nothing for unknown posts', () => {
+    const index = new RelatedPostsIndex();
+    index.sync([angular, css], [], NOW);
+
+    expect(related(index, 'missing')).toEqual([]);
+  });
+});
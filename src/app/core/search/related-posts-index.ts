@@ -0,0 +1,268 @@
+import type { BlogPost, BlogSeries } from '../models/blog.interface';
+import { contentLocale } from '../i18n/locales';
+import { analyzeText, normalizeText, stripHtml } from './text-analysis';
+
+/**
+ * Campos que forman el vector de contenido de un post
+ */
+type RelatedField = 'title' | 'excerpt' | 'content' | 'tags' | 'categories';
+
+/** Vector TF-IDF disperso (término → peso), normalizado a longitud 1 */
+type TermVector = Map<string, number>;
+
+/**
+ * Vecino precalculado de un post
+ */
+interface RelatedNeighbour {
+  postId: string;
+  /** Similitud coseno ponderada por recencia y popularidad */
+  score: number;
+}
+
+/**
+ * Peso de cada campo en el vector: los tags y el título describen mejor
+ * el tema que el cuerpo, que es largo y más ruidoso
+ */
+export const RELATED_FIELD_WEIGHTS: Record<RelatedField, number> = {
+  tags: 3,
+  title: 2.5,
+  categories: 2,
+  excerpt: 1.5,
+  content: 1,
+};
+
+/** Vecinos que se guardan por post */
+const MAX_NEIGHBOURS = 12;
+
+/** Impulso máximo para un post recién publicado (+25%) */
+const RECENCY_BOOST = 0.25;
+
+/** Días en los que el impulso por recencia se reduce a la mitad */
+const RECENCY_HALF_LIFE_DAYS = 365;
+
+/** Impulso máximo para el post más visto (+25%) */
+const POPULARITY_BOOST = 0.25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Motor de posts relacionados por similitud de contenido
+ * Representa cada post como un vector TF-IDF de título, extracto, cuerpo,
+ * tags y categorías, y precalcula sus vecinos más cercanos ponderando la
+ * similitud por recencia y popularidad. Las otras partes de la misma serie
+ * se excluyen: ya aparecen en el navegador de la serie.
+ */
+export class RelatedPostsIndex {
+  private posts = new Map<string, BlogPost>();
+  private neighbours = new Map<string, RelatedNeighbour[]>();
+  private signature = '';
+
+  /**
+   * Número de posts indexados
+   */
+  get size(): number {
+    return this.posts.size;
+  }
+
+  /**
+   * Sincronizar con el listado completo de posts visibles
+   * Solo recalcula los vecinos si cambian los posts, las series o el día
+   */
+  sync(posts: BlogPost[], series: BlogSeries[], now: Date): void {
+    const signature = this._buildSignature(posts, series, now);
+    if (signature === this.signature) return;
+
+    this.signature = signature;
+    this.posts = new Map(posts.map((post) => [post.id, post]));
+    this.neighbours = this._computeNeighbours(posts, series, now);
+  }
+
+  /**
+   * Posts más parecidos a uno dado, de mayor a menor puntuación
+   * Si no hay suficientes con contenido en común se completa con los
+   * más recientes y populares, para no dejar huecos en la página
+   */
+  getRelated(postId: string, limit: number): BlogPost[] {
+    return (this.neighbours.get(postId) || [])
+      .slice(0, limit)
+      .map((neighbour) => this.posts.get(neighbour.postId)!);
+  }
+
+  // ===================================
+  // MÉTODOS PRIVADOS
+  // ===================================
+
+  /**
+   * Firma del estado indexado, para detectar cuándo hay que recalcular
+   */
+  private _buildSignature(
+    posts: BlogPost[],
+    series: BlogSeries[],
+    now: Date
+  ): string {
+    return [
+      Math.floor(now.getTime() / DAY_MS),
+      ...posts.map(
+        (post) => `${post.id}:${new Date(post.updatedAt).getTime()}`
+      ),
+      ...series.map((item) => `${item.id}:${item.postIds.join(',')}`),
+    ].join('|');
+  }
+
+  /**
+   * Vecinos ordenados de cada post
+   */
+  private _computeNeighbours(
+    posts: BlogPost[],
+    series: BlogSeries[],
+    now: Date
+  ): Map<string, RelatedNeighbour[]> {
+    const vectors = this._buildVectors(posts);
+    const boosts = this._computeBoosts(posts, now);
+    const seriesByPost = new Map<string, string>();
+    series.forEach((item) =>
+      item.postIds.forEach((id) => seriesByPost.set(id, item.id))
+    );
+
+    const neighbours = new Map<string, RelatedNeighbour[]>();
+
+    posts.forEach((post) => {
+      const seriesId = seriesByPost.get(post.id);
+      const vector = vectors.get(post.id)!;
+
+      const candidates = posts
+        .filter(
+          (candidate) =>
+            candidate.id !== post.id &&
+            contentLocale(candidate) === contentLocale(post) &&
+            (!seriesId || seriesByPost.get(candidate.id) !== seriesId)
+        )
+        .map((candidate) => {
+          const similarity = this._cosine(vector, vectors.get(candidate.id)!);
+          return {
+            postId: candidate.id,
+            score: similarity * boosts.get(candidate.id)!,
+          };
+        })
+        .sort(
+          (a, b) =>
+            b.score - a.score || boosts.get(b.postId)! - boosts.get(a.postId)!
+        );
+
+      neighbours.set(post.id, candidates.slice(0, MAX_NEIGHBOURS));
+    });
+
+    return neighbours;
+  }
+
+  /**
+   * Vectores TF-IDF normalizados de todos los posts
+   */
+  private _buildVectors(posts: BlogPost[]): Map<string, TermVector> {
+    const frequencies = new Map<string, Map<string, number>>();
+    const documentFrequency = new Map<string, number>();
+
+    posts.forEach((post) => {
+      const weighted = this._weightedTerms(post);
+      frequencies.set(post.id, weighted);
+      weighted.forEach((_, term) =>
+        documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+      );
+    });
+
+    const vectors = new Map<string, TermVector>();
+
+    frequencies.forEach((weighted, postId) => {
+      const vector: TermVector = new Map();
+      let norm = 0;
+
+      weighted.forEach((tf, term) => {
+        const idf = Math.log(posts.length / documentFrequency.get(term)!);
+        const weight = tf * idf;
+        if (weight > 0) {
+          vector.set(term, weight);
+          norm += weight * weight;
+        }
+      });
+
+      norm = Math.sqrt(norm);
+      vector.forEach((weight, term) => vector.set(term, weight / norm));
+      vectors.set(postId, vector);
+    });
+
+    return vectors;
+  }
+
+  /**
+   * Frecuencia ponderada de cada término de un post
+   * (tf logarítmico por campo para que un cuerpo largo no domine)
+   * Tags y categorías se prefijan para no mezclarse con el texto libre
+   */
+  private _weightedTerms(post: BlogPost): Map<string, number> {
+    const fields: Record<RelatedField, string[]> = {
+      title: analyzeText(post.title),
+      excerpt: analyzeText(post.excerpt),
+      content: analyzeText(stripHtml(post.content || '')),
+      tags: post.tags.map((tag) => `#${normalizeText(tag)}`),
+      categories: post.categoryIds.map((id) => `@${id}`),
+    };
+
+    const weighted = new Map<string, number>();
+
+    (Object.keys(fields) as RelatedField[]).forEach((field) => {
+      const counts = new Map<string, number>();
+      fields[field].forEach((term) =>
+        counts.set(term, (counts.get(term) || 0) + 1)
+      );
+      counts.forEach((count, term) =>
+        weighted.set(
+          term,
+          (weighted.get(term) || 0) +
+            RELATED_FIELD_WEIGHTS[field] * (1 + Math.log(count))
+        )
+      );
+    });
+
+    return weighted;
+  }
+
+  /**
+   * Multiplicador de cada post: recencia (vida media de un año) y
+   * popularidad (vistas en escala logarítmica respecto al más visto)
+   */
+  private _computeBoosts(posts: BlogPost[], now: Date): Map<string, number> {
+    const maxViews = Math.max(0, ...posts.map((post) => post.views));
+
+    return new Map(
+      posts.map((post) => {
+        const publishedAt = new Date(
+          post.publishedAt || post.createdAt
+        ).getTime();
+        const ageDays = isNaN(publishedAt)
+          ? Infinity
+          : Math.max(0, (now.getTime() - publishedAt) / DAY_MS);
+        const recency =
+          RECENCY_BOOST * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+        const popularity =
+          maxViews > 0
+            ? (POPULARITY_BOOST * Math.log(1 + post.views)) /
+              Math.log(1 + maxViews)
+            : 0;
+
+        return [post.id, 1 + recency + popularity];
+      })
+    );
+  }
+
+  /**
+   * Producto escalar de dos vectores normalizados (similitud coseno)
+   */
+  private _cosine(a: TermVector, b: TermVector): number {
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    let dot = 0;
+    small.forEach((weight, term) => {
+      dot += weight * (large.get(term) || 0);
+    });
+    return dot;
+  }
+}
@@ -0,0 +1,187 @@
+import type { BlogPost } from '../models/blog.interface';
+import {
+  analyzeText,
+  matchesQueryTerm,
+  normalizeText,
+  stemSpanish,
+  stripHtml,
+} from './text-analysis';
+
+/**
+ * Rango [start, end) de una coincidencia dentro de un texto
+ */
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Texto de un campo con los rangos que coinciden con la búsqueda
+ * El texto es plano (sin HTML), el template decide cómo marcar los rangos
+ */
+export interface SearchHighlight {
+  field: 'title' | 'excerpt' | 'content';
+  text: string;
+  ranges: HighlightRange[];
+}
+
+/**
+ * Trozo de texto listo para renderizar, marcado o no
+ */
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Resaltados de un resultado de búsqueda
+ */
+export interface SearchResultHighlights {
+  title: SearchHighlight;
+  excerpt: SearchHighlight;
+  /** Fragmento del cuerpo alrededor de la mejor coincidencia */
+  snippet: SearchHighlight | null;
+}
+
+/** Caracteres de contexto a cada lado de la mejor coincidencia */
+const SNIPPET_RADIUS = 90;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Calcular los resaltados de un post para una consulta
+ */
+export function highlightPost(
+  post: BlogPost,
+  query: string
+): SearchResultHighlights {
+  const queryTerms = analyzeText(query);
+
+  return {
+    title: highlightField('title', post.title, queryTerms),
+    excerpt: highlightField('excerpt', post.excerpt, queryTerms),
+    snippet: buildSnippet(stripHtml(post.content || ''), queryTerms),
+  };
+}
+
+/**
+ * Resaltar las palabras de un texto que coinciden con los términos de consulta
+ */
+export function highlightField(
+  field: SearchHighlight['field'],
+  text: string,
+  queryTerms: string[]
+): SearchHighlight {
+  return { field, text, ranges: findMatchRanges(text, queryTerms) };
+}
+
+/**
+ * Buscar los rangos de palabras que coinciden con algún término de consulta
+ * Se aplica el mismo análisis que en el índice (sin acentos y con stemming)
+ */
+export function findMatchRanges(
+  text: string,
+  queryTerms: string[]
+): HighlightRange[] {
+  if (queryTerms.length === 0) return [];
+
+  const ranges: HighlightRange[] = [];
+
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const term = stemSpanish(normalizeText(match[0]));
+
+    if (queryTerms.some((queryTerm) => matchesQueryTerm(term, queryTerm))) {
+      ranges.push({
+        start: match.index!,
+        end: match.index! + match[0].length,
+      });
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Extraer un fragmento del cuerpo centrado en la zona con más coincidencias
+ */
+export function buildSnippet(
+  text: string,
+  queryTerms: string[],
+  radius: number = SNIPPET_RADIUS
+): SearchHighlight | null {
+  const ranges = findMatchRanges(text, queryTerms);
+  if (ranges.length === 0) return null;
+
+  // Mejor coincidencia: la que tiene más coincidencias en su ventana
+  let best = ranges[0];
+  let bestCount = 0;
+  ranges.forEach((range) => {
+    const count = ranges.filter(
+      (other) =>
+        other.start >= range.start && other.end <= range.start + radius * 2
+    ).length;
+    if (count > bestCount) {
+      best = range;
+      bestCount = count;
+    }
+  });
+
+  let start = Math.max(0, best.start - radius);
+  let end = Math.min(text.length, best.end + radius);
+
+  // Ajustar a límites de palabra
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < best.start) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > best.end) end = space;
+  }
+
+  const prefix = start > 0 ? '… ' : '';
+  const suffix = end < text.length ? ' …' : '';
+  const offset = prefix.length - start;
+
+  return {
+    field: 'content',
+    text: prefix + text.slice(start, end) + suffix,
+    ranges: ranges
+      .filter((range) => range.start >= start && range.end <= end)
+      .map((range) => ({
+        start: range.start + offset,
+        end: range.end + offset,
+      })),
+  };
+}
+
+/**
+ * Dividir un resaltado en segmentos para renderizarlos con interpolación
+ * (sin innerHTML)
+ */
+export function toHighlightSegments(
+  highlight: SearchHighlight
+): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+
+  highlight.ranges.forEach((range) => {
+    if (range.start > position) {
+      segments.push({
+        text: highlight.text.slice(position, range.start),
+        match: false,
+      });
+    }
+    segments.push({
+      text: highlight.text.slice(range.start, range.end),
+      match: true,
+    });
+    position = range.end;
+  });
+
+  if (position < highlight.text.length) {
+    segments.push({ text: highlight.text.slice(position), match: false });
+  }
+
+  return segments;
+}
@@ -0,0 +1,95 @@
+import {
+  analyzeText,
+  editDistance,
+  matchesQueryTerm,
+  maxTypos,
+  normalizeText,
+  stemSpanish,
+  stripHtml,
+  tokenize,
+} from './text-analysis';
+
+describe('text analysis', () => {
+  it('should lowercase and fold accents', () => {
+    expect(normalizeText('Diseño y Programación')).toBe(
+      'diseno y programacion'
+    );
+  });
+
+  it('should split text into alphanumeric tokens', () => {
+    expect(tokenize('¡Angular 18, ya está aquí!')).toEqual([
+      'angular',
+      '18',
+      'ya',
+      'esta',
+      'aqui',
+    ]);
+  });
+
+  it('should strip tags, scripts and entities', () => {
+    expect(
+      stripHtml('<p>A &amp; B</p><script>alert(1)</script><b>&lt;c&gt;</b>')
+    ).toBe('A & B <c>');
+  });
+
+  it('should drop content chrome with its nested elements', () => {
+    expect(
+      stripHtml(
+        '<p>Uno</p><span data-content-chrome><span>Copiar</span> x</span>' +
+          '<div data-content-chrome><div>a</div><div>b</div></div><p>dos</p>'
+      )
+    ).toBe('Uno dos');
+  });
+
+  describe('stemSpanish', () => {
+    it('should remove gender and number only', () => {
+      expect(stemSpanish('disenos')).toBe('disen');
+      expect(stemSpanish('categorias')).toBe('categori');
+      expect(stemSpanish('luces')).toBe('luz');
+      expect(stemSpanish('meses')).toBe('mes');
+    });
+
+    it('should leave short words and words with digits alone', () => {
+      expect(stemSpanish('casa')).toBe('casa');
+      expect(stemSpanish('es2022')).toBe('es2022');
+    });
+
+    it('should give singular and plural the same stem', () => {
+      expect(stemSpanish('componentes')).toBe(stemSpanish('componente'));
+      expect(stemSpanish('tablas')).toBe(stemSpanish('tabla'));
+    });
+  });
+
+  it('should drop stopwords before stemming', () => {
+    expect(analyzeText('Los componentes de Angular')).toEqual([
+      'component',
+      'angular',
+    ]);
+  });
+
+  it('should match query terms of 3+ characters as prefixes', () => {
+    expect(matchesQueryTerm('angular', 'angul')).toBeTrue();
+    expect(matchesQueryTerm('angular', 'an')).toBeFalse();
+    expect(matchesQueryTerm('an', 'an')).toBeTrue();
+  });
+
+  describe('editDistance', () => {
+    it('should count insertions, deletions and substitutions', () => {
+      expect(editDistance('angular', 'angular', 2)).toBe(0);
+      expect(editDistance('angular', 'angulr', 2)).toBe(1);
+      expect(editDistance('angular', 'anguler', 2)).toBe(1);
+      expect(editDistance('typescript', 'tipescrit', 2)).toBe(2);
+    });
+
+    it('should stop at max + 1', () => {
+      expect(editDistance('angular', 'react', 2)).toBe(3);
+      expect(editDistance('a', 'abcdef', 1)).toBe(2);
+    });
+  });
+
+  it('should tolerate more typos in longer words', () => {
+    expect(maxTypos('css')).toBe(0);
+    expect(maxTypos('react')).toBe(1);
+    expect(maxTypos('angular')).toBe(2);
+  });
+});
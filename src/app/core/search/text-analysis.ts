@@ -0,0 +1,207 @@
+/**
+ * Análisis de texto para la búsqueda del blog
+ * Normalización de acentos, tokenización, stopwords y stemming ligero en español.
+ * Código puro (sin Angular) para poder usarlo tanto en el navegador como en server.ts
+ */
+
+/**
+ * Stopwords del español (artículos, preposiciones, pronombres y verbos auxiliares)
+ * Ya normalizadas sin acentos
+ */
+export const SPANISH_STOPWORDS: ReadonlySet<string> = new Set(
+  [
+    'a al algo algunas algunos ante antes aqui asi aun cada como con',
+    'contra cual cuales cuando de del desde donde dos durante e el ella',
+    'ellas ellos en entre era eran es esa esas ese eso esos esta estan',
+    'estas este esto estos fue fueron ha han hasta hay la las le les lo',
+    'los mas me mi mis muy ni no nos nuestra nuestro o otra otras otro',
+    'otros para pero poco por porque que quien se sea ser si sin sobre',
+    'son su sus tambien te tiene tienen todo todos tu tus u un una unas',
+    'uno unos y ya yo',
+  ]
+    .join(' ')
+    .split(' ')
+);
+
+/** Longitud mínima de un término de consulta para buscarlo también como prefijo */
+export const MIN_PREFIX_LENGTH = 3;
+
+/**
+ * Eliminar diacríticos ("diseño" → "diseno", "programación" → "programacion")
+ */
+export function foldDiacritics(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Normalizar texto para comparar: minúsculas y sin acentos
+ */
+export function normalizeText(text: string): string {
+  return foldDiacritics(text.toLowerCase());
+}
+
+/**
+ * Atributo de los elementos que genera el procesado del contenido y no
+ * forman parte del texto del post (botones de copiar, avisos de cookies...)
+ */
+export const CONTENT_CHROME_ATTRIBUTE = 'data-content-chrome';
+
+const CONTENT_CHROME = new RegExp(
+  `<([a-z][\\w-]*)\\b[^>]*\\s${CONTENT_CHROME_ATTRIBUTE}\\b[^>]*>`,
+  'gi'
+);
+
+/**
+ * Quitar etiquetas HTML y entidades básicas dejando solo texto
+ * Los elementos marcados con CONTENT_CHROME_ATTRIBUTE se quitan enteros
+ */
+export function stripHtml(html: string): string {
+  return removeContentChrome(html)
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, ' ')
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Elimina los elementos marcados como chrome junto con su contenido,
+ * contando los anidados del mismo tipo para encontrar su cierre
+ */
+function removeContentChrome(html: string): string {
+  let result = '';
+  let last = 0;
+
+  CONTENT_CHROME.lastIndex = 0;
+  for (
+    let match = CONTENT_CHROME.exec(html);
+    match;
+    match = CONTENT_CHROME.exec(html)
+  ) {
+    const end = closingTagEnd(html, match[1], CONTENT_CHROME.lastIndex);
+    result += `${html.slice(last, match.index)} `;
+    last = end;
+    CONTENT_CHROME.lastIndex = end;
+  }
+
+  return result + html.slice(last);
+}
+
+/**
+ * Posición tras el cierre del elemento abierto justo antes de `from`
+ */
+function closingTagEnd(html: string, tag: string, from: number): number {
+  const tags = new RegExp(`<(/?)${tag}\\b[^>]*>`, 'gi');
+  let depth = 1;
+
+  tags.lastIndex = from;
+  for (let match = tags.exec(html); match; match = tags.exec(html)) {
+    depth += match[1] ? -1 : 1;
+    if (depth === 0) return tags.lastIndex;
+  }
+
+  return html.length;
+}
+
+/**
+ * Dividir texto normalizado en palabras alfanuméricas
+ */
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0);
+}
+
+/**
+ * Stemming ligero para español (variante del algoritmo de Savoy)
+ * Solo elimina género y número, por lo que es predecible:
+ * "diseños" → "disen", "categorías" → "categori", "luces" → "luz"
+ */
+export function stemSpanish(word: string): string {
+  if (word.length < 5 || /\d/.test(word)) {
+    return word;
+  }
+
+  const last = word[word.length - 1];
+
+  if (last === 'o' || last === 'a' || last === 'e') {
+    return word.slice(0, -1);
+  }
+
+  if (last === 's') {
+    if (word.endsWith('eses')) {
+      return word.slice(0, -2);
+    }
+    if (word.endsWith('ces')) {
+      return word.slice(0, -3) + 'z';
+    }
+    if (/[oae]s$/.test(word)) {
+      return word.slice(0, -2);
+    }
+  }
+
+  return word;
+}
+
+/**
+ * Pipeline completo: tokenizar, descartar stopwords y aplicar stemming
+ */
+export function analyzeText(text: string): string[] {
+  return tokenize(text)
+    .filter((token) => !SPANISH_STOPWORDS.has(token))
+    .map(stemSpanish);
+}
+
+/**
+ * Comprobar si un término analizado satisface un término de consulta
+ * Los términos de 3+ caracteres también coinciden como prefijo ("angul" → "angular")
+ */
+export function matchesQueryTerm(term: string, queryTerm: string): boolean {
+  return (
+    term === queryTerm ||
+    (queryTerm.length >= MIN_PREFIX_LENGTH && term.startsWith(queryTerm))
+  );
+}
+
+/**
+ * Distancia de edición (Levenshtein) acotada
+ * Devuelve `max + 1` en cuanto se sabe que la distancia supera `max`
+ */
+export function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], max + 1);
+}
+
+/**
+ * Errores tipográficos tolerados según la longitud de la palabra
+ */
+export function maxTypos(word: string): number {
+  if (word.length < 4) return 0;
+  return word.length < 7 ? 1 : 2;
+}
@@ -0,0 +1,267 @@
+import { Injectable, signal, inject } from '@angular/core';
+import { Observable, of, map, tap, catchError, throwError } from 'rxjs';
+import type {
+  AuthorFilters,
+  AuthorSortBy,
+  AuthorSummary,
+  AuthorWidgetConfig,
+  AuthorsResponse,
+} from '../models/author.interface';
+import { BLOG_DATA_SOURCE } from '../data-sources/blog-data-source';
+import { ClockService } from './clock.service';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Servicio del directorio de autores
+ * Filtra, ordena y pagina los autores con el resumen de su actividad
+ * El acceso a datos se delega en la fuente configurada con BLOG_DATA_SOURCE
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class AuthorService {
+  private dataSource = inject(BLOG_DATA_SOURCE);
+  private clock = inject(ClockService);
+
+  // Estado de carga reactivo
+  private _loading = signal<boolean>(false);
+  private _error = signal<string | null>(null);
+
+  // Cache simple para el resumen de autores
+  private _authorsCache: AuthorSummary[] | null = null;
+  private _lastCacheTime: number = 0;
+  private readonly CACHE_DURATION = 10 * 60 * 1000; // 10 minutos
+
+  // Getters públicos
+  public readonly loading = this._loading.asReadonly();
+  public readonly error = this._error.asReadonly();
+
+  // Configuración por defecto del widget de autores
+  private readonly _defaultWidgetConfig: AuthorWidgetConfig = {
+    limit: 4,
+    showAvatars: true,
+    showBio: false,
+    showPostCounts: true,
+    showSocialLinks: false,
+    recentAuthorsOnly: false,
+    recentPeriodDays: 90,
+    sortBy: 'postsCount',
+    layout: 'list',
+  };
+
+  /**
+   * Obtener autores con filtros, ordenamiento y paginación
+   */
+  getAuthors(
+    page: number = 1,
+    pageSize: number = 12,
+    filters: AuthorFilters = {}
+  ): Observable<AuthorsResponse> {
+    this._setLoading(true);
+
+    return this._getCachedAuthors().pipe(
+      map((allAuthors) => {
+        const authors = this._applySorting(
+          this._applyFilters(allAuthors, filters),
+          filters.sortBy,
+          filters.sortDirection
+        );
+        const totalPages = Math.max(1, Math.ceil(authors.length / pageSize));
+
+        this._setLoading(false);
+
+        return {
+          data: this._applyPagination(authors, page, pageSize),
+          pagination: {
+            currentPage: page,
+            totalPages,
+            totalItems: authors.length,
+            itemsPerPage: pageSize,
+            hasNext: page < totalPages,
+            hasPrevious: page > 1,
+          },
+        };
+      }),
+      catchError((error) => {
+        this._setError('Error al cargar autores');
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * Autores para el widget "Nuestros autores"
+   * Solo autores activos con posts publicados (vacío si falla la carga)
+   */
+  getWidgetAuthors(
+    config: Partial<AuthorWidgetConfig> = {}
+  ): Observable<AuthorSummary[]> {
+    const widget = { ...this._defaultWidgetConfig, ...config };
+    const filters: AuthorFilters = {
+      activeOnly: true,
+      withPublishedPosts: true,
+      sortBy: widget.sortBy,
+      sortDirection: widget.sortBy === 'name' ? 'asc' : 'desc',
+    };
+
+    return this._getCachedAuthors().pipe(
+      map((allAuthors) => {
+        let authors = this._applyFilters(allAuthors, filters);
+
+        if (widget.recentAuthorsOnly) {
+          const since =
+            this.clock.now().getTime() - widget.recentPeriodDays * DAY_MS;
+          authors = authors.filter(
+            (author) =>
+              !!author.lastPostDate && author.lastPostDate.getTime() >= since
+          );
+        }
+
+        return this._applySorting(
+          authors,
+          filters.sortBy,
+          filters.sortDirection
+        ).slice(0, widget.limit);
+      }),
+      catchError(() => of([]))
+    );
+  }
+
+  /**
+   * Limpiar caché de autores
+   */
+  clearCache(): void {
+    this._authorsCache = null;
+    this._lastCacheTime = 0;
+  }
+
+  // MÉTODOS PRIVADOS
+
+  /**
+   * Obtener autores desde caché o desde la fuente de datos
+   */
+  private _getCachedAuthors(): Observable<AuthorSummary[]> {
+    const now = Date.now();
+
+    if (this._authorsCache && now - this._lastCacheTime < this.CACHE_DURATION) {
+      return of(this._authorsCache);
+    }
+
+    return this.dataSource.getAuthorSummaries().pipe(
+      tap((authors) => {
+        this._authorsCache = authors;
+        this._lastCacheTime = Date.now();
+      })
+    );
+  }
+
+  /**
+   * Aplicar filtros a los autores
+   */
+  private _applyFilters(
+    authors: AuthorSummary[],
+    filters: AuthorFilters
+  ): AuthorSummary[] {
+    let filtered = [...authors];
+
+    if (filters.search?.trim()) {
+      const searchTerm = filters.search.trim().toLowerCase();
+      filtered = filtered.filter(
+        (author) =>
+          author.name.toLowerCase().includes(searchTerm) ||
+          author.bio.toLowerCase().includes(searchTerm)
+      );
+    }
+
+    if (filters.activeOnly) {
+      filtered = filtered.filter((author) => author.isActive);
+    }
+
+    if (filters.withPublishedPosts) {
+      filtered = filtered.filter((author) => author.postsCount > 0);
+    }
+
+    if (filters.registeredFrom) {
+      const from = filters.registeredFrom.getTime();
+      filtered = filtered.filter(
+        (author) => new Date(author.joinedAt).getTime() >= from
+      );
+    }
+
+    if (filters.registeredTo) {
+      const to = filters.registeredTo.getTime();
+      filtered = filtered.filter(
+        (author) => new Date(author.joinedAt).getTime() <= to
+      );
+    }
+
+    return filtered;
+  }
+
+  /**
+   * Aplicar ordenamiento (empates por nombre)
+   */
+  private _applySorting(
+    authors: AuthorSummary[],
+    sortBy: AuthorSortBy = 'name',
+    direction: 'asc' | 'desc' = 'asc'
+  ): AuthorSummary[] {
+    const value = (author: AuthorSummary): number | string => {
+      switch (sortBy) {
+        case 'joinedAt':
+          return new Date(author.joinedAt).getTime();
+        case 'postsCount':
+          return author.postsCount;
+        case 'totalViews':
+          return author.totalViews;
+        case 'totalLikes':
+          return author.totalLikes;
+        case 'lastActivity':
+          return author.lastPostDate?.getTime() ?? 0;
+        default:
+          return author.name.toLowerCase();
+      }
+    };
+
+    const factor = direction === 'asc' ? 1 : -1;
+    return [...authors].sort((a, b) => {
+      const aValue = value(a);
+      const bValue = value(b);
+      if (aValue !== bValue) {
+        return (aValue > bValue ? 1 : -1) * factor;
+      }
+      return a.name.localeCompare(b.name, 'es');
+    });
+  }
+
+  /**
+   * Aplicar paginación
+   */
+  private _applyPagination(
+    authors: AuthorSummary[],
+    page: number,
+    pageSize: number
+  ): AuthorSummary[] {
+    const startIndex = (page - 1) * pageSize;
+    return authors.slice(startIndex, startIndex + pageSize);
+  }
+
+  /**
+   * Establecer estado de carga
+   */
+  private _setLoading(loading: boolean): void {
+    this._loading.set(loading);
+    if (loading) {
+      this._error.set(null);
+    }
+  }
+
+  /**
+   * Establecer error
+   */
+  private _setError(message: string): void {
+    this._error.set(message);
+    this._loading.set(false);
+  }
+}
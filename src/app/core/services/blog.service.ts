@@ -1,43 +1,48 @@
-import { Injectable, signal, computed } from '@angular/core';
+import { Injectable, signal, inject } from '@angular/core';
 import {
   Observable,
   BehaviorSubject,
   of,
-  delay,
   map,
+  tap,
   catchError,
   throwError,
 } from 'rxjs';
 import type {
+  BlogAdjacentPosts,
+  BlogAdjacentScope,
+  BlogArchiveMonth,
+  BlogAuthor,
   BlogPost,
   BlogPostsResponse,
+  BlogSeriesDetail,
+  BlogTag,
   BlogFilters,
-  BlogPagination,
-  BlogSortBy,
   BlogLoadingState,
 } from '../models/blog.interface';
+import type { AuthorProfile } from '../models/author.interface';
 import {
-  BLOG_POSTS_MOCK,
-  getPostById,
-  getPostBySlug,
-  getPublishedPosts,
-  getFeaturedPosts,
-  getPostsByCategory,
-  getPostsByAuthor,
-  searchPosts,
-  getRelatedPosts,
-  getPopularPosts,
-  getRecentPosts,
-} from '../data/blog-mock.data';
+  BLOG_DATA_SOURCE,
+  BlogLikeResult,
+  BlogStats,
+} from '../data-sources/blog-data-source';
+import { LocaleService } from './locale.service';
+import { I18nService } from './i18n.service';
+import type { MessageKey, MessageParams } from '../i18n/translate';
 
 /**
  * Servicio principal del blog
  * Maneja CRUD, búsqueda, filtrado, paginación y caché
+ * El acceso a datos se delega en la fuente configurada con BLOG_DATA_SOURCE
  */
 @Injectable({
   providedIn: 'root',
 })
 export class BlogService {
+  private dataSource = inject(BLOG_DATA_SOURCE);
+  private localeService = inject(LocaleService);
+  private i18n = inject(I18nService);
+
   // Estados reactivos con signals
   private _loadingState = signal<BlogLoadingState>({
     loading: false,
@@ -47,7 +52,8 @@ export class BlogService {
     loadingMore: false,
   });
 
-  private _postsCache = new Map<string, BlogPost[]>();
+  private _postsCache = new Map<string, BlogPostsResponse>();
+  private _prefetchedPosts = new Map<string, BlogPost>();
   private _lastFetchTime = new Map<string, number>();
   private readonly CACHE_DURATION = 5 * 60 * 1000; // 5 minutos
 
@@ -62,7 +68,6 @@ export class BlogService {
 
   // Configuración por defecto
   private readonly DEFAULT_PAGE_SIZE = 12;
-  private readonly SEARCH_DELAY = 300; // ms para debounce
 
   constructor() {}
 
@@ -76,53 +81,30 @@ export class BlogService {
   ): Observable<BlogPostsResponse> {
     this._setLoading(true);
 
+    filters = this._withLocale(filters);
     const cacheKey = this._generateCacheKey(page, pageSize, filters);
 
     // Verificar caché
     if (this._isCacheValid(cacheKey)) {
-      const cachedPosts = this._postsCache.get(cacheKey);
-      if (cachedPosts) {
+      const cachedResponse = this._postsCache.get(cacheKey);
+      if (cachedResponse) {
         this._setLoading(false);
-        return of(this._buildResponse(cachedPosts, page, pageSize, filters));
+        return of(cachedResponse);
       }
     }
 
-    return of(null).pipe(
-      delay(800), // Simular llamada API
-      map(() => {
-        let posts = getPublishedPosts();
-
-        // Aplicar filtros
-        posts = this._applyFilters(posts, filters);
-
-        // Aplicar ordenamiento
-        posts = this._applySorting(
-          posts,
-          filters.sortBy,
-          filters.sortDirection
-        );
-
+    return this.dataSource.getPosts(page, pageSize, filters).pipe(
+      tap((response) => {
         // Guardar en caché
-        this._postsCache.set(cacheKey, posts);
+        this._postsCache.set(cacheKey, response);
         this._lastFetchTime.set(cacheKey, Date.now());
 
-        // Aplicar paginación
-        const paginatedPosts = this._applyPagination(posts, page, pageSize);
-
         this._setLoading(false);
         this._currentFilters.next(filters);
         this._currentPage.next(page);
-
-        return this._buildResponse(
-          paginatedPosts,
-          page,
-          pageSize,
-          filters,
-          posts.length
-        );
       }),
       catchError((error) => {
-        this._setError('Error al cargar posts');
+        this._setError('error.loadPosts');
         return throwError(() => error);
       })
     );
@@ -134,15 +116,10 @@ export class BlogService {
   getPostById(id: string): Observable<BlogPost | null> {
     this._setLoading(true);
 
-    return of(null).pipe(
-      delay(400),
-      map(() => {
-        const post = getPostById(id);
-        this._setLoading(false);
-        return post || null;
-      }),
+    return this.dataSource.getPostById(id).pipe(
+      tap(() => this._setLoading(false)),
       catchError((error) => {
-        this._setError(`Error al cargar post con ID: ${id}`);
+        this._setError('error.loadPostById', { id });
         return throwError(() => error);
       })
     );
@@ -152,50 +129,62 @@ export class BlogService {
    * Obtener un post por slug
    */
   getPostBySlug(slug: string): Observable<BlogPost | null> {
+    // Un post precargado se entrega al instante (una sola vez)
+    const prefetched = this._takePrefetchedPost(slug);
+    if (prefetched) {
+      return of(prefetched);
+    }
+
     this._setLoading(true);
 
-    return of(null).pipe(
-      delay(400),
-      map(() => {
-        const post = getPostBySlug(slug);
-        this._setLoading(false);
-        return post || null;
-      }),
+    return this.dataSource.getPostBySlug(slug).pipe(
+      tap(() => this._setLoading(false)),
       catchError((error) => {
-        this._setError(`Error al cargar post: ${slug}`);
+        this._setError('error.loadPost', { slug });
         return throwError(() => error);
       })
     );
   }
 
+  /**
+   * Precargar un post para que la navegación hacia él sea instantánea
+   */
+  prefetchPost(slug: string): void {
+    const cacheKey = `post-${slug}`;
+    if (this._prefetchedPosts.has(slug) && this._isCacheValid(cacheKey)) {
+      return;
+    }
+
+    this.dataSource
+      .getPostBySlug(slug)
+      .pipe(catchError(() => of(null)))
+      .subscribe((post) => {
+        if (post) {
+          this._prefetchedPosts.set(slug, post);
+          this._lastFetchTime.set(cacheKey, Date.now());
+        }
+      });
+  }
+
   /**
    * Obtener posts destacados
    */
   getFeaturedPosts(limit: number = 5): Observable<BlogPost[]> {
-    return of(null).pipe(
-      delay(200),
-      map(() => getFeaturedPosts().slice(0, limit))
-    );
+    return this.dataSource.getFeaturedPosts(limit, this.localeService.locale());
   }
 
   /**
    * Obtener posts populares
    */
   getPopularPosts(limit: number = 5): Observable<BlogPost[]> {
-    return of(null).pipe(
-      delay(200),
-      map(() => getPopularPosts(limit))
-    );
+    return this.dataSource.getPopularPosts(limit, this.localeService.locale());
   }
 
   /**
    * Obtener posts recientes
    */
   getRecentPosts(limit: number = 5): Observable<BlogPost[]> {
-    return of(null).pipe(
-      delay(200),
-      map(() => getRecentPosts(limit))
-    );
+    return this.dataSource.getRecentPosts(limit, this.localeService.locale());
   }
 
   /**
@@ -205,140 +194,175 @@ export class BlogService {
     categoryId: string,
     limit?: number
   ): Observable<BlogPost[]> {
-    return of(null).pipe(
-      delay(300),
-      map(() => {
-        const posts = getPostsByCategory(categoryId);
-        return limit ? posts.slice(0, limit) : posts;
-      })
-    );
+    return this.dataSource
+      .getPostsByCategory(categoryId)
+      .pipe(map((posts) => (limit ? posts.slice(0, limit) : posts)));
   }
 
   /**
    * Obtener posts por autor
    */
   getPostsByAuthor(authorId: string, limit?: number): Observable<BlogPost[]> {
-    return of(null).pipe(
-      delay(300),
-      map(() => {
-        const posts = getPostsByAuthor(authorId);
-        return limit ? posts.slice(0, limit) : posts;
-      })
-    );
+    return this.dataSource
+      .getPostsByAuthor(authorId)
+      .pipe(map((posts) => (limit ? posts.slice(0, limit) : posts)));
   }
 
   /**
    * Buscar posts
+   * Un término vacío solo devuelve resultados si hay filtros que acoten la búsqueda
    */
   searchPosts(term: string, filters: BlogFilters = {}): Observable<BlogPost[]> {
-    if (!term.trim()) {
+    if (!term.trim() && !this._hasSearchCriteria(filters)) {
       return of([]);
     }
 
     this._setLoading(true);
 
-    return of(null).pipe(
-      delay(this.SEARCH_DELAY),
-      map(() => {
-        let posts = searchPosts(term);
-        posts = this._applyFilters(posts, filters);
-        posts = this._applySorting(
-          posts,
-          filters.sortBy,
-          filters.sortDirection
-        );
-
-        this._setLoading(false);
-        return posts;
-      }),
+    return this.dataSource.searchPosts(term, this._withLocale(filters)).pipe(
+      tap(() => this._setLoading(false)),
       catchError((error) => {
-        this._setError(`Error en búsqueda: ${term}`);
+        this._setError('error.search', { term });
         return throwError(() => error);
       })
     );
   }
 
+  /**
+   * Obtener la corrección sugerida para una búsqueda ("¿Quisiste decir…?")
+   */
+  getSearchSuggestion(term: string): Observable<string | null> {
+    if (!term.trim()) {
+      return of(null);
+    }
+
+    return this.dataSource
+      .suggestSearchQuery(term)
+      .pipe(catchError(() => of(null)));
+  }
+
   /**
    * Obtener posts relacionados
    */
   getRelatedPosts(postId: string, limit: number = 3): Observable<BlogPost[]> {
-    return of(null).pipe(
-      delay(200),
-      map(() => getRelatedPosts(postId, limit))
-    );
+    return this.dataSource.getRelatedPosts(postId, limit);
   }
 
   /**
-   * Incrementar vistas de un post
+   * Obtener el post anterior y el siguiente en orden cronológico
+   * Sin vecinos (o si falla la carga) ambos valen null
    */
-  incrementViews(postId: string): Observable<boolean> {
-    return of(null).pipe(
-      delay(100),
-      map(() => {
-        const post = getPostById(postId);
-        if (post) {
-          post.views += 1;
-          return true;
-        }
-        return false;
+  getAdjacentPosts(
+    postId: string,
+    scope: BlogAdjacentScope = 'all'
+  ): Observable<BlogAdjacentPosts> {
+    return this.dataSource
+      .getAdjacentPosts(postId, scope)
+      .pipe(catchError(() => of({ previous: null, next: null })));
+  }
+
+  /**
+   * Obtener los meses con posts publicados en el idioma actual
+   * (vacío si falla la carga)
+   */
+  getArchive(): Observable<BlogArchiveMonth[]> {
+    return this.dataSource
+      .getArchive(this.localeService.locale())
+      .pipe(catchError(() => of([])));
+  }
+
+  /**
+   * Obtener todas las series
+   */
+  getSeries(): Observable<BlogSeriesDetail[]> {
+    return this.dataSource.getSeries();
+  }
+
+  /**
+   * Obtener una serie por slug
+   */
+  getSeriesBySlug(slug: string): Observable<BlogSeriesDetail | null> {
+    this._setLoading(true);
+
+    return this.dataSource.getSeriesBySlug(slug).pipe(
+      tap(() => this._setLoading(false)),
+      catchError((error) => {
+        this._setError('error.loadSeries', { slug });
+        return throwError(() => error);
       })
     );
   }
 
   /**
-   * Toggle like en un post
+   * Obtener la serie a la que pertenece un post (null si no pertenece a ninguna)
    */
-  toggleLike(
-    postId: string
-  ): Observable<{ liked: boolean; totalLikes: number }> {
-    return of(null).pipe(
-      delay(200),
-      map(() => {
-        const post = getPostById(postId);
-        if (post) {
-          // Simular toggle like
-          const liked = Math.random() > 0.5;
-          post.likes += liked ? 1 : -1;
-
-          return {
-            liked,
-            totalLikes: post.likes,
-          };
-        }
+  getSeriesByPost(postId: string): Observable<BlogSeriesDetail | null> {
+    return this.dataSource
+      .getSeriesByPost(postId)
+      .pipe(catchError(() => of(null)));
+  }
+
+  /**
+   * Obtener todos los tags con posts publicados (vacío si falla la carga)
+   */
+  getTags(): Observable<BlogTag[]> {
+    return this.dataSource.getTags().pipe(catchError(() => of([])));
+  }
 
-        throw new Error('Post no encontrado');
+  /**
+   * Obtener un tag por slug
+   */
+  getTagBySlug(slug: string): Observable<BlogTag | null> {
+    this._setLoading(true);
+
+    return this.dataSource.getTagBySlug(slug).pipe(
+      tap(() => this._setLoading(false)),
+      catchError((error) => {
+        this._setError('error.loadTag', { slug });
+        return throwError(() => error);
       })
     );
   }
 
+  /**
+   * Incrementar vistas de un post
+   */
+  incrementViews(postId: string): Observable<boolean> {
+    return this.dataSource.incrementViews(postId);
+  }
+
+  /**
+   * Toggle like en un post
+   */
+  toggleLike(postId: string): Observable<BlogLikeResult> {
+    return this.dataSource.toggleLike(postId);
+  }
+
   /**
    * Obtener estadísticas del blog
    */
-  getBlogStats(): Observable<{
-    totalPosts: number;
-    totalViews: number;
-    totalLikes: number;
-    totalComments: number;
-    avgReadingTime: number;
-  }> {
-    return of(null).pipe(
-      delay(300),
-      map(() => {
-        const posts = getPublishedPosts();
-
-        return {
-          totalPosts: posts.length,
-          totalViews: posts.reduce((sum, post) => sum + post.views, 0),
-          totalLikes: posts.reduce((sum, post) => sum + post.likes, 0),
-          totalComments: posts.reduce(
-            (sum, post) => sum + post.commentsCount,
-            0
-          ),
-          avgReadingTime: Math.round(
-            posts.reduce((sum, post) => sum + post.readingTime, 0) /
-              posts.length
-          ),
-        };
+  getBlogStats(): Observable<BlogStats> {
+    return this.dataSource.getBlogStats();
+  }
+
+  /**
+   * Obtener todos los autores
+   */
+  getAuthors(): Observable<BlogAuthor[]> {
+    return this.dataSource.getAuthors();
+  }
+
+  /**
+   * Obtener el perfil público de un autor por slug
+   */
+  getAuthorProfile(slug: string): Observable<AuthorProfile | null> {
+    this._setLoading(true);
+
+    return this.dataSource.getAuthorProfile(slug).pipe(
+      tap(() => this._setLoading(false)),
+      catchError((error) => {
+        this._setError('error.loadAuthor', { slug });
+        return throwError(() => error);
       })
     );
   }
@@ -348,6 +372,7 @@ export class BlogService {
    */
   clearCache(): void {
     this._postsCache.clear();
+    this._prefetchedPosts.clear();
     this._lastFetchTime.clear();
   }
 
@@ -362,168 +387,36 @@ export class BlogService {
   // MÉTODOS PRIVADOS
 
   /**
-   * Aplicar filtros a los posts
+   * Filtros acotados al idioma activo, salvo que ya indiquen uno
    */
-  private _applyFilters(posts: BlogPost[], filters: BlogFilters): BlogPost[] {
-    let filteredPosts = [...posts];
-
-    // Filtro por búsqueda
-    if (filters.search) {
-      const searchTerm = filters.search.toLowerCase();
-      filteredPosts = filteredPosts.filter(
-        (post) =>
-          post.title.toLowerCase().includes(searchTerm) ||
-          post.excerpt.toLowerCase().includes(searchTerm) ||
-          post.tags.some((tag) => tag.toLowerCase().includes(searchTerm))
-      );
-    }
-
-    // Filtro por categorías
-    if (filters.categoryIds && filters.categoryIds.length > 0) {
-      filteredPosts = filteredPosts.filter((post) =>
-        filters.categoryIds!.some((catId) => post.categoryIds.includes(catId))
-      );
-    }
-
-    // Filtro por tags
-    if (filters.tags && filters.tags.length > 0) {
-      filteredPosts = filteredPosts.filter((post) =>
-        filters.tags!.some((tag) => post.tags.includes(tag))
-      );
-    }
-
-    // Filtro por autor
-    if (filters.authorId) {
-      filteredPosts = filteredPosts.filter(
-        (post) => post.authorId === filters.authorId
-      );
-    }
-
-    // Filtro por estado
-    if (filters.status) {
-      filteredPosts = filteredPosts.filter(
-        (post) => post.status === filters.status
-      );
-    }
-
-    // Filtro solo destacados
-    if (filters.featured) {
-      filteredPosts = filteredPosts.filter((post) => post.featured);
-    }
-
-    // Filtro por fechas
-    if (filters.dateFrom) {
-      filteredPosts = filteredPosts.filter(
-        (post) => new Date(post.publishedAt!) >= filters.dateFrom!
-      );
-    }
-
-    if (filters.dateTo) {
-      filteredPosts = filteredPosts.filter(
-        (post) => new Date(post.publishedAt!) <= filters.dateTo!
-      );
-    }
-
-    return filteredPosts;
-  }
-
-  /**
-   * Aplicar ordenamiento
-   */
-  private _applySorting(
-    posts: BlogPost[],
-    sortBy: BlogSortBy = 'publishedAt',
-    direction: 'asc' | 'desc' = 'desc'
-  ): BlogPost[] {
-    return [...posts].sort((a, b) => {
-      let aValue: any, bValue: any;
-
-      switch (sortBy) {
-        case 'publishedAt':
-          aValue = new Date(a.publishedAt!).getTime();
-          bValue = new Date(b.publishedAt!).getTime();
-          break;
-        case 'createdAt':
-          aValue = new Date(a.createdAt).getTime();
-          bValue = new Date(b.createdAt).getTime();
-          break;
-        case 'updatedAt':
-          aValue = new Date(a.updatedAt).getTime();
-          bValue = new Date(b.updatedAt).getTime();
-          break;
-        case 'title':
-          aValue = a.title.toLowerCase();
-          bValue = b.title.toLowerCase();
-          break;
-        case 'views':
-          aValue = a.views;
-          bValue = b.views;
-          break;
-        case 'likes':
-          aValue = a.likes;
-          bValue = b.likes;
-          break;
-        case 'commentsCount':
-          aValue = a.commentsCount;
-          bValue = b.commentsCount;
-          break;
-        case 'readingTime':
-          aValue = a.readingTime;
-          bValue = b.readingTime;
-          break;
-        default:
-          aValue = new Date(a.publishedAt!).getTime();
-          bValue = new Date(b.publishedAt!).getTime();
-      }
-
-      if (direction === 'asc') {
-        return aValue > bValue ? 1 : aValue < bValue ? -1 : 0;
-      } else {
-        return aValue < bValue ? 1 : aValue > bValue ? -1 : 0;
-      }
-    });
+  private _withLocale(filters: BlogFilters): BlogFilters {
+    return { locale: this.localeService.locale(), ...filters };
   }
 
   /**
-   * Aplicar paginación
+   * Comprobar si los filtros acotan una búsqueda sin término
    */
-  private _applyPagination(
-    posts: BlogPost[],
-    page: number,
-    pageSize: number
-  ): BlogPost[] {
-    const startIndex = (page - 1) * pageSize;
-    const endIndex = startIndex + pageSize;
-    return posts.slice(startIndex, endIndex);
+  private _hasSearchCriteria(filters: BlogFilters): boolean {
+    return !!(
+      filters.phrases?.length ||
+      filters.categoryIds?.length ||
+      filters.tags?.length ||
+      filters.authorId ||
+      filters.authorIds?.length ||
+      filters.dateFrom ||
+      filters.dateTo
+    );
   }
 
   /**
-   * Construir respuesta con paginación
+   * Consumir un post precargado si sigue siendo válido
    */
-  private _buildResponse(
-    posts: BlogPost[],
-    page: number,
-    pageSize: number,
-    filters: BlogFilters,
-    totalItems?: number
-  ): BlogPostsResponse {
-    const total = totalItems ?? posts.length;
-    const totalPages = Math.ceil(total / pageSize);
-
-    const pagination: BlogPagination = {
-      currentPage: page,
-      totalPages,
-      totalItems: total,
-      itemsPerPage: pageSize,
-      hasPrevious: page > 1,
-      hasNext: page < totalPages,
-    };
+  private _takePrefetchedPost(slug: string): BlogPost | null {
+    const post = this._prefetchedPosts.get(slug);
+    if (!post) return null;
 
-    return {
-      data: posts,
-      pagination,
-      filters,
-    };
+    this._prefetchedPosts.delete(slug);
+    return this._isCacheValid(`post-${slug}`) ? post : null;
   }
 
   /**
@@ -563,12 +456,12 @@ export class BlogService {
   /**
    * Establecer estado de error
    */
-  private _setError(message: string): void {
+  private _setError(key: MessageKey, params?: MessageParams): void {
     this._loadingState.update((state) => ({
       ...state,
       loading: false,
       error: true,
-      errorMessage: message,
+      errorMessage: this.i18n.t(key, params),
     }));
   }
 }
@@ -1,36 +1,43 @@
-import { Injectable, signal } from '@angular/core';
-import { Observable, of, delay, map, catchError, throwError } from 'rxjs';
+import { Injectable, signal, inject } from '@angular/core';
+import {
+  Observable,
+  of,
+  map,
+  tap,
+  switchMap,
+  catchError,
+  throwError,
+} from 'rxjs';
 import type {
   BlogCategory,
   CategoriesResponse,
   CategoryFilters,
+  CategoryPathMatch,
   CategorySortBy,
   CategoryStats,
   CategoryTree,
 } from '../models/categoria.interface';
+import { CATEGORY_DATA_SOURCE } from '../data-sources/category-data-source';
+import { BLOG_DATA_SOURCE } from '../data-sources/blog-data-source';
 import {
-  CATEGORIES_MOCK,
-  getCategoryById,
-  getCategoryBySlug,
-  getMainCategories,
-  getSubcategories,
-  getActiveCategories,
-  getRandomCategory,
-  getRandomCategories,
-  searchCategories,
-  getCategoriesByPopularity,
-  buildCategoryTree,
-} from '../data/categorias-mock.data';
-import { getPostsByCategory } from '../data/blog-mock.data';
+  categoryAncestry,
+  categoryDescendantIds,
+  categoryPathUrl,
+  categoryUrl,
+} from '../data-sources/category-paths';
 
 /**
  * Servicio de gestión de categorías
  * Maneja jerarquías, estadísticas y funcionalidades avanzadas
+ * El acceso a datos se delega en la fuente configurada con CATEGORY_DATA_SOURCE
  */
 @Injectable({
   providedIn: 'root',
 })
 export class CategoriaService {
+  private dataSource = inject(CATEGORY_DATA_SOURCE);
+  private blogDataSource = inject(BLOG_DATA_SOURCE);
+
   // Estado de carga reactivo
   private _loading = signal<boolean>(false);
   private _error = signal<string | null>(null);
@@ -56,13 +63,10 @@ export class CategoriaService {
   ): Observable<CategoriesResponse> {
     this._setLoading(true);
 
-    return of(null).pipe(
-      delay(400),
-      map(() => {
-        let categories = this._getCachedCategories();
-
+    return this._getCachedCategories().pipe(
+      map((allCategories) => {
         // Aplicar filtros
-        categories = this._applyFilters(categories, filters);
+        let categories = this._applyFilters(allCategories, filters);
 
         // Aplicar ordenamiento
         categories = this._applySorting(
@@ -105,13 +109,8 @@ export class CategoriaService {
   getCategoryById(id: string): Observable<BlogCategory | null> {
     this._setLoading(true);
 
-    return of(null).pipe(
-      delay(200),
-      map(() => {
-        const category = getCategoryById(id);
-        this._setLoading(false);
-        return category || null;
-      }),
+    return this.dataSource.getCategoryById(id).pipe(
+      tap(() => this._setLoading(false)),
       catchError((error) => {
         this._setError(`Error al cargar categoría con ID: ${id}`);
         return throwError(() => error);
@@ -125,13 +124,8 @@ export class CategoriaService {
   getCategoryBySlug(slug: string): Observable<BlogCategory | null> {
     this._setLoading(true);
 
-    return of(null).pipe(
-      delay(200),
-      map(() => {
-        const category = getCategoryBySlug(slug);
-        this._setLoading(false);
-        return category || null;
-      }),
+    return this.dataSource.getCategoryBySlug(slug).pipe(
+      tap(() => this._setLoading(false)),
       catchError((error) => {
         this._setError(`Error al cargar categoría: ${slug}`);
         return throwError(() => error);
@@ -139,13 +133,58 @@ export class CategoriaService {
     );
   }
 
+  /**
+   * Resolver una URL jerárquica de categoría
+   * La categoría es la del último slug; `slugPath` indica la URL canónica
+   */
+  getCategoryByPath(slugs: string[]): Observable<CategoryPathMatch | null> {
+    const slug = slugs[slugs.length - 1];
+
+    return this._getCachedCategories().pipe(
+      map((categories) => {
+        const category = categories.find((item) => item.slug === slug);
+        if (!category) return null;
+
+        const chain = categoryAncestry(category, categories);
+        return {
+          category,
+          ancestors: chain.slice(0, -1),
+          slugPath: chain.map((item) => item.slug),
+          descendantIds: categoryDescendantIds(category.id, categories),
+        };
+      }),
+      catchError((error) => {
+        this._setError(`Error al cargar categoría: ${slugs.join('/')}`);
+        return throwError(() => error);
+      })
+    );
+  }
+
+  /**
+   * URL jerárquica de una categoría
+   * Sin categorías en caché devuelve la URL plana, que redirige a la canónica
+   */
+  getCategoryUrl(category: BlogCategory): string {
+    return this._categoriesCache
+      ? categoryUrl(category, this._categoriesCache)
+      : categoryPathUrl([category.slug]);
+  }
+
+  /**
+   * URL jerárquica de una categoría, cargando antes las categorías si hace falta
+   */
+  resolveCategoryUrl(category: BlogCategory): Observable<string> {
+    return this._getCachedCategories().pipe(
+      map((categories) => categoryUrl(category, categories))
+    );
+  }
+
   /**
    * Obtener categorías principales (sin padre)
    */
   getMainCategories(): Observable<BlogCategory[]> {
-    return of(null).pipe(
-      delay(300),
-      map(() => getMainCategories())
+    return this._getCachedCategories().pipe(
+      map((categories) => this._getMainCategories(categories))
     );
   }
 
@@ -153,9 +192,8 @@ export class CategoriaService {
    * Obtener subcategorías de una categoría padre
    */
   getSubcategories(parentId: string): Observable<BlogCategory[]> {
-    return of(null).pipe(
-      delay(250),
-      map(() => getSubcategories(parentId))
+    return this._getCachedCategories().pipe(
+      map((categories) => this._getSubcategories(categories, parentId))
     );
   }
 
@@ -163,9 +201,8 @@ export class CategoriaService {
    * Obtener categorías activas
    */
   getActiveCategories(): Observable<BlogCategory[]> {
-    return of(null).pipe(
-      delay(200),
-      map(() => getActiveCategories())
+    return this._getCachedCategories().pipe(
+      map((categories) => categories.filter((category) => category.isActive))
     );
   }
 
@@ -173,9 +210,13 @@ export class CategoriaService {
    * Obtener categorías más populares
    */
   getPopularCategories(limit: number = 8): Observable<BlogCategory[]> {
-    return of(null).pipe(
-      delay(300),
-      map(() => getCategoriesByPopularity().slice(0, limit))
+    return this._getCachedCategories().pipe(
+      map((categories) =>
+        categories
+          .filter((category) => category.isActive)
+          .sort((a, b) => b.postsCount - a.postsCount)
+          .slice(0, limit)
+      )
     );
   }
 
@@ -183,9 +224,8 @@ export class CategoriaService {
    * Obtener categorías aleatorias
    */
   getRandomCategories(count: number = 5): Observable<BlogCategory[]> {
-    return of(null).pipe(
-      delay(200),
-      map(() => getRandomCategories(count))
+    return this._getCachedCategories().pipe(
+      map((categories) => this._pickRandom(categories, count))
     );
   }
 
@@ -199,10 +239,17 @@ export class CategoriaService {
 
     this._setLoading(true);
 
-    return of(null).pipe(
-      delay(300),
-      map(() => {
-        const results = searchCategories(term);
+    return this._getCachedCategories().pipe(
+      map((categories) => {
+        const lowercaseTerm = term.toLowerCase();
+        const results = categories.filter(
+          (category) =>
+            category.name.toLowerCase().includes(lowercaseTerm) ||
+            category.description.toLowerCase().includes(lowercaseTerm) ||
+            category.seo.keywords.some((keyword) =>
+              keyword.includes(lowercaseTerm)
+            )
+        );
         this._setLoading(false);
         return results;
       }),
@@ -219,10 +266,9 @@ export class CategoriaService {
   getCategoryTree(): Observable<CategoryTree[]> {
     this._setLoading(true);
 
-    return of(null).pipe(
-      delay(400),
-      map(() => {
-        const tree = this._buildAdvancedCategoryTree();
+    return this._getCachedCategories().pipe(
+      map((categories) => {
+        const tree = this._buildAdvancedCategoryTree(categories);
         this._setLoading(false);
         return tree;
       }),
@@ -239,15 +285,16 @@ export class CategoriaService {
   getCategoryStats(categoryId: string): Observable<CategoryStats> {
     this._setLoading(true);
 
-    return of(null).pipe(
-      delay(500),
-      map(() => {
-        const category = getCategoryById(categoryId);
+    return this._getCachedCategories().pipe(
+      switchMap((categories) => {
+        const category = this._findById(categories, categoryId);
         if (!category) {
           throw new Error('Categoría no encontrada');
         }
 
-        const posts = getPostsByCategory(categoryId);
+        return this.blogDataSource.getPostsByCategory(categoryId);
+      }),
+      map((posts) => {
         const publishedPosts = posts.filter(
           (post) => post.status === 'published'
         );
@@ -261,7 +308,7 @@ export class CategoriaService {
         );
 
         // Posts más populares
-        const popularPosts = posts
+        const popularPosts = [...posts]
           .sort((a, b) => b.views - a.views)
           .slice(0, 5)
           .map((post) => ({
@@ -320,34 +367,21 @@ export class CategoriaService {
     items: { name: string; url: string; level: number }[];
     current: BlogCategory;
   }> {
-    return of(null).pipe(
-      delay(200),
-      map(() => {
-        const category = getCategoryById(categoryId);
+    return this._getCachedCategories().pipe(
+      map((categories) => {
+        const category = this._findById(categories, categoryId);
         if (!category) {
           throw new Error('Categoría no encontrada');
         }
 
-        const breadcrumbItems: { name: string; url: string; level: number }[] =
-          [];
-        let currentCategory: BlogCategory | undefined = category;
-        let level = 0;
-
-        // Construir breadcrumb desde la categoría actual hacia arriba
-        while (currentCategory) {
-          breadcrumbItems.unshift({
-            name: currentCategory.name,
-            url: `/blog/categoria/${currentCategory.slug}`,
-            level,
-          });
-
-          if (currentCategory.parentId) {
-            currentCategory = getCategoryById(currentCategory.parentId);
-            level++;
-          } else {
-            break;
-          }
-        }
+        const chain = categoryAncestry(category, categories);
+
+        // Desde la raíz; el nivel cuenta hacia arriba desde la categoría actual
+        const breadcrumbItems = chain.map((item, index) => ({
+          name: item.name,
+          url: categoryUrl(item, categories),
+          level: chain.length - 1 - index,
+        }));
 
         return {
           items: breadcrumbItems,
@@ -364,29 +398,32 @@ export class CategoriaService {
     categoryId: string,
     limit: number = 4
   ): Observable<BlogCategory[]> {
-    return of(null).pipe(
-      delay(300),
-      map(() => {
-        const category = getCategoryById(categoryId);
+    return this._getCachedCategories().pipe(
+      map((categories) => {
+        const category = this._findById(categories, categoryId);
         if (!category) return [];
 
         let related: BlogCategory[] = [];
 
         // Si tiene padre, incluir hermanas
         if (category.parentId) {
-          const siblings = getSubcategories(category.parentId).filter(
-            (cat) => cat.id !== categoryId
-          );
+          const siblings = this._getSubcategories(
+            categories,
+            category.parentId
+          ).filter((cat) => cat.id !== categoryId);
           related.push(...siblings);
         }
 
         // Si es padre, incluir hijas
-        const children = getSubcategories(categoryId);
+        const children = this._getSubcategories(categories, categoryId);
         related.push(...children);
 
         // Completar con categorías aleatorias si no hay suficientes
         if (related.length < limit) {
-          const random = getRandomCategories(limit - related.length).filter(
+          const random = this._pickRandom(
+            categories,
+            limit - related.length
+          ).filter(
             (cat) =>
               cat.id !== categoryId && !related.some((r) => r.id === cat.id)
           );
@@ -409,22 +446,62 @@ export class CategoriaService {
   // MÉTODOS PRIVADOS
 
   /**
-   * Obtener categorías desde caché o datos mock
+   * Obtener categorías desde caché o desde la fuente de datos
    */
-  private _getCachedCategories(): BlogCategory[] {
+  private _getCachedCategories(): Observable<BlogCategory[]> {
     const now = Date.now();
 
     if (
       this._categoriesCache &&
       now - this._lastCacheTime < this.CACHE_DURATION
     ) {
-      return this._categoriesCache;
+      return of(this._categoriesCache);
     }
 
-    this._categoriesCache = [...CATEGORIES_MOCK];
-    this._lastCacheTime = now;
+    return this.dataSource.getCategories().pipe(
+      tap((categories) => {
+        this._categoriesCache = categories;
+        this._lastCacheTime = Date.now();
+      })
+    );
+  }
+
+  /**
+   * Categorías principales (sin padre)
+   */
+  private _getMainCategories(categories: BlogCategory[]): BlogCategory[] {
+    return categories.filter((category) => !category.parentId);
+  }
+
+  /**
+   * Subcategorías directas de una categoría
+   */
+  private _getSubcategories(
+    categories: BlogCategory[],
+    parentId: string
+  ): BlogCategory[] {
+    return categories.filter((category) => category.parentId === parentId);
+  }
+
+  /**
+   * Buscar una categoría por ID en el listado
+   */
+  private _findById(
+    categories: BlogCategory[],
+    id: string
+  ): BlogCategory | undefined {
+    return categories.find((category) => category.id === id);
+  }
 
-    return this._categoriesCache;
+  /**
+   * Selección aleatoria de categorías
+   */
+  private _pickRandom(
+    categories: BlogCategory[],
+    count: number
+  ): BlogCategory[] {
+    const shuffled = [...categories].sort(() => 0.5 - Math.random());
+    return shuffled.slice(0, count);
   }
 
   /**
@@ -525,11 +602,11 @@ export class CategoriaService {
   /**
    * Construir árbol jerárquico avanzado
    */
-  private _buildAdvancedCategoryTree(): CategoryTree[] {
-    const mainCategories = getMainCategories();
-
-    return mainCategories.map((category) =>
-      this._buildCategoryNode(category, 0, [])
+  private _buildAdvancedCategoryTree(
+    categories: BlogCategory[]
+  ): CategoryTree[] {
+    return this._getMainCategories(categories).map((category) =>
+      this._buildCategoryNode(categories, category, 0, [])
     );
   }
 
@@ -537,26 +614,29 @@ export class CategoriaService {
    * Construir nodo del árbol de categorías
    */
   private _buildCategoryNode(
+    categories: BlogCategory[],
     category: BlogCategory,
     level: number,
     path: string[]
   ): CategoryTree {
-    const children = getSubcategories(category.id);
+    const children = this._getSubcategories(categories, category.id);
     const currentPath = [...path, category.name];
+    const childNodes = children.map((child) =>
+      this._buildCategoryNode(categories, child, level + 1, currentPath)
+    );
 
-    // Calcular posts totales incluyendo subcategorías
-    let totalPostsWithChildren = category.postsCount;
-    children.forEach((child) => {
-      totalPostsWithChildren += child.postsCount;
-    });
+    // Calcular posts totales incluyendo subcategorías a cualquier profundidad
+    const totalPostsWithChildren = childNodes.reduce(
+      (total, child) => total + child.totalPostsWithChildren,
+      category.postsCount
+    );
 
     return {
       category,
-      children: children.map((child) =>
-        this._buildCategoryNode(child, level + 1, currentPath)
-      ),
+      children: childNodes,
       level,
       path: currentPath,
+      slugPath: categoryAncestry(category, categories).map((item) => item.slug),
       hasChildren: children.length > 0,
       totalPostsWithChildren,
     };
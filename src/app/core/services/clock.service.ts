@@ -0,0 +1,49 @@
+import {
+  Injectable,
+  PLATFORM_ID,
+  TransferState,
+  inject,
+  makeStateKey,
+} from '@angular/core';
+import { isPlatformServer } from '@angular/common';
+
+const SERVER_TIME_KEY = makeStateKey<number>('clock.serverTime');
+
+/**
+ * Reloj compartido entre SSR y cliente
+ * El servidor guarda su hora al renderizar y el navegador calcula el desfase
+ * con su propio reloj, de modo que ambos deciden igual qué posts programados
+ * o caducados son visibles (y la hidratación no cambia el contenido).
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class ClockService {
+  private transferState = inject(TransferState);
+  private platformId = inject(PLATFORM_ID);
+
+  /** Milisegundos a sumar al reloj local para igualar el del servidor */
+  private offset = 0;
+
+  constructor() {
+    if (isPlatformServer(this.platformId)) {
+      this.transferState.set(SERVER_TIME_KEY, Date.now());
+      return;
+    }
+
+    const serverTime = this.transferState.get<number | null>(
+      SERVER_TIME_KEY,
+      null
+    );
+    if (serverTime !== null) {
+      this.offset = serverTime - Date.now();
+    }
+  }
+
+  /**
+   * Instante actual según el reloj compartido
+   */
+  now(): Date {
+    return new Date(Date.now() + this.offset);
+  }
+}
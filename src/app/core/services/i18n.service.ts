@@ -0,0 +1,131 @@
+import { Injectable, inject } from '@angular/core';
+
+import { BlogLocale } from '../models/blog.interface';
+import { MessageKey, MessageParams, translate } from '../i18n/translate';
+import { localeConfig } from '../i18n/locales';
+import { LocaleService } from './locale.service';
+
+/** Estilos de fecha usados en la interfaz */
+export type DateStyle = 'long' | 'medium' | 'short';
+
+/** Estilos de número: completo (1.234) o compacto (1,2 mil) */
+export type NumberStyle = 'decimal' | 'compact';
+
+const DATE_FORMATS: Record<DateStyle, Intl.DateTimeFormatOptions> = {
+  long: { year: 'numeric', month: 'long', day: 'numeric' },
+  medium: { year: 'numeric', month: 'short', day: 'numeric' },
+  short: { month: 'short', day: 'numeric' },
+};
+
+const NUMBER_FORMATS: Record<NumberStyle, Intl.NumberFormatOptions> = {
+  decimal: {},
+  compact: { notation: 'compact', maximumFractionDigits: 1 },
+};
+
+/** Umbrales de la fecha relativa, de la unidad más pequeña a la mayor */
+const RELATIVE_UNITS: { unit: Intl.RelativeTimeFormatUnit; seconds: number }[] =
+  [
+    { unit: 'minute', seconds: 60 },
+    { unit: 'hour', seconds: 60 * 60 },
+    { unit: 'day', seconds: 60 * 60 * 24 },
+    { unit: 'week', seconds: 60 * 60 * 24 * 7 },
+    { unit: 'month', seconds: 60 * 60 * 24 * 30 },
+    { unit: 'year', seconds: 60 * 60 * 24 * 365 },
+  ];
+
+/**
+ * Textos y formatos de la interfaz en el idioma activo
+ * Sustituye a los formatDate/formatNumber de cada componente; los
+ * formateadores de Intl se crean una vez por idioma y estilo.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class I18nService {
+  private localeService = inject(LocaleService);
+
+  private formatters = new Map<
+    string,
+    Intl.DateTimeFormat | Intl.NumberFormat | Intl.RelativeTimeFormat
+  >();
+
+  /**
+   * Texto de una clave del catálogo
+   */
+  t(key: MessageKey, params?: MessageParams): string {
+    return translate(this.localeService.locale(), key, params);
+  }
+
+  /**
+   * Fecha según el idioma activo
+   */
+  formatDate(date: Date | string, style: DateStyle = 'long'): string {
+    const value = new Date(date);
+    if (isNaN(value.getTime())) return '';
+
+    return this._dateFormat(style).format(value);
+  }
+
+  /**
+   * Número según el idioma activo
+   */
+  formatNumber(value: number, style: NumberStyle = 'decimal'): string {
+    return this._numberFormat(style).format(value || 0);
+  }
+
+  /**
+   * Fecha relativa ("hace 3 días" / "3 days ago")
+   */
+  formatRelative(date: Date | string, now: Date = new Date()): string {
+    const elapsed = (new Date(date).getTime() - now.getTime()) / 1000;
+    const format = this._relativeFormat();
+
+    for (let i = RELATIVE_UNITS.length - 1; i >= 0; i--) {
+      const { unit, seconds } = RELATIVE_UNITS[i];
+      if (Math.abs(elapsed) >= seconds || i === 0) {
+        return format.format(Math.round(elapsed / seconds), unit);
+      }
+    }
+    return '';
+  }
+
+  // ===================================
+  // MÉTODOS PRIVADOS
+  // ===================================
+
+  private _dateFormat(style: DateStyle): Intl.DateTimeFormat {
+    return this._cached(
+      `date:${style}`,
+      (intl) => new Intl.DateTimeFormat(intl, DATE_FORMATS[style])
+    );
+  }
+
+  private _numberFormat(style: NumberStyle): Intl.NumberFormat {
+    return this._cached(
+      `number:${style}`,
+      (intl) => new Intl.NumberFormat(intl, NUMBER_FORMATS[style])
+    );
+  }
+
+  private _relativeFormat(): Intl.RelativeTimeFormat {
+    return this._cached(
+      'relative',
+      (intl) => new Intl.RelativeTimeFormat(intl, { numeric: 'auto' })
+    );
+  }
+
+  /**
+   * Formateador del idioma activo, creado la primera vez que se pide
+   */
+  private _cached<
+    T extends Intl.DateTimeFormat | Intl.NumberFormat | Intl.RelativeTimeFormat
+  >(name: string, create: (intl: string) => T): T {
+    const locale: BlogLocale = this.localeService.locale();
+    const key = `${locale}:${name}`;
+
+    if (!this.formatters.has(key)) {
+      this.formatters.set(key, create(localeConfig(locale).intl));
+    }
+    return this.formatters.get(key) as T;
+  }
+}
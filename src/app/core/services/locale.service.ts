@@ -0,0 +1,155 @@
+import {
+  Injectable,
+  InjectionToken,
+  signal,
+  computed,
+  effect,
+  inject,
+  PLATFORM_ID,
+} from '@angular/core';
+import { DOCUMENT, PlatformLocation, isPlatformBrowser } from '@angular/common';
+import { Router, RoutesRecognized } from '@angular/router';
+import { filter } from 'rxjs';
+
+import { BlogLocale } from '../models/blog.interface';
+import {
+  BLOG_LOCALES,
+  LOCALE_COOKIE,
+  isLocalizedPath,
+  localeConfig,
+  localizePath,
+  readLocaleCookie,
+  resolveLocale,
+} from '../i18n/locales';
+
+/**
+ * Idioma preferido del usuario leído de la petición (lo aporta server.ts)
+ */
+export const LOCALE_PREFERENCE = new InjectionToken<BlogLocale | null>(
+  'LOCALE_PREFERENCE'
+);
+
+/** Portada del blog, destino al cambiar a un idioma sin traducción */
+const LOCALIZED_HOME = '/blog';
+
+/** Duración de la cookie del idioma: un año */
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * Idioma activo
+ * En el blog lo marca el prefijo de la ruta (/en/blog/...); en el resto de
+ * páginas, el idioma preferido, que se guarda en una cookie para que el
+ * servidor renderice ya en ese idioma. Se actualiza al reconocer cada
+ * navegación, antes de que se creen los componentes.
+ */
+@Injectable({
+  providedIn: 'root',
+})
+export class LocaleService {
+  private document = inject(DOCUMENT);
+  private router = inject(Router);
+  private platformId = inject(PLATFORM_ID);
+  private serverPreference = inject(LOCALE_PREFERENCE, { optional: true });
+
+  // Estado reactivo
+  private readonly _preferred = signal<BlogLocale | null>(
+    this._readPreference()
+  );
+  private readonly _locale = signal<BlogLocale>(
+    resolveLocale(inject(PlatformLocation).pathname, this._preferred())
+  );
+  private readonly _alternates = signal<Partial<Record<BlogLocale, string>>>(
+    {}
+  );
+
+  // Computed signals
+  readonly locale = this._locale.asReadonly();
+  readonly config = computed(() => localeConfig(this.locale()));
+  readonly intl = computed(() => this.config().intl);
+  readonly locales = BLOG_LOCALES;
+
+  constructor() {
+    this.router.events
+      .pipe(
+        filter(
+          (event): event is RoutesRecognized =>
+            event instanceof RoutesRecognized
+        )
+      )
+      .subscribe((event) => {
+        this._alternates.set({});
+        this._locale.set(
+          resolveLocale(event.urlAfterRedirects, this._preferred())
+        );
+      });
+
+    effect(() => {
+      this.document.documentElement.lang = this.locale();
+    });
+  }
+
+  /**
+   * Ruta en el idioma activo (o en el indicado)
+   */
+  localize(path: string, locale: BlogLocale = this.locale()): string {
+    return localizePath(path, locale);
+  }
+
+  /**
+   * URLs de la página actual en cada idioma, cuando no basta con cambiar el
+   * prefijo (un post traducido tiene otro slug). Se olvidan al navegar.
+   */
+  setAlternates(alternates: Partial<Record<BlogLocale, string>>): void {
+    this._alternates.set(alternates);
+  }
+
+  /**
+   * Cambia el idioma: lo guarda como preferido y, en el blog, navega a la
+   * versión de la página en ese idioma
+   */
+  setLocale(locale: BlogLocale): void {
+    this._preferred.set(locale);
+    this._writePreference(locale);
+
+    const url = this.router.url;
+    const target = this._targetUrl(url, locale);
+
+    if (target !== url) {
+      this.router.navigateByUrl(target);
+    } else {
+      this._locale.set(resolveLocale(url, locale));
+    }
+  }
+
+  // ===================================
+  // MÉTODOS PRIVADOS
+  // ===================================
+
+  /**
+   * Idioma preferido: el de la petición en SSR y el de la cookie en el navegador
+   */
+  private _readPreference(): BlogLocale | null {
+    if (isPlatformBrowser(this.platformId)) {
+      return readLocaleCookie(this.document.cookie);
+    }
+    return this.serverPreference || null;
+  }
+
+  /**
+   * A dónde lleva el cambio de idioma: la versión traducida de la página,
+   * la portada del blog si la página no está traducida o la misma URL
+   */
+  private _targetUrl(url: string, locale: BlogLocale): string {
+    const alternates = this._alternates();
+    if (Object.keys(alternates).length > 0) {
+      return alternates[locale] || localizePath(LOCALIZED_HOME, locale);
+    }
+    return isLocalizedPath(url) ? localizePath(url, locale) : url;
+  }
+
+  private _writePreference(locale: BlogLocale): void {
+    if (!isPlatformBrowser(this.platformId)) return;
+
+    this.document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=${COOKIE_MAX_AGE}; SameSite=Lax`;
+  }
+}
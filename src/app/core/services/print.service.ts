@@ -1,5 +1,5 @@
-import { Injectable, inject, PLATFORM_ID, DOCUMENT } from '@angular/core';
-import { isPlatformBrowser } from '@angular/common';
+import { Injectable, inject, PLATFORM_ID } from '@angular/core';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
 import { BlogPost } from '../models/blog.interface';
 
 interface PrintOptions {
@@ -229,6 +229,69 @@ export class PrintService {
           page-break-inside: avoid;
         }
 
+        /* Bloques de código de los posts: fondo claro y colores oscuros */
+        .code-block-figure {
+          border: 1pt solid #ccc !important;
+          margin: 12pt 0 !important;
+          page-break-inside: avoid;
+        }
+
+        .code-block-header {
+          display: flex !important;
+          gap: 8pt;
+          padding: 4pt 8pt !important;
+          border-bottom: 1pt solid #ccc !important;
+          background: #f0f0f0 !important;
+          color: #000 !important;
+          font-family: "Courier New", monospace !important;
+          font-size: 9pt !important;
+          font-style: normal !important;
+          text-align: left !important;
+        }
+
+        .code-block-actions,
+        .code-group-tabs {
+          display: none !important;
+        }
+
+        /* En papel se imprimen todas las pestañas, cada una con su archivo */
+        .code-group-panel {
+          display: block !important;
+        }
+
+        .code-group .code-block-filename {
+          display: inline !important;
+        }
+
+        .code-block-figure pre {
+          margin: 0 !important;
+          border: 0 !important;
+          background: #fff !important;
+          color: #000 !important;
+        }
+
+        pre code {
+          border: 0 !important;
+          padding: 0 !important;
+          background: transparent !important;
+        }
+
+        .code-line::before {
+          color: #777 !important;
+        }
+
+        .code-line-highlighted {
+          background: #e8e8e8 !important;
+          box-shadow: inset 2pt 0 0 #000 !important;
+        }
+
+        .tok-comment { color: #6a737d !important; font-style: italic; }
+        .tok-keyword, .tok-tag { color: #a626a4 !important; }
+        .tok-string { color: #2f7d32 !important; }
+        .tok-number, .tok-literal { color: #986801 !important; }
+        .tok-function, .tok-variable { color: #1f5fbf !important; }
+        .tok-attr, .tok-property { color: #8a5a00 !important; }
+
         /* Imágenes */
         img {
           max-width: 100% !important;
@@ -2,8 +2,22 @@ import { Injectable, inject, PLATFORM_ID } from '@angular/core';
 import { isPlatformBrowser, DOCUMENT } from '@angular/common';
 import { Title, Meta } from '@angular/platform-browser';
 import { Router } from '@angular/router';
-import { BlogPost } from '../models/blog.interface';
+import {
+  BlogLocale,
+  BlogPost,
+  BlogSeriesDetail,
+  BlogTag,
+} from '../models/blog.interface';
 import { BlogCategory } from '../models/categoria.interface';
+import { AuthorProfile } from '../models/author.interface';
+import { categoryPathUrl } from '../data-sources/category-paths';
+import {
+  DEFAULT_LOCALE,
+  contentLocale,
+  localeConfig,
+  localizePath,
+  postPath,
+} from '../i18n/locales';
 
 interface SEOData {
   title: string;
@@ -18,6 +32,16 @@ interface SEOData {
   modifiedTime?: string;
   section?: string;
   tags?: string[];
+  locale?: BlogLocale;
+  alternates?: SEOAlternate[];
+}
+
+/**
+ * Versión de la página en otro idioma (<link rel="alternate" hreflang>)
+ */
+interface SEOAlternate {
+  hreflang: string;
+  href: string;
 }
 
 interface StructuredDataArticle {
@@ -49,6 +73,14 @@ interface StructuredDataArticle {
   keywords: string[];
   wordCount?: number;
   timeRequired?: string;
+  inLanguage?: string;
+  isPartOf?: {
+    '@type': string;
+    name: string;
+    url: string;
+    numberOfItems: number;
+  };
+  position?: number;
 }
 
 interface StructuredDataBreadcrumb {
@@ -121,6 +153,9 @@ export class SEOService {
       this.updateCanonicalUrl(seoData.canonical);
     }
 
+    // Versiones en otros idiomas
+    this.updateAlternateLinks(seoData.alternates || []);
+
     // Open Graph
     this.updateOpenGraphTags(seoData);
 
@@ -194,7 +229,9 @@ export class SEOService {
     });
     this.metaService.updateTag({
       property: 'og:locale',
-      content: this.defaultSEO.locale,
+      content: seoData.locale
+        ? localeConfig(seoData.locale).ogLocale
+        : this.defaultSEO.locale,
     });
 
     // Open Graph para artículos
@@ -277,11 +314,72 @@ export class SEOService {
     this.document.head.appendChild(link);
   }
 
+  /**
+   * Reemplaza los <link rel="alternate" hreflang> (también en SSR,
+   * para que los buscadores los vean sin ejecutar JavaScript)
+   */
+  updateAlternateLinks(alternates: SEOAlternate[]): void {
+    this.document.head
+      .querySelectorAll('link[rel="alternate"][hreflang]')
+      .forEach((link) => link.remove());
+
+    alternates.forEach(({ hreflang, href }) => {
+      const link = this.document.createElement('link');
+      link.setAttribute('rel', 'alternate');
+      link.setAttribute('hreflang', hreflang);
+      link.setAttribute('href', href);
+      this.document.head.appendChild(link);
+    });
+  }
+
+  /**
+   * Versiones de un post en cada idioma, con x-default en el idioma por defecto
+   * Sin traducciones no hay alternativas que anunciar
+   */
+  buildPostAlternates(post: BlogPost): SEOAlternate[] {
+    if (!post.translations?.length) return [];
+
+    const versions = [
+      { locale: contentLocale(post), slug: post.slug },
+      ...post.translations,
+    ];
+    const alternates = versions.map((version) => ({
+      hreflang: version.locale,
+      href: `${this.defaultSEO.siteUrl}${postPath(version)}`,
+    }));
+    const fallback =
+      alternates.find((alternate) => alternate.hreflang === DEFAULT_LOCALE) ||
+      alternates[0];
+
+    return [...alternates, { hreflang: 'x-default', href: fallback.href }];
+  }
+
+  /**
+   * Idioma y traducciones de un post (og:locale y hreflang)
+   */
+  setupPostLocale(post: BlogPost): void {
+    this.metaService.updateTag({
+      property: 'og:locale',
+      content: localeConfig(contentLocale(post)).ogLocale,
+    });
+    this.updateAlternateLinks(this.buildPostAlternates(post));
+  }
+
   /**
    * Genera structured data para un artículo
    */
-  generateArticleStructuredData(post: BlogPost): StructuredDataArticle {
-    const currentUrl = this.getCurrentUrl();
+  generateArticleStructuredData(
+    post: BlogPost,
+    series?: BlogSeriesDetail | null
+  ): StructuredDataArticle {
+    // URL canónica y no la actual: en el servidor no hay location
+    const currentUrl = `${this.defaultSEO.siteUrl}${postPath(post)}`;
+    const position = series
+      ? series.posts.findIndex((item) => item.id === post.id) + 1
+      : 0;
+    const seriesPath = series
+      ? localizePath(`/blog/serie/${series.slug}`, contentLocale(post))
+      : '';
 
     return {
       '@context': 'https://schema.org',
@@ -295,7 +393,9 @@ export class SEOService {
       author: {
         '@type': 'Person',
         name: post.author?.name || this.defaultSEO.author,
-        url: post.author?.website,
+        url: post.author
+          ? `${this.defaultSEO.siteUrl}/blog/autor/${post.author.slug}`
+          : undefined,
       },
       publisher: {
         '@type': 'Organization',
@@ -316,6 +416,19 @@ export class SEOService {
       ],
       wordCount: this.estimateWordCount(post.content),
       timeRequired: `PT${post.readingTime}M`,
+      inLanguage: contentLocale(post),
+      // Pertenencia a una serie ("Parte N de M")
+      ...(series && position > 0
+        ? {
+            isPartOf: {
+              '@type': 'CreativeWorkSeries',
+              name: series.title,
+              url: `${this.defaultSEO.siteUrl}${seriesPath}`,
+              numberOfItems: series.posts.length,
+            },
+            position,
+          }
+        : {}),
     };
   }
 
@@ -409,7 +522,7 @@ export class SEOService {
   /**
    * Configura SEO para un artículo específico
    */
-  setupArticleSEO(post: BlogPost): void {
+  setupArticleSEO(post: BlogPost, series?: BlogSeriesDetail | null): void {
     const seoData: SEOData = {
       title: `${post.title} | ${this.defaultSEO.siteName}`,
       description: post.excerpt,
@@ -417,7 +530,7 @@ export class SEOService {
         ...post.tags,
         ...(post.categories?.map((cat) => cat.name) || []),
       ].join(', '),
-      canonical: `${this.defaultSEO.siteUrl}/blog/${post.slug}`,
+      canonical: `${this.defaultSEO.siteUrl}${postPath(post)}`,
       ogImage: post.featuredImage,
       ogType: 'article',
       twitterCard: 'summary_large_image',
@@ -427,19 +540,21 @@ export class SEOService {
       modifiedTime: post.updatedAt.toISOString(),
       section: post.categories?.[0]?.name,
       tags: post.tags,
+      locale: contentLocale(post),
+      alternates: this.buildPostAlternates(post),
     };
 
     this.updateSEO(seoData);
 
     // Structured data del artículo
-    const articleData = this.generateArticleStructuredData(post);
+    const articleData = this.generateArticleStructuredData(post, series);
     this.insertStructuredData(articleData, 'article');
 
     // Breadcrumbs
     const breadcrumbs = [
       { name: 'Inicio', url: this.defaultSEO.siteUrl },
       { name: 'Blog', url: `${this.defaultSEO.siteUrl}/blog` },
-      { name: post.title, url: `${this.defaultSEO.siteUrl}/blog/${post.slug}` },
+      { name: post.title, url: `${this.defaultSEO.siteUrl}${postPath(post)}` },
     ];
 
     if (post.categories && post.categories.length > 0) {
@@ -455,13 +570,23 @@ export class SEOService {
 
   /**
    * Configura SEO para una categoría
+   * @param ancestors Categorías superiores, desde la raíz
    */
-  setupCategorySEO(category: BlogCategory, postsCount: number): void {
+  setupCategorySEO(
+    category: BlogCategory,
+    postsCount: number,
+    ancestors: BlogCategory[] = []
+  ): void {
+    const chain = [...ancestors, category];
+    const categoryUrl = (index: number) =>
+      this.defaultSEO.siteUrl +
+      categoryPathUrl(chain.slice(0, index + 1).map((item) => item.slug));
+
     const seoData: SEOData = {
       title: `${category.name} | Artículos de ${category.name} | ${this.defaultSEO.siteName}`,
       description: `${category.description} Encuentra ${postsCount} artículos sobre ${category.name}.`,
       keywords: `${category.name}, ${category.description}, artículos, blog`,
-      canonical: `${this.defaultSEO.siteUrl}/blog/categoria/${category.slug}`,
+      canonical: categoryUrl(chain.length - 1),
       ogImage: `${this.defaultSEO.siteUrl}/assets/images/categories/${category.slug}-og.jpg`,
       ogType: 'website',
     };
@@ -472,16 +597,271 @@ export class SEOService {
     const breadcrumbs = [
       { name: 'Inicio', url: this.defaultSEO.siteUrl },
       { name: 'Blog', url: `${this.defaultSEO.siteUrl}/blog` },
+      { name: 'Categorías', url: `${this.defaultSEO.siteUrl}/blog/categorias` },
+      ...chain.map((item, index) => ({
+        name: item.name,
+        url: categoryUrl(index),
+      })),
+    ];
+
+    const breadcrumbData = this.generateBreadcrumbStructuredData(breadcrumbs);
+    this.insertStructuredData(breadcrumbData, 'breadcrumb');
+  }
+
+  /**
+   * Configura SEO para el archivo de categorías
+   */
+  setupCategoryArchiveSEO(
+    title: string,
+    description: string,
+    categoriesCount: number
+  ): void {
+    const url = `${this.defaultSEO.siteUrl}/blog/categorias`;
+    const seoData: SEOData = {
+      title: `${title} | ${this.defaultSEO.siteName}`,
+      description: `${description} ${categoriesCount} categorías con artículos.`,
+      keywords: 'categorías, temas, archivo, blog',
+      canonical: url,
+      ogType: 'website',
+    };
+
+    this.updateSEO(seoData);
+
+    const breadcrumbs = [
+      { name: 'Inicio', url: this.defaultSEO.siteUrl },
+      { name: 'Blog', url: `${this.defaultSEO.siteUrl}/blog` },
+      { name: 'Categorías', url },
+    ];
+
+    const breadcrumbData = this.generateBreadcrumbStructuredData(breadcrumbs);
+    this.insertStructuredData(breadcrumbData, 'breadcrumb');
+  }
+
+  /**
+   * Configura SEO para la página de una serie
+   */
+  setupSeriesSEO(series: BlogSeriesDetail): void {
+    const url = `${this.defaultSEO.siteUrl}/blog/serie/${series.slug}`;
+    const seoData: SEOData = {
+      title: `${series.title} | Serie | ${this.defaultSEO.siteName}`,
+      description: series.description,
+      keywords: [
+        series.title,
+        ...new Set(series.posts.flatMap((post) => post.tags)),
+      ].join(', '),
+      canonical: url,
+      ogImage: series.coverImage,
+      ogType: 'website',
+    };
+
+    this.updateSEO(seoData);
+
+    // Structured data de la serie con sus partes en orden
+    this.insertStructuredData(
+      {
+        '@context': 'https://schema.org',
+        '@type': 'CreativeWorkSeries',
+        name: series.title,
+        description: series.description,
+        url,
+        hasPart: series.posts.map((post, index) => ({
+          '@type': 'BlogPosting',
+          headline: post.title,
+          url: `${this.defaultSEO.siteUrl}/blog/${post.slug}`,
+          position: index + 1,
+        })),
+      },
+      'series'
+    );
+
+    const breadcrumbs = [
+      { name: 'Inicio', url: this.defaultSEO.siteUrl },
+      { name: 'Blog', url: `${this.defaultSEO.siteUrl}/blog` },
+      { name: series.title, url },
+    ];
+
+    const breadcrumbData = this.generateBreadcrumbStructuredData(breadcrumbs);
+    this.insertStructuredData(breadcrumbData, 'breadcrumb');
+  }
+
+  /**
+   * Configura SEO para el índice de tags
+   */
+  setupTagsIndexSEO(tags: BlogTag[]): void {
+    const url = `${this.defaultSEO.siteUrl}/blog/tags`;
+    const seoData: SEOData = {
+      title: `Tags | ${this.defaultSEO.siteName}`,
+      description: `Explora los ${tags.length} temas del blog: ${tags
+        .slice(0, 5)
+        .map((tag) => tag.name)
+        .join(', ')} y muchos más.`,
+      keywords: [
+        'tags',
+        'temas',
+        ...tags.slice(0, 10).map((tag) => tag.name),
+      ].join(', '),
+      canonical: url,
+      ogType: 'website',
+    };
+
+    this.updateSEO(seoData);
+
+    const breadcrumbs = [
+      { name: 'Inicio', url: this.defaultSEO.siteUrl },
+      { name: 'Blog', url: `${this.defaultSEO.siteUrl}/blog` },
+      { name: 'Tags', url },
+    ];
+
+    const breadcrumbData = this.generateBreadcrumbStructuredData(breadcrumbs);
+    this.insertStructuredData(breadcrumbData, 'breadcrumb');
+  }
+
+  /**
+   * Configura SEO para la página de un tag
+   */
+  setupTagSEO(tag: BlogTag): void {
+    const url = `${this.defaultSEO.siteUrl}/blog/tag/${tag.slug}`;
+    const seoData: SEOData = {
+      title: `Artículos sobre ${tag.name} | ${this.defaultSEO.siteName}`,
+      description: `${tag.description} Descubre ${tag.count} artículos sobre ${tag.name}.`,
+      keywords: [
+        tag.name,
+        ...tag.relatedTags.map((related) => related.name),
+      ].join(', '),
+      canonical: url,
+      ogType: 'website',
+    };
+
+    this.updateSEO(seoData);
+
+    const breadcrumbs = [
+      { name: 'Inicio', url: this.defaultSEO.siteUrl },
+      { name: 'Blog', url: `${this.defaultSEO.siteUrl}/blog` },
+      { name: 'Tags', url: `${this.defaultSEO.siteUrl}/blog/tags` },
+      { name: tag.name, url },
+    ];
+
+    const breadcrumbData = this.generateBreadcrumbStructuredData(breadcrumbs);
+    this.insertStructuredData(breadcrumbData, 'breadcrumb');
+  }
+
+  /**
+   * Configura SEO para el directorio de autores
+   */
+  setupAuthorsDirectorySEO(
+    title: string,
+    description: string,
+    authorsCount: number
+  ): void {
+    const url = `${this.defaultSEO.siteUrl}/blog/autores`;
+    const seoData: SEOData = {
+      title: `${title} | ${this.defaultSEO.siteName}`,
+      description: `${description} ${authorsCount} autores publicando en el blog.`,
+      keywords: 'autores, equipo, escritores, blog',
+      canonical: url,
+      ogType: 'website',
+    };
+
+    this.updateSEO(seoData);
+
+    const breadcrumbs = [
+      { name: 'Inicio', url: this.defaultSEO.siteUrl },
+      { name: 'Blog', url: `${this.defaultSEO.siteUrl}/blog` },
+      { name: 'Autores', url },
+    ];
+
+    const breadcrumbData = this.generateBreadcrumbStructuredData(breadcrumbs);
+    this.insertStructuredData(breadcrumbData, 'breadcrumb');
+  }
+
+  /**
+   * Configura SEO para el perfil de un autor
+   */
+  setupAuthorSEO(profile: AuthorProfile): void {
+    const url = `${this.defaultSEO.siteUrl}/blog/autor/${profile.slug}`;
+    const { expertise, location } = profile.profileConfig;
+    const seoData: SEOData = {
+      title: `${profile.name} | Autor | ${this.defaultSEO.siteName}`,
+      description: profile.bio,
+      keywords: [profile.name, ...expertise].join(', '),
+      canonical: url,
+      ogImage: profile.avatar,
+      ogType: 'profile',
+      author: profile.name,
+    };
+
+    this.updateSEO(seoData);
+
+    // Structured data de la persona con sus perfiles sociales
+    this.insertStructuredData(
       {
-        name: category.name,
-        url: `${this.defaultSEO.siteUrl}/blog/categoria/${category.slug}`,
+        '@context': 'https://schema.org',
+        '@type': 'Person',
+        name: profile.name,
+        url,
+        image: profile.avatar,
+        description: profile.bio,
+        sameAs: profile.profileConfig.showSocialLinks
+          ? Object.values(profile.socialLinks).filter(Boolean)
+          : [],
+        knowsAbout: expertise,
+        homeLocation: location
+          ? { '@type': 'Place', name: location }
+          : undefined,
       },
+      'author'
+    );
+
+    const breadcrumbs = [
+      { name: 'Inicio', url: this.defaultSEO.siteUrl },
+      { name: 'Blog', url: `${this.defaultSEO.siteUrl}/blog` },
+      { name: 'Autores', url: `${this.defaultSEO.siteUrl}/blog/autores` },
+      { name: profile.name, url },
     ];
 
     const breadcrumbData = this.generateBreadcrumbStructuredData(breadcrumbs);
     this.insertStructuredData(breadcrumbData, 'breadcrumb');
   }
 
+  /**
+   * Configura SEO para el archivo de un año o de un mes
+   * @param label Periodo legible ("2024" o "marzo 2024")
+   */
+  setupArchiveSEO(
+    year: number,
+    month: number | null,
+    label: string,
+    postsCount: number
+  ): void {
+    const yearUrl = `${this.defaultSEO.siteUrl}/blog/archivo/${year}`;
+    const url = month
+      ? `${yearUrl}/${String(month).padStart(2, '0')}`
+      : yearUrl;
+
+    const seoData: SEOData = {
+      title: `Archivo de ${label} | ${this.defaultSEO.siteName}`,
+      description: `${postsCount} artículos publicados en ${label}. Explora el archivo del blog por fecha.`,
+      keywords: `archivo, ${label}, blog, artículos`,
+      canonical: url,
+      ogType: 'website',
+    };
+
+    this.updateSEO(seoData);
+
+    const breadcrumbs = [
+      { name: 'Inicio', url: this.defaultSEO.siteUrl },
+      { name: 'Blog', url: `${this.defaultSEO.siteUrl}/blog` },
+      { name: `Archivo ${year}`, url: yearUrl },
+    ];
+
+    if (month) {
+      breadcrumbs.push({ name: label, url });
+    }
+
+    const breadcrumbData = this.generateBreadcrumbStructuredData(breadcrumbs);
+    this.insertStructuredData(breadcrumbData, 'breadcrumb');
+  }
+
   /**
    * Configura SEO para la página de búsqueda
    */
@@ -4,9 +4,8 @@ import {
   computed,
   inject,
   PLATFORM_ID,
-  DOCUMENT,
 } from '@angular/core';
-import { isPlatformBrowser } from '@angular/common';
+import { DOCUMENT, isPlatformBrowser } from '@angular/common';
 import { BehaviorSubject, fromEvent, Observable } from 'rxjs';
 
 export type ThemeMode = 'light' | 'dark' | 'auto';
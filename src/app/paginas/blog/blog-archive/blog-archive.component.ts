@@ -0,0 +1,317 @@
+import {
+  Component,
+  OnInit,
+  OnDestroy,
+  ChangeDetectionStrategy,
+  signal,
+  computed,
+  inject,
+  PLATFORM_ID,
+} from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Subject, combineLatest, forkJoin, takeUntil } from 'rxjs';
+
+import { BlogService } from '../../../core/services/blog.service';
+import { SEOService } from '../../../core/services/seo.service';
+import { LocaleService } from '../../../core/services/locale.service';
+import { I18nService } from '../../../core/services/i18n.service';
+import { TranslatePipe } from '../../../core/pipes/i18n.pipes';
+import { postPath } from '../../../core/i18n/locales';
+import {
+  BlogArchiveMonth,
+  BlogPagination,
+  BlogPost,
+} from '../../../core/models/blog.interface';
+import { formatMonthLabel } from '../../../core/data-sources/blog-query';
+import { parseQueryDate } from '../../../core/search/query-parser';
+import { BlogCardComponent } from '../../../shared/blog-card/blog-card.component';
+import {
+  BlogPaginationComponent,
+  PageChangeEvent,
+} from '../../../shared/blog-pagination/blog-pagination.component';
+import { BlogSidebarComponent } from '../../../shared/blog-sidebar/blog-sidebar.component';
+import { BreadcrumbComponent } from '../../../shared/breadcrumb/breadcrumb.component';
+
+/**
+ * Periodo que muestra la página: un año completo o un mes
+ */
+interface ArchivePeriod {
+  year: number;
+  /** Mes de 1 a 12 (null para el año completo) */
+  month: number | null;
+  label: string;
+}
+
+const POSTS_PER_PAGE = 12;
+
+@Component({
+  selector: 'app-blog-archive',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    BlogCardComponent,
+    BlogPaginationComponent,
+    BlogSidebarComponent,
+    BreadcrumbComponent,
+    TranslatePipe,
+  ],
+  templateUrl: './blog-archive.component.html',
+  styleUrls: ['./blog-archive.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class BlogArchiveComponent implements OnInit, OnDestroy {
+  // Dependency injection
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private blogService = inject(BlogService);
+  private seoService = inject(SEOService);
+  private localeService = inject(LocaleService);
+  private i18n = inject(I18nService);
+  private platformId = inject(PLATFORM_ID);
+
+  // Estado reactivo
+  private readonly _loading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+  private readonly _period = signal<ArchivePeriod | null>(null);
+  private readonly _posts = signal<BlogPost[]>([]);
+  private readonly _pagination = signal<BlogPagination | null>(null);
+  private readonly _archive = signal<BlogArchiveMonth[]>([]);
+
+  // Computed signals
+  readonly loading = this._loading.asReadonly();
+  readonly error = this._error.asReadonly();
+  readonly period = this._period.asReadonly();
+  readonly posts = this._posts.asReadonly();
+  readonly pagination = this._pagination.asReadonly();
+
+  readonly totalPosts = computed(() => this.pagination()?.totalItems || 0);
+
+  /** Meses del año mostrado, para saltar de uno a otro */
+  readonly yearMonths = computed(() => {
+    const period = this.period();
+    return period
+      ? this._archive().filter((item) => item.year === period.year)
+      : [];
+  });
+
+  /** Años con posts y su total, del más reciente al más antiguo */
+  readonly years = computed(() => {
+    const totals = new Map<number, number>();
+    this._archive().forEach((item) =>
+      totals.set(item.year, (totals.get(item.year) || 0) + item.count)
+    );
+    return Array.from(totals, ([year, count]) => ({ year, count }));
+  });
+
+  readonly breadcrumbs = computed(() => {
+    const period = this.period();
+    const items = [
+      {
+        label: this.i18n.t('nav.home'),
+        url: this.localeService.localize('/'),
+        isActive: false,
+        isClickable: true,
+        type: 'home' as const,
+      },
+      {
+        label: this.i18n.t('nav.blog'),
+        url: this.localeService.localize('/blog'),
+        isActive: false,
+        isClickable: true,
+        type: 'page' as const,
+      },
+      {
+        label: this.i18n.t('archive.year', {
+          year: period ? String(period.year) : '',
+        }),
+        url: period?.month ? this.getYearUrl(period.year) : '',
+        isActive: !period?.month,
+        isClickable: !!period?.month,
+        type: 'custom' as const,
+      },
+    ];
+
+    if (period?.month) {
+      items.push({
+        label: period.label,
+        url: '',
+        isActive: true,
+        isClickable: false,
+        type: 'custom' as const,
+      });
+    }
+
+    return items;
+  });
+
+  private isBrowser: boolean;
+  private destroy$ = new Subject<void>();
+
+  constructor() {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+  }
+
+  ngOnInit(): void {
+    this.setupRouteSubscription();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Configura la suscripción a los cambios de ruta
+   */
+  private setupRouteSubscription(): void {
+    combineLatest([this.route.paramMap, this.route.queryParamMap])
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(([params, queryParams]) => {
+        const period = this.parsePeriod(
+          params.get('year'),
+          params.get('month')
+        );
+        const page = parseInt(queryParams.get('page') || '1', 10) || 1;
+
+        if (!period) {
+          this._period.set(null);
+          this._error.set(this.i18n.t('error.archiveNotFound'));
+          return;
+        }
+
+        this._period.set(period);
+        this.loadArchive(period, page);
+      });
+  }
+
+  /**
+   * Valida los parámetros de la URL ("2024" y "03")
+   */
+  private parsePeriod(
+    yearParam: string | null,
+    monthParam: string | null
+  ): ArchivePeriod | null {
+    if (!yearParam || !/^\d{4}$/.test(yearParam)) return null;
+    const year = Number(yearParam);
+
+    if (monthParam === null) {
+      return { year, month: null, label: String(year) };
+    }
+
+    if (!/^\d{1,2}$/.test(monthParam)) return null;
+    const month = Number(monthParam);
+    if (month < 1 || month > 12) return null;
+
+    return {
+      year,
+      month,
+      label: formatMonthLabel(
+        this.toMonthKey(year, month),
+        this.localeService.locale()
+      ),
+    };
+  }
+
+  /**
+   * Carga los posts del periodo y los meses del archivo
+   */
+  private loadArchive(period: ArchivePeriod, page: number): void {
+    this._loading.set(true);
+    this._error.set(null);
+
+    const key = period.month
+      ? this.toMonthKey(period.year, period.month)
+      : String(period.year);
+
+    forkJoin([
+      this.blogService.getPosts(page, POSTS_PER_PAGE, {
+        dateFrom: parseQueryDate(key, 'start'),
+        dateTo: parseQueryDate(key, 'end'),
+        sortBy: 'publishedAt',
+        sortDirection: 'desc',
+      }),
+      this.blogService.getArchive(),
+    ])
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: ([response, archive]) => {
+          this._posts.set(response.data);
+          this._pagination.set(response.pagination);
+          this._archive.set(archive);
+          this._loading.set(false);
+
+          this.seoService.setupArchiveSEO(
+            period.year,
+            period.month,
+            period.label,
+            response.pagination.totalItems
+          );
+        },
+        error: (error) => {
+          console.error('Error loading archive:', error);
+          this._error.set(this.i18n.t('error.loadArchive'));
+          this._loading.set(false);
+        },
+      });
+  }
+
+  /**
+   * URL del archivo de un mes
+   */
+  getMonthUrl(item: BlogArchiveMonth): string {
+    const month = String(item.month).padStart(2, '0');
+    return `${this.getYearUrl(item.year)}/${month}`;
+  }
+
+  /**
+   * URL del archivo de un año
+   */
+  getYearUrl(year: number): string {
+    return this.localeService.localize(`/blog/archivo/${year}`);
+  }
+
+  /**
+   * Nombre del mes sin el año ("marzo 2024" → "marzo")
+   */
+  getMonthName(item: BlogArchiveMonth): string {
+    return item.label.replace(` ${item.year}`, '');
+  }
+
+  /**
+   * Maneja el cambio de página
+   */
+  onPageChange(event: PageChangeEvent): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { page: event.page > 1 ? event.page : null },
+      queryParamsHandling: 'merge',
+    });
+
+    if (this.isBrowser) {
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    }
+  }
+
+  /**
+   * Maneja el click en un post
+   */
+  onPostClick(post: BlogPost): void {
+    this.router.navigateByUrl(postPath(post));
+  }
+
+  /**
+   * Navega de vuelta al blog principal
+   */
+  goBackToBlog(): void {
+    this.router.navigateByUrl(this.localeService.localize('/blog'));
+  }
+
+  /**
+   * Clave de mes "YYYY-MM"
+   */
+  private toMonthKey(year: number, month: number): string {
+    return `${year}-${String(month).padStart(2, '0')}`;
+  }
+}
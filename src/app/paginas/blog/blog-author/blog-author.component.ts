@@ -0,0 +1,367 @@
+import {
+  Component,
+  OnInit,
+  OnDestroy,
+  ChangeDetectionStrategy,
+  signal,
+  computed,
+  inject,
+  PLATFORM_ID,
+} from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Subject, combineLatest, takeUntil } from 'rxjs';
+
+import { BlogService } from '../../../core/services/blog.service';
+import { SEOService } from '../../../core/services/seo.service';
+import { LocaleService } from '../../../core/services/locale.service';
+import {
+  AuthorPageConfig,
+  AuthorProfile,
+  AuthorSocialLinks,
+} from '../../../core/models/author.interface';
+import { BlogPagination, BlogPost } from '../../../core/models/blog.interface';
+import { formatMonthLabel } from '../../../core/data-sources/blog-query';
+import { postPath } from '../../../core/i18n/locales';
+import {
+  BlogCardComponent,
+  BlogCardConfig,
+} from '../../../shared/blog-card/blog-card.component';
+import {
+  BlogPaginationComponent,
+  PageChangeEvent,
+} from '../../../shared/blog-pagination/blog-pagination.component';
+import { BreadcrumbComponent } from '../../../shared/breadcrumb/breadcrumb.component';
+
+/**
+ * Grupo de posts de un mes para el layout timeline
+ */
+interface TimelineGroup {
+  key: string;
+  label: string;
+  posts: BlogPost[];
+}
+
+/** Nombre visible de cada red social */
+const SOCIAL_LABELS: Record<keyof AuthorSocialLinks, string> = {
+  website: 'Sitio web',
+  twitter: 'Twitter',
+  linkedin: 'LinkedIn',
+  github: 'GitHub',
+  instagram: 'Instagram',
+  facebook: 'Facebook',
+};
+
+@Component({
+  selector: 'app-blog-author',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    BlogCardComponent,
+    BlogPaginationComponent,
+    BreadcrumbComponent,
+  ],
+  templateUrl: './blog-author.component.html',
+  styleUrls: ['./blog-author.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class BlogAuthorComponent implements OnInit, OnDestroy {
+  // Dependency injection
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private blogService = inject(BlogService);
+  private seoService = inject(SEOService);
+  private localeService = inject(LocaleService);
+  private platformId = inject(PLATFORM_ID);
+
+  // Configuración de la página
+  readonly pageConfig = signal<AuthorPageConfig>({
+    layout: 'grid',
+    postsPerPage: 9,
+    showFullBio: true,
+    showStats: true,
+    showSocialLinks: true,
+    allowPostFilters: false,
+    enableSearch: false,
+    showContactInfo: true,
+  });
+
+  readonly layouts: { value: AuthorPageConfig['layout']; label: string }[] = [
+    { value: 'grid', label: 'Cuadrícula' },
+    { value: 'list', label: 'Lista' },
+    { value: 'timeline', label: 'Cronología' },
+  ];
+
+  // Estado reactivo
+  private readonly _loading = signal<boolean>(false);
+  private readonly _postsLoading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+  private readonly _profile = signal<AuthorProfile | null>(null);
+  private readonly _posts = signal<BlogPost[]>([]);
+  private readonly _pagination = signal<BlogPagination | null>(null);
+
+  // Computed signals
+  readonly loading = this._loading.asReadonly();
+  readonly postsLoading = this._postsLoading.asReadonly();
+  readonly error = this._error.asReadonly();
+  readonly profile = this._profile.asReadonly();
+  readonly posts = this._posts.asReadonly();
+  readonly pagination = this._pagination.asReadonly();
+
+  readonly layout = computed(() => this.pageConfig().layout);
+
+  /** El autor y la página deben permitir las estadísticas */
+  readonly showStats = computed(
+    () =>
+      this.pageConfig().showStats && !!this.profile()?.profileConfig.showStats
+  );
+
+  readonly socialLinks = computed(() => {
+    const profile = this.profile();
+    if (
+      !profile ||
+      !this.pageConfig().showSocialLinks ||
+      !profile.profileConfig.showSocialLinks
+    ) {
+      return [];
+    }
+
+    return (Object.keys(SOCIAL_LABELS) as (keyof AuthorSocialLinks)[])
+      .filter((network) => !!profile.socialLinks[network])
+      .map((network) => ({
+        network,
+        label: SOCIAL_LABELS[network],
+        url: profile.socialLinks[network]!,
+      }));
+  });
+
+  /** Mes de alta del autor ("marzo 2022") */
+  readonly memberSince = computed(() => {
+    const joinedAt = this.profile()?.joinedAt;
+    return joinedAt
+      ? formatMonthLabel(
+          this.toMonthKey(new Date(joinedAt)),
+          this.localeService.locale()
+        )
+      : '';
+  });
+
+  /** Email de contacto, solo si el autor lo publica */
+  readonly contactEmail = computed(() => {
+    const config = this.profile()?.profileConfig;
+    return this.pageConfig().showContactInfo && config?.allowContact
+      ? config.publicEmail || null
+      : null;
+  });
+
+  readonly cardConfig = computed<Partial<BlogCardConfig>>(() => ({
+    layout: this.layout() === 'list' ? 'list' : 'grid',
+    showAuthor: false,
+  }));
+
+  /** Posts de la página agrupados por mes de publicación */
+  readonly timeline = computed<TimelineGroup[]>(() => {
+    const groups = new Map<string, BlogPost[]>();
+    this.posts().forEach((post) => {
+      const key = this.toMonthKey(new Date(post.publishedAt || post.createdAt));
+      groups.set(key, [...(groups.get(key) || []), post]);
+    });
+
+    return Array.from(groups, ([key, posts]) => ({
+      key,
+      label: formatMonthLabel(key, this.localeService.locale()),
+      posts,
+    }));
+  });
+
+  readonly blogUrl = computed(() => this.localeService.localize('/blog'));
+  readonly searchUrl = computed(() =>
+    this.localeService.localize('/blog/search')
+  );
+
+  readonly breadcrumbs = computed(() => [
+    {
+      label: 'Inicio',
+      url: this.localeService.localize('/'),
+      isActive: false,
+      isClickable: true,
+      type: 'home' as const,
+    },
+    {
+      label: 'Blog',
+      url: this.blogUrl(),
+      isActive: false,
+      isClickable: true,
+      type: 'page' as const,
+    },
+    {
+      label: 'Autores',
+      url: this.localeService.localize('/blog/autores'),
+      isActive: false,
+      isClickable: true,
+      type: 'page' as const,
+    },
+    {
+      label: this.profile()?.name || 'Autor',
+      url: '',
+      isActive: true,
+      isClickable: false,
+      type: 'custom' as const,
+    },
+  ]);
+
+  private isBrowser: boolean;
+  private destroy$ = new Subject<void>();
+
+  constructor() {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+  }
+
+  ngOnInit(): void {
+    this.setupRouteSubscription();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+    this.seoService.clearStructuredData('author');
+  }
+
+  /**
+   * Configura la suscripción a los cambios de ruta
+   * El perfil solo se recarga al cambiar de autor; la página solo pide posts
+   */
+  private setupRouteSubscription(): void {
+    combineLatest([this.route.paramMap, this.route.queryParamMap])
+      .pipe(takeUntil(this.destroy$))
+      .subscribe(([params, queryParams]) => {
+        const slug = params.get('slug');
+        const page = parseInt(queryParams.get('page') || '1', 10) || 1;
+
+        if (!slug) {
+          this.router.navigateByUrl(this.blogUrl());
+          return;
+        }
+
+        const profile = this.profile();
+        if (profile?.slug === slug) {
+          this.loadPosts(profile.id, page);
+        } else {
+          this.loadProfile(slug, page);
+        }
+      });
+  }
+
+  /**
+   * Carga el perfil del autor y después sus posts
+   */
+  private loadProfile(slug: string, page: number): void {
+    this._loading.set(true);
+    this._error.set(null);
+
+    this.blogService
+      .getAuthorProfile(slug)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (profile) => {
+          this._profile.set(profile);
+          this._loading.set(false);
+
+          if (!profile) {
+            this._error.set('Autor no encontrado');
+            return;
+          }
+
+          this.seoService.setupAuthorSEO(profile);
+          this.loadPosts(profile.id, page);
+        },
+        error: (error) => {
+          console.error('Error loading author:', error);
+          this._error.set('Error al cargar el autor');
+          this._loading.set(false);
+        },
+      });
+  }
+
+  /**
+   * Carga una página de posts del autor
+   */
+  private loadPosts(authorId: string, page: number): void {
+    this._postsLoading.set(true);
+
+    this.blogService
+      .getPosts(page, this.pageConfig().postsPerPage, {
+        authorId,
+        sortBy: 'publishedAt',
+        sortDirection: 'desc',
+      })
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (response) => {
+          this._posts.set(response.data);
+          this._pagination.set(response.pagination);
+          this._postsLoading.set(false);
+        },
+        error: (error) => {
+          console.error('Error loading author posts:', error);
+          this._posts.set([]);
+          this._pagination.set(null);
+          this._postsLoading.set(false);
+        },
+      });
+  }
+
+  /**
+   * Cambia el layout del listado de posts
+   */
+  setLayout(layout: AuthorPageConfig['layout']): void {
+    this.pageConfig.update((config) => ({ ...config, layout }));
+  }
+
+  /**
+   * Maneja el cambio de página
+   */
+  onPageChange(event: PageChangeEvent): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { page: event.page > 1 ? event.page : null },
+      queryParamsHandling: 'merge',
+    });
+
+    if (this.isBrowser) {
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    }
+  }
+
+  /**
+   * Maneja el click en un post
+   */
+  onPostClick(post: BlogPost): void {
+    this.router.navigateByUrl(postPath(post));
+  }
+
+  /**
+   * Obtiene la URL de un post de la cronología
+   */
+  getPostUrl(post: BlogPost): string {
+    return postPath(post);
+  }
+
+  /**
+   * Navega de vuelta al blog principal
+   */
+  goBackToBlog(): void {
+    this.router.navigateByUrl(this.blogUrl());
+  }
+
+  /**
+   * Clave de mes "YYYY-MM"
+   */
+  private toMonthKey(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(
+      2,
+      '0'
+    )}`;
+  }
+}
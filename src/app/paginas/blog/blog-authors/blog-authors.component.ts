@@ -0,0 +1,330 @@
+import {
+  Component,
+  OnInit,
+  OnDestroy,
+  ChangeDetectionStrategy,
+  signal,
+  computed,
+  inject,
+  PLATFORM_ID,
+} from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { ActivatedRoute, Params, Router, RouterLink } from '@angular/router';
+import { Subject, takeUntil } from 'rxjs';
+
+import { AuthorService } from '../../../core/services/author.service';
+import { SEOService } from '../../../core/services/seo.service';
+import { LocaleService } from '../../../core/services/locale.service';
+import {
+  AuthorDirectoryConfig,
+  AuthorFilters,
+  AuthorSortBy,
+  AuthorSummary,
+} from '../../../core/models/author.interface';
+import { BlogPagination } from '../../../core/models/blog.interface';
+import { parseQueryDate } from '../../../core/search/query-parser';
+import { normalizeText } from '../../../core/search/text-analysis';
+import {
+  BlogPaginationComponent,
+  PageChangeEvent,
+} from '../../../shared/blog-pagination/blog-pagination.component';
+import { BreadcrumbComponent } from '../../../shared/breadcrumb/breadcrumb.component';
+import { TranslatePipe } from '../../../core/pipes/i18n.pipes';
+
+/**
+ * Filtros del directorio tal como van en la URL
+ */
+interface DirectoryQuery {
+  search: string;
+  sortBy: AuthorSortBy;
+  activeOnly: boolean;
+  withPublishedPosts: boolean;
+  /** "YYYY-MM" */
+  registeredFrom: string;
+  /** "YYYY-MM" */
+  registeredTo: string;
+  page: number;
+}
+
+/**
+ * Criterios de ordenamiento del directorio y su dirección natural
+ */
+const SORT_OPTIONS: {
+  value: AuthorSortBy;
+  label: string;
+  direction: 'asc' | 'desc';
+}[] = [
+  { value: 'name', label: 'Nombre (A-Z)', direction: 'asc' },
+  { value: 'postsCount', label: 'Más artículos', direction: 'desc' },
+  { value: 'totalViews', label: 'Más leídos', direction: 'desc' },
+  { value: 'totalLikes', label: 'Más valorados', direction: 'desc' },
+  { value: 'lastActivity', label: 'Actividad reciente', direction: 'desc' },
+  { value: 'joinedAt', label: 'Incorporación reciente', direction: 'desc' },
+];
+
+@Component({
+  selector: 'app-blog-authors',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    BlogPaginationComponent,
+    BreadcrumbComponent,
+    TranslatePipe,
+  ],
+  templateUrl: './blog-authors.component.html',
+  styleUrls: ['./blog-authors.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class BlogAuthorsComponent implements OnInit, OnDestroy {
+  // Dependency injection
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private authorService = inject(AuthorService);
+  private seoService = inject(SEOService);
+  private platformId = inject(PLATFORM_ID);
+  private localeService = inject(LocaleService);
+
+  // Configuración del directorio
+  readonly config: AuthorDirectoryConfig = {
+    title: 'Nuestros autores',
+    description:
+      'Conoce a las personas que escriben el blog: sus especialidades, sus artículos y dónde seguirlas.',
+    defaultView: 'grid',
+    allowViewChange: true,
+    enableSearch: true,
+    enableFilters: true,
+    itemsPerPage: 12,
+    showAuthorStats: true,
+    groupByLetter: true,
+  };
+
+  readonly sortOptions = SORT_OPTIONS;
+
+  readonly views: {
+    value: AuthorDirectoryConfig['defaultView'];
+    label: string;
+  }[] = [
+    { value: 'grid', label: 'Cuadrícula' },
+    { value: 'list', label: 'Lista' },
+    { value: 'cards', label: 'Fichas' },
+  ];
+
+  // Estado reactivo
+  private readonly _loading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+  private readonly _authors = signal<AuthorSummary[]>([]);
+  private readonly _pagination = signal<BlogPagination | null>(null);
+  private readonly _query = signal<DirectoryQuery>(this.parseQuery({}));
+  private readonly _view = signal<AuthorDirectoryConfig['defaultView']>(
+    this.config.defaultView
+  );
+
+  // Computed signals
+  readonly loading = this._loading.asReadonly();
+  readonly error = this._error.asReadonly();
+  readonly authors = this._authors.asReadonly();
+  readonly pagination = this._pagination.asReadonly();
+  readonly query = this._query.asReadonly();
+  readonly view = this._view.asReadonly();
+
+  readonly totalAuthors = computed(() => this.pagination()?.totalItems || 0);
+
+  readonly hasActiveFilters = computed(() => {
+    const query = this.query();
+    return (
+      !!query.search ||
+      !query.activeOnly ||
+      query.withPublishedPosts ||
+      !!query.registeredFrom ||
+      !!query.registeredTo
+    );
+  });
+
+  /** Autores agrupados por inicial (solo al ordenar por nombre) */
+  readonly groups = computed(() => {
+    const authors = this.authors();
+    if (!this.config.groupByLetter || this.query().sortBy !== 'name') {
+      return [{ letter: '', authors }];
+    }
+
+    const groups = new Map<string, AuthorSummary[]>();
+    authors.forEach((author) => {
+      const letter = normalizeText(author.name.charAt(0)).toUpperCase();
+      groups.set(letter, [...(groups.get(letter) || []), author]);
+    });
+
+    return Array.from(groups, ([letter, authors]) => ({ letter, authors }));
+  });
+
+  readonly breadcrumbs = computed(() => [
+    {
+      label: 'Inicio',
+      url: this.localeService.localize('/'),
+      isActive: false,
+      isClickable: true,
+      type: 'home' as const,
+    },
+    {
+      label: 'Blog',
+      url: this.localeService.localize('/blog'),
+      isActive: false,
+      isClickable: true,
+      type: 'page' as const,
+    },
+    {
+      label: 'Autores',
+      url: '',
+      isActive: true,
+      isClickable: false,
+      type: 'custom' as const,
+    },
+  ]);
+
+  private isBrowser: boolean;
+  private destroy$ = new Subject<void>();
+
+  constructor() {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+  }
+
+  ngOnInit(): void {
+    this.route.queryParams
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((params) => {
+        const query = this.parseQuery(params);
+        this._query.set(query);
+        this.loadAuthors(query);
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Lee los filtros de los query params
+   */
+  private parseQuery(params: Params): DirectoryQuery {
+    const sortBy = SORT_OPTIONS.some(
+      (option) => option.value === params['sort']
+    )
+      ? (params['sort'] as AuthorSortBy)
+      : 'name';
+    const month = (value: unknown) =>
+      typeof value === 'string' && parseQueryDate(value, 'start') ? value : '';
+
+    return {
+      search: typeof params['q'] === 'string' ? params['q'] : '',
+      sortBy,
+      activeOnly: params['todos'] !== '1',
+      withPublishedPosts: params['publicados'] === '1',
+      registeredFrom: month(params['desde']),
+      registeredTo: month(params['hasta']),
+      page: parseInt(params['page'] || '1', 10) || 1,
+    };
+  }
+
+  /**
+   * Carga la página de autores que corresponde a los filtros
+   */
+  private loadAuthors(query: DirectoryQuery): void {
+    this._loading.set(true);
+    this._error.set(null);
+
+    const filters: AuthorFilters = {
+      search: query.search,
+      activeOnly: query.activeOnly,
+      withPublishedPosts: query.withPublishedPosts,
+      registeredFrom: query.registeredFrom
+        ? parseQueryDate(query.registeredFrom, 'start')
+        : undefined,
+      registeredTo: query.registeredTo
+        ? parseQueryDate(query.registeredTo, 'end')
+        : undefined,
+      sortBy: query.sortBy,
+      sortDirection: SORT_OPTIONS.find(
+        (option) => option.value === query.sortBy
+      )!.direction,
+    };
+
+    this.authorService
+      .getAuthors(query.page, this.config.itemsPerPage, filters)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (response) => {
+          this._authors.set(response.data);
+          this._pagination.set(response.pagination);
+          this._loading.set(false);
+
+          this.seoService.setupAuthorsDirectorySEO(
+            this.config.title,
+            this.config.description,
+            response.pagination.totalItems
+          );
+        },
+        error: (error) => {
+          console.error('Error loading authors:', error);
+          this._error.set('Error al cargar los autores');
+          this._loading.set(false);
+        },
+      });
+  }
+
+  /**
+   * Actualiza los filtros en la URL (vuelve a la primera página)
+   */
+  updateQuery(changes: Partial<DirectoryQuery>): void {
+    const query = { ...this.query(), ...changes, page: 1 };
+
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: {
+        q: query.search.trim() || null,
+        sort: query.sortBy !== 'name' ? query.sortBy : null,
+        todos: query.activeOnly ? null : '1',
+        publicados: query.withPublishedPosts ? '1' : null,
+        desde: query.registeredFrom || null,
+        hasta: query.registeredTo || null,
+        page: null,
+      },
+    });
+  }
+
+  /**
+   * Restablece todos los filtros
+   */
+  clearFilters(): void {
+    this.router.navigate([], { relativeTo: this.route });
+  }
+
+  /**
+   * Cambia la vista del directorio
+   */
+  setView(view: AuthorDirectoryConfig['defaultView']): void {
+    this._view.set(view);
+  }
+
+  /**
+   * Maneja el cambio de página
+   */
+  onPageChange(event: PageChangeEvent): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { page: event.page > 1 ? event.page : null },
+      queryParamsHandling: 'merge',
+    });
+
+    if (this.isBrowser) {
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    }
+  }
+
+  /**
+   * URL del perfil de un autor
+   */
+  getAuthorUrl(author: AuthorSummary): string {
+    return this.localeService.localize(`/blog/autor/${author.slug}`);
+  }
+}
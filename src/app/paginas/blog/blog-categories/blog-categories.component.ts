@@ -0,0 +1,347 @@
+import {
+  Component,
+  OnInit,
+  OnDestroy,
+  ChangeDetectionStrategy,
+  signal,
+  computed,
+  inject,
+  PLATFORM_ID,
+} from '@angular/core';
+import { CommonModule, isPlatformBrowser } from '@angular/common';
+import { ActivatedRoute, Params, Router, RouterLink } from '@angular/router';
+import { Subject, takeUntil } from 'rxjs';
+
+import { CategoriaService } from '../../../core/services/categoria.service';
+import { SEOService } from '../../../core/services/seo.service';
+import { LocaleService } from '../../../core/services/locale.service';
+import { categoryPathUrl } from '../../../core/data-sources/category-paths';
+import {
+  CategoryArchiveConfig,
+  CategoryTree,
+} from '../../../core/models/categoria.interface';
+import {
+  BlogCategory,
+  BlogPagination,
+} from '../../../core/models/blog.interface';
+import { normalizeText } from '../../../core/search/text-analysis';
+import {
+  BlogPaginationComponent,
+  PageChangeEvent,
+} from '../../../shared/blog-pagination/blog-pagination.component';
+import { BreadcrumbComponent } from '../../../shared/breadcrumb/breadcrumb.component';
+
+/**
+ * Estado del archivo tal como va en la URL
+ */
+interface ArchiveQuery {
+  search: string;
+  page: number;
+}
+
+@Component({
+  selector: 'app-blog-categories',
+  standalone: true,
+  imports: [
+    CommonModule,
+    RouterLink,
+    BlogPaginationComponent,
+    BreadcrumbComponent,
+  ],
+  templateUrl: './blog-categories.component.html',
+  styleUrls: ['./blog-categories.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class BlogCategoriesComponent implements OnInit, OnDestroy {
+  // Dependency injection
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private categoriaService = inject(CategoriaService);
+  private seoService = inject(SEOService);
+  private platformId = inject(PLATFORM_ID);
+  private localeService = inject(LocaleService);
+
+  // Configuración del archivo
+  readonly config: CategoryArchiveConfig = {
+    title: 'Categorías',
+    description:
+      'Explora el blog por temas: cada categoría reúne sus artículos y los de sus subcategorías.',
+    showEmptyCategories: false,
+    groupByLetter: true,
+    defaultView: 'grid',
+    allowViewChange: true,
+    enableSearch: true,
+    itemsPerPage: 12,
+  };
+
+  readonly views: {
+    value: CategoryArchiveConfig['defaultView'];
+    label: string;
+  }[] = [
+    { value: 'grid', label: 'Cuadrícula' },
+    { value: 'list', label: 'Lista' },
+    { value: 'tree', label: 'Árbol' },
+  ];
+
+  // Estado reactivo
+  private readonly _loading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+  private readonly _tree = signal<CategoryTree[]>([]);
+  private readonly _query = signal<ArchiveQuery>(this.parseQuery({}));
+  private readonly _view = signal<CategoryArchiveConfig['defaultView']>(
+    this.config.defaultView
+  );
+
+  // Computed signals
+  readonly loading = this._loading.asReadonly();
+  readonly error = this._error.asReadonly();
+  readonly query = this._query.asReadonly();
+  readonly view = this._view.asReadonly();
+
+  /** Categorías que coinciden con la búsqueda, por nombre */
+  readonly entries = computed(() => {
+    const search = normalizeText(this.query().search.trim());
+
+    return this.flattenTree(this._tree())
+      .filter(
+        (node) =>
+          this.isListed(node) &&
+          (!search || this.matchesSearch(node.category, search))
+      )
+      .sort((a, b) => a.category.name.localeCompare(b.category.name, 'es'));
+  });
+
+  /** Ramas del árbol con alguna coincidencia (una categoría que coincide conserva sus hijas) */
+  readonly branches = computed(() =>
+    this.pruneTree(this._tree(), normalizeText(this.query().search.trim()))
+  );
+
+  readonly totalCategories = computed(() => this.entries().length);
+
+  /** En la vista de árbol se pagina por ramas principales */
+  readonly pagination = computed<BlogPagination>(() => {
+    const totalItems =
+      this.view() === 'tree' ? this.branches().length : this.entries().length;
+    const itemsPerPage = this.config.itemsPerPage;
+    const totalPages = Math.max(1, Math.ceil(totalItems / itemsPerPage));
+    const currentPage = Math.min(this.query().page, totalPages);
+
+    return {
+      currentPage,
+      totalPages,
+      totalItems,
+      itemsPerPage,
+      hasPrevious: currentPage > 1,
+      hasNext: currentPage < totalPages,
+    };
+  });
+
+  /** Categorías de la página actual agrupadas por inicial */
+  readonly groups = computed(() => {
+    const entries = this.pageOf(this.entries());
+    if (!this.config.groupByLetter) {
+      return [{ letter: '', entries }];
+    }
+
+    const groups = new Map<string, CategoryTree[]>();
+    entries.forEach((node) => {
+      const letter = normalizeText(node.category.name.charAt(0)).toUpperCase();
+      groups.set(letter, [...(groups.get(letter) || []), node]);
+    });
+
+    return Array.from(groups, ([letter, entries]) => ({ letter, entries }));
+  });
+
+  /** Filas de la vista de árbol, en profundidad */
+  readonly treeRows = computed(() =>
+    this.flattenTree(this.pageOf(this.branches()))
+  );
+
+  readonly breadcrumbs = computed(() => [
+    {
+      label: 'Inicio',
+      url: this.localeService.localize('/'),
+      isActive: false,
+      isClickable: true,
+      type: 'home' as const,
+    },
+    {
+      label: 'Blog',
+      url: this.localeService.localize('/blog'),
+      isActive: false,
+      isClickable: true,
+      type: 'page' as const,
+    },
+    {
+      label: 'Categorías',
+      url: '',
+      isActive: true,
+      isClickable: false,
+      type: 'custom' as const,
+    },
+  ]);
+
+  private isBrowser: boolean;
+  private destroy$ = new Subject<void>();
+
+  constructor() {
+    this.isBrowser = isPlatformBrowser(this.platformId);
+  }
+
+  ngOnInit(): void {
+    this.route.queryParams
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((params) => this._query.set(this.parseQuery(params)));
+
+    this.loadCategories();
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /**
+   * Lee la búsqueda y la página de los query params
+   */
+  private parseQuery(params: Params): ArchiveQuery {
+    return {
+      search: typeof params['q'] === 'string' ? params['q'] : '',
+      page: parseInt(params['page'] || '1', 10) || 1,
+    };
+  }
+
+  /**
+   * Carga el árbol completo de categorías
+   */
+  private loadCategories(): void {
+    this._loading.set(true);
+    this._error.set(null);
+
+    this.categoriaService
+      .getCategoryTree()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (tree) => {
+          this._tree.set(tree);
+          this._loading.set(false);
+
+          this.seoService.setupCategoryArchiveSEO(
+            this.config.title,
+            this.config.description,
+            this.flattenTree(tree).filter((node) => this.isListed(node)).length
+          );
+        },
+        error: (error) => {
+          console.error('Error loading categories:', error);
+          this._error.set('Error al cargar las categorías');
+          this._loading.set(false);
+        },
+      });
+  }
+
+  /**
+   * Si la categoría se muestra en el archivo
+   */
+  private isListed(node: CategoryTree): boolean {
+    return (
+      node.category.isActive &&
+      (this.config.showEmptyCategories || node.totalPostsWithChildren > 0)
+    );
+  }
+
+  /**
+   * Si la categoría coincide con el término (ya normalizado)
+   */
+  private matchesSearch(category: BlogCategory, search: string): boolean {
+    return [category.name, category.description, ...category.seo.keywords]
+      .map((text) => normalizeText(text))
+      .some((text) => text.includes(search));
+  }
+
+  /**
+   * Conserva las ramas visibles con alguna coincidencia
+   */
+  private pruneTree(nodes: CategoryTree[], search: string): CategoryTree[] {
+    return nodes.flatMap((node) => {
+      if (!this.isListed(node)) return [];
+
+      const matches = !search || this.matchesSearch(node.category, search);
+      const children = this.pruneTree(node.children, matches ? '' : search);
+      if (!matches && children.length === 0) return [];
+
+      return [{ ...node, children, hasChildren: children.length > 0 }];
+    });
+  }
+
+  /**
+   * Recorre el árbol en profundidad
+   */
+  private flattenTree(nodes: CategoryTree[]): CategoryTree[] {
+    return nodes.flatMap((node) => [node, ...this.flattenTree(node.children)]);
+  }
+
+  /**
+   * Elementos de la página actual
+   */
+  private pageOf<T>(items: T[]): T[] {
+    const { currentPage, itemsPerPage } = this.pagination();
+    const start = (currentPage - 1) * itemsPerPage;
+    return items.slice(start, start + itemsPerPage);
+  }
+
+  /**
+   * Actualiza la búsqueda en la URL (vuelve a la primera página)
+   */
+  onSearch(search: string): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { q: search.trim() || null, page: null },
+      replaceUrl: true,
+    });
+  }
+
+  /**
+   * Restablece la búsqueda
+   */
+  clearSearch(): void {
+    this.router.navigate([], { relativeTo: this.route });
+  }
+
+  /**
+   * Cambia la vista del archivo (vuelve a la primera página)
+   */
+  setView(view: CategoryArchiveConfig['defaultView']): void {
+    this._view.set(view);
+
+    if (this.query().page > 1) {
+      this.router.navigate([], {
+        relativeTo: this.route,
+        queryParams: { page: null },
+        queryParamsHandling: 'merge',
+      });
+    }
+  }
+
+  /**
+   * Maneja el cambio de página
+   */
+  onPageChange(event: PageChangeEvent): void {
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: { page: event.page > 1 ? event.page : null },
+      queryParamsHandling: 'merge',
+    });
+
+    if (this.isBrowser) {
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    }
+  }
+
+  /**
+   * URL de la página de una categoría
+   */
+  getCategoryUrl(node: CategoryTree): string {
+    return this.localeService.localize(categoryPathUrl(node.slugPath));
+  }
+}
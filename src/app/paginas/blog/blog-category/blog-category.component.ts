@@ -18,10 +18,16 @@ import { BlogSidebarComponent } from '../../../shared/blog-sidebar/blog-sidebar.
 import { BlogPaginationComponent } from '../../../shared/blog-pagination/blog-pagination.component';
 import { BlogSearchComponent } from '../../../shared/blog-search/blog-search.component';
 import { BreadcrumbComponent } from '../../../shared/breadcrumb/breadcrumb.component';
+import { TranslatePipe } from '../../../core/pipes/i18n.pipes';
 
 // Servicios
 import { BlogService } from '../../../core/services/blog.service';
 import { CategoriaService } from '../../../core/services/categoria.service';
+import { LocaleService } from '../../../core/services/locale.service';
+import { I18nService } from '../../../core/services/i18n.service';
+import { postPath } from '../../../core/i18n/locales';
+import { MessageKey } from '../../../core/i18n/translate';
+import { categoryPathUrl } from '../../../core/data-sources/category-paths';
 
 // Interfaces
 import type {
@@ -32,12 +38,17 @@ import type {
 } from '../../../core/models/blog.interface';
 import type {
   BlogCategory,
+  CategoryPathMatch,
   CategoryStats,
 } from '../../../core/models/categoria.interface';
 
 // Interfaces específicas para la página
 export interface CategoryPageState {
   category: BlogCategory | null;
+  /** Categorías superiores, desde la raíz */
+  ancestors: BlogCategory[];
+  /** Subcategorías a cualquier profundidad */
+  descendantIds: string[];
   posts: BlogPost[];
   subcategories: BlogCategory[];
   relatedCategories: BlogCategory[];
@@ -63,6 +74,8 @@ export interface CategoryPageConfig {
 
 export interface CategoryFilters extends BlogFilters {
   includeFeatured: boolean;
+  /** Incluir los posts de las subcategorías */
+  includeSubcategories: boolean;
   dateRange: 'all' | 'week' | 'month' | 'year';
   minReadingTime?: number;
   maxReadingTime?: number;
@@ -79,6 +92,7 @@ export interface CategoryFilters extends BlogFilters {
     BlogPaginationComponent,
     BlogSearchComponent,
     BreadcrumbComponent,
+    TranslatePipe,
   ],
   templateUrl: './blog-category.component.html',
   styleUrl: './blog-category.component.css',
@@ -87,6 +101,8 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
   // Referencias y servicios
   private readonly blogService = inject(BlogService);
   private readonly categoriaService = inject(CategoriaService);
+  private readonly localeService = inject(LocaleService);
+  private readonly i18n = inject(I18nService);
   private readonly router = inject(Router);
   private readonly route = inject(ActivatedRoute);
   private readonly titleService = inject(Title);
@@ -99,6 +115,8 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
   // Signals para estado
   readonly pageState = signal<CategoryPageState>({
     category: null,
+    ancestors: [],
+    descendantIds: [],
     posts: [],
     subcategories: [],
     relatedCategories: [],
@@ -117,6 +135,7 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
     authorId: '',
     sortBy: 'publishedAt',
     includeFeatured: false,
+    includeSubcategories: true,
     dateRange: 'all',
   });
 
@@ -133,6 +152,10 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
 
   // Estado computado
   readonly currentCategory = computed(() => this.pageState().category);
+  readonly ancestors = computed(() => this.pageState().ancestors);
+  readonly hasDescendants = computed(
+    () => this.pageState().descendantIds.length > 0
+  );
   readonly currentPosts = computed(() => this.pageState().posts);
   readonly subcategories = computed(() => this.pageState().subcategories);
   readonly relatedCategories = computed(
@@ -146,6 +169,10 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
     () =>
       !this.isLoading() && !this.hasError() && this.currentPosts().length === 0
   );
+  readonly blogUrl = computed(() => this.localeService.localize('/blog'));
+  readonly categoriesUrl = computed(() =>
+    this.localeService.localize('/blog/categorias')
+  );
 
   // Filtros activos computados
   readonly activeFilters = computed(() => {
@@ -201,8 +228,11 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
       title: `${category.name} - Blog`,
       description:
         category.description ||
-        `Artículos sobre ${category.name}. ${postsCount} artículos disponibles.`,
-      keywords: `${category.name}, blog, artículos`,
+        this.i18n.t('category.seo.description', {
+          name: category.name,
+          count: postsCount,
+        }),
+      keywords: this.i18n.t('category.seo.keywords', { name: category.name }),
       canonicalUrl: this.isBrowser ? window.location.href : '',
       ogImage: category.image || '/assets/images/category-default.jpg',
       breadcrumbs: this.generateBreadcrumbs(category),
@@ -228,16 +258,16 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
       .pipe(
         takeUntil(this.destroy$),
         switchMap(([params, queryParams]) => {
-          const slug = params['slug'];
-          if (!slug) {
-            this.router.navigate(['/blog']);
+          const path: string | undefined = params['path'] || params['slug'];
+          if (!path) {
+            this.router.navigateByUrl(this.blogUrl());
             return [];
           }
 
           // Actualizar filtros desde query params
           this.updateFiltersFromParams(queryParams);
 
-          return this.loadCategoryData(slug);
+          return this.loadCategoryData(path.split('/'));
         })
       )
       .subscribe();
@@ -253,13 +283,14 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
       sortBy: params['sort'] || 'publishedAt',
       dateRange: params['date'] || 'all',
       includeFeatured: params['featured'] === 'true',
+      includeSubcategories: params['subcategorias'] !== 'false',
     });
 
     const currentPage = parseInt(params['page']) || 1;
     this.updatePageState({ currentPage });
   }
 
-  private async loadCategoryData(slug: string) {
+  private async loadCategoryData(slugs: string[]) {
     try {
       this.updatePageState({
         isLoading: true,
@@ -268,20 +299,34 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
       });
 
       // Cargar categoría principal
-      const category = await this.loadCategoryBySlug(slug);
-      if (!category) {
+      const match = await this.loadCategoryByPath(slugs);
+      if (!match) {
         this.updatePageState({
           hasError: true,
-          errorMessage: 'Categoría no encontrada',
+          errorMessage: this.i18n.t('category.notFound'),
           isLoading: false,
         });
         return;
       }
 
+      // URL plana o con otra jerarquía: redirigir a la canónica
+      if (match.slugPath.join('/') !== slugs.join('/')) {
+        const canonical = categoryPathUrl(match.slugPath);
+        this.router.navigate([this.localeService.localize(canonical)], {
+          replaceUrl: true,
+          queryParamsHandling: 'preserve',
+        });
+        return;
+      }
+
+      const { category, ancestors, descendantIds } = match;
+
       // Cargar datos relacionados en paralelo
       const [posts, subcategories, relatedCategories, stats] =
         await Promise.all([
-          this.loadCategoryPosts(category.id),
+          this.loadCategoryPosts(
+            this.postCategoryIds(category.id, descendantIds)
+          ),
           this.loadSubcategories(category.id),
           this.loadRelatedCategories(category.id),
           this.loadCategoryStats(category.id),
@@ -289,6 +334,8 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
 
       this.updatePageState({
         category,
+        ancestors,
+        descendantIds,
         posts: posts?.data || [],
         subcategories,
         relatedCategories,
@@ -306,26 +353,40 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
       console.error('Error loading category data:', error);
       this.updatePageState({
         hasError: true,
-        errorMessage: 'Error al cargar la categoría',
+        errorMessage: this.i18n.t('error.loadCategory'),
         isLoading: false,
       });
     }
   }
 
-  private async loadCategoryBySlug(slug: string): Promise<BlogCategory | null> {
+  private async loadCategoryByPath(
+    slugs: string[]
+  ): Promise<CategoryPathMatch | null> {
     try {
-      const categoriesResponse = await this.categoriaService
-        .getCategories()
-        .toPromise();
-      return categoriesResponse?.data?.find((cat) => cat.slug === slug) || null;
+      return (
+        (await this.categoriaService.getCategoryByPath(slugs).toPromise()) ||
+        null
+      );
     } catch (error) {
       console.error('Error loading category:', error);
       return null;
     }
   }
 
+  /**
+   * Categorías cuyos posts se listan: la actual y, si se piden, sus subcategorías
+   */
+  private postCategoryIds(
+    categoryId: string,
+    descendantIds: string[]
+  ): string[] {
+    return this.filters().includeSubcategories
+      ? [categoryId, ...descendantIds]
+      : [categoryId];
+  }
+
   private async loadCategoryPosts(
-    categoryId: string
+    categoryIds: string[]
   ): Promise<BlogPostsResponse | null> {
     try {
       const filters = this.filters();
@@ -333,7 +394,7 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
       const config = this.config();
 
       const blogFilters: BlogFilters = {
-        categoryIds: [categoryId],
+        categoryIds,
         tags: filters.tags,
         authorId: filters.authorId,
         sortBy: filters.sortBy,
@@ -354,11 +415,11 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
     try {
       if (!this.config().showSubcategories) return [];
 
-      const categoriesResponse = await this.categoriaService
-        .getCategories(1, 100)
+      const subcategories = await this.categoriaService
+        .getSubcategories(parentCategoryId)
         .toPromise();
 
-      return categoriesResponse?.data || [];
+      return (subcategories || []).filter((category) => category.isActive);
     } catch (error) {
       console.error('Error loading subcategories:', error);
       return [];
@@ -497,7 +558,7 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
       url: window.location.href,
       mainEntity: {
         '@type': 'ItemList',
-        name: `Artículos de ${category.name}`,
+        name: this.i18n.t('category.seo.itemList', { name: category.name }),
         numberOfItems: stats?.totalPosts || 0,
         itemListElement: this.currentPosts().map((post, index) => ({
           '@type': 'ListItem',
@@ -510,7 +571,7 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
             datePublished: post.publishedAt,
             author: {
               '@type': 'Person',
-              name: post.author?.name || 'Autor desconocido',
+              name: post.author?.name || this.i18n.t('blog.unknownAuthor'),
             },
           },
         })),
@@ -545,55 +606,53 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
   private generateBreadcrumbs(
     category: BlogCategory
   ): Array<{ name: string; url: string }> {
-    const breadcrumbs = [
-      { name: 'Inicio', url: '/' },
-      { name: 'Blog', url: '/blog' },
-      { name: category.name, url: `/blog/categoria/${category.slug}` },
-    ];
+    const chain = [...this.ancestors(), category];
 
-    // Si tiene categoría padre, agregarla
-    if (category.parentId) {
-      // Buscar categoría padre (simplificado)
-      breadcrumbs.splice(-1, 0, {
-        name: 'Categoría Padre',
-        url: `/blog/categoria/parent-slug`,
-      });
-    }
+    return [
+      {
+        name: this.i18n.t('nav.home'),
+        url: this.localeService.localize('/'),
+      },
+      { name: this.i18n.t('nav.blog'), url: this.blogUrl() },
+      { name: this.i18n.t('nav.categories'), url: this.categoriesUrl() },
+      // Cada nivel enlaza a su URL jerárquica
+      ...chain.map((item, index) => ({
+        name: item.name,
+        url: this.localeService.localize(
+          categoryPathUrl(
+            chain.slice(0, index + 1).map((ancestor) => ancestor.slug)
+          )
+        ),
+      })),
+    ];
+  }
 
-    return breadcrumbs;
+  /**
+   * Navega a una categoría conservando el idioma actual
+   */
+  private navigateToCategory(category: BlogCategory): void {
+    const url = this.categoriaService.getCategoryUrl(category);
+    this.router.navigateByUrl(this.localeService.localize(url));
   }
 
   // Métodos públicos para el template
   onPostClick(post: BlogPost): void {
-    this.router.navigate(['/blog/post', post.slug]);
+    this.router.navigateByUrl(postPath(post));
   }
 
   onSubcategoryClick(event: { post: BlogPost; categoryId: string }): void {
     const category = this.subcategories().find(cat => cat.id === event.categoryId);
     if (category) {
-      this.router.navigate(['/blog/categoria', category.slug]);
+      this.navigateToCategory(category);
     }
   }
 
   onSubcategoryNavClick(subcategory: BlogCategory): void {
-    this.router.navigate(['/blog/categoria', subcategory.slug]);
+    this.navigateToCategory(subcategory);
   }
 
   onRelatedCategoryClick(category: BlogCategory): void {
-    this.router.navigate(['/blog/categoria', category.slug]);
-  }
-
-  onTagClick(event: { post: BlogPost; tag: string }): void {
-    const tag = event.tag;
-    this.filters.update((current) => ({
-      ...current,
-      tags: (current.tags || []).includes(tag)
-        ? (current.tags || []).filter((t) => t !== tag)
-        : [...(current.tags || []), tag],
-    }));
-    this.updatePageState({ currentPage: 1 });
-    this.updateUrlParams();
-    this.reloadPosts();
+    this.navigateToCategory(category);
   }
 
   onTagDirectClick(tag: string): void {
@@ -620,19 +679,7 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
 
   // Sidebar event handlers
   onSidebarCategoryClick(category: BlogCategory): void {
-    this.router.navigate(['/blog/categoria', category.slug]);
-  }
-
-  onSidebarTagClick(tag: string): void {
-    this.filters.update((current) => ({
-      ...current,
-      tags: (current.tags || []).includes(tag)
-        ? (current.tags || []).filter((t) => t !== tag)
-        : [...(current.tags || []), tag],
-    }));
-    this.updatePageState({ currentPage: 1 });
-    this.updateUrlParams();
-    this.reloadPosts();
+    this.navigateToCategory(category);
   }
 
   onSortChanged(sortBy: BlogSortBy): void {
@@ -670,6 +717,16 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
     this.reloadPosts();
   }
 
+  toggleSubcategoriesFilter(): void {
+    this.filters.update((current) => ({
+      ...current,
+      includeSubcategories: !current.includeSubcategories,
+    }));
+    this.updatePageState({ currentPage: 1 });
+    this.updateUrlParams();
+    this.reloadPosts();
+  }
+
   clearAllFilters(): void {
     this.filters.set({
       categoryIds: [this.currentCategory()?.id || ''],
@@ -677,6 +734,7 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
       authorId: '',
       sortBy: 'publishedAt',
       includeFeatured: false,
+      includeSubcategories: true,
       dateRange: 'all',
     });
     this.updatePageState({ currentPage: 1 });
@@ -711,7 +769,9 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
     try {
       this.updatePageState({ isLoading: true });
 
-      const posts = await this.loadCategoryPosts(category.id);
+      const posts = await this.loadCategoryPosts(
+        this.postCategoryIds(category.id, this.pageState().descendantIds)
+      );
 
       this.updatePageState({
         posts: posts?.data || [],
@@ -740,6 +800,7 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
     if (filters.sortBy !== 'publishedAt') queryParams.sort = filters.sortBy;
     if (filters.dateRange !== 'all') queryParams.date = filters.dateRange;
     if (filters.includeFeatured) queryParams.featured = 'true';
+    if (!filters.includeSubcategories) queryParams.subcategorias = 'false';
     if (state.currentPage > 1) queryParams.page = state.currentPage;
 
     this.router.navigate([], {
@@ -764,22 +825,22 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
     }
   }
 
-  get sortOptions(): Array<{ value: BlogSortBy; label: string }> {
+  get sortOptions(): Array<{ value: BlogSortBy; label: MessageKey }> {
     return [
-      { value: 'publishedAt', label: 'Más recientes' },
-      { value: 'createdAt', label: 'Más antiguos' },
-      { value: 'views', label: 'Más populares' },
-      { value: 'views', label: 'Más vistos' },
-      { value: 'likes', label: 'Más valorados' },
+      { value: 'publishedAt', label: 'blog.sort.publishedAt' },
+      { value: 'createdAt', label: 'blog.sort.createdAt' },
+      { value: 'views', label: 'search.sort.popular' },
+      { value: 'views', label: 'blog.sort.views' },
+      { value: 'likes', label: 'blog.sort.likes' },
     ];
   }
 
-  get dateRangeOptions(): Array<{ value: string; label: string }> {
+  get dateRangeOptions(): Array<{ value: string; label: MessageKey }> {
     return [
-      { value: 'all', label: 'Todo el tiempo' },
-      { value: 'week', label: 'Esta semana' },
-      { value: 'month', label: 'Este mes' },
-      { value: 'year', label: 'Este año' },
+      { value: 'all', label: 'blog.dateRange.all' },
+      { value: 'week', label: 'blog.dateRange.week' },
+      { value: 'month', label: 'blog.dateRange.month' },
+      { value: 'year', label: 'blog.dateRange.year' },
     ];
   }
 
@@ -793,10 +854,6 @@ export class BlogCategoryComponent implements OnInit, OnDestroy {
   }
 
   // Métodos de utilidad
-  formatNumber(num: number): string {
-    return new Intl.NumberFormat('es-ES').format(num);
-  }
-
   formatPercentage(num: number): string {
     return `${num.toFixed(1)}%`;
   }
@@ -1,7 +1,9 @@
 import {
+  afterNextRender,
   Component,
   computed,
   inject,
+  Injector,
   OnInit,
   OnDestroy,
   PLATFORM_ID,
@@ -16,17 +18,44 @@ import { DomSanitizer, SafeHtml } from '@angular/platform-browser';
 // Componentes compartidos
 import { BlogCardComponent } from '../../../shared/blog-card/blog-card.component';
 import { BreadcrumbComponent } from '../../../shared/breadcrumb/breadcrumb.component';
+import {
+  LocaleDatePipe,
+  TranslatePipe,
+} from '../../../core/pipes/i18n.pipes';
 
 // Servicios
 import { BlogService } from '../../../core/services/blog.service';
+import { SEOService } from '../../../core/services/seo.service';
+import { CategoriaService } from '../../../core/services/categoria.service';
+import { LocaleService } from '../../../core/services/locale.service';
+import { I18nService } from '../../../core/services/i18n.service';
+import { ThemeService } from '../../../core/services/theme.service';
+import { PrintService } from '../../../core/services/print.service';
+import { tagSlug } from '../../../core/data-sources/blog-tags';
+import { sanitizeHtml } from '../../../core/content/html-sanitizer';
+import { flattenTableOfContents } from '../../../core/content/table-of-contents';
+import { embedFrameSrc } from '../../../core/content/shortcodes';
+import {
+  contentLocale,
+  localeConfig,
+  postPath,
+} from '../../../core/i18n/locales';
 
 // Interfaces
-import type { BlogPost } from '../../../core/models/blog.interface';
+import type {
+  BlogAdjacentPosts,
+  BlogAdjacentScope,
+  BlogPost,
+  BlogSeriesDetail,
+  BlogTocEntry,
+} from '../../../core/models/blog.interface';
 
 // Interfaces específicas para la página
 export interface BlogDetailState {
   post: BlogPost | null;
   relatedPosts: BlogPost[];
+  adjacentPosts: BlogAdjacentPosts;
+  series: BlogSeriesDetail | null;
   isLoading: boolean;
   hasError: boolean;
   errorMessage: string | null;
@@ -36,6 +65,8 @@ export interface BlogDetailState {
 export interface BlogDetailConfig {
   showRelatedPosts: boolean;
   maxRelatedPosts: number;
+  /** Navegar por todo el blog o solo por la categoría principal */
+  adjacentScope: BlogAdjacentScope;
   showSocialShare: boolean;
   showAuthorBio: boolean;
   showTableOfContents: boolean;
@@ -57,6 +88,15 @@ export interface SocialPlatform {
   shareUrl: string;
 }
 
+export interface SeriesNavigation {
+  series: BlogSeriesDetail;
+  /** Parte actual (empieza en 1) */
+  part: number;
+  total: number;
+  previous: BlogPost | null;
+  next: BlogPost | null;
+}
+
 export interface ReadingProgress {
   percentage: number;
   estimatedTimeLeft: number;
@@ -67,13 +107,27 @@ export interface ReadingProgress {
 @Component({
   selector: 'app-blog-detail',
   standalone: true,
-  imports: [CommonModule, RouterModule, BlogCardComponent, BreadcrumbComponent, NgOptimizedImage],
+  imports: [
+    CommonModule,
+    RouterModule,
+    BlogCardComponent,
+    BreadcrumbComponent,
+    NgOptimizedImage,
+    TranslatePipe,
+    LocaleDatePipe,
+  ],
   templateUrl: './blog-detail.component.html',
   styleUrl: './blog-detail.component.css',
 })
 export class BlogDetailComponent implements OnInit, OnDestroy {
   // Referencias y servicios
   private readonly blogService = inject(BlogService);
+  private readonly seoService = inject(SEOService);
+  private readonly localeService = inject(LocaleService);
+  private readonly categoriaService = inject(CategoriaService);
+  private readonly i18n = inject(I18nService);
+  private readonly themeService = inject(ThemeService);
+  private readonly printService = inject(PrintService);
   private readonly router = inject(Router);
   private readonly route = inject(ActivatedRoute);
   private readonly titleService = inject(Title);
@@ -81,15 +135,22 @@ export class BlogDetailComponent implements OnInit, OnDestroy {
   private readonly sanitizer = inject(DomSanitizer);
   private readonly platformId = inject(PLATFORM_ID);
   private readonly document = inject(DOCUMENT);
+  private readonly injector = inject(Injector);
 
   private readonly destroy$ = new Subject<void>();
   private isBrowser = false;
   private readingProgressInterval?: number;
+  private readonly copyFeedbackTimers = new WeakMap<
+    HTMLElement,
+    ReturnType<typeof setTimeout>
+  >();
 
   // Signals para estado
   readonly blogState = signal<BlogDetailState>({
     post: null,
     relatedPosts: [],
+    adjacentPosts: { previous: null, next: null },
+    series: null,
     isLoading: true,
     hasError: false,
     errorMessage: null,
@@ -99,6 +160,7 @@ export class BlogDetailComponent implements OnInit, OnDestroy {
   readonly config = signal<BlogDetailConfig>({
     showRelatedPosts: true,
     maxRelatedPosts: 4,
+    adjacentScope: 'all',
     showSocialShare: true,
     showAuthorBio: true,
     showTableOfContents: true,
@@ -124,17 +186,44 @@ export class BlogDetailComponent implements OnInit, OnDestroy {
   // Estado computado
   readonly currentPost = computed(() => this.blogState().post);
   readonly relatedPosts = computed(() => this.blogState().relatedPosts);
+  readonly previousPost = computed(() => this.blogState().adjacentPosts.previous);
+  readonly nextPost = computed(() => this.blogState().adjacentPosts.next);
+  readonly seriesNavigation = computed<SeriesNavigation | null>(() => {
+    const { post, series } = this.blogState();
+    if (!post || !series) return null;
+
+    const index = series.posts.findIndex((item) => item.id === post.id);
+    if (index === -1) return null;
+
+    return {
+      series,
+      part: index + 1,
+      total: series.posts.length,
+      previous: series.posts[index - 1] || null,
+      next: series.posts[index + 1] || null,
+    };
+  });
+  /** Enlaces a las traducciones del post */
+  readonly translationLinks = computed(() =>
+    (this.currentPost()?.translations || []).map((translation) => ({
+      locale: translation.locale,
+      label: localeConfig(translation.locale).readLabel,
+      url: postPath(translation),
+    }))
+  );
+  readonly blogUrl = computed(() => this.localeService.localize('/blog'));
   readonly isLoading = computed(() => this.blogState().isLoading);
   readonly hasError = computed(() => this.blogState().hasError);
   readonly hasContent = computed(
     () => !!this.currentPost() && this.blogState().isContentLoaded
   );
 
-  // Contenido sanitizado
+  // Contenido sanitizado: la política propia admite anclas, clases e
+  // iframes de embeds que el sanitizador de Angular eliminaría
   readonly sanitizedContent = computed(() => {
     const post = this.currentPost();
     if (!post?.content) return null;
-    return this.sanitizer.bypassSecurityTrustHtml(post.content);
+    return this.sanitizer.bypassSecurityTrustHtml(sanitizeHtml(post.content));
   });
 
   // Configuración de redes sociales
@@ -197,35 +286,18 @@ export class BlogDetailComponent implements OnInit, OnDestroy {
       url: this.isBrowser ? window.location.href : '',
       publishedTime: post.publishedAt?.toISOString(),
       modifiedTime: post.updatedAt.toISOString(),
-      author: post.author?.name || 'Anónimo',
+      author: post.author?.name || this.i18n.t('post.anonymousAuthor'),
       section: post.categories?.[0]?.name || 'Blog',
     };
   });
 
-  // Table of Contents
-  readonly tableOfContents = computed(() => {
-    const post = this.currentPost();
-    if (!post?.content) return [];
-
-    // Extraer headings del contenido HTML
-    const headings: Array<{ id: string; text: string; level: number }> = [];
-    const parser = this.isBrowser ? new DOMParser() : null;
-
-    if (parser) {
-      const doc = parser.parseFromString(post.content, 'text/html');
-      const headingElements = doc.querySelectorAll('h1, h2, h3, h4, h5, h6');
-
-      headingElements.forEach((heading, index) => {
-        const level = parseInt(heading.tagName.charAt(1));
-        const text = heading.textContent || '';
-        const id = heading.id || `heading-${index}`;
-
-        headings.push({ id, text, level });
-      });
-    }
-
-    return headings;
-  });
+  // Table of Contents (calculado al procesar el contenido, también en SSR)
+  readonly tableOfContents = computed(
+    () => this.currentPost()?.tableOfContents ?? []
+  );
+  private readonly tocHeadingIds = computed(() =>
+    flattenTableOfContents(this.tableOfContents()).map((entry) => entry.id)
+  );
 
   constructor() {
     this.isBrowser = isPlatformBrowser(this.platformId);
@@ -246,6 +318,8 @@ export class BlogDetailComponent implements OnInit, OnDestroy {
     if (this.readingProgressInterval) {
       clearInterval(this.readingProgressInterval);
     }
+
+    this.updateRelLinks({ previous: null, next: null });
   }
 
   private setupRouteSubscription(): void {
@@ -255,7 +329,7 @@ export class BlogDetailComponent implements OnInit, OnDestroy {
         switchMap((params) => {
           const slug = params['slug'];
           if (!slug) {
-            this.router.navigate(['/blog']);
+            this.router.navigateByUrl(this.blogUrl());
             return [];
           }
           return this.loadPostBySlug(slug);
@@ -278,76 +352,141 @@ export class BlogDetailComponent implements OnInit, OnDestroy {
       if (!post) {
         this.updateBlogState({
           hasError: true,
-          errorMessage: 'Post no encontrado',
+          errorMessage: this.i18n.t('error.postNotFound'),
           isLoading: false,
         });
         return;
       }
 
+      // El post se sirve bajo el prefijo de su idioma (/blog ↔ /en/blog)
+      if (contentLocale(post) !== this.localeService.locale()) {
+        this.router.navigateByUrl(postPath(post), { replaceUrl: true });
+        return;
+      }
+
+      // El selector de idioma lleva a las traducciones del post
+      this.localeService.setAlternates(
+        Object.fromEntries([
+          [contentLocale(post), postPath(post)],
+          ...(post.translations || []).map((translation) => [
+            translation.locale,
+            postPath(translation),
+          ]),
+        ])
+      );
+
       // Incrementar contador de vistas
       this.blogService.incrementViews(post.id);
 
-      // Cargar posts relacionados
-      const relatedPosts = await this.loadRelatedPosts(post);
+      // Cargar la serie, los vecinos cronológicos y los posts relacionados
+      const [series, relatedPosts, adjacentPosts] = await Promise.all([
+        this.blogService.getSeriesByPost(post.id).toPromise(),
+        this.loadRelatedPosts(post),
+        this.loadAdjacentPosts(post),
+      ]);
 
       this.updateBlogState({
         post,
         relatedPosts,
+        adjacentPosts,
+        series: series || null,
         isLoading: false,
         isContentLoaded: true,
       });
 
+      // Precargar anterior/siguiente para que la navegación sea instantánea
+      this.prefetchAdjacentPosts(adjacentPosts);
+
+      // Enlace directo a un apartado (#ancla): ir a él tras la hidratación
+      this.scrollToFragment();
+
       // Configurar SEO
       this.setupSEO(post);
+      this.updateRelLinks(adjacentPosts);
 
       // Configurar structured data
-      this.setupStructuredData(post);
+      this.setupStructuredData(post, series || null);
     } catch (error) {
       console.error('Error loading post:', error);
       this.updateBlogState({
         hasError: true,
-        errorMessage: 'Error al cargar el artículo',
+        errorMessage: this.i18n.t('error.post'),
         isLoading: false,
       });
     }
   }
 
+  /**
+   * Posts relacionados según el motor de similitud
+   * (ya excluye las otras partes de la serie, que muestra el navegador)
+   */
   private async loadRelatedPosts(currentPost: BlogPost): Promise<BlogPost[]> {
     try {
       if (!this.config().showRelatedPosts) return [];
 
-      // Obtener posts relacionados por categoría y tags
-      const relatedByCategory = await this.blogService
-        .getPostsByCategory(
-          currentPost.categories?.[0]?.id || '',
-          this.config().maxRelatedPosts + 1
-        )
+      const related = await this.blogService
+        .getRelatedPosts(currentPost.id, this.config().maxRelatedPosts)
         .toPromise();
 
-      // Filtrar el post actual y limitar
-      const related = (relatedByCategory || [])
-        .filter((post: BlogPost) => post.id !== currentPost.id)
-        .slice(0, this.config().maxRelatedPosts);
+      return related || [];
+    } catch (error) {
+      console.error('Error loading related posts:', error);
+      return [];
+    }
+  }
 
-      // Si no hay suficientes, completar con posts populares
-      if (related.length < this.config().maxRelatedPosts) {
-        const popularPosts = await this.blogService
-          .getPopularPosts(this.config().maxRelatedPosts - related.length)
-          .toPromise();
+  private async loadAdjacentPosts(
+    currentPost: BlogPost
+  ): Promise<BlogAdjacentPosts> {
+    const adjacent = await this.blogService
+      .getAdjacentPosts(currentPost.id, this.config().adjacentScope)
+      .toPromise();
 
-        const additionalPosts = (popularPosts || []).filter(
-          (post) =>
-            post.id !== currentPost.id && !related.some((r) => r.id === post.id)
-        );
+    return adjacent || { previous: null, next: null };
+  }
+
+  private prefetchAdjacentPosts(adjacent: BlogAdjacentPosts): void {
+    if (!this.isBrowser) return;
+
+    [adjacent.previous, adjacent.next].forEach((post) => {
+      if (post) this.blogService.prefetchPost(post.slug);
+    });
+  }
+
+  /**
+   * Enlaces <link rel="prev|next"> en el head (también en SSR)
+   */
+  private updateRelLinks(adjacent: BlogAdjacentPosts): void {
+    const links: Array<['prev' | 'next', BlogPost | null]> = [
+      ['prev', adjacent.previous],
+      ['next', adjacent.next],
+    ];
+
+    links.forEach(([rel, post]) => {
+      let link = this.document.head.querySelector<HTMLLinkElement>(
+        `link[rel="${rel}"]`
+      );
 
-        related.push(...additionalPosts);
+      if (!post) {
+        link?.remove();
+        return;
       }
 
-      return related;
-    } catch (error) {
-      console.error('Error loading related posts:', error);
-      return [];
-    }
+      if (!link) {
+        link = this.document.createElement('link');
+        link.setAttribute('rel', rel);
+        this.document.head.appendChild(link);
+      }
+      link.setAttribute('href', this.getPostUrl(post));
+    });
+  }
+
+  getPostUrl(post: BlogPost): string {
+    return postPath(post);
+  }
+
+  getSeriesUrl(series: BlogSeriesDetail): string {
+    return this.localeService.localize(`/blog/serie/${series.slug}`);
   }
 
   private setupSEO(post: BlogPost): void {
@@ -420,42 +559,21 @@ export class BlogDetailComponent implements OnInit, OnDestroy {
 
     // Canonical URL
     this.metaService.updateTag({ rel: 'canonical', href: metadata.url });
-  }
 
-  private setupStructuredData(post: BlogPost): void {
-    if (!this.isBrowser) return;
+    // Idioma y traducciones (og:locale y hreflang)
+    this.seoService.setupPostLocale(post);
+  }
 
-    const structuredData = {
-      '@context': 'https://schema.org',
-      '@type': 'BlogPosting',
-      headline: post.title,
-      description: post.excerpt,
-      image: [post.featuredImage],
-      datePublished: post.publishedAt,
-      dateModified: post.updatedAt,
-      author: {
-        '@type': 'Person',
-        name: post.author?.name || 'Anónimo',
-        image: post.author?.avatar,
-        description: post.author?.bio,
-      },
-      publisher: {
-        '@type': 'Organization',
-        name: 'Blog',
-        logo: {
-          '@type': 'ImageObject',
-          url: '/assets/logo.png',
-        },
-      },
-      mainEntityOfPage: {
-        '@type': 'WebPage',
-        '@id': window.location.href,
-      },
-      wordCount: post.content?.split(' ').length || 0,
-      timeRequired: `PT${post.readingTime}M`,
-      keywords: post.tags?.join(','),
-      articleSection: post.categories?.[0]?.name,
-    };
+  private setupStructuredData(
+    post: BlogPost,
+    series: BlogSeriesDetail | null
+  ): void {
+    // También en el servidor: los buscadores leen el HTML prerenderizado
+    // Mismo JSON-LD que SEOService (incluye la pertenencia a una serie)
+    const structuredData = this.seoService.generateArticleStructuredData(
+      post,
+      series
+    );
 
     // Remover script anterior
     const existingScript = this.document.getElementById(
@@ -473,6 +591,21 @@ export class BlogDetailComponent implements OnInit, OnDestroy {
     this.document.head.appendChild(script);
   }
 
+  private scrollToFragment(): void {
+    const fragment = this.route.snapshot.fragment;
+    if (!this.isBrowser || !fragment) return;
+
+    afterNextRender(
+      () => {
+        this.document.getElementById(fragment)?.scrollIntoView({
+          block: 'start',
+        });
+        this.updateActiveHeading();
+      },
+      { injector: this.injector }
+    );
+  }
+
   private setupScrollTracking(): void {
     if (!this.isBrowser) return;
 
@@ -527,24 +660,23 @@ export class BlogDetailComponent implements OnInit, OnDestroy {
   private updateActiveHeading(): void {
     if (!this.isBrowser) return;
 
-    const headings = this.document.querySelectorAll(
-      '.blog-content h1, .blog-content h2, .blog-content h3, .blog-content h4, .blog-content h5, .blog-content h6'
-    );
+    // El último apartado del índice que ya ha pasado por la parte superior
     let activeHeading = '';
-
-    for (const heading of Array.from(headings)) {
-      const rect = heading.getBoundingClientRect();
-      if (rect.top <= 100) {
-        activeHeading = heading.id || '';
+    for (const id of this.tocHeadingIds()) {
+      const heading = this.document.getElementById(id);
+      if (heading && heading.getBoundingClientRect().top <= 100) {
+        activeHeading = id;
       }
     }
 
-    this.uiState.update((current) => ({ ...current, activeHeading }));
+    if (activeHeading !== this.uiState().activeHeading) {
+      this.uiState.update((current) => ({ ...current, activeHeading }));
+    }
   }
 
   // Métodos públicos para el template
   onRelatedPostClick(post: BlogPost): void {
-    this.router.navigate(['/blog/post', post.slug]);
+    this.router.navigateByUrl(this.getPostUrl(post));
   }
 
   onCategoryClick(event: { post: BlogPost; categoryId: string }): void {
@@ -552,22 +684,25 @@ export class BlogDetailComponent implements OnInit, OnDestroy {
     const post = this.currentPost();
     const category = post?.categories?.find((cat) => cat.id === event.categoryId);
     if (category) {
-      this.router.navigate(['/blog/categoria', category.slug]);
+      this.categoriaService
+        .resolveCategoryUrl(category)
+        .pipe(takeUntil(this.destroy$))
+        .subscribe((url) =>
+          this.router.navigateByUrl(this.localeService.localize(url))
+        );
     }
   }
 
-  onTagClick(event: { post: BlogPost; tag: string }): void {
-    this.router.navigate(['/blog'], {
-      queryParams: { tag: event.tag },
-    });
+  getTagUrl(tag: string): string {
+    return this.localeService.localize(`/blog/tag/${tagSlug(tag)}`);
   }
 
   onAuthorClick(): void {
     const post = this.currentPost();
     if (post?.author) {
-      this.router.navigate(['/blog'], {
-        queryParams: { author: post.author.slug },
-      });
+      this.router.navigateByUrl(
+        this.localeService.localize(`/blog/autor/${post.author.slug}`)
+      );
     }
   }
 
@@ -596,7 +731,7 @@ export class BlogDetailComponent implements OnInit, OnDestroy {
 
     navigator.clipboard.writeText(window.location.href).then(() => {
       // Mostrar notificación de éxito
-      this.showNotification('Enlace copiado al portapapeles');
+      this.showNotification(this.i18n.t('post.share.linkCopied'));
     });
   }
 
@@ -604,19 +739,16 @@ export class BlogDetailComponent implements OnInit, OnDestroy {
     const post = this.currentPost();
     if (!post) return;
 
-    const subject = encodeURIComponent(`Interesante artículo: ${post.title}`);
-    const body = encodeURIComponent(`
-Hola,
-
-Te comparto este interesante artículo que encontré:
-
-${post.title}
-${post.excerpt}
-
-Puedes leerlo completo aquí: ${this.isBrowser ? window.location.href : ''}
-
-¡Saludos!
-    `);
+    const subject = encodeURIComponent(
+      this.i18n.t('post.share.emailSubject', { title: post.title })
+    );
+    const body = encodeURIComponent(
+      this.i18n.t('post.share.emailBody', {
+        title: post.title,
+        excerpt: post.excerpt,
+        url: this.isBrowser ? window.location.href : '',
+      })
+    );
 
     window.location.href = `mailto:?subject=${subject}&body=${body}`;
   }
@@ -629,6 +761,7 @@ Puedes leerlo completo aquí: ${this.isBrowser ? window.location.href : ''}
     }));
   }
 
+  // El routerLink del enlace ya pone #ancla en la URL; aquí solo se desplaza
   scrollToHeading(headingId: string): void {
     if (!this.isBrowser) return;
 
@@ -640,20 +773,143 @@ Puedes leerlo completo aquí: ${this.isBrowser ? window.location.href : ''}
       });
     }
 
-    this.toggleTableOfContents();
+    this.uiState.update((current) => ({
+      ...current,
+      showTableOfContents: false,
+      activeHeading: headingId,
+    }));
+  }
+
+  // Anclas dentro del contenido (#seccion): desplazarse sin salir del post.
+  // Las fachadas de los shortcodes cargan su iframe al pulsarlas y los
+  // botones de los bloques de código se atienden aquí por delegación.
+  onContentClick(event: MouseEvent): void {
+    if (!this.isBrowser) return;
+
+    const target = event.target as Element;
+
+    const codeButton = target.closest<HTMLElement>(
+      '[data-code-action], [data-code-tab]'
+    );
+    if (codeButton) {
+      this.handleCodeButton(codeButton);
+      return;
+    }
+
+    const embed = target.closest<HTMLElement>('[data-embed]');
+    if (embed && target.closest('.embed-facade')) {
+      if (this.loadEmbed(embed)) event.preventDefault();
+      return;
+    }
+
+    const link = target.closest('a[href^="#"]');
+    if (!link) return;
+
+    event.preventDefault();
+    const headingId = decodeURIComponent(link.getAttribute('href')!.slice(1));
+    this.document
+      .getElementById(headingId)
+      ?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    window.history.replaceState(window.history.state, '', `#${headingId}`);
+  }
+
+  // Cambia la fachada de un shortcode por su iframe, con el tema actual.
+  // Si la URL no es válida, el enlace abre el original en otra pestaña.
+  private loadEmbed(embed: HTMLElement): boolean {
+    const { embed: provider, embedSrc, embedTitle, embedHeight } =
+      embed.dataset;
+    const src = embedFrameSrc(
+      provider ?? '',
+      embedSrc ?? '',
+      this.themeService.isDarkMode()
+    );
+    if (!src) return false;
+
+    const iframe = this.document.createElement('iframe');
+    iframe.src = src;
+    iframe.title = embedTitle ?? provider!;
+    iframe.loading = 'lazy';
+    iframe.allow =
+      'accelerometer; autoplay; clipboard-write; encrypted-media; gyroscope; picture-in-picture; fullscreen';
+    iframe.allowFullscreen = true;
+    iframe.referrerPolicy = 'strict-origin-when-cross-origin';
+    iframe.className = 'embed-frame';
+    if (embedHeight) iframe.style.height = `${embedHeight}px`;
+
+    embed.querySelector('.embed-facade')?.replaceWith(iframe);
+    embed.classList.add('embed-loaded');
+    iframe.focus();
+    return true;
+  }
+
+  private handleCodeButton(button: HTMLElement): void {
+    const tab = button.dataset['codeTab'];
+    if (tab !== undefined) {
+      this.selectCodeTab(button, tab);
+      return;
+    }
+
+    const figure = button.closest('.code-block-figure');
+    if (!figure) return;
+
+    switch (button.dataset['codeAction']) {
+      case 'copy':
+        this.copyCode(button, figure.querySelector('code')?.textContent ?? '');
+        break;
+      case 'wrap': {
+        const wrapped = figure.classList.toggle('code-block-wrap');
+        button.setAttribute('aria-pressed', String(wrapped));
+        break;
+      }
+    }
+  }
+
+  // Pestañas de un code-group: la pulsada y su panel pasan a activos
+  private selectCodeTab(tab: HTMLElement, index: string): void {
+    const group = tab.closest('.code-group');
+    if (!group) return;
+
+    group.querySelectorAll<HTMLElement>('[data-code-tab]').forEach((item) => {
+      item.setAttribute('aria-selected', String(item === tab));
+    });
+    group
+      .querySelectorAll<HTMLElement>('[data-code-panel]')
+      .forEach((panel) => {
+        panel.classList.toggle('active', panel.dataset['codePanel'] === index);
+      });
+  }
+
+  // Copia el código y muestra "Copiado" en el botón durante dos segundos
+  private copyCode(button: HTMLElement, code: string): void {
+    navigator.clipboard.writeText(code).then(() => {
+      button.dataset['label'] ??= button.textContent ?? '';
+      button.textContent = button.dataset['copiedLabel'] ?? '';
+      button.classList.add('copied');
+
+      clearTimeout(this.copyFeedbackTimers.get(button));
+      this.copyFeedbackTimers.set(
+        button,
+        setTimeout(() => {
+          button.textContent = button.dataset['label'] ?? '';
+          button.classList.remove('copied');
+        }, 2000)
+      );
+    });
   }
 
   // Navegación entre posts
   goToPreviousPost(): void {
-    // Implementar navegación al post anterior
-    // Por ahora, navegar de vuelta a la lista
-    this.router.navigate(['/blog']);
+    const post = this.previousPost();
+    if (post) {
+      this.router.navigateByUrl(this.getPostUrl(post));
+    }
   }
 
   goToNextPost(): void {
-    // Implementar navegación al siguiente post
-    // Por ahora, navegar de vuelta a la lista
-    this.router.navigate(['/blog']);
+    const post = this.nextPost();
+    if (post) {
+      this.router.navigateByUrl(this.getPostUrl(post));
+    }
   }
 
   // Acciones de post
@@ -673,7 +929,9 @@ Puedes leerlo completo aquí: ${this.isBrowser ? window.location.href : ''}
 
   printPost(): void {
     if (this.isBrowser && this.config().enablePrintVersion) {
-      window.print();
+      this.printService.printCurrentPage(
+        this.printService.getRecommendedPrintOptions('article')
+      );
     }
   }
 
@@ -687,21 +945,12 @@ Puedes leerlo completo aquí: ${this.isBrowser ? window.location.href : ''}
     console.log('Notification:', message);
   }
 
-  formatDate(date: string | Date): string {
-    const dateObj = typeof date === 'string' ? new Date(date) : date;
-    return new Intl.DateTimeFormat('es-ES', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    }).format(dateObj);
-  }
-
   // Track by functions
   trackByRelatedPost(index: number, post: BlogPost): string {
     return post.id;
   }
 
-  trackByHeading(index: number, heading: any): string {
+  trackByHeading(index: number, heading: BlogTocEntry): string {
     return heading.id;
   }
 
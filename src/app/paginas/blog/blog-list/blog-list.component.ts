@@ -24,10 +24,18 @@ import { BlogSidebarComponent } from '../../../shared/blog-sidebar/blog-sidebar.
 import { BlogPaginationComponent } from '../../../shared/blog-pagination/blog-pagination.component';
 import { BlogSearchComponent } from '../../../shared/blog-search/blog-search.component';
 import { BreadcrumbComponent } from '../../../shared/breadcrumb/breadcrumb.component';
+import {
+  LocaleDatePipe,
+  TranslatePipe,
+} from '../../../core/pipes/i18n.pipes';
 
 // Servicios
 import { BlogService } from '../../../core/services/blog.service';
 import { CategoriaService } from '../../../core/services/categoria.service';
+import { I18nService } from '../../../core/services/i18n.service';
+import { LocaleService } from '../../../core/services/locale.service';
+import { MessageKey } from '../../../core/i18n/translate';
+import { postPath } from '../../../core/i18n/locales';
 
 // Interfaces
 import type {
@@ -81,6 +89,8 @@ export interface BlogListConfig {
     BlogSearchComponent,
     BreadcrumbComponent,
     NgOptimizedImage,
+    TranslatePipe,
+    LocaleDatePipe,
   ],
   templateUrl: './blog-list.component.html',
   styleUrl: './blog-list.component.css',
@@ -89,6 +99,8 @@ export class BlogListComponent implements OnInit, OnDestroy {
   // Referencias y servicios
   private readonly blogService = inject(BlogService);
   private readonly categoriaService = inject(CategoriaService);
+  private readonly i18n = inject(I18nService);
+  private readonly localeService = inject(LocaleService);
   private readonly router = inject(Router);
   private readonly route = inject(ActivatedRoute);
   private readonly titleService = inject(Title);
@@ -368,7 +380,7 @@ export class BlogListComponent implements OnInit, OnDestroy {
       this.updateBlogState({
         isLoading: false,
         hasError: true,
-        errorMessage: 'Error al cargar los posts. Inténtalo de nuevo.',
+        errorMessage: this.i18n.t('error.posts'),
       });
     }
   }
@@ -403,13 +415,15 @@ export class BlogListComponent implements OnInit, OnDestroy {
   }
 
   private setupSEO(): void {
+    const title = this.i18n.t('blog.seo.title');
+    const shortDescription = this.i18n.t('blog.seo.shortDescription');
+
     // SEO básico
-    this.titleService.setTitle('Blog - Últimos Artículos y Tutoriales');
+    this.titleService.setTitle(title);
 
     this.metaService.updateTag({
       name: 'description',
-      content:
-        'Descubre los últimos artículos sobre desarrollo web, programación y tecnología. Tutoriales, guías y consejos prácticos para desarrolladores.',
+      content: this.i18n.t('blog.seo.description'),
     });
 
     this.metaService.updateTag({
@@ -419,14 +433,10 @@ export class BlogListComponent implements OnInit, OnDestroy {
     });
 
     // Open Graph
-    this.metaService.updateTag({
-      property: 'og:title',
-      content: 'Blog - Últimos Artículos y Tutoriales',
-    });
+    this.metaService.updateTag({ property: 'og:title', content: title });
     this.metaService.updateTag({
       property: 'og:description',
-      content:
-        'Descubre los últimos artículos sobre desarrollo web y programación',
+      content: shortDescription,
     });
     this.metaService.updateTag({ property: 'og:type', content: 'website' });
 
@@ -435,14 +445,10 @@ export class BlogListComponent implements OnInit, OnDestroy {
       name: 'twitter:card',
       content: 'summary_large_image',
     });
-    this.metaService.updateTag({
-      name: 'twitter:title',
-      content: 'Blog - Últimos Artículos y Tutoriales',
-    });
+    this.metaService.updateTag({ name: 'twitter:title', content: title });
     this.metaService.updateTag({
       name: 'twitter:description',
-      content:
-        'Descubre los últimos artículos sobre desarrollo web y programación',
+      content: shortDescription,
     });
   }
 
@@ -498,34 +504,23 @@ export class BlogListComponent implements OnInit, OnDestroy {
   }
 
   onPostClick(post: BlogPost): void {
-    this.router.navigate(['/blog/post', post.slug]);
+    this.router.navigateByUrl(postPath(post));
   }
 
   onCategoryClick(event: { post: BlogPost; categoryId: string }): void {
     const category = this.categories().find((cat) => cat.id === event.categoryId);
     if (category) {
-      this.router.navigate(['/blog/categoria', category.slug]);
+      this.navigateToCategory(category);
     }
   }
 
   onCategoryDirectClick(categoryId: string): void {
     const category = this.categories().find((cat) => cat.id === categoryId);
     if (category) {
-      this.router.navigate(['/blog/categoria', category.slug]);
+      this.navigateToCategory(category);
     }
   }
 
-  onTagClick(event: { post: BlogPost; tag: string }): void {
-    this.filters.update((current) => ({
-      ...current,
-      tags: [event.tag],
-      searchQuery: '',
-    }));
-    this.updateBlogState({ currentPage: 1 });
-    this.updateUrlParams();
-    this.loadPosts();
-  }
-
   clearAllFilters(): void {
     this.filters.set({
       categoryIds: [],
@@ -543,18 +538,15 @@ export class BlogListComponent implements OnInit, OnDestroy {
 
   // Sidebar event handlers
   onSidebarCategoryClick(category: BlogCategory): void {
-    this.router.navigate(['/blog/categoria', category.slug]);
+    this.navigateToCategory(category);
   }
 
-  onSidebarTagClick(tag: string): void {
-    this.filters.update((current) => ({
-      ...current,
-      tags: [tag],
-      searchQuery: '',
-    }));
-    this.updateBlogState({ currentPage: 1 });
-    this.updateUrlParams();
-    this.loadPosts();
+  /**
+   * Navega a una categoría conservando el idioma actual
+   */
+  private navigateToCategory(category: BlogCategory): void {
+    const url = this.categoriaService.getCategoryUrl(category);
+    this.router.navigateByUrl(this.localeService.localize(url));
   }
 
   retryLoading(): void {
@@ -642,22 +634,22 @@ export class BlogListComponent implements OnInit, OnDestroy {
     }
   }
 
-  get sortOptions(): Array<{ value: BlogSortBy; label: string }> {
+  get sortOptions(): Array<{ value: BlogSortBy; label: MessageKey }> {
     return [
-      { value: 'publishedAt', label: 'Más recientes' },
-      { value: 'createdAt', label: 'Más antiguos' },
-      { value: 'views', label: 'Más vistos' },
-      { value: 'likes', label: 'Más valorados' },
-      { value: 'title', label: 'Por título' },
+      { value: 'publishedAt', label: 'blog.sort.publishedAt' },
+      { value: 'createdAt', label: 'blog.sort.createdAt' },
+      { value: 'views', label: 'blog.sort.views' },
+      { value: 'likes', label: 'blog.sort.likes' },
+      { value: 'title', label: 'blog.sort.title' },
     ];
   }
 
-  get dateRangeOptions(): Array<{ value: string; label: string }> {
+  get dateRangeOptions(): Array<{ value: string; label: MessageKey }> {
     return [
-      { value: 'all', label: 'Todo el tiempo' },
-      { value: 'week', label: 'Esta semana' },
-      { value: 'month', label: 'Este mes' },
-      { value: 'year', label: 'Este año' },
+      { value: 'all', label: 'blog.dateRange.all' },
+      { value: 'week', label: 'blog.dateRange.week' },
+      { value: 'month', label: 'blog.dateRange.month' },
+      { value: 'year', label: 'blog.dateRange.year' },
     ];
   }
 }
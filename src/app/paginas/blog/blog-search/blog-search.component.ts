@@ -8,29 +8,59 @@ import {
   PLATFORM_ID,
 } from '@angular/core';
 import { CommonModule, isPlatformBrowser, DOCUMENT } from '@angular/common';
-import { ActivatedRoute, Router, RouterModule } from '@angular/router';
+import { ActivatedRoute, Params, Router, RouterModule } from '@angular/router';
 import { Title, Meta } from '@angular/platform-browser';
-import { Subscription } from 'rxjs';
-import { debounceTime, distinctUntilChanged, switchMap } from 'rxjs/operators';
+import { Subscription, from } from 'rxjs';
+import { switchMap } from 'rxjs/operators';
 
 // Core interfaces
 import {
+  BlogAuthor,
   BlogPost,
   BlogFilters,
+  BlogReadingTimeBucket,
+  BlogSearchFacets,
   BlogSortBy,
 } from '../../../core/models/blog.interface';
 import { BlogCategory } from '../../../core/models/categoria.interface';
+import {
+  HighlightSegment,
+  SearchResultHighlights,
+  highlightPost,
+  toHighlightSegments,
+} from '../../../core/search/search-highlight';
+import {
+  ParsedSearchQuery,
+  formatQueryDate,
+  formatSearchQuery,
+  parseQueryDate,
+  parseSearchParams,
+  parseSearchQuery,
+  toBlogFilters,
+  toSearchParams,
+} from '../../../core/search/query-parser';
+import { postPath } from '../../../core/i18n/locales';
+import { MessageKey } from '../../../core/i18n/translate';
+import {
+  LocaleDatePipe,
+  TranslatePipe,
+} from '../../../core/pipes/i18n.pipes';
 
 // Services
 import { BlogService } from '../../../core/services/blog.service';
 import { CategoriaService } from '../../../core/services/categoria.service';
+import { I18nService } from '../../../core/services/i18n.service';
+import { LocaleService } from '../../../core/services/locale.service';
 
 // Shared components
 import { BlogCardComponent } from '../../../shared/blog-card/blog-card.component';
 import { BlogSidebarComponent } from '../../../shared/blog-sidebar/blog-sidebar.component';
 import { BlogPaginationComponent } from '../../../shared/blog-pagination/blog-pagination.component';
 import { BlogSearchComponent as SharedBlogSearchComponent } from '../../../shared/blog-search/blog-search.component';
-import { BreadcrumbComponent } from '../../../shared/breadcrumb/breadcrumb.component';
+import {
+  BreadcrumbComponent,
+  BreadcrumbItem,
+} from '../../../shared/breadcrumb/breadcrumb.component';
 
 interface SearchFilters extends BlogFilters {
   query: string;
@@ -41,6 +71,7 @@ interface SearchFilters extends BlogFilters {
     end?: Date;
   };
   sortBy: BlogSortBy;
+  sortDirection: 'asc' | 'desc';
 }
 
 interface SearchSuggestion {
@@ -50,20 +81,112 @@ interface SearchSuggestion {
   count?: number;
 }
 
-interface SearchHighlight {
-  field: 'title' | 'content' | 'excerpt';
-  fragments: string[];
-}
-
 interface SearchStats {
   totalResults: number;
   searchTime: number;
   mostRelevant: number;
-  categories: { [key: string]: number };
+}
+
+/**
+ * Resultado completo de una búsqueda, que se aplica de una vez al llegar
+ */
+interface SearchOutcome {
+  results: BlogPost[];
+  totalResults: number;
+  facets: BlogSearchFacets | null;
+  correctedQuery: string | null;
+  highlights: { [postId: string]: SearchResultHighlights };
+  suggestions: SearchSuggestion[];
+  stats: SearchStats;
+  searchTime: number;
+}
+
+type SearchSortOption =
+  | 'relevance'
+  | 'newest'
+  | 'oldest'
+  | 'views'
+  | 'popular'
+  | 'title';
+
+/**
+ * Opciones de orden de los resultados y su equivalente en BlogFilters
+ */
+const SORT_OPTIONS: {
+  value: SearchSortOption;
+  label: MessageKey;
+  sortBy: BlogSortBy;
+  sortDirection: 'asc' | 'desc';
+}[] = [
+  {
+    value: 'relevance',
+    label: 'search.sort.relevance',
+    sortBy: 'relevance',
+    sortDirection: 'desc',
+  },
+  {
+    value: 'newest',
+    label: 'search.sort.newest',
+    sortBy: 'publishedAt',
+    sortDirection: 'desc',
+  },
+  {
+    value: 'oldest',
+    label: 'search.sort.oldest',
+    sortBy: 'publishedAt',
+    sortDirection: 'asc',
+  },
+  {
+    value: 'views',
+    label: 'search.sort.views',
+    sortBy: 'views',
+    sortDirection: 'desc',
+  },
+  {
+    value: 'popular',
+    label: 'search.sort.popular',
+    sortBy: 'likes',
+    sortDirection: 'desc',
+  },
+  {
+    value: 'title',
+    label: 'search.sort.title',
+    sortBy: 'title',
+    sortDirection: 'asc',
+  },
+];
+
+const DEFAULT_SORT = SORT_OPTIONS[0];
+
+/**
+ * Opción de un grupo de facetas en el panel de filtros
+ */
+interface FacetOption {
+  value: string;
+  label: string;
+  count: number;
+  selected: boolean;
+}
+
+type FacetGroupKey =
+  | 'categories'
+  | 'tags'
+  | 'authors'
+  | 'years'
+  | 'months'
+  | 'readingTime';
+
+/**
+ * Grupo de facetas tal como se pinta en el panel
+ */
+interface FacetGroup {
+  key: FacetGroupKey;
+  title: MessageKey;
+  options: FacetOption[];
 }
 
 @Component({
-  selector: 'app-blog-search',
+  selector: 'app-blog-search-page',
   standalone: true,
   imports: [
     CommonModule,
@@ -73,6 +196,8 @@ interface SearchStats {
     BlogPaginationComponent,
     SharedBlogSearchComponent,
     BreadcrumbComponent,
+    TranslatePipe,
+    LocaleDatePipe,
   ],
   templateUrl: './blog-search.component.html',
   styleUrls: ['./blog-search.component.css'],
@@ -87,17 +212,21 @@ export class BlogSearchComponent implements OnInit, OnDestroy {
   private categoriaService = inject(CategoriaService);
   private document = inject(DOCUMENT);
   private platformId = inject(PLATFORM_ID);
+  private localeService = inject(LocaleService);
+  private i18n = inject(I18nService);
 
   // Signals para estado reactivo
   searchQuery = signal<string>('');
   searchResults = signal<BlogPost[]>([]);
   filteredResults = signal<BlogPost[]>([]);
   categories = signal<BlogCategory[]>([]);
+  authors = signal<BlogAuthor[]>([]);
   searchFilters = signal<SearchFilters>({
     query: '',
     categories: [],
     tags: [],
-    sortBy: 'publishedAt',
+    sortBy: DEFAULT_SORT.sortBy,
+    sortDirection: DEFAULT_SORT.sortDirection,
     dateRange: undefined,
   });
   currentPage = signal<number>(1);
@@ -106,15 +235,25 @@ export class BlogSearchComponent implements OnInit, OnDestroy {
   isLoading = signal<boolean>(false);
   searchTime = signal<number>(0);
   suggestions = signal<SearchSuggestion[]>([]);
-  highlights = signal<{ [postId: string]: SearchHighlight[] }>({});
+  correctedQuery = signal<string | null>(null);
+  highlights = signal<{ [postId: string]: SearchResultHighlights }>({});
+  facets = signal<BlogSearchFacets | null>(null);
   searchStats = signal<SearchStats>({
     totalResults: 0,
     searchTime: 0,
     mostRelevant: 0,
-    categories: {},
   });
 
   // Computed signals
+  sortOption = computed<SearchSortOption>(() => {
+    const { sortBy, sortDirection } = this.searchFilters();
+    return (
+      SORT_OPTIONS.find(
+        (option) =>
+          option.sortBy === sortBy && option.sortDirection === sortDirection
+      ) ?? DEFAULT_SORT
+    ).value;
+  });
   hasResults = computed(() => this.searchResults().length > 0);
   isEmptyQuery = computed(() => !this.searchQuery().trim());
   totalPages = computed(() => Math.ceil(this.totalResults() / this.pageSize()));
@@ -127,56 +266,191 @@ export class BlogSearchComponent implements OnInit, OnDestroy {
     return { start, end };
   });
 
+  // Facetas: todas las opciones con su recuento, las de 0 se desactivan
+  categoryFacets = computed<FacetOption[]>(() => {
+    const counts = this.facets()?.categories || [];
+    const selected = this.searchFilters().categories;
+
+    return this.categories().map((category) => ({
+      value: category.slug,
+      label: category.name,
+      count: counts.find((facet) => facet.value === category.id)?.count || 0,
+      selected: selected.includes(category.slug),
+    }));
+  });
+  tagFacets = computed<FacetOption[]>(() => {
+    const selected = this.searchFilters().tags || [];
+    const facets = (this.facets()?.tags || []).slice(0, 12);
+    const missing = selected
+      .filter((tag) => !facets.some((facet) => facet.value === tag))
+      .map((tag) => ({ value: tag, label: tag, count: 0 }));
+
+    return [...facets, ...missing].map((facet) => ({
+      ...facet,
+      selected: selected.includes(facet.value),
+    }));
+  });
+  authorFacets = computed<FacetOption[]>(() => {
+    const counts = this.facets()?.authors || [];
+    const selected = this.searchFilters().authors || [];
+
+    return this.authors().map((author) => ({
+      value: author.slug,
+      label: author.name,
+      count: counts.find((facet) => facet.value === author.id)?.count || 0,
+      selected: selected.includes(author.slug),
+    }));
+  });
+  yearFacets = computed<FacetOption[]>(() =>
+    (this.facets()?.years || []).map((facet) => ({
+      ...facet,
+      selected: this.isDateRangeSelected(facet.value),
+    }))
+  );
+  /** Meses del año seleccionado */
+  monthFacets = computed<FacetOption[]>(() => {
+    const year = this.yearFacets().find((facet) => facet.selected)?.value;
+    const months = (this.facets()?.months || []).filter((facet) =>
+      year ? facet.value.startsWith(`${year}-`) : this.isDateRangeSelected(facet.value)
+    );
+
+    return months.map((facet) => ({
+      ...facet,
+      selected: this.isDateRangeSelected(facet.value),
+    }));
+  });
+  readingTimeFacets = computed<FacetOption[]>(() =>
+    (this.facets()?.readingTime || []).map((facet) => ({
+      ...facet,
+      selected: this.searchFilters().readingTime === facet.value,
+    }))
+  );
+
+  facetGroups = computed<FacetGroup[]>(() => [
+    {
+      key: 'categories',
+      title: 'search.facets.categories',
+      options: this.categoryFacets(),
+    },
+    { key: 'tags', title: 'search.facets.tags', options: this.tagFacets() },
+    {
+      key: 'authors',
+      title: 'search.facets.authors',
+      options: this.authorFacets(),
+    },
+    { key: 'years', title: 'search.facets.years', options: this.yearFacets() },
+    {
+      key: 'months',
+      title: 'search.facets.months',
+      options: this.monthFacets(),
+    },
+    {
+      key: 'readingTime',
+      title: 'search.facets.readingTime',
+      options: this.readingTimeFacets(),
+    },
+  ]);
+
+  breadcrumbItems = computed<BreadcrumbItem[]>(() => [
+    {
+      label: this.i18n.t('nav.blog'),
+      url: this.localeService.localize('/blog'),
+      isActive: false,
+      isClickable: true,
+      type: 'page',
+    },
+    {
+      label: this.i18n.t('nav.search'),
+      url: this.localeService.localize('/blog/search'),
+      isActive: true,
+      isClickable: false,
+      type: 'page',
+    },
+  ]);
+
   // Configuration
   readonly itemsPerPage = [6, 12, 24, 48];
-  readonly sortOptions = [
-    { value: 'relevance', label: 'Relevancia' },
-    { value: 'date_desc', label: 'Más recientes' },
-    { value: 'date_asc', label: 'Más antiguos' },
-    { value: 'views_desc', label: 'Más vistos' },
-    { value: 'likes_desc', label: 'Más populares' },
-    { value: 'title_asc', label: 'Título A-Z' },
-  ];
+  readonly sortOptions = SORT_OPTIONS;
 
   private subscriptions = new Subscription();
+  private searchContext?: Promise<void>;
 
   ngOnInit(): void {
+    // Única entrada a la búsqueda: los cambios de filtros pasan por la URL.
+    // switchMap descarta la búsqueda anterior si cambia la URL antes de que
+    // termine, para que unos resultados lentos no pisen los más recientes
     this.subscriptions.add(
-      this.route.queryParams.subscribe((params) => {
-        const query = params['q'] || '';
-        const categories = params['categories']
-          ? params['categories'].split(',')
-          : [];
-        const sortBy = params['sort'] || 'relevance';
-        const page = parseInt(params['page']) || 1;
-        const size = parseInt(params['size']) || 12;
-
-        // Actualizar signals
-        this.searchQuery.set(query);
-        this.currentPage.set(page);
-        this.pageSize.set(size);
-        this.searchFilters.update((filters) => ({
-          ...filters,
-          query,
-          categories,
-          sortBy: sortBy as BlogSortBy,
-        }));
-
-        if (query.trim()) {
-          this.performSearch();
-        }
-
-        this.updateSEOTags();
-      })
+      this.route.queryParams
+        .pipe(
+          switchMap((params) => {
+            this.applySearchParams(params);
+            return from(this.performSearch(this.searchQuery().trim()));
+          })
+        )
+        .subscribe((outcome) => {
+          this.applySearchOutcome(outcome);
+          this.updateSEOTags();
+        })
     );
 
-    this.loadCategories();
+    this.loadSearchContext();
   }
 
   ngOnDestroy(): void {
     this.subscriptions.unsubscribe();
   }
 
+  /**
+   * Reflejar los parámetros de la URL en la consulta y los filtros
+   */
+  private applySearchParams(params: Params): void {
+    const parsed = parseSearchParams(params);
+    const query = formatSearchQuery(parsed);
+    const sort =
+      SORT_OPTIONS.find((option) => option.value === params['sort']) ??
+      DEFAULT_SORT;
+    const readingTime = params['lectura'] as BlogReadingTimeBucket;
+    const page = parseInt(params['page']) || 1;
+    const size = parseInt(params['size']) || 12;
+
+    // Actualizar signals
+    this.searchQuery.set(query);
+    this.currentPage.set(page);
+    this.pageSize.set(size);
+    this.searchFilters.update((filters) => ({
+      ...filters,
+      ...this.filtersFromQuery(parsed),
+      query,
+      sortBy: sort.sortBy,
+      sortDirection: sort.sortDirection,
+      readingTime: ['short', 'medium', 'long'].includes(readingTime)
+        ? readingTime
+        : undefined,
+    }));
+  }
+
+  /**
+   * Cargar categorías y autores para resolver la sintaxis avanzada (una sola vez)
+   */
+  private loadSearchContext(): Promise<void> {
+    if (!this.searchContext) {
+      this.searchContext = Promise.all([
+        this.loadCategories(),
+        this.loadAuthors(),
+      ]).then(() => undefined);
+    }
+    return this.searchContext;
+  }
+
+  private async loadAuthors(): Promise<void> {
+    try {
+      const authors = await this.blogService.getAuthors().toPromise();
+      this.authors.set(authors || []);
+    } catch (error) {
+      console.error('Error loading authors:', error);
+    }
+  }
+
   private async loadCategories(): Promise<void> {
     try {
       const categoriesResponse = await this.categoriaService.getCategories().toPromise();
@@ -188,205 +462,124 @@ export class BlogSearchComponent implements OnInit, OnDestroy {
     }
   }
 
-  private async performSearch(): Promise<void> {
-    const query = this.searchQuery().trim();
-    if (!query) {
-      this.searchResults.set([]);
-      this.filteredResults.set([]);
-      this.totalResults.set(0);
-      return;
-    }
-
-    this.isLoading.set(true);
+  /**
+   * Buscar sin tocar el estado: el resultado lo aplica applySearchOutcome
+   * solo si sigue siendo la búsqueda vigente
+   */
+  private async performSearch(query: string): Promise<SearchOutcome> {
     const startTime = performance.now();
+    const outcome = (fields: Partial<SearchOutcome> = {}): SearchOutcome => ({
+      results: [],
+      totalResults: 0,
+      facets: null,
+      correctedQuery: null,
+      highlights: {},
+      suggestions: [],
+      stats: this.calculateSearchStats([], 0),
+      searchTime: performance.now() - startTime,
+      ...fields,
+    });
 
-    try {
-      // Realizar búsqueda usando el servicio
-      const results = await this.blogService.searchPosts(
-        query,
-        this.searchFilters()
-      ).toPromise() || [];
-
-      // Generar highlights
-      const highlights = this.generateHighlights(results, query);
-      this.highlights.set(highlights);
-
-      // Aplicar filtros adicionales
-      const filteredResults = this.applyAdvancedFilters(results);
+    if (!query) return outcome();
 
-      // Generar sugerencias
-      const suggestions = this.generateSuggestions(query, results);
-      this.suggestions.set(suggestions);
+    this.isLoading.set(true);
 
-      // Calcular estadísticas
-      const stats = this.calculateSearchStats(
+    try {
+      await this.loadSearchContext();
+
+      // Interpretar la sintaxis avanzada
+      const parsed = parseSearchQuery(query);
+      const blogFilters: BlogFilters = {
+        ...toBlogFilters(parsed, {
+          categories: this.categories(),
+          authors: this.authors(),
+        }),
+        sortBy: this.searchFilters().sortBy,
+        sortDirection: this.searchFilters().sortDirection,
+        readingTime: this.searchFilters().readingTime,
+      };
+
+      // Página de resultados y facetas sobre el conjunto completo
+      const response = await this.blogService
+        .getPosts(this.currentPage(), this.pageSize(), blogFilters)
+        .toPromise();
+      const results = response?.data || [];
+
+      // Corrección para palabras sin coincidencias exactas
+      const freeTerms = parsed.terms.join(' ');
+      const correctedTerms =
+        (await this.blogService.getSearchSuggestion(freeTerms).toPromise()) ||
+        null;
+      const correctedQuery = correctedTerms
+        ? formatSearchQuery({ ...parsed, terms: [correctedTerms] })
+        : null;
+
+      return outcome({
         results,
-        performance.now() - startTime
-      );
-      this.searchStats.set(stats);
-
-      this.searchResults.set(results);
-      this.filteredResults.set(filteredResults);
-      this.totalResults.set(filteredResults.length);
+        totalResults: response?.pagination.totalItems ?? results.length,
+        facets: response?.facets || null,
+        correctedQuery,
+        // Highlights de frases y palabras corregidas incluidos
+        highlights: this.generateHighlights(
+          results,
+          [freeTerms, ...parsed.phrases, correctedTerms || ''].join(' ')
+        ),
+        suggestions: this.generateSuggestions(query, results, correctedQuery),
+        stats: this.calculateSearchStats(
+          results,
+          performance.now() - startTime
+        ),
+      });
     } catch (error) {
       console.error('Error performing search:', error);
-      this.searchResults.set([]);
-      this.filteredResults.set([]);
-    } finally {
-      this.isLoading.set(false);
-      this.searchTime.set(performance.now() - startTime);
+      return outcome();
     }
   }
 
+  private applySearchOutcome(outcome: SearchOutcome): void {
+    this.searchResults.set(outcome.results);
+    this.filteredResults.set(outcome.results);
+    this.totalResults.set(outcome.totalResults);
+    this.facets.set(outcome.facets);
+    this.correctedQuery.set(outcome.correctedQuery);
+    this.highlights.set(outcome.highlights);
+    this.suggestions.set(outcome.suggestions);
+    this.searchStats.set(outcome.stats);
+    this.searchTime.set(outcome.searchTime);
+    this.isLoading.set(false);
+  }
+
   private generateHighlights(
     posts: BlogPost[],
     query: string
-  ): { [postId: string]: SearchHighlight[] } {
-    const highlights: { [postId: string]: SearchHighlight[] } = {};
-    const searchTerms = query
-      .toLowerCase()
-      .split(' ')
-      .filter((term) => term.length > 2);
+  ): { [postId: string]: SearchResultHighlights } {
+    const highlights: { [postId: string]: SearchResultHighlights } = {};
 
     posts.forEach((post) => {
-      const postHighlights: SearchHighlight[] = [];
-
-      // Highlight en título
-      const titleHighlight = this.highlightText(post.title, searchTerms);
-      if (titleHighlight.hasHighlight) {
-        postHighlights.push({
-          field: 'title',
-          fragments: [titleHighlight.text],
-        });
-      }
-
-      // Highlight en extracto
-      const excerptHighlight = this.highlightText(post.excerpt, searchTerms);
-      if (excerptHighlight.hasHighlight) {
-        postHighlights.push({
-          field: 'excerpt',
-          fragments: [excerptHighlight.text],
-        });
-      }
-
-      // Highlight en contenido (primeros fragmentos)
-      const contentHighlight = this.highlightText(
-        post.content.substring(0, 500),
-        searchTerms
-      );
-      if (contentHighlight.hasHighlight) {
-        postHighlights.push({
-          field: 'content',
-          fragments: [contentHighlight.text + '...'],
-        });
-      }
-
-      if (postHighlights.length > 0) {
-        highlights[post.id] = postHighlights;
-      }
+      highlights[post.id] = highlightPost(post, query);
     });
 
     return highlights;
   }
 
-  private highlightText(
-    text: string,
-    searchTerms: string[]
-  ): { text: string; hasHighlight: boolean } {
-    let highlightedText = text;
-    let hasHighlight = false;
-
-    searchTerms.forEach((term) => {
-      const regex = new RegExp(`(${term})`, 'gi');
-      if (regex.test(highlightedText)) {
-        hasHighlight = true;
-        highlightedText = highlightedText.replace(
-          regex,
-          '<mark class="bg-yellow-200 dark:bg-yellow-800 px-1 rounded">$1</mark>'
-        );
-      }
-    });
-
-    return { text: highlightedText, hasHighlight };
-  }
-
-  private applyAdvancedFilters(posts: BlogPost[]): BlogPost[] {
-    let filtered = [...posts];
-    const filters = this.searchFilters();
-
-    // Filtrar por categorías
-    if (filters.categories && filters.categories.length > 0) {
-      filtered = filtered.filter((post) =>
-        post.categories?.some((cat) => filters.categories!.includes(cat.slug))
-      );
-    }
-
-    // Filtrar por autores
-    if (filters.authors && filters.authors.length > 0) {
-      filtered = filtered.filter((post) =>
-        filters.authors!.includes(post.author?.slug || '')
-      );
-    }
-
-    // Filtrar por tags
-    if (filters.tags && filters.tags.length > 0) {
-      filtered = filtered.filter((post) =>
-        post.tags.some((tag) => filters.tags!.includes(tag))
-      );
-    }
-
-    // Filtrar por rango de fechas
-    if (filters.dateRange) {
-      filtered = filtered.filter((post) => {
-        const postDate = new Date(post.publishedAt || post.createdAt);
-        const start = filters.dateRange!.start;
-        const end = filters.dateRange!.end;
-
-        return (!start || postDate >= start) && (!end || postDate <= end);
-      });
-    }
-
-    // Aplicar ordenamiento
-    filtered = this.sortResults(filtered, filters.sortBy);
-
-    return filtered;
-  }
-
-  private sortResults(posts: BlogPost[], sortBy: BlogSortBy): BlogPost[] {
-    const sorted = [...posts];
-
-    switch (sortBy) {
-      case 'publishedAt':
-        return sorted.sort(
-          (a, b) =>
-            new Date(b.publishedAt || b.createdAt).getTime() -
-            new Date(a.publishedAt || a.createdAt).getTime()
-        );
-      case 'createdAt':
-        return sorted.sort(
-          (a, b) =>
-            new Date(a.publishedAt || a.createdAt).getTime() -
-            new Date(b.publishedAt || b.createdAt).getTime()
-        );
-      case 'views':
-        return sorted.sort((a, b) => b.views - a.views);
-      case 'likes':
-        return sorted.sort((a, b) => b.likes - a.likes);
-      case 'title':
-        return sorted.sort((a, b) => a.title.localeCompare(b.title));
-      case 'readingTime':
-      default:
-        // Por defecto ya viene ordenado por relevancia del servicio
-        return sorted;
-    }
-  }
-
   private generateSuggestions(
     query: string,
-    results: BlogPost[]
+    results: BlogPost[],
+    correctedQuery: string | null = null
   ): SearchSuggestion[] {
     const suggestions: SearchSuggestion[] = [];
 
+    // "¿Quisiste decir…?" primero
+    if (correctedQuery) {
+      suggestions.push({
+        type: 'query',
+        value: correctedQuery,
+        label: this.i18n.t('search.suggestion.correction', {
+          query: correctedQuery,
+        }),
+      });
+    }
+
     // Sugerencias de categorías frecuentes en resultados
     const categoryCount: { [key: string]: number } = {};
     results.forEach((post) => {
@@ -404,7 +597,9 @@ export class BlogSearchComponent implements OnInit, OnDestroy {
           suggestions.push({
             type: 'category',
             value: slug,
-            label: `Buscar en ${category.name}`,
+            label: this.i18n.t('search.suggestion.category', {
+              name: category.name,
+            }),
             count,
           });
         }
@@ -425,7 +620,7 @@ export class BlogSearchComponent implements OnInit, OnDestroy {
         suggestions.push({
           type: 'tag',
           value: tag,
-          label: `Posts sobre "${tag}"`,
+          label: this.i18n.t('search.suggestion.tag', { tag }),
           count,
         });
       });
@@ -437,20 +632,11 @@ export class BlogSearchComponent implements OnInit, OnDestroy {
     results: BlogPost[],
     searchTime: number
   ): SearchStats {
-    const categoryStats: { [key: string]: number } = {};
-
-    results.forEach((post) => {
-      post.categories?.forEach((cat) => {
-        categoryStats[cat.name] = (categoryStats[cat.name] || 0) + 1;
-      });
-    });
-
     return {
       totalResults: results.length,
       searchTime: Math.round(searchTime),
       mostRelevant: results.filter((post) => post.views > 1000)
         .length,
-      categories: categoryStats,
     };
   }
 
@@ -467,18 +653,23 @@ export class BlogSearchComponent implements OnInit, OnDestroy {
     this.updateURL();
   }
 
-  onSortChange(sortBy: BlogSortBy): void {
-    this.searchFilters.update((filters) => ({ ...filters, sortBy }));
+  onSortChange(value: SearchSortOption): void {
+    const { sortBy, sortDirection } =
+      SORT_OPTIONS.find((option) => option.value === value) ?? DEFAULT_SORT;
+    this.searchFilters.update((filters) => ({
+      ...filters,
+      sortBy,
+      sortDirection,
+    }));
     this.currentPage.set(1);
     this.updateURL();
-    this.performSearch();
   }
 
   onFilterChange(filters: Partial<SearchFilters>): void {
     this.searchFilters.update((current) => ({ ...current, ...filters }));
+    this.syncQueryWithFilters();
     this.currentPage.set(1);
     this.updateURL();
-    this.performSearch();
   }
 
   onNewSearch(query: string): void {
@@ -486,7 +677,6 @@ export class BlogSearchComponent implements OnInit, OnDestroy {
     this.searchFilters.update((filters) => ({ ...filters, query }));
     this.currentPage.set(1);
     this.updateURL();
-    this.performSearch();
   }
 
   onSearchPerformed(event: { query: string; filters: any; results: BlogPost[] }): void {
@@ -521,9 +711,12 @@ export class BlogSearchComponent implements OnInit, OnDestroy {
         break;
     }
 
+    if (suggestion.type !== 'query') {
+      this.syncQueryWithFilters();
+    }
+
     this.currentPage.set(1);
     this.updateURL();
-    this.performSearch();
   }
 
   clearFilters(): void {
@@ -533,20 +726,181 @@ export class BlogSearchComponent implements OnInit, OnDestroy {
       tags: [],
       authors: [],
       dateRange: undefined,
+      readingTime: undefined,
     }));
+    this.syncQueryWithFilters();
     this.currentPage.set(1);
     this.updateURL();
-    this.performSearch();
+  }
+
+  removeCategoryFilter(category: string): void {
+    this.onFilterChange({
+      categories: this.searchFilters().categories.filter((c) => c !== category),
+    });
+  }
+
+  removeTagFilter(tag: string): void {
+    this.onFilterChange({
+      tags: (this.searchFilters().tags || []).filter((t) => t !== tag),
+    });
+  }
+
+  removeAuthorFilter(author: string): void {
+    this.onFilterChange({
+      authors: (this.searchFilters().authors || []).filter(
+        (a) => a !== author
+      ),
+    });
+  }
+
+  removeDateRangeFilter(): void {
+    this.onFilterChange({ dateRange: undefined });
+  }
+
+  removeReadingTimeFilter(): void {
+    this.onFilterChange({ readingTime: undefined });
+  }
+
+  // Panel de facetas
+  toggleFacet(group: FacetGroupKey, value: string): void {
+    switch (group) {
+      case 'categories':
+        return this.toggleCategoryFacet(value);
+      case 'tags':
+        return this.toggleTagFacet(value);
+      case 'authors':
+        return this.toggleAuthorFacet(value);
+      case 'years':
+      case 'months':
+        return this.toggleDateFacet(value);
+      case 'readingTime':
+        return this.toggleReadingTimeFacet(value);
+    }
+  }
+
+  toggleCategoryFacet(slug: string): void {
+    const categories = this.searchFilters().categories;
+    this.onFilterChange({
+      categories: categories.includes(slug)
+        ? categories.filter((c) => c !== slug)
+        : [...categories, slug],
+    });
+  }
+
+  toggleTagFacet(tag: string): void {
+    const tags = this.searchFilters().tags || [];
+    this.onFilterChange({
+      tags: tags.includes(tag)
+        ? tags.filter((t) => t !== tag)
+        : [...tags, tag],
+    });
+  }
+
+  toggleAuthorFacet(slug: string): void {
+    const authors = this.searchFilters().authors || [];
+    this.onFilterChange({
+      authors: authors.includes(slug)
+        ? authors.filter((a) => a !== slug)
+        : [...authors, slug],
+    });
+  }
+
+  /**
+   * Seleccionar un año ("2024") o un mes ("2024-03") como rango de fechas
+   */
+  toggleDateFacet(value: string): void {
+    this.onFilterChange({
+      dateRange: this.isDateRangeSelected(value)
+        ? undefined
+        : {
+            start: parseQueryDate(value, 'start'),
+            end: parseQueryDate(value, 'end'),
+          },
+    });
+  }
+
+  toggleReadingTimeFacet(bucket: string): void {
+    const readingTime = bucket as BlogReadingTimeBucket;
+    this.onFilterChange({
+      readingTime:
+        this.searchFilters().readingTime === readingTime
+          ? undefined
+          : readingTime,
+    });
+  }
+
+  getReadingTimeLabel(bucket: BlogReadingTimeBucket): string {
+    return this.i18n.t(`readingTime.${bucket}`);
+  }
+
+  /**
+   * Comprobar si el rango de fechas activo es exactamente un año o un mes
+   */
+  private isDateRangeSelected(value: string): boolean {
+    const { start, end } = this.searchFilters().dateRange || {};
+    const expectedStart = parseQueryDate(value, 'start');
+    const expectedEnd = parseQueryDate(value, 'end');
+
+    return (
+      !!start &&
+      !!end &&
+      !!expectedStart &&
+      !!expectedEnd &&
+      formatQueryDate(start) === formatQueryDate(expectedStart) &&
+      formatQueryDate(end) === formatQueryDate(expectedEnd)
+    );
+  }
+
+  /**
+   * Filtros activos a partir de los operadores de la consulta
+   */
+  private filtersFromQuery(parsed: ParsedSearchQuery): Partial<SearchFilters> {
+    const start = parsed.from ? parseQueryDate(parsed.from, 'start') : undefined;
+    const end = parsed.to ? parseQueryDate(parsed.to, 'end') : undefined;
+
+    return {
+      categories: parsed.categories,
+      tags: parsed.tags,
+      authors: parsed.authors,
+      dateRange: start || end ? { start, end } : undefined,
+    };
+  }
+
+  /**
+   * Reescribir la consulta con los filtros activos (filtros → caja de búsqueda)
+   */
+  private syncQueryWithFilters(): void {
+    const filters = this.searchFilters();
+    const parsed = parseSearchQuery(this.searchQuery());
+    const { start, end } = filters.dateRange || {};
+
+    const query = formatSearchQuery({
+      ...parsed,
+      categories: filters.categories,
+      tags: filters.tags || [],
+      authors: filters.authors || [],
+      from: start ? formatQueryDate(start) : undefined,
+      to: end ? formatQueryDate(end) : undefined,
+    });
+
+    this.searchQuery.set(query);
+    this.searchFilters.update((current) => ({ ...current, query }));
   }
 
   private updateURL(): void {
     const filters = this.searchFilters();
     const queryParams: any = {};
 
-    if (filters.query) queryParams['q'] = filters.query;
-    if (filters.categories.length > 0)
-      queryParams['categories'] = filters.categories.join(',');
-    if (filters.sortBy !== 'publishedAt') queryParams['sort'] = filters.sortBy;
+    // Texto libre en q y cada operador en su propio parámetro
+    Object.entries(
+      toSearchParams(parseSearchQuery(this.searchQuery()))
+    ).forEach(([key, value]) => {
+      if (value) queryParams[key] = value;
+    });
+    if (filters.readingTime) queryParams['lectura'] = filters.readingTime;
+    if (this.sortOption() !== DEFAULT_SORT.value) {
+      queryParams['sort'] = this.sortOption();
+    }
     if (this.currentPage() > 1) queryParams['page'] = this.currentPage();
     if (this.pageSize() !== 12) queryParams['size'] = this.pageSize();
 
@@ -563,12 +917,12 @@ export class BlogSearchComponent implements OnInit, OnDestroy {
     const resultsCount = this.totalResults();
 
     const title = query
-      ? `Resultados para "${query}" - ${resultsCount} posts encontrados`
-      : 'Buscar en el Blog';
+      ? this.i18n.t('search.seo.title', { query, count: resultsCount })
+      : this.i18n.t('search.title');
 
     const description = query
-      ? `Encontrados ${resultsCount} artículos relacionados con "${query}". Explora nuestro contenido sobre diversos temas.`
-      : 'Busca artículos en nuestro blog sobre tecnología, desarrollo, diseño y más.';
+      ? this.i18n.t('search.seo.description', { query, count: resultsCount })
+      : this.i18n.t('search.seo.defaultDescription');
 
     this.titleService.setTitle(title);
     this.metaService.updateTag({ name: 'description', content: description });
@@ -601,8 +955,10 @@ export class BlogSearchComponent implements OnInit, OnDestroy {
         query: query,
         result: {
           '@type': 'SearchResult',
-          name: `Resultados para "${query}"`,
-          description: `${resultsCount} artículos encontrados`,
+          name: this.i18n.t('blog.resultsFor', { query }),
+          description: this.i18n.t('search.seo.resultCount', {
+            count: resultsCount,
+          }),
           url: this.document.location.href,
         },
       },
@@ -631,32 +987,33 @@ export class BlogSearchComponent implements OnInit, OnDestroy {
   }
 
   // Métodos auxiliares para el template
-  getHighlightedTitle(post: BlogPost): string {
-    const highlight = this.highlights()[post.id]?.find(
-      (h) => h.field === 'title'
-    );
-    return highlight?.fragments[0] || post.title;
+  getPostUrl(post: BlogPost): string {
+    return postPath(post);
   }
 
-  getHighlightedExcerpt(post: BlogPost): string {
-    const highlight = this.highlights()[post.id]?.find(
-      (h) => h.field === 'excerpt'
+  getCategoryUrl(category: BlogCategory): string {
+    return this.localeService.localize(
+      this.categoriaService.getCategoryUrl(category)
     );
-    return highlight?.fragments[0] || post.excerpt;
   }
 
-  getContentHighlight(post: BlogPost): SearchHighlight | null {
-    return (
-      this.highlights()[post.id]?.find((h) => h.field === 'content') || null
-    );
+  getHighlightedTitle(post: BlogPost): HighlightSegment[] {
+    const highlight = this.highlights()[post.id]?.title;
+    return highlight
+      ? toHighlightSegments(highlight)
+      : [{ text: post.title, match: false }];
   }
 
-  getCategoryEntries(): [string, number][] {
-    return Object.entries(this.searchStats().categories);
+  getHighlightedExcerpt(post: BlogPost): HighlightSegment[] {
+    const highlight = this.highlights()[post.id]?.excerpt;
+    return highlight
+      ? toHighlightSegments(highlight)
+      : [{ text: post.excerpt, match: false }];
   }
 
-  hasCategoryResults(): boolean {
-    return Object.keys(this.searchStats().categories).length > 0;
+  getContentHighlight(post: BlogPost): HighlightSegment[] | null {
+    const snippet = this.highlights()[post.id]?.snippet;
+    return snippet ? toHighlightSegments(snippet) : null;
   }
 
   // Método para trackBy en ngFor
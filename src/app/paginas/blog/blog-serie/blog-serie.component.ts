@@ -0,0 +1,149 @@
+import {
+  Component,
+  OnInit,
+  OnDestroy,
+  ChangeDetectionStrategy,
+  signal,
+  computed,
+  inject,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActivatedRoute, Router, RouterLink } from '@angular/router';
+import { Subject, takeUntil } from 'rxjs';
+
+import { BlogService } from '../../../core/services/blog.service';
+import { SEOService } from '../../../core/services/seo.service';
+import { LocaleService } from '../../../core/services/locale.service';
+import {
+  BlogPost,
+  BlogSeriesDetail,
+} from '../../../core/models/blog.interface';
+import { postPath } from '../../../core/i18n/locales';
+import { BreadcrumbComponent } from '../../../shared/breadcrumb/breadcrumb.component';
+
+@Component({
+  selector: 'app-blog-serie',
+  standalone: true,
+  imports: [CommonModule, RouterLink, BreadcrumbComponent],
+  templateUrl: './blog-serie.component.html',
+  styleUrls: ['./blog-serie.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class BlogSerieComponent implements OnInit, OnDestroy {
+  // Dependency injection
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private blogService = inject(BlogService);
+  private localeService = inject(LocaleService);
+  private seoService = inject(SEOService);
+
+  // Estado reactivo
+  private readonly _loading = signal<boolean>(false);
+  private readonly _error = signal<string | null>(null);
+  private readonly _series = signal<BlogSeriesDetail | null>(null);
+
+  // Computed signals
+  readonly loading = this._loading.asReadonly();
+  readonly error = this._error.asReadonly();
+  readonly series = this._series.asReadonly();
+
+  readonly totalParts = computed(() => this.series()?.posts.length || 0);
+
+  readonly totalReadingTime = computed(
+    () =>
+      this.series()?.posts.reduce((sum, post) => sum + post.readingTime, 0) || 0
+  );
+
+  readonly blogUrl = computed(() => this.localeService.localize('/blog'));
+
+  readonly breadcrumbs = computed(() => {
+    const series = this.series();
+    return [
+      {
+        label: 'Inicio',
+        url: this.localeService.localize('/'),
+        isActive: false,
+        isClickable: true,
+        type: 'home' as const,
+      },
+      {
+        label: 'Blog',
+        url: this.blogUrl(),
+        isActive: false,
+        isClickable: true,
+        type: 'page' as const,
+      },
+      {
+        label: `Serie: ${series?.title || ''}`,
+        url: '',
+        isActive: true,
+        isClickable: false,
+        type: 'custom' as const,
+      },
+    ];
+  });
+
+  private destroy$ = new Subject<void>();
+
+  ngOnInit(): void {
+    this.route.paramMap.pipe(takeUntil(this.destroy$)).subscribe((params) => {
+      const slug = params.get('slug');
+
+      if (!slug) {
+        this.router.navigateByUrl(this.blogUrl());
+        return;
+      }
+
+      this.loadSeries(slug);
+    });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+    this.seoService.clearStructuredData('series');
+  }
+
+  /**
+   * Carga la serie y sus partes
+   */
+  private loadSeries(slug: string): void {
+    this._loading.set(true);
+    this._error.set(null);
+
+    this.blogService
+      .getSeriesBySlug(slug)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (series) => {
+          if (!series || series.posts.length === 0) {
+            this._series.set(null);
+            this._error.set('Serie no encontrada');
+          } else {
+            this._series.set(series);
+            this.seoService.setupSeriesSEO(series);
+          }
+          this._loading.set(false);
+        },
+        error: (error) => {
+          console.error('Error loading series:', error);
+          this._error.set('Error al cargar la serie');
+          this._loading.set(false);
+        },
+      });
+  }
+
+  /**
+   * Obtiene la URL de una parte de la serie
+   */
+  getPostUrl(post: BlogPost): string {
+    return postPath(post);
+  }
+
+  /**
+   * Vuelve al listado del blog
+   */
+  goBackToBlog(): void {
+    this.router.navigateByUrl(this.blogUrl());
+  }
+}
@@ -0,0 +1,97 @@
+import {
+  Component,
+  OnInit,
+  OnDestroy,
+  ChangeDetectionStrategy,
+  signal,
+  computed,
+  inject,
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { RouterLink } from '@angular/router';
+import { Subject, takeUntil } from 'rxjs';
+
+import { BlogService } from '../../../core/services/blog.service';
+import { SEOService } from '../../../core/services/seo.service';
+import { LocaleService } from '../../../core/services/locale.service';
+import { BlogTag } from '../../../core/models/blog.interface';
+import { BlogTagsComponent } from '../../../shared/blog-tags/blog-tags.component';
+import { BreadcrumbComponent } from '../../../shared/breadcrumb/breadcrumb.component';
+
+/** Tags destacados con ficha propia bajo la nube */
+const FEATURED_TAGS = 6;
+
+@Component({
+  selector: 'app-blog-tag-index',
+  standalone: true,
+  imports: [CommonModule, RouterLink, BlogTagsComponent, BreadcrumbComponent],
+  templateUrl: './blog-tag-index.component.html',
+  styleUrls: ['./blog-tag-index.component.css'],
+  changeDetection: ChangeDetectionStrategy.OnPush,
+})
+export class BlogTagIndexComponent implements OnInit, OnDestroy {
+  // Dependency injection
+  private blogService = inject(BlogService);
+  private seoService = inject(SEOService);
+  private localeService = inject(LocaleService);
+
+  // Estado reactivo
+  private readonly _loading = signal<boolean>(false);
+  private readonly _tags = signal<BlogTag[]>([]);
+
+  // Computed signals
+  readonly loading = this._loading.asReadonly();
+  readonly tags = this._tags.asReadonly();
+
+  /** Los tags con más artículos */
+  readonly featuredTags = computed(() => this.tags().slice(0, FEATURED_TAGS));
+
+  readonly breadcrumbs = computed(() => [
+    {
+      label: 'Inicio',
+      url: this.localeService.localize('/'),
+      isActive: false,
+      isClickable: true,
+      type: 'home' as const,
+    },
+    {
+      label: 'Blog',
+      url: this.localeService.localize('/blog'),
+      isActive: false,
+      isClickable: true,
+      type: 'page' as const,
+    },
+    {
+      label: 'Tags',
+      url: '',
+      isActive: true,
+      isClickable: false,
+      type: 'custom' as const,
+    },
+  ]);
+
+  private destroy$ = new Subject<void>();
+
+  ngOnInit(): void {
+    this._loading.set(true);
+
+    this.blogService
+      .getTags()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((tags) => {
+        this._tags.set(tags);
+        this._loading.set(false);
+        this.seoService.setupTagsIndexSEO(tags);
+      });
+  }
+
+  ngOnDestroy(): void {
+    this.destroy$.next();
+    this.destroy$.complete();
+  }
+
+  /** URL de la página de un tag en el idioma actual */
+  getTagUrl(slug: string): string {
+    return this.localeService.localize(`/blog/tag/${slug}`);
+  }
+}
@@ -10,29 +10,59 @@ import {
 } from '@angular/core';
 import { CommonModule, isPlatformBrowser } from '@angular/common';
 import { ActivatedRoute, Router, RouterLink } from '@angular/router';
-import { Title, Meta } from '@angular/platform-browser';
-import { Subject, takeUntil, combineLatest, switchMap } from 'rxjs';
+import { Subject, takeUntil, combineLatest } from 'rxjs';
 
 import { BlogService } from '../../../core/services/blog.service';
 import { SEOService } from '../../../core/services/seo.service';
+import { LocaleService } from '../../../core/services/locale.service';
+import { postPath } from '../../../core/i18n/locales';
 import {
   BlogPost,
   BlogPostsResponse,
   BlogFilters,
+  BlogSortBy,
+  BlogTag,
 } from '../../../core/models/blog.interface';
 import { BlogCardComponent } from '../../../shared/blog-card/blog-card.component';
-import { BlogPaginationComponent } from '../../../shared/blog-pagination/blog-pagination.component';
+import {
+  BlogPaginationComponent,
+  PageChangeEvent,
+} from '../../../shared/blog-pagination/blog-pagination.component';
 import { BlogTagsComponent } from '../../../shared/blog-tags/blog-tags.component';
 import { BreadcrumbComponent } from '../../../shared/breadcrumb/breadcrumb.component';
 
-interface TagPageData {
-  tag: string;
-  description: string;
-  count: number;
-  relatedTags: string[];
-  color?: string;
-  category?: string;
-}
+type TagSortOption = 'newest' | 'oldest' | 'popular';
+
+/**
+ * Opciones de orden de la página y su equivalente en BlogFilters
+ */
+const SORT_OPTIONS: {
+  value: TagSortOption;
+  label: string;
+  sortBy: BlogSortBy;
+  sortDirection: 'asc' | 'desc';
+}[] = [
+  {
+    value: 'newest',
+    label: 'Más recientes',
+    sortBy: 'publishedAt',
+    sortDirection: 'desc',
+  },
+  {
+    value: 'oldest',
+    label: 'Más antiguos',
+    sortBy: 'publishedAt',
+    sortDirection: 'asc',
+  },
+  {
+    value: 'popular',
+    label: 'Más populares',
+    sortBy: 'views',
+    sortDirection: 'desc',
+  },
+];
+
+const POSTS_PER_PAGE = 12;
 
 @Component({
   selector: 'app-blog-tag',
@@ -53,11 +83,10 @@ export class BlogTagComponent implements OnInit, OnDestroy {
   // Dependency injection
   private route = inject(ActivatedRoute);
   private router = inject(Router);
-  private titleService = inject(Title);
-  private metaService = inject(Meta);
   private blogService = inject(BlogService);
   private seoService = inject(SEOService);
   private platformId = inject(PLATFORM_ID);
+  private localeService = inject(LocaleService);
 
   // Estado reactivo
   private readonly _loading = signal<boolean>(false);
@@ -65,8 +94,8 @@ export class BlogTagComponent implements OnInit, OnDestroy {
   private readonly _posts = signal<BlogPost[]>([]);
   private readonly _totalPosts = signal<number>(0);
   private readonly _currentPage = signal<number>(1);
-  private readonly _tagData = signal<TagPageData | null>(null);
-  private readonly _sortBy = signal<'newest' | 'oldest' | 'popular'>('newest');
+  private readonly _tagData = signal<BlogTag | null>(null);
+  private readonly _sortBy = signal<TagSortOption>('newest');
 
   // Computed signals
   readonly loading = this._loading.asReadonly();
@@ -80,7 +109,7 @@ export class BlogTagComponent implements OnInit, OnDestroy {
   readonly pagination = computed(() => {
     const total = this.totalPosts();
     const current = this.currentPage();
-    const postsPerPage = 12;
+    const postsPerPage = POSTS_PER_PAGE;
 
     return {
       currentPage: current,
@@ -92,25 +121,34 @@ export class BlogTagComponent implements OnInit, OnDestroy {
     };
   });
 
+  readonly blogUrl = computed(() => this.localeService.localize('/blog'));
+
   readonly breadcrumbs = computed(() => {
     const tag = this.tagData();
     return [
       {
         label: 'Inicio',
-        url: '/',
+        url: this.localeService.localize('/'),
         isActive: false,
         isClickable: true,
         type: 'home' as const,
       },
       {
         label: 'Blog',
-        url: '/blog',
+        url: this.blogUrl(),
+        isActive: false,
+        isClickable: true,
+        type: 'page' as const,
+      },
+      {
+        label: 'Tags',
+        url: this.localeService.localize('/blog/tags'),
         isActive: false,
         isClickable: true,
         type: 'page' as const,
       },
       {
-        label: `Tag: ${tag?.tag || ''}`,
+        label: tag?.name || 'Tag',
         url: '',
         isActive: true,
         isClickable: false,
@@ -122,7 +160,7 @@ export class BlogTagComponent implements OnInit, OnDestroy {
   readonly pageTitle = computed(() => {
     const tag = this.tagData();
     const total = this.totalPosts();
-    return tag ? `Artículos sobre ${tag.tag} (${total})` : 'Tag';
+    return tag ? `Artículos sobre ${tag.name} (${total})` : 'Tag';
   });
 
   readonly relatedTags = computed(() => {
@@ -130,11 +168,7 @@ export class BlogTagComponent implements OnInit, OnDestroy {
     return tagData?.relatedTags || [];
   });
 
-  readonly sortOptions = [
-    { value: 'newest', label: 'Más recientes' },
-    { value: 'oldest', label: 'Más antiguos' },
-    { value: 'popular', label: 'Más populares' },
-  ];
+  readonly sortOptions = SORT_OPTIONS;
 
   private isBrowser: boolean;
   private destroy$ = new Subject<void>();
@@ -154,58 +188,86 @@ export class BlogTagComponent implements OnInit, OnDestroy {
 
   /**
    * Configura la suscripción a los cambios de ruta
+   * El tag solo se recarga al cambiar de slug; la página y el orden solo piden posts
    */
   private setupRouteSubscription(): void {
     combineLatest([this.route.paramMap, this.route.queryParamMap])
       .pipe(takeUntil(this.destroy$))
       .subscribe(([params, queryParams]) => {
         const tagSlug = params.get('tag');
-        const page = parseInt(queryParams.get('page') || '1', 10);
+        const page = parseInt(queryParams.get('page') || '1', 10) || 1;
         const sortBy =
-          (queryParams.get('sort') as 'newest' | 'oldest' | 'popular') ||
-          'newest';
+          SORT_OPTIONS.find(
+            (option) => option.value === queryParams.get('sort')
+          )?.value || 'newest';
 
         if (!tagSlug) {
-          this.router.navigate(['/blog']);
+          this.router.navigateByUrl(this.blogUrl());
           return;
         }
 
         this._currentPage.set(page);
         this._sortBy.set(sortBy);
 
-        this.loadTagData(tagSlug, page, sortBy);
+        const tag = this.tagData();
+        if (tag?.slug === tagSlug) {
+          this.loadPosts(tag, page, sortBy);
+        } else {
+          this.loadTagData(tagSlug, page, sortBy);
+        }
       });
   }
 
   /**
-   * Carga los datos del tag y sus posts
+   * Carga los datos del tag y después sus posts
    */
-  private loadTagData(tagSlug: string, page: number, sortBy: string) {
+  private loadTagData(
+    tagSlug: string,
+    page: number,
+    sortBy: TagSortOption
+  ): void {
     this._loading.set(true);
     this._error.set(null);
 
-    // Simular carga de datos del tag
-    const tagData = this.getTagData(tagSlug);
-
-    if (!tagData) {
-      this._error.set('Tag no encontrado');
-      this._loading.set(false);
-      return [];
-    }
+    this.blogService
+      .getTagBySlug(tagSlug)
+      .pipe(takeUntil(this.destroy$))
+      .subscribe({
+        next: (tag) => {
+          this._tagData.set(tag);
 
-    this._tagData.set(tagData);
+          if (!tag) {
+            this._error.set('Tag no encontrado');
+            this._loading.set(false);
+            return;
+          }
 
-    // Configurar SEO
-    this.setupSEO(tagData);
+          this.seoService.setupTagSEO(tag);
+          this.loadPosts(tag, page, sortBy);
+        },
+        error: (error) => {
+          console.error('Error loading tag:', error);
+          this._error.set('Error al cargar el tag');
+          this._loading.set(false);
+        },
+      });
+  }
 
-    // Cargar posts del tag
+  /**
+   * Carga una página de posts del tag
+   */
+  private loadPosts(tag: BlogTag, page: number, sortBy: TagSortOption): void {
+    const sort = SORT_OPTIONS.find((option) => option.value === sortBy)!;
     const filters: BlogFilters = {
-      tags: [tagData.tag],
-      sortBy: sortBy as any,
+      tags: [tag.name],
+      sortBy: sort.sortBy,
+      sortDirection: sort.sortDirection,
     };
 
+    this._loading.set(true);
+
     this.blogService
-      .getPosts(page, 12, filters)
+      .getPosts(page, POSTS_PER_PAGE, filters)
       .pipe(takeUntil(this.destroy$))
       .subscribe({
         next: (response: BlogPostsResponse) => {
@@ -222,221 +284,31 @@ export class BlogTagComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Obtiene los datos mock del tag
-   */
-  private getTagData(tagSlug: string): TagPageData | null {
-    const tagMap = new Map<string, TagPageData>([
-      [
-        'angular',
-        {
-          tag: 'Angular',
-          description:
-            'Framework de desarrollo web moderno creado por Google. Ideal para crear aplicaciones web escalables y mantenibles.',
-          count: 45,
-          relatedTags: ['TypeScript', 'JavaScript', 'RxJS', 'NgRx', 'Testing'],
-          color: '#dd0031',
-          category: 'desarrollo',
-        },
-      ],
-      [
-        'typescript',
-        {
-          tag: 'TypeScript',
-          description:
-            'Superset tipado de JavaScript que añade tipos estáticos opcionales y características avanzadas al lenguaje.',
-          count: 38,
-          relatedTags: ['JavaScript', 'Angular', 'React', 'Node.js'],
-          color: '#3178c6',
-          category: 'desarrollo',
-        },
-      ],
-      [
-        'javascript',
-        {
-          tag: 'JavaScript',
-          description:
-            'Lenguaje de programación interpretado, dialecto del estándar ECMAScript. Es el lenguaje de la web.',
-          count: 52,
-          relatedTags: ['TypeScript', 'Node.js', 'React', 'Vue.js', 'ES6'],
-          color: '#f7df1e',
-          category: 'desarrollo',
-        },
-      ],
-      [
-        'css',
-        {
-          tag: 'CSS',
-          description:
-            'Lenguaje de hojas de estilo utilizado para describir la presentación de documentos HTML y XML.',
-          count: 34,
-          relatedTags: ['HTML', 'Sass', 'Tailwind CSS', 'Responsive Design'],
-          color: '#1572b6',
-          category: 'diseno',
-        },
-      ],
-      [
-        'tailwind-css',
-        {
-          tag: 'Tailwind CSS',
-          description:
-            'Framework CSS utility-first que permite crear diseños personalizados sin salir del HTML.',
-          count: 28,
-          relatedTags: ['CSS', 'HTML', 'Responsive Design', 'PostCSS'],
-          color: '#06b6d4',
-          category: 'diseno',
-        },
-      ],
-      [
-        'react',
-        {
-          tag: 'React',
-          description:
-            'Biblioteca de JavaScript para construir interfaces de usuario, especialmente aplicaciones web de una sola página.',
-          count: 36,
-          relatedTags: ['JavaScript', 'JSX', 'Redux', 'Next.js', 'Hooks'],
-          color: '#61dafb',
-          category: 'desarrollo',
-        },
-      ],
-      [
-        'vue.js',
-        {
-          tag: 'Vue.js',
-          description:
-            'Framework progresivo de JavaScript para construir interfaces de usuario y aplicaciones de una sola página.',
-          count: 25,
-          relatedTags: ['JavaScript', 'Vuex', 'Nuxt.js', 'Vue Router'],
-          color: '#4fc08d',
-          category: 'desarrollo',
-        },
-      ],
-      [
-        'web-performance',
-        {
-          tag: 'Web Performance',
-          description:
-            'Técnicas y mejores prácticas para optimizar la velocidad y rendimiento de sitios y aplicaciones web.',
-          count: 22,
-          relatedTags: ['Core Web Vitals', 'Lighthouse', 'PWA', 'CDN'],
-          color: '#ff6b6b',
-          category: 'tecnologia',
-        },
-      ],
-      [
-        'seo',
-        {
-          tag: 'SEO',
-          description:
-            'Search Engine Optimization: técnicas para mejorar la visibilidad de sitios web en motores de búsqueda.',
-          count: 26,
-          relatedTags: [
-            'Structured Data',
-            'Meta Tags',
-            'Sitemap',
-            'Core Web Vitals',
-          ],
-          color: '#48bb78',
-          category: 'tecnologia',
-        },
-      ],
-      [
-        'ux-ui',
-        {
-          tag: 'UX/UI',
-          description:
-            'Experiencia de Usuario y Diseño de Interfaz: disciplinas enfocadas en crear productos digitales usables y atractivos.',
-          count: 31,
-          relatedTags: [
-            'Design Systems',
-            'Figma',
-            'Usability',
-            'Accessibility',
-          ],
-          color: '#ed64a6',
-          category: 'diseno',
-        },
-      ],
-    ]);
-
-    return tagMap.get(tagSlug) || null;
-  }
-
-  /**
-   * Configura el SEO para la página del tag
+   * Maneja el cambio de página
    */
-  private setupSEO(tagData: TagPageData): void {
-    const title = `Artículos sobre ${tagData.tag} - Mi Blog`;
-    const description = `${tagData.description} Descubre ${tagData.count} artículos sobre ${tagData.tag}.`;
-
-    this.titleService.setTitle(title);
-
-    // Meta tags básicos
-    this.metaService.updateTag({ name: 'description', content: description });
-    this.metaService.updateTag({
-      name: 'keywords',
-      content: `${tagData.tag}, ${tagData.relatedTags.join(
-        ', '
-      )}, blog, programación`,
-    });
-
-    // Open Graph
-    this.metaService.updateTag({ property: 'og:title', content: title });
-    this.metaService.updateTag({
-      property: 'og:description',
-      content: description,
-    });
-    this.metaService.updateTag({ property: 'og:type', content: 'website' });
+  onPageChange(event: PageChangeEvent): void {
+    this.updateQueryParams({ page: event.page > 1 ? event.page : null });
 
-    // Twitter Cards
-    this.metaService.updateTag({ name: 'twitter:title', content: title });
-    this.metaService.updateTag({
-      name: 'twitter:description',
-      content: description,
-    });
-
-    // Usar SEO Service para configuración avanzada
     if (this.isBrowser) {
-      this.seoService.setupCategorySEO(
-        {
-          name: tagData.tag,
-          slug: tagData.tag.toLowerCase().replace(/\s+/g, '-'),
-          description: tagData.description || '',
-        } as any,
-        tagData.count
-      );
+      window.scrollTo({ top: 0, behavior: 'smooth' });
     }
   }
 
-  /**
-   * Maneja el cambio de página
-   */
-  onPageChange(page: number): void {
-    this.updateQueryParams({ page: page.toString() });
-  }
-
   /**
    * Maneja el cambio de ordenamiento
    */
-  onSortChange(sortBy: 'newest' | 'oldest' | 'popular'): void {
-    this.updateQueryParams({ sort: sortBy, page: '1' });
-  }
-
-  /**
-   * Maneja el click en un tag relacionado
-   */
-  onRelatedTagClick(tagName: string): void {
-    const tagSlug = tagName
-      .toLowerCase()
-      .replace(/\s+/g, '-')
-      .replace(/[^a-z0-9-]/g, '');
-    this.router.navigate(['/blog/tag', tagSlug]);
+  onSortChange(sortBy: TagSortOption): void {
+    this.updateQueryParams({
+      sort: sortBy !== 'newest' ? sortBy : null,
+      page: null,
+    });
   }
 
   /**
    * Maneja el click en un post
    */
   onPostClick(post: BlogPost): void {
-    this.router.navigate(['/blog', post.slug]);
+    this.router.navigateByUrl(postPath(post));
   }
 
   /**
@@ -454,7 +326,11 @@ export class BlogTagComponent implements OnInit, OnDestroy {
    * Navega de vuelta al blog principal
    */
   goBackToBlog(): void {
-    this.router.navigate(['/blog']);
+    this.router.navigateByUrl(this.blogUrl());
+  }
+
+  getTagUrl(slug: string): string {
+    return this.localeService.localize(`/blog/tag/${slug}`);
   }
 
   /**
@@ -467,8 +343,8 @@ export class BlogTagComponent implements OnInit, OnDestroy {
     if (!tagData) return;
 
     const url = window.location.href;
-    const title = `Artículos sobre ${tagData.tag}`;
-    const text = `Descubre artículos sobre ${tagData.tag}: ${tagData.description}`;
+    const title = `Artículos sobre ${tagData.name}`;
+    const text = `Descubre artículos sobre ${tagData.name}: ${tagData.description}`;
 
     if (navigator.share) {
       navigator
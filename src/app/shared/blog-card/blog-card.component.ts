@@ -11,6 +11,13 @@ import {
 import { CommonModule, NgOptimizedImage } from '@angular/common';
 import { RouterLink } from '@angular/router';
 import type { BlogPost } from '../../core/models/blog.interface';
+import { tagSlug } from '../../core/data-sources/blog-tags';
+import { contentLocale, localizePath, postPath } from '../../core/i18n/locales';
+import {
+  LocaleDatePipe,
+  LocaleNumberPipe,
+  TranslatePipe,
+} from '../../core/pipes/i18n.pipes';
 
 /**
  * Tipos de layout disponibles para el blog card
@@ -40,7 +47,14 @@ export interface BlogCardConfig {
 @Component({
   selector: 'app-blog-card',
   standalone: true,
-  imports: [CommonModule, NgOptimizedImage, RouterLink],
+  imports: [
+    CommonModule,
+    NgOptimizedImage,
+    RouterLink,
+    TranslatePipe,
+    LocaleDatePipe,
+    LocaleNumberPipe,
+  ],
   templateUrl: './blog-card.component.html',
   styleUrls: ['./blog-card.component.css'],
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -247,18 +261,6 @@ export class BlogCardComponent {
   }
 
   // Utilidades
-  protected formatDate(date: Date): string {
-    return new Intl.DateTimeFormat('es-ES', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-    }).format(new Date(date));
-  }
-
-  protected getReadingTimeText(minutes: number): string {
-    return minutes === 1 ? '1 minuto' : `${minutes} minutos`;
-  }
-
   protected getCategoryColor(categoryId: string): string {
     const category = this.post.categories?.find((cat) => cat.id === categoryId);
     return category?.color || '#6B7280';
@@ -269,6 +271,17 @@ export class BlogCardComponent {
     return text.substring(0, length).trim() + '...';
   }
 
+  protected getPostUrl(post: BlogPost): string {
+    return postPath(post);
+  }
+
+  /**
+   * Página del tag en el idioma del post, como su enlace
+   */
+  protected getTagUrl(tag: string): string {
+    return localizePath(`/blog/tag/${tagSlug(tag)}`, contentLocale(this.post));
+  }
+
   // Método para optimizar trackBy en ngFor
   protected trackByCategory(index: number, categoryId: string): string {
     return categoryId;
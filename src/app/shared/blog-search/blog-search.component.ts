@@ -27,6 +27,9 @@ import { Observable, of, combineLatest, fromEvent, merge } from 'rxjs';
 // Servicios
 import { BlogService } from '../../core/services/blog.service';
 import { CategoriaService } from '../../core/services/categoria.service';
+import { LocaleDatePipe, TranslatePipe } from '../../core/pipes/i18n.pipes';
+import { I18nService } from '../../core/services/i18n.service';
+import { postPath } from '../../core/i18n/locales';
 
 // Interfaces
 import type {
@@ -35,12 +38,24 @@ import type {
   BlogSortBy,
 } from '../../core/models/blog.interface';
 import type { BlogCategory } from '../../core/models/categoria.interface';
+import type { BlogAuthor } from '../../core/models/author.interface';
+import {
+  ParsedSearchQuery,
+  formatQueryDate,
+  formatSearchQuery,
+  parseQueryDate,
+  parseSearchParams,
+  parseSearchQuery,
+  resolveCategory,
+  toBlogFilters,
+  toSearchParams,
+} from '../../core/search/query-parser';
 
 // Interfaces específicas para búsqueda
 export interface SearchSuggestion {
   id: string;
   text: string;
-  type: 'post' | 'category' | 'tag' | 'author';
+  type: 'post' | 'category' | 'tag' | 'author' | 'query';
   data?: any;
   popularity?: number;
 }
@@ -89,7 +104,7 @@ export interface SearchConfig {
 @Component({
   selector: 'app-blog-search',
   standalone: true,
-  imports: [CommonModule, ReactiveFormsModule],
+  imports: [CommonModule, ReactiveFormsModule, LocaleDatePipe, TranslatePipe],
   templateUrl: './blog-search.component.html',
   styleUrl: './blog-search.component.css',
 })
@@ -104,6 +119,7 @@ export class BlogSearchComponent {
   private readonly router = inject(Router);
   private readonly route = inject(ActivatedRoute);
   private readonly platformId = inject(PLATFORM_ID);
+  private readonly i18n = inject(I18nService);
 
   // Inputs y Outputs
   readonly config = input<Partial<SearchConfig>>({});
@@ -155,10 +171,11 @@ export class BlogSearchComponent {
   readonly categories = signal<BlogCategory[]>([]);
   readonly popularTags = signal<string[]>([]);
   readonly authors = signal<string[]>([]);
+  readonly authorProfiles = signal<BlogAuthor[]>([]);
 
   // Configuración computada
   readonly searchConfig = computed<SearchConfig>(() => ({
-    placeholder: 'Buscar posts, categorías, tags...',
+    placeholder: this.i18n.t('searchBox.placeholder'),
     maxSuggestions: 8,
     maxHistory: 10,
     debounceTime: 300,
@@ -271,14 +288,18 @@ export class BlogSearchComponent {
 
   private setupUrlSync(): void {
     // Sincronizar con parámetros de URL
+    // Los operadores de la sintaxis avanzada viajan en parámetros propios
     this.route.queryParams.subscribe((params) => {
-      if (params['q']) {
-        this.searchControl.setValue(params['q'], { emitEvent: false });
-        this.updateSearchState({ query: params['q'] });
+      const parsed = parseSearchParams(params);
+      if (params['category']) {
+        parsed.categories.push(params['category']);
       }
 
-      if (params['category']) {
-        this.updateFilters({ categories: [params['category']] });
+      const query = formatSearchQuery(parsed);
+      if (query) {
+        this.searchControl.setValue(query, { emitEvent: false });
+        this.updateSearchState({ query });
+        this.applyQueryToFilters(parsed);
       }
     });
   }
@@ -301,13 +322,10 @@ export class BlogSearchComponent {
       //   this.popularTags.set(tagsData);
       // }
 
-      // Cargar autores (desde datos mock por ahora)
-      this.authors.set([
-        'Juan Pérez',
-        'María García',
-        'Carlos López',
-        'Ana Martín',
-      ]);
+      // Cargar autores
+      const authors = (await this.blogService.getAuthors().toPromise()) || [];
+      this.authorProfiles.set(authors);
+      this.authors.set(authors.map((author) => author.name));
 
       // Cargar historial desde localStorage
       this.loadSearchHistory();
@@ -323,7 +341,7 @@ export class BlogSearchComponent {
       }
     } catch (error) {
       console.error('Error loading initial search data:', error);
-      this.setError('filters', 'Error al cargar los filtros');
+      this.setError('filters', this.i18n.t('searchBox.error.filters'));
     } finally {
       this.setLoadingState('filters', false);
     }
@@ -337,15 +355,20 @@ export class BlogSearchComponent {
       this.setLoadingState('search', true);
       this.clearError('search');
 
-      const filters = this.currentFilters();
+      // Interpretar la sintaxis avanzada y reflejarla en los filtros
+      const parsed = parseSearchQuery(query);
+      const filters = this.applyQueryToFilters(parsed);
+      const blogFilters: BlogFilters = {
+        ...toBlogFilters(parsed, {
+          categories: this.categories(),
+          authors: this.authorProfiles(),
+        }),
+        sortBy: filters.sortBy,
+      };
 
       // Realizar búsqueda
       const results = await this.blogService
-        .searchPosts(query, {
-          sortBy: filters.sortBy,
-          categoryIds: filters.categories,
-          authorId: filters.authors?.[0],
-        })
+        .searchPosts(blogFilters.search || '', blogFilters)
         .toPromise();
 
       if (results) {
@@ -364,7 +387,7 @@ export class BlogSearchComponent {
       }
     } catch (error) {
       console.error('Error performing search:', error);
-      this.setError('search', 'Error al realizar la búsqueda');
+      this.setError('search', this.i18n.t('searchBox.error.search'));
     } finally {
       this.setLoadingState('search', false);
       this.closeAllDropdowns();
@@ -431,10 +454,26 @@ export class BlogSearchComponent {
         .sort((a, b) => (b.popularity || 0) - (a.popularity || 0))
         .slice(0, this.searchConfig().maxSuggestions);
 
+      // "¿Quisiste decir…?" siempre en primer lugar
+      const correctedQuery = await this.blogService
+        .getSearchSuggestion(query)
+        .toPromise();
+
+      if (correctedQuery) {
+        sortedSuggestions.unshift({
+          id: `query-${correctedQuery}`,
+          text: this.i18n.t('search.suggestion.correction', {
+            query: correctedQuery,
+          }),
+          type: 'query',
+          data: { query: correctedQuery },
+        });
+      }
+
       this.updateSearchState({ suggestions: sortedSuggestions });
     } catch (error) {
       console.error('Error loading suggestions:', error);
-      this.setError('suggestions', 'Error al cargar sugerencias');
+      this.setError('suggestions', this.i18n.t('searchBox.error.suggestions'));
     } finally {
       this.setLoadingState('suggestions', false);
     }
@@ -448,8 +487,12 @@ export class BlogSearchComponent {
     this.updateSearchState({ filters: updatedFilters });
     this.filterChanged.emit(updatedFilters);
 
+    // Reflejar los filtros en la caja de búsqueda
+    const query = this.composeQuery(this.searchControl.value, updatedFilters);
+    this.searchControl.setValue(query, { emitEvent: false });
+    this.updateSearchState({ query });
+
     // Si hay query activo, realizar nueva búsqueda
-    const query = this.currentQuery();
     if (query) {
       this.performSearch(query);
     }
@@ -505,7 +548,7 @@ export class BlogSearchComponent {
     switch (suggestion.type) {
       case 'post':
         // Navegar al post
-        this.router.navigate(['/blog/post', suggestion.data.slug]);
+        this.router.navigateByUrl(postPath(suggestion.data));
         break;
       case 'category':
         // Aplicar filtro de categoría
@@ -515,6 +558,11 @@ export class BlogSearchComponent {
         // Aplicar filtro de tag
         this.addTagFilter(suggestion.data.name);
         break;
+      case 'query':
+        // Buscar con la consulta corregida
+        this.searchControl.setValue(suggestion.data.query);
+        this.performSearch(suggestion.data.query);
+        break;
     }
 
     this.closeAllDropdowns();
@@ -658,13 +706,50 @@ export class BlogSearchComponent {
     }
   }
 
+  // Métodos de sintaxis avanzada
+  /**
+   * Reflejar los operadores de la consulta en los filtros (caja → chips)
+   */
+  private applyQueryToFilters(parsed: ParsedSearchQuery): SearchFilters {
+    const filters: SearchFilters = {
+      ...this.currentFilters(),
+      categories: parsed.categories.map(
+        (value) => resolveCategory(value, this.categories())?.id || value
+      ),
+      tags: parsed.tags,
+      authors: parsed.authors,
+      dateFrom: parsed.from ? parseQueryDate(parsed.from, 'start') : undefined,
+      dateTo: parsed.to ? parseQueryDate(parsed.to, 'end') : undefined,
+    };
+
+    this.updateSearchState({ filters });
+    return filters;
+  }
+
+  /**
+   * Reescribir la consulta con los filtros activos (chips → caja)
+   */
+  private composeQuery(query: string, filters: SearchFilters): string {
+    return formatSearchQuery({
+      ...parseSearchQuery(query),
+      categories: filters.categories.map(
+        (id) => this.getCategoryById(id)?.slug || id
+      ),
+      tags: filters.tags,
+      authors: filters.authors,
+      from: filters.dateFrom ? formatQueryDate(filters.dateFrom) : undefined,
+      to: filters.dateTo ? formatQueryDate(filters.dateTo) : undefined,
+    });
+  }
+
   // Métodos de URL
   private updateUrl(query: string, filters: SearchFilters): void {
-    const queryParams: any = {};
+    const queryParams: any = {
+      ...toSearchParams(parseSearchQuery(query)),
+      category: null,
+      sort: null,
+    };
 
-    if (query) queryParams.q = query;
-    if (filters.categories.length > 0)
-      queryParams.category = filters.categories[0];
     if (filters.sortBy !== 'publishedAt') queryParams.sort = filters.sortBy;
 
     this.router.navigate([], {
@@ -760,12 +845,8 @@ export class BlogSearchComponent {
     return date ? date.toISOString().split('T')[0] : '';
   }
 
-  formatDate(date: Date): string {
-    return new Intl.DateTimeFormat('es-ES', {
-      year: 'numeric',
-      month: 'short',
-      day: 'numeric',
-    }).format(date);
+  getSuggestionTypeLabel(type: SearchSuggestion['type']): string {
+    return this.i18n.t(`searchBox.type.${type}`);
   }
 
   // Track by functions para performance
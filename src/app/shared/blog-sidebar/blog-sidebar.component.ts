@@ -17,10 +17,27 @@ import { CommonModule, isPlatformBrowser } from '@angular/common';
 import { RouterLink } from '@angular/router';
 import { FormsModule } from '@angular/forms';
 import { Subject, takeUntil, combineLatest } from 'rxjs';
-import type { BlogPost, BlogAuthor } from '../../core/models/blog.interface';
+import type {
+  BlogArchiveMonth,
+  BlogPost,
+  BlogAuthor,
+} from '../../core/models/blog.interface';
 import type { BlogCategory } from '../../core/models/categoria.interface';
+import type {
+  AuthorSummary,
+  AuthorWidgetConfig,
+} from '../../core/models/author.interface';
 import { BlogService } from '../../core/services/blog.service';
+import { tagSlug } from '../../core/data-sources/blog-tags';
 import { CategoriaService } from '../../core/services/categoria.service';
+import { AuthorService } from '../../core/services/author.service';
+import { LocaleService } from '../../core/services/locale.service';
+import { postPath } from '../../core/i18n/locales';
+import {
+  LocaleDatePipe,
+  LocaleNumberPipe,
+  TranslatePipe,
+} from '../../core/pipes/i18n.pipes';
 import { SSROptimizationService } from '../../core/services/ssr-optimization.service';
 
 /**
@@ -48,6 +65,14 @@ export interface SidebarWidgetConfig {
     minFontSize: number;
     maxFontSize: number;
   };
+  archive: {
+    enabled: boolean;
+    limit: number;
+    showCounts: boolean;
+  };
+  authors: AuthorWidgetConfig & {
+    enabled: boolean;
+  };
   aboutAuthor: {
     enabled: boolean;
     showBio: boolean;
@@ -76,7 +101,14 @@ export interface AuthorInfo extends BlogAuthor {
 @Component({
   selector: 'app-blog-sidebar',
   standalone: true,
-  imports: [CommonModule, RouterLink, FormsModule],
+  imports: [
+    CommonModule,
+    RouterLink,
+    FormsModule,
+    TranslatePipe,
+    LocaleDatePipe,
+    LocaleNumberPipe,
+  ],
   templateUrl: './blog-sidebar.component.html',
   styleUrls: ['./blog-sidebar.component.css'],
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -85,9 +117,11 @@ export class BlogSidebarComponent implements OnInit, OnDestroy, AfterViewInit {
   // Services
   private readonly blogService = inject(BlogService);
   private readonly categoriaService = inject(CategoriaService);
+  private readonly authorService = inject(AuthorService);
   private readonly platformId = inject(PLATFORM_ID);
   private readonly ssrOptimization = inject(SSROptimizationService);
   private readonly elementRef = inject(ElementRef);
+  private readonly localeService = inject(LocaleService);
 
   // Inputs
   @Input() config: Partial<SidebarWidgetConfig> = {};
@@ -107,6 +141,8 @@ export class BlogSidebarComponent implements OnInit, OnDestroy, AfterViewInit {
   private readonly _popularPosts = signal<BlogPost[]>([]);
   private readonly _categories = signal<BlogCategory[]>([]);
   private readonly _allTags = signal<string[]>([]);
+  private readonly _archive = signal<BlogArchiveMonth[]>([]);
+  private readonly _authors = signal<AuthorSummary[]>([]);
   private readonly _loading = signal<boolean>(false);
   private readonly _error = signal<string | null>(null);
 
@@ -133,6 +169,23 @@ export class BlogSidebarComponent implements OnInit, OnDestroy, AfterViewInit {
       minFontSize: 12,
       maxFontSize: 18,
     },
+    archive: {
+      enabled: true,
+      limit: 12,
+      showCounts: true,
+    },
+    authors: {
+      enabled: true,
+      limit: 4,
+      showAvatars: true,
+      showBio: false,
+      showPostCounts: true,
+      showSocialLinks: false,
+      recentAuthorsOnly: false,
+      recentPeriodDays: 90,
+      sortBy: 'postsCount',
+      layout: 'list',
+    },
     aboutAuthor: {
       enabled: true,
       showBio: true,
@@ -154,6 +207,10 @@ export class BlogSidebarComponent implements OnInit, OnDestroy, AfterViewInit {
   protected readonly popularPosts = this._popularPosts.asReadonly();
   protected readonly categories = this._categories.asReadonly();
   protected readonly allTags = this._allTags.asReadonly();
+  protected readonly archive = computed(() =>
+    this._archive().slice(0, this.finalConfig().archive.limit)
+  );
+  protected readonly authors = this._authors.asReadonly();
   protected readonly loading = this._loading.asReadonly();
   protected readonly error = this._error.asReadonly();
 
@@ -240,20 +297,6 @@ export class BlogSidebarComponent implements OnInit, OnDestroy, AfterViewInit {
   }
 
   // Utilidades para templates
-  protected formatDate(date: Date): string {
-    return new Intl.DateTimeFormat('es-ES', {
-      month: 'short',
-      day: 'numeric',
-    }).format(new Date(date));
-  }
-
-  protected formatNumber(num: number): string {
-    if (num >= 1000) {
-      return (num / 1000).toFixed(1) + 'k';
-    }
-    return num.toString();
-  }
-
   protected truncateText(text: string, length: number): string {
     if (text.length <= length) return text;
     return text.substring(0, length).trim() + '...';
@@ -267,6 +310,30 @@ export class BlogSidebarComponent implements OnInit, OnDestroy, AfterViewInit {
     return category.icon || '📁';
   }
 
+  /**
+   * Enlaces del sidebar en el idioma de la página
+   */
+  protected localize(path: string): string {
+    return this.localeService.localize(path);
+  }
+
+  protected getPostUrl(post: BlogPost): string {
+    return postPath(post);
+  }
+
+  protected tagUrl(tag: string): string {
+    return this.localize(`/blog/tag/${tagSlug(tag)}`);
+  }
+
+  protected authorUrl(author: AuthorSummary): string {
+    return this.localize(`/blog/autor/${author.slug}`);
+  }
+
+  protected archiveUrl(item: BlogArchiveMonth): string {
+    const month = String(item.month).padStart(2, '0');
+    return this.localize(`/blog/archivo/${item.year}/${month}`);
+  }
+
   // TrackBy functions para optimización
   protected trackByPost(index: number, post: BlogPost): string {
     return post.id;
@@ -287,6 +354,7 @@ export class BlogSidebarComponent implements OnInit, OnDestroy, AfterViewInit {
     }
 
     this._loading.set(true);
+    this._loadAuthors();
 
     const popularPosts$ = this.blogService.getPopularPosts(
       this.finalConfig().popularPosts.limit
@@ -295,13 +363,15 @@ export class BlogSidebarComponent implements OnInit, OnDestroy, AfterViewInit {
       this.finalConfig().categories.limit
     );
     const stats$ = this.blogService.getBlogStats();
+    const archive$ = this.blogService.getArchive();
 
-    combineLatest([popularPosts$, categories$, stats$])
+    combineLatest([popularPosts$, categories$, stats$, archive$])
       .pipe(takeUntil(this._destroy$))
       .subscribe({
-        next: ([posts, categories, stats]) => {
+        next: ([posts, categories, stats, archive]) => {
           this._popularPosts.set(posts);
           this._categories.set(categories);
+          this._archive.set(archive);
 
           // Extraer tags únicos de los posts populares
           const allTags = posts.reduce((tags: string[], post) => {
@@ -320,4 +390,19 @@ export class BlogSidebarComponent implements OnInit, OnDestroy, AfterViewInit {
         },
       });
   }
+
+  /**
+   * Autores del widget "Nuestros autores"
+   */
+  private _loadAuthors(): void {
+    const config = this.finalConfig().authors;
+    if (!config.enabled) {
+      return;
+    }
+
+    this.authorService
+      .getWidgetAuthors(config)
+      .pipe(takeUntil(this._destroy$))
+      .subscribe((authors) => this._authors.set(authors));
+  }
 }
@@ -14,6 +14,10 @@ import {
 import { CommonModule, isPlatformBrowser } from '@angular/common';
 import { RouterLink } from '@angular/router';
 import { Subject, takeUntil } from 'rxjs';
+import { BlogService } from '../../core/services/blog.service';
+import { LocaleService } from '../../core/services/locale.service';
+import { BlogTag } from '../../core/models/blog.interface';
+import { tagSlug } from '../../core/data-sources/blog-tags';
 
 interface TagItem {
   name: string;
@@ -23,6 +27,7 @@ interface TagItem {
   color?: string;
   popularity: number;
   category?: 'tecnologia' | 'desarrollo' | 'diseno' | 'herramientas' | 'otros';
+  relatedTags?: string[];
 }
 
 interface TagCloud extends TagItem {
@@ -45,8 +50,11 @@ interface TagFilter {
 })
 export class BlogTagsComponent implements OnInit, OnDestroy {
   private platformId = inject(PLATFORM_ID);
+  private blogService = inject(BlogService);
+  private localeService = inject(LocaleService);
 
   // Inputs
+  /** Tags a mostrar (todos los del blog si está vacío) */
   @Input() tags: string[] = [];
   @Input() selectedTags: string[] = [];
   @Input() mode: 'list' | 'cloud' | 'inline' | 'filter' = 'list';
@@ -59,6 +67,8 @@ export class BlogTagsComponent implements OnInit, OnDestroy {
   @Input() interactive: boolean = true;
   @Input() size: 'sm' | 'md' | 'lg' = 'md';
   @Input() variant: 'default' | 'outline' | 'filled' | 'gradient' = 'default';
+  /** En modo cloud, cada tag enlaza a su página (/blog/tag/:tag) */
+  @Input() linkTags: boolean = false;
 
   // Outputs
   @Output() tagClick = new EventEmitter<string>();
@@ -190,10 +200,6 @@ export class BlogTagsComponent implements OnInit, OnDestroy {
 
   ngOnInit(): void {
     this.loadTags();
-
-    if (this.showRelated && this.selectedTags.length > 0) {
-      this.loadRelatedTags();
-    }
   }
 
   ngOnDestroy(): void {
@@ -208,12 +214,17 @@ export class BlogTagsComponent implements OnInit, OnDestroy {
     this._loading.set(true);
     this._error.set(null);
 
-    // Simular carga de tags
-    setTimeout(() => {
-      const mockTags = this.generateMockTags();
-      this._allTags.set(mockTags);
-      this._loading.set(false);
-    }, 300);
+    this.blogService
+      .getTags()
+      .pipe(takeUntil(this.destroy$))
+      .subscribe((tags) => {
+        this._allTags.set(this.toTagItems(tags));
+        this._loading.set(false);
+
+        if (this.showRelated && this.selectedTags.length > 0) {
+          this.loadRelatedTags();
+        }
+      });
   }
 
   /**
@@ -225,243 +236,46 @@ export class BlogTagsComponent implements OnInit, OnDestroy {
       return;
     }
 
-    // Simular carga de tags relacionados
-    setTimeout(() => {
-      const related = this.generateRelatedTags(this.selectedTags);
-      this._relatedTags.set(related);
-    }, 200);
+    this._relatedTags.set(this.generateRelatedTags(this.selectedTags));
   }
 
   /**
-   * Genera datos mock de tags
+   * Adapta los tags del blog (con el filtro del input tags)
    */
-  private generateMockTags(): TagItem[] {
-    return [
-      {
-        name: 'Angular',
-        slug: 'angular',
-        count: 45,
-        description: 'Framework de desarrollo web',
-        color: '#dd0031',
-        popularity: 0.9,
-        category: 'desarrollo',
-      },
-      {
-        name: 'TypeScript',
-        slug: 'typescript',
-        count: 38,
-        description: 'Superset tipado de JavaScript',
-        color: '#3178c6',
-        popularity: 0.85,
-        category: 'desarrollo',
-      },
-      {
-        name: 'JavaScript',
-        slug: 'javascript',
-        count: 52,
-        description: 'Lenguaje de programación web',
-        color: '#f7df1e',
-        popularity: 0.95,
-        category: 'desarrollo',
-      },
-      {
-        name: 'CSS',
-        slug: 'css',
-        count: 34,
-        description: 'Hojas de estilo en cascada',
-        color: '#1572b6',
-        popularity: 0.8,
-        category: 'diseno',
-      },
-      {
-        name: 'Tailwind CSS',
-        slug: 'tailwind-css',
-        count: 28,
-        description: 'Framework CSS utility-first',
-        color: '#06b6d4',
-        popularity: 0.75,
-        category: 'diseno',
-      },
-      {
-        name: 'HTML',
-        slug: 'html',
-        count: 41,
-        description: 'Lenguaje de marcado de hipertexto',
-        color: '#e34f26',
-        popularity: 0.88,
-        category: 'desarrollo',
-      },
-      {
-        name: 'React',
-        slug: 'react',
-        count: 36,
-        description: 'Biblioteca para interfaces de usuario',
-        color: '#61dafb',
-        popularity: 0.82,
-        category: 'desarrollo',
-      },
-      {
-        name: 'Vue.js',
-        slug: 'vuejs',
-        count: 25,
-        description: 'Framework progresivo de JavaScript',
-        color: '#4fc08d',
-        popularity: 0.7,
-        category: 'desarrollo',
-      },
-      {
-        name: 'Node.js',
-        slug: 'nodejs',
-        count: 32,
-        description: 'Runtime de JavaScript del lado servidor',
-        color: '#339933',
-        popularity: 0.78,
-        category: 'desarrollo',
-      },
-      {
-        name: 'Web Performance',
-        slug: 'web-performance',
-        count: 22,
-        description: 'Optimización del rendimiento web',
-        color: '#ff6b6b',
-        popularity: 0.65,
-        category: 'tecnologia',
-      },
-      {
-        name: 'PWA',
-        slug: 'pwa',
-        count: 18,
-        description: 'Progressive Web Applications',
-        color: '#5a67d8',
-        popularity: 0.6,
-        category: 'tecnologia',
-      },
-      {
-        name: 'SEO',
-        slug: 'seo',
-        count: 26,
-        description: 'Search Engine Optimization',
-        color: '#48bb78',
-        popularity: 0.72,
-        category: 'tecnologia',
-      },
-      {
-        name: 'UX/UI',
-        slug: 'ux-ui',
-        count: 31,
-        description: 'Experiencia y diseño de usuario',
-        color: '#ed64a6',
-        popularity: 0.77,
-        category: 'diseno',
-      },
-      {
-        name: 'Git',
-        slug: 'git',
-        count: 29,
-        description: 'Control de versiones',
-        color: '#f05032',
-        popularity: 0.76,
-        category: 'herramientas',
-      },
-      {
-        name: 'VS Code',
-        slug: 'vs-code',
-        count: 15,
-        description: 'Editor de código',
-        color: '#007acc',
-        popularity: 0.55,
-        category: 'herramientas',
-      },
-      {
-        name: 'API',
-        slug: 'api',
-        count: 33,
-        description: 'Application Programming Interface',
-        color: '#9f7aea',
-        popularity: 0.79,
-        category: 'desarrollo',
-      },
-      {
-        name: 'Testing',
-        slug: 'testing',
-        count: 20,
-        description: 'Pruebas de software',
-        color: '#38b2ac',
-        popularity: 0.63,
-        category: 'desarrollo',
-      },
-      {
-        name: 'DevOps',
-        slug: 'devops',
-        count: 17,
-        description: 'Desarrollo y operaciones',
-        color: '#4299e1',
-        popularity: 0.58,
-        category: 'tecnologia',
-      },
-      {
-        name: 'Responsive Design',
-        slug: 'responsive-design',
-        count: 24,
-        description: 'Diseño web adaptable',
-        color: '#f56565',
-        popularity: 0.68,
-        category: 'diseno',
-      },
-      {
-        name: 'Accessibility',
-        slug: 'accessibility',
-        count: 16,
-        description: 'Accesibilidad web',
-        color: '#68d391',
-        popularity: 0.57,
-        category: 'diseno',
-      },
-    ];
+  private toTagItems(tags: BlogTag[]): TagItem[] {
+    const wanted = new Set(this.tags.map(tagSlug));
+    const visible = wanted.size
+      ? tags.filter((tag) => wanted.has(tag.slug))
+      : tags;
+    const maxCount = Math.max(1, ...visible.map((tag) => tag.count));
+
+    return visible.map((tag) => ({
+      name: tag.name,
+      slug: tag.slug,
+      count: tag.count,
+      description: tag.description,
+      color: tag.color,
+      popularity: tag.count / maxCount,
+      relatedTags: tag.relatedTags.map((related) => related.name),
+    }));
   }
 
   /**
-   * Genera tags relacionados basados en los seleccionados
+   * Tags que aparecen junto a los seleccionados
    */
   private generateRelatedTags(selectedTags: string[]): TagItem[] {
     const allTags = this._allTags();
-    const relatedMap = new Map<string, string[]>();
-
-    // Mapeo de relaciones de tags
-    relatedMap.set('Angular', [
-      'TypeScript',
-      'JavaScript',
-      'HTML',
-      'CSS',
-      'Testing',
-    ]);
-    relatedMap.set('React', [
-      'JavaScript',
-      'HTML',
-      'CSS',
-      'Node.js',
-      'Testing',
-    ]);
-    relatedMap.set('Vue.js', ['JavaScript', 'HTML', 'CSS', 'Node.js']);
-    relatedMap.set('TypeScript', ['JavaScript', 'Angular', 'React', 'Node.js']);
-    relatedMap.set('CSS', [
-      'HTML',
-      'Tailwind CSS',
-      'Responsive Design',
-      'UX/UI',
-    ]);
-    relatedMap.set('JavaScript', ['HTML', 'CSS', 'Node.js', 'API', 'Testing']);
-
     const relatedTagNames = new Set<string>();
 
-    selectedTags.forEach((tagName) => {
-      const related = relatedMap.get(tagName) || [];
-      related.forEach((relatedName) => {
-        if (!selectedTags.includes(relatedName)) {
-          relatedTagNames.add(relatedName);
-        }
-      });
-    });
+    allTags
+      .filter((tag) => selectedTags.includes(tag.name))
+      .forEach((tag) =>
+        (tag.relatedTags || []).forEach((relatedName) => {
+          if (!selectedTags.includes(relatedName)) {
+            relatedTagNames.add(relatedName);
+          }
+        })
+      );
 
     return allTags.filter((tag) => relatedTagNames.has(tag.name));
   }
@@ -600,6 +414,13 @@ export class BlogTagsComponent implements OnInit, OnDestroy {
     };
   }
 
+  /**
+   * URL de la página de un tag en el idioma actual
+   */
+  getTagUrl(tag: TagItem): string {
+    return this.localeService.localize(`/blog/tag/${tag.slug}`);
+  }
+
   /**
    * TrackBy function para optimización de ngFor
    */
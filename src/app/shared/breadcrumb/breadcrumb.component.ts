@@ -22,6 +22,11 @@ import { Subject, takeUntil, combineLatest } from 'rxjs';
 // Servicios
 import { BlogService } from '../../core/services/blog.service';
 import { CategoriaService } from '../../core/services/categoria.service';
+import {
+  DEFAULT_LOCALE,
+  localeFromPath,
+  localizePath,
+} from '../../core/i18n/locales';
 
 // Interfaces
 import type { BlogPost } from '../../core/models/blog.interface';
@@ -143,6 +148,12 @@ export class BreadcrumbComponent implements OnInit, OnDestroy {
     return [first, ellipsis, ...middle.slice(-2), last];
   });
 
+  /** Último elemento visible (la página actual); no hay si la ruta está vacía */
+  readonly currentItem = computed((): BreadcrumbItem | undefined => {
+    const items = this.visibleItems();
+    return items[items.length - 1];
+  });
+
   readonly hasMultipleItems = computed(() => this.breadcrumbItems().length > 1);
   readonly shouldShowStructuredData = computed(
     () => this.breadcrumbConfig().showStructuredData && this.hasMultipleItems()
@@ -222,14 +233,18 @@ export class BreadcrumbComponent implements OnInit, OnDestroy {
   private async buildBreadcrumbsFromRoute(
     url: string
   ): Promise<BreadcrumbItem[]> {
-    const segments = url.split('/').filter((segment) => segment.length > 0);
+    // Los segmentos se leen sin el prefijo de idioma (/en/blog → /blog)
+    const locale = localeFromPath(url);
+    const segments = localizePath(url.split(/[?#]/)[0], DEFAULT_LOCALE)
+      .split('/')
+      .filter((segment) => segment.length > 0);
     const breadcrumbs: BreadcrumbItem[] = [];
 
     // Agregar home si está habilitado
     if (this.breadcrumbConfig().showHome) {
       breadcrumbs.push({
         label: this.breadcrumbConfig().homeLabel,
-        url: '/',
+        url: localizePath('/', locale),
         icon: this.breadcrumbConfig().homeIcon,
         isActive: segments.length === 0,
         isClickable: true,
@@ -246,7 +261,7 @@ export class BreadcrumbComponent implements OnInit, OnDestroy {
 
       const breadcrumbItem = await this.createBreadcrumbItem(
         segment,
-        currentUrl,
+        localizePath(currentUrl, locale),
         isLast,
         segments,
         i
@@ -270,13 +285,23 @@ export class BreadcrumbComponent implements OnInit, OnDestroy {
     // Mapeo de rutas conocidas
     const routeMap: Record<
       string,
-      { label: string; icon?: string; type: BreadcrumbItem['type'] }
+      {
+        label: string;
+        icon?: string;
+        type: BreadcrumbItem['type'];
+        url?: string;
+      }
     > = {
       blog: { label: 'Blog', icon: 'newspaper', type: 'page' },
       about: { label: 'Acerca de', icon: 'info-circle', type: 'page' },
       contact: { label: 'Contacto', icon: 'envelope', type: 'page' },
       cuenta: { label: 'Mi Cuenta', icon: 'user', type: 'page' },
-      categoria: { label: 'Categoría', icon: 'tag', type: 'category' },
+      categoria: {
+        label: 'Categorías',
+        icon: 'tag',
+        type: 'category',
+        url: '/blog/categorias',
+      },
       tag: { label: 'Etiqueta', icon: 'hashtag', type: 'category' },
       autor: { label: 'Autor', icon: 'user-circle', type: 'page' },
       buscar: { label: 'Búsqueda', icon: 'search', type: 'page' },
@@ -287,7 +312,7 @@ export class BreadcrumbComponent implements OnInit, OnDestroy {
       const route = routeMap[segment];
       return {
         label: route.label,
-        url,
+        url: route.url ? localizePath(route.url, localeFromPath(url)) : url,
         icon: route.icon,
         isActive: isLast,
         isClickable: !isLast,
@@ -298,8 +323,9 @@ export class BreadcrumbComponent implements OnInit, OnDestroy {
     // Casos especiales según el contexto
     const prevSegment = index > 0 ? allSegments[index - 1] : null;
 
-    // Si es una categoría de blog
-    if (prevSegment === 'categoria') {
+    // Si es una categoría de blog (o una de sus superiores en la URL jerárquica)
+    const categoryIndex = allSegments.indexOf('categoria');
+    if (categoryIndex >= 0 && index > categoryIndex) {
       try {
         const category = await this.getCategoryBySlug(segment);
         return {
@@ -346,10 +372,10 @@ export class BreadcrumbComponent implements OnInit, OnDestroy {
 
   private async getCategoryBySlug(slug: string): Promise<BlogCategory | null> {
     try {
-      const categories = await this.categoriaService
-        .getCategories()
+      const category = await this.categoriaService
+        .getCategoryBySlug(slug)
         .toPromise();
-      return categories?.data?.find((cat) => cat.slug === slug) || null;
+      return category || null;
     } catch (error) {
       return null;
     }
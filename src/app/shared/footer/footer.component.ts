@@ -4,6 +4,8 @@ import { RouterLink } from '@angular/router';
 import { ConfiguracionesService } from '../../core/services/configuraciones.service';
 import { BlogService } from '../../core/services/blog.service';
 import { CategoriaService } from '../../core/services/categoria.service';
+import { LocaleService } from '../../core/services/locale.service';
+import { postPath } from '../../core/i18n/locales';
 import {
   ConfiguracionesTodas,
   RedesSocialesConfig,
@@ -51,6 +53,7 @@ export class FooterComponent implements OnInit {
     private configuracionesService: ConfiguracionesService,
     private blogService: BlogService,
     private categoriaService: CategoriaService,
+    private localeService: LocaleService,
     @Inject(PLATFORM_ID) private platformId: Object
   ) {
     // Verificar si estamos en el navegador
@@ -163,6 +166,19 @@ export class FooterComponent implements OnInit {
     });
   }
 
+  // Enlaces del blog en el idioma actual
+  localize(path: string): string {
+    return this.localeService.localize(path);
+  }
+
+  getPostUrl(post: BlogPost): string {
+    return postPath(post);
+  }
+
+  getCategoryUrl(category: BlogCategory): string {
+    return this.localize(this.categoriaService.getCategoryUrl(category));
+  }
+
   // TrackBy function para optimizar ngFor
   trackByPost(index: number, post: BlogPost): string {
     return post.id;
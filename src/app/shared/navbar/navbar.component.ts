@@ -14,16 +14,19 @@ import { AuthService } from '../../core/auth/services/auth.service';
 import { User } from '../../core/models/user.model';
 import { ConfiguracionesService } from '../../core/services/configuraciones.service';
 import { CategoriaService } from '../../core/services/categoria.service';
+import { LocaleService } from '../../core/services/locale.service';
+import { TranslatePipe } from '../../core/pipes/i18n.pipes';
 import {
   ConfiguracionesTodas,
   RedesSocialesConfig,
 } from '../../core/models/configuracion.model';
 import { BlogCategory } from '../../core/models/categoria.interface';
+import { BlogLocale } from '../../core/models/blog.interface';
 
 @Component({
   selector: 'app-navbar',
   standalone: true,
-  imports: [CommonModule, RouterLink],
+  imports: [CommonModule, RouterLink, TranslatePipe],
   templateUrl: './navbar.component.html',
   styleUrl: './navbar.component.css',
 })
@@ -40,6 +43,11 @@ export class NavbarComponent implements OnInit {
   private authService = inject(AuthService);
   private router = inject(Router);
   private categoriaService = inject(CategoriaService);
+  private localeService = inject(LocaleService);
+
+  // Idiomas disponibles y activo
+  readonly idiomas = this.localeService.locales;
+  readonly idiomaActual = this.localeService.locale;
 
   // Usuario actual
   currentUser: User | null = null;
@@ -134,6 +142,17 @@ export class NavbarComponent implements OnInit {
     });
   }
 
+  // Ruta del blog en el idioma activo (/blog → /en/blog)
+  rutaBlog(path: string = '/blog'): string {
+    return this.localeService.localize(path);
+  }
+
+  // Cambia el idioma de la interfaz (y del blog, si estamos en él)
+  cambiarIdioma(locale: BlogLocale): void {
+    this.mobileMenuOpen = false;
+    this.localeService.setLocale(locale);
+  }
+
   // TrackBy function para optimizar ngFor
   trackByCategoria(index: number, categoria: BlogCategory): string {
     return categoria.id;
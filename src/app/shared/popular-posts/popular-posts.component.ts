@@ -17,7 +17,11 @@ import { Subject, takeUntil } from 'rxjs';
 
 import { BlogService } from '../../core/services/blog.service';
 import { BookmarkService } from '../../core/services/bookmark.service';
+import { I18nService } from '../../core/services/i18n.service';
+import { LocaleService } from '../../core/services/locale.service';
+import { postPath } from '../../core/i18n/locales';
 import { BlogPost } from '../../core/models/blog.interface';
+import { LocaleNumberPipe, TranslatePipe } from '../../core/pipes/i18n.pipes';
 
 interface PopularPostsConfig {
   title: string;
@@ -36,7 +40,7 @@ interface PopularPostsConfig {
 @Component({
   selector: 'app-popular-posts',
   standalone: true,
-  imports: [CommonModule, RouterLink],
+  imports: [CommonModule, RouterLink, TranslatePipe, LocaleNumberPipe],
   templateUrl: './popular-posts.component.html',
   styleUrls: ['./popular-posts.component.css'],
   changeDetection: ChangeDetectionStrategy.OnPush,
@@ -44,6 +48,8 @@ interface PopularPostsConfig {
 export class PopularPostsComponent implements OnInit, OnDestroy {
   private blogService = inject(BlogService);
   private bookmarkService = inject(BookmarkService);
+  private i18n = inject(I18nService);
+  private localeService = inject(LocaleService);
   private platformId = inject(PLATFORM_ID);
 
   // Inputs
@@ -133,6 +139,8 @@ export class PopularPostsComponent implements OnInit, OnDestroy {
   // Bookmarks
   readonly bookmarkIds = computed(() => this.bookmarkService.bookmarkIds());
 
+  readonly blogUrl = computed(() => this.localeService.localize('/blog'));
+
   private isBrowser: boolean;
   private destroy$ = new Subject<void>();
 
@@ -158,15 +166,9 @@ export class PopularPostsComponent implements OnInit, OnDestroy {
 
     const config = this.finalConfig();
 
-    // En una implementación real, esto haría una llamada al BlogService
-    // con los parámetros de configuración
+    // Pedir algunos extra por si necesitamos filtrar
     this.blogService
-      .getPopularPosts({
-        sortBy: config.sortBy,
-        timeframe: config.timeframe,
-        limit: config.limit + 5, // Pedir algunos extra por si necesitamos filtrar
-        categories: config.categories,
-      })
+      .getPopularPosts(config.limit + 5)
       .pipe(takeUntil(this.destroy$))
       .subscribe({
         next: (posts) => {
@@ -188,6 +190,13 @@ export class PopularPostsComponent implements OnInit, OnDestroy {
     this.postClick.emit(post);
   }
 
+  /**
+   * Obtiene la URL de un post
+   */
+  getPostUrl(post: BlogPost): string {
+    return postPath(post);
+  }
+
   /**
    * Maneja el toggle de bookmark
    */
@@ -204,48 +213,10 @@ export class PopularPostsComponent implements OnInit, OnDestroy {
   }
 
   /**
-   * Formatea el número de vistas
-   */
-  formatViews(views: number): string {
-    if (views >= 1000000) {
-      return `${(views / 1000000).toFixed(1)}M`;
-    } else if (views >= 1000) {
-      return `${(views / 1000).toFixed(1)}K`;
-    }
-    return views.toString();
-  }
-
-  /**
-   * Formatea la fecha relativa
+   * Fecha relativa (solo en el navegador: depende de la hora actual)
    */
   formatRelativeDate(date: Date): string {
-    if (!this.isBrowser) return '';
-
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
-
-    if (diffDays === 0) {
-      const diffHours = Math.floor(diffMs / (1000 * 60 * 60));
-      if (diffHours === 0) {
-        const diffMinutes = Math.floor(diffMs / (1000 * 60));
-        return `hace ${diffMinutes} min`;
-      }
-      return `hace ${diffHours}h`;
-    } else if (diffDays === 1) {
-      return 'ayer';
-    } else if (diffDays < 7) {
-      return `hace ${diffDays} días`;
-    } else if (diffDays < 30) {
-      const diffWeeks = Math.floor(diffDays / 7);
-      return `hace ${diffWeeks} semana${diffWeeks > 1 ? 's' : ''}`;
-    } else if (diffDays < 365) {
-      const diffMonths = Math.floor(diffDays / 30);
-      return `hace ${diffMonths} mes${diffMonths > 1 ? 'es' : ''}`;
-    } else {
-      const diffYears = Math.floor(diffDays / 365);
-      return `hace ${diffYears} año${diffYears > 1 ? 's' : ''}`;
-    }
+    return this.isBrowser ? this.i18n.formatRelative(date) : '';
   }
 
   /**
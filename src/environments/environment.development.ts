@@ -3,4 +3,6 @@ export const environment = {
   urlDominioApi: 'http://localhost:8000',
   urlRaiz: 'http://localhost:8000/api',
   apiUrl: 'http://localhost:8000/api',
+  // Fuente de datos del blog: 'mock' (datos locales) o 'http' (API)
+  blogDataSource: 'mock' as 'mock' | 'http',
 };
@@ -0,0 +1,8 @@
+export const environment = {
+  production: false,
+  urlDominioApi: 'http://localhost:4000',
+  urlRaiz: 'http://localhost:4000/api',
+  apiUrl: 'http://localhost:4000/api',
+  // API de contenido local servida por server.ts (ver server/api)
+  blogDataSource: 'http' as 'mock' | 'http',
+};